@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { useAuth } from '@/lib/auth-context'
+import AdminUsersPanel from '@/components/AdminUsersPanel'
+import AdminModelsPanel from '@/components/AdminModelsPanel'
+import AdminLoginAuditPanel from '@/components/AdminLoginAuditPanel'
+import AdminToolsPanel from '@/components/AdminToolsPanel'
+
+type Tab = 'users' | 'models' | 'tools' | 'logins'
+
+export default function AdminPage() {
+  const [tab, setTab] = useState<Tab>('users')
+  const { isLoggedIn, isAdmin } = useAuth()
+  const { t } = useTranslation()
+
+  const tabs: { id: Tab, label: string }[] = [
+    { id: 'users', label: t('admin.users') },
+    { id: 'models', label: t('admin.models') },
+    { id: 'tools', label: t('admin.tools') },
+    { id: 'logins', label: t('admin.loginAudit') }
+  ]
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-6xl mx-auto px-4 py-3 flex items-center gap-4">
+          <Link
+            href="/"
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label={t('auth.backToChat')}
+          >
+            <ArrowLeft size={20} className="text-gray-600 dark:text-gray-400" />
+          </Link>
+          <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{t('admin.console')}</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-6">
+        {!isLoggedIn || !isAdmin ? (
+          <p className="text-gray-700 dark:text-gray-300">{t('admin.notAuthorized')}</p>
+        ) : (
+          <>
+            <div className="flex gap-1 mb-6 border-b border-gray-200 dark:border-gray-700">
+              {tabs.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                    tab === id
+                      ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                      : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'users' && <AdminUsersPanel />}
+            {tab === 'models' && <AdminModelsPanel />}
+            {tab === 'tools' && <AdminToolsPanel />}
+            {tab === 'logins' && <AdminLoginAuditPanel />}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { listLoginAttempts, getUsernameThrottle, unlockUsername } from '@/lib/login-throttle'
+
+// GET /api/admin/lockouts - Recent failed logins, optionally for one username with its current lock
+export const GET = withAdmin(async (request) => {
+  try {
+    const { searchParams } = request.nextUrl
+    const username = searchParams.get('username') || undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500)
+
+    const attempts = await listLoginAttempts({ username, limit })
+    const throttle = username ? await getUsernameThrottle(username) : null
+
+    return NextResponse.json({
+      success: true,
+      attempts,
+      lock: throttle ? {
+        failures: throttle.failures,
+        lockedUntil: throttle.lockedUntil && throttle.lockedUntil > Date.now() ? new Date(throttle.lockedUntil).toISOString() : null
+      } : null
+    })
+
+  } catch (error) {
+    console.error('Error fetching login attempts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch login attempts' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/admin/lockouts?username=... - Lift the lockout of a username
+export const DELETE = withAdmin(async (request, session) => {
+  try {
+    const username = request.nextUrl.searchParams.get('username')
+    if (!username) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 })
+    }
+
+    await unlockUsername(username)
+    console.log(`Admin ${session.username} unlocked logins for ${username}`)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error unlocking username:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlock username' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { getModelRegistry, getModelConfig, getDisabledModelIds, setModelEnabled, toClientModel } from '@/lib/models'
+
+// GET /api/admin/models - All configured models and whether users can choose them
+export const GET = withAdmin(async () => {
+  try {
+    const registry = getModelRegistry()
+    const disabled = await getDisabledModelIds()
+
+    return NextResponse.json({
+      success: true,
+      models: registry.models.map(model => ({
+        ...toClientModel(model),
+        enabled: !disabled.includes(model.id)
+      })),
+      defaultModel: registry.defaultModel,
+      titleModel: registry.titleModel
+    })
+
+  } catch (error) {
+    console.error('Error fetching models:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch models' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH /api/admin/models - Enable or disable a model
+export const PATCH = withAdmin(async (request, session) => {
+  try {
+    const { id, enabled } = await request.json()
+
+    if (!id || typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'Model ID and enabled are required' }, { status: 400 })
+    }
+    if (!getModelConfig(id)) {
+      return NextResponse.json({ error: `Unknown model: ${id}` }, { status: 404 })
+    }
+
+    // At least one model has to stay available for chatting
+    const disabled = await getDisabledModelIds()
+    const remaining = getModelRegistry().models.filter(model => model.id !== id && !disabled.includes(model.id))
+    if (!enabled && remaining.length === 0) {
+      return NextResponse.json({ error: 'At least one model must stay enabled' }, { status: 400 })
+    }
+
+    const success = await setModelEnabled(id, enabled, session.username)
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to update model' }, { status: 500 })
+    }
+
+    console.log(`Admin ${session.username} ${enabled ? 'enabled' : 'disabled'} model ${id}`)
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error updating model:', error)
+    return NextResponse.json(
+      { error: 'Failed to update model' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { listToolInvocations } from '@/lib/tool-permissions'
+
+// GET /api/admin/tool-invocations - Recent tool calls, optionally of one username or tool
+export const GET = withAdmin(async (request) => {
+  try {
+    const { searchParams } = request.nextUrl
+    const username = searchParams.get('username') || undefined
+    const tool = searchParams.get('tool') || undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500)
+
+    const invocations = await listToolInvocations({ username, tool, limit })
+
+    return NextResponse.json({ success: true, invocations })
+
+  } catch (error) {
+    console.error('Error fetching tool invocations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tool invocations' },
+      { status: 500 }
+    )
+  }
+})
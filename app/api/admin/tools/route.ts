@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { getMCPTools, ensureMCPClients } from '@/lib/mcp-client'
+import { getToolPolicies, setToolPolicies, validateToolPolicies } from '@/lib/tool-permissions'
+
+// GET /api/admin/tools - The tool policies and the MCP tools they can name
+export const GET = withAdmin(async () => {
+  try {
+    let tools = getMCPTools()
+    try {
+      tools = await ensureMCPClients()
+    } catch (mcpError) {
+      console.warn('Failed to load MCP tools:', mcpError)
+    }
+
+    return NextResponse.json({
+      success: true,
+      policies: await getToolPolicies(),
+      tools: tools.map(tool => ({
+        name: tool.namespacedName,
+        server: tool.server,
+        tool: tool.name,
+        description: tool.description
+      }))
+    })
+
+  } catch (error) {
+    console.error('Error fetching tool policies:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tool policies' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/admin/tools - Replace the tool policies
+export const PUT = withAdmin(async (request, session) => {
+  try {
+    const validation = validateToolPolicies(await request.json())
+    if ('error' in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 })
+    }
+
+    const success = await setToolPolicies(validation.policies, session.username)
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to update tool policies' }, { status: 500 })
+    }
+
+    console.log(`Admin ${session.username} updated tool policies: default ${validation.policies.defaultAction}, ${validation.policies.rules.length} rules`)
+    return NextResponse.json({ success: true, policies: validation.policies })
+
+  } catch (error) {
+    console.error('Error updating tool policies:', error)
+    return NextResponse.json(
+      { error: 'Failed to update tool policies' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { getUserById, updatePassword } from '@/lib/nocodb'
+import { isStrongPassword, sendPasswordResetEmail, PASSWORD_REQUIREMENTS } from '@/lib/account'
+import { revokeUserSessions } from '@/lib/sessions'
+import { unlockUsername } from '@/lib/login-throttle'
+import { isSsoUser } from '@/lib/oidc'
+
+// POST /api/admin/users/[id]/reset-password - Set a new password, or email the user a reset link
+// when no password is given. Either way the user is logged out and any login lockout is lifted
+export const POST = withAdmin<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { id } = await params
+    const userId = parseInt(id)
+    const { password } = await request.json().catch(() => ({}))
+
+    const user = await getUserById(String(userId))
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (isSsoUser(user)) {
+      return NextResponse.json(
+        { error: 'This user signs in with single sign-on and has no password here' },
+        { status: 400 }
+      )
+    }
+
+    if (password) {
+      if (!isStrongPassword(password)) {
+        return NextResponse.json({ error: PASSWORD_REQUIREMENTS }, { status: 400 })
+      }
+      const success = await updatePassword(String(userId), password)
+      if (!success) {
+        return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 })
+      }
+      await revokeUserSessions(userId)
+    } else {
+      if (!user.email) {
+        return NextResponse.json(
+          { error: 'The user has no email address, set a new password instead' },
+          { status: 400 }
+        )
+      }
+      await sendPasswordResetEmail(user)
+    }
+
+    await unlockUsername(user.username)
+    console.log(`Admin ${session.username} reset the password of ${user.username}${password ? '' : ' by email'}`)
+
+    return NextResponse.json({ success: true, emailed: !password })
+
+  } catch (error) {
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server'
+import { withAdmin, isOwner } from '@/lib/auth'
+import { getUserById, updateUser, deleteUser, User } from '@/lib/nocodb'
+import { isValidEmail } from '@/lib/account'
+import { revokeUserSessions } from '@/lib/sessions'
+import { toAdminUser } from '@/lib/admin'
+
+// PATCH /api/admin/users/[id] - Update a user's profile, admin flag or disabled state
+export const PATCH = withAdmin<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { id } = await params
+    const userId = parseInt(id)
+    const { email, firstName, lastName, isAdmin, disabled } = await request.json()
+
+    const user = await getUserById(String(userId))
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Admins can't lock themselves out of the console
+    if (isOwner(userId, session) && (disabled === true || isAdmin === false)) {
+      return NextResponse.json(
+        { error: 'You can not disable or remove admin rights from your own account' },
+        { status: 400 }
+      )
+    }
+
+    if (email !== undefined && email !== '' && !isValidEmail(email)) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 })
+    }
+
+    const updates: Partial<User> = {}
+    if (email !== undefined) updates.email = email
+    if (firstName !== undefined) updates.first_name = firstName
+    if (lastName !== undefined) updates.last_name = lastName
+    if (isAdmin !== undefined) updates.is_admin = Boolean(isAdmin)
+    if (disabled !== undefined) updates.disabled = Boolean(disabled)
+
+    const updatedUser = await updateUser(String(userId), updates)
+    if (!updatedUser) {
+      return NextResponse.json({ error: 'Failed to update user' }, { status: 500 })
+    }
+
+    // Disabling or changing rights takes effect at once: the user has to log in again
+    if (updates.disabled === true || (updates.is_admin !== undefined && updates.is_admin !== Boolean(user.is_admin))) {
+      await revokeUserSessions(userId)
+    }
+
+    console.log(`Admin ${session.username} updated user ${user.username}:`, Object.keys(updates).join(', '))
+    return NextResponse.json({ success: true, user: toAdminUser({ ...user, ...updates }) })
+
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/admin/users/[id] - Delete a user
+export const DELETE = withAdmin<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { id } = await params
+    const userId = parseInt(id)
+
+    if (isOwner(userId, session)) {
+      return NextResponse.json({ error: 'You can not delete your own account' }, { status: 400 })
+    }
+
+    const user = await getUserById(String(userId))
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    await revokeUserSessions(userId)
+    const success = await deleteUser(String(userId))
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to delete user' }, { status: 500 })
+    }
+
+    console.log(`Admin ${session.username} deleted user ${user.username}`)
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error deleting user:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete user' },
+      { status: 500 }
+    )
+  }
+})
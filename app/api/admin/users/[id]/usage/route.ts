@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { getUserById } from '@/lib/nocodb'
+import { getUserUsageSummary } from '@/lib/admin'
+
+// GET /api/admin/users/[id]/usage - What a user has stored and when they were last active
+export const GET = withAdmin<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { id } = await params
+    const userId = parseInt(id)
+
+    const user = await getUserById(String(userId))
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const usage = await getUserUsageSummary(userId)
+    return NextResponse.json({ success: true, usage })
+
+  } catch (error) {
+    console.error('Error fetching user usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/auth'
+import { getUsers, getUserByUsername, getUserByEmail, createUser } from '@/lib/nocodb'
+import { isStrongPassword, isValidEmail, PASSWORD_REQUIREMENTS } from '@/lib/account'
+import { toAdminUser } from '@/lib/admin'
+
+// GET /api/admin/users - List all users
+export const GET = withAdmin(async () => {
+  try {
+    const users = await getUsers()
+    return NextResponse.json({ success: true, users: users.map(toAdminUser) })
+
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/admin/users - Create a user
+export const POST = withAdmin(async (request, session) => {
+  try {
+    const { username, password, email, firstName, lastName, language, isAdmin } = await request.json()
+
+    if (!username || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isStrongPassword(password)) {
+      return NextResponse.json({ error: PASSWORD_REQUIREMENTS }, { status: 400 })
+    }
+
+    if (email && !isValidEmail(email)) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 })
+    }
+
+    if (await getUserByUsername(username)) {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 409 })
+    }
+    if (email && await getUserByEmail(email)) {
+      return NextResponse.json({ error: 'An account with this email address already exists' }, { status: 409 })
+    }
+
+    // Accounts made by an admin don't need their email address verified
+    const user = await createUser({
+      username,
+      password,
+      email,
+      first_name: firstName,
+      last_name: lastName,
+      language: ['sv', 'en', 'uk'].includes(language) ? language : undefined,
+      is_admin: Boolean(isAdmin),
+      email_verified: true
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'Failed to create user' }, { status: 500 })
+    }
+
+    console.log(`Admin ${session.username} created user ${username}${isAdmin ? ' as admin' : ''}`)
+    return NextResponse.json({ success: true, user: toAdminUser(user) })
+
+  } catch (error) {
+    console.error('Error creating user:', error)
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    )
+  }
+})
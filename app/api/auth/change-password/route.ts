@@ -1,41 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getUserByUsername, verifyPassword, updatePassword } from '@/lib/nocodb'
-import jwt from 'jsonwebtoken'
+import { NextResponse } from 'next/server'
+import { getUserById, verifyPassword, updatePassword } from '@/lib/nocodb'
+import { withAuth, endOtherSessions } from '@/lib/auth'
+import { isStrongPassword, PASSWORD_REQUIREMENTS } from '@/lib/account'
 
-const JWT_SECRET = process.env.JWT_SECRET
-
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
-    // Check if JWT_SECRET is configured
-    if (!JWT_SECRET) {
-      console.error('JWT_SECRET not configured')
-      return NextResponse.json(
-        { error: 'Server configuration error' },
-        { status: 500 }
-      )
-    }
-
-    // Get the authorization header
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Authorization required' },
-        { status: 401 }
-      )
-    }
-
-    // Verify the JWT token
-    const token = authHeader.slice(7)
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, JWT_SECRET)
-    } catch (error) {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
-      )
-    }
-
     const { currentPassword, newPassword } = await request.json()
 
     // Validate inputs
@@ -47,17 +16,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate new password strength
-    const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/
-    if (!passwordRegex.test(newPassword)) {
+    if (!isStrongPassword(newPassword)) {
       return NextResponse.json(
-        { error: 'Password must be at least 8 characters with one uppercase letter, one lowercase letter, and one number' },
+        { error: PASSWORD_REQUIREMENTS },
         { status: 400 }
       )
     }
 
     // Verify current password
-    const username = decoded.username
-    const isValidPassword = await verifyPassword(username, currentPassword)
+    const userId = String(session.userId)
+    const user = await getUserById(userId)
+    const isValidPassword = user ? await verifyPassword(user, currentPassword) : false
     
     if (!isValidPassword) {
       return NextResponse.json(
@@ -67,7 +36,6 @@ export async function POST(request: NextRequest) {
     }
 
     // Update password
-    const userId = decoded.userId
     const success = await updatePassword(userId, newPassword)
     
     if (!success) {
@@ -77,6 +45,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Sessions on other devices may have been started by whoever knew the old password
+    await endOtherSessions(session)
+
     return NextResponse.json({ success: true })
 
   } catch (error) {
@@ -86,4 +57,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
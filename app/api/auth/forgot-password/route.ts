@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserByEmail } from '@/lib/nocodb'
+import { sendPasswordResetEmail, isValidEmail } from '@/lib/account'
+import { isSsoUser } from '@/lib/oidc'
+import { getClientIp, checkPasswordResetAllowed } from '@/lib/login-throttle'
+
+// POST /api/auth/forgot-password - Email a password reset link
+// Always answers with success, even when the email can't be sent, so it can't be used to find out
+// which accounts exist. Requests are limited per email address and IP address
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json()
+    if (!email || !isValidEmail(email)) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 })
+    }
+
+    const throttle = await checkPasswordResetAllowed(email, getClientIp(request))
+    if (!throttle.allowed) {
+      return NextResponse.json(
+        { error: 'Too many password reset requests, try again later', code: 'too_many_attempts', retryAfter: throttle.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } }
+      )
+    }
+
+    const user = await getUserByEmail(email)
+    if (user && isSsoUser(user)) {
+      // Their password is managed by the SSO provider
+      console.log(`Password reset requested for SSO user ${user.username}, ignoring`)
+    } else if (user) {
+      try {
+        await sendPasswordResetEmail(user)
+      } catch (mailError) {
+        console.error(`Failed to send password reset email to user ${user.username}:`, mailError)
+      }
+    } else {
+      console.log('Password reset requested for unknown email address')
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Forgot password error:', error)
+    return NextResponse.json(
+      { error: 'Failed to send password reset email' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,20 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getUserByUsername, verifyPassword } from '@/lib/nocodb'
-import jwt from 'jsonwebtoken'
-
-const JWT_SECRET = process.env.JWT_SECRET
+import { getUserByUsername, verifyPassword, toClientUser } from '@/lib/nocodb'
+import { startSession, setSessionCookies } from '@/lib/auth'
+import {
+  getClientIp,
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  auditLoginAttempt
+} from '@/lib/login-throttle'
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if JWT_SECRET is configured
-    if (!JWT_SECRET) {
-      console.error('JWT_SECRET not configured')
-      return NextResponse.json(
-        { error: 'Server configuration error' },
-        { status: 500 }
-      )
-    }
-
     const { username, password } = await request.json()
 
     if (!username || !password) {
@@ -24,56 +20,82 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const ipAddress = getClientIp(request)
+    const userAgent = request.headers.get('user-agent') || undefined
+
+    // Refuse attempts while the username or address is backing off or locked, before the password is checked
+    const throttle = await checkLoginAllowed(username, ipAddress)
+    if (!throttle.allowed) {
+      await auditLoginAttempt({ username, ipAddress, userAgent, reason: 'throttled' })
+      return NextResponse.json(
+        {
+          error: throttle.code === 'account_locked'
+            ? 'Too many failed login attempts, the account is temporarily locked'
+            : 'Too many login attempts, try again later',
+          code: throttle.code,
+          retryAfter: throttle.retryAfterSeconds
+        },
+        { status: 429, headers: { 'Retry-After': String(throttle.retryAfterSeconds) } }
+      )
+    }
+
     // Check if user exists and verify password
     const user = await getUserByUsername(username)
     
     if (!user) {
+      await recordLoginFailure({ username, ipAddress, userAgent, reason: 'unknown_user' })
       return NextResponse.json(
         { error: 'Invalid username or password' },
         { status: 401 }
       )
     }
 
-    const isValidPassword = await verifyPassword(username, password)
+    const isValidPassword = await verifyPassword(user, password)
     
     if (!isValidPassword) {
+      await recordLoginFailure({ username, ipAddress, userAgent, reason: 'wrong_password' })
       return NextResponse.json(
         { error: 'Invalid username or password' },
         { status: 401 }
       )
     }
 
-    // Get user ID
-    const userId = (user as any).Id || user.id
+    await recordLoginSuccess(username)
 
-    // Create JWT token
-    const token = jwt.sign(
-      { 
-        userId: userId,
-        username: user.username,
-        email: user.email 
-      },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    )
+    if (user.disabled) {
+      return NextResponse.json(
+        { error: 'Account is disabled', code: 'account_disabled' },
+        { status: 403 }
+      )
+    }
+
+    // Self-registered users must verify their email address first
+    if (user.email_verified === false) {
+      await auditLoginAttempt({ username, ipAddress, userAgent, reason: 'email_not_verified' })
+      return NextResponse.json(
+        { error: 'Email address not verified', code: 'email_not_verified' },
+        { status: 403 }
+      )
+    }
+
+    // Start a session, its tokens are sent as HttpOnly cookies
+    const started = await startSession(user, userAgent)
+    if (!started) {
+      return NextResponse.json(
+        { error: 'Failed to start session' },
+        { status: 500 }
+      )
+    }
 
-    // Return user info and token
+    // Return user info
     const responseData = {
       success: true,
-      user: {
-        id: userId,
-        username: user.username,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        systemPrompt: user.system_prompt,
-        theme: user.theme,
-        language: user.language || 'sv'
-      },
-      token
+      user: toClientUser(user)
     }
     
-    return NextResponse.json(responseData)
+    const response = NextResponse.json(responseData)
+    setSessionCookies(response, started.tokens)
+    return response
 
   } catch (error) {
     console.error('Login error:', error)
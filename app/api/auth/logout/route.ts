@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { endSession, clearSessionCookies } from '@/lib/auth'
+
+// End the current session, or with { everywhere: true } all sessions of the user
+export async function POST(request: NextRequest) {
+  let everywhere = false
+  try {
+    const body = await request.json()
+    everywhere = body?.everywhere === true
+  } catch {
+    // A body is optional
+  }
+
+  try {
+    const ended = await endSession(request, everywhere)
+    console.log(`Logout${everywhere ? ' everywhere' : ''}:`, ended ? 'session ended' : 'no active session')
+
+    const response = NextResponse.json({ success: true })
+    clearSessionCookies(response)
+    return response
+
+  } catch (error) {
+    console.error('Logout error:', error)
+    const response = NextResponse.json(
+      { error: 'Failed to end session' },
+      { status: 500 }
+    )
+    clearSessionCookies(response)
+    return response
+  }
+}
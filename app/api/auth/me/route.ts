@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getUserById, toClientUser } from '@/lib/nocodb'
+import { withAuth } from '@/lib/auth'
+
+// Get the logged in user, used to restore the session when the app loads
+export const GET = withAuth(async (request, session) => {
+  try {
+    const user = await getUserById(String(session.userId))
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: toClientUser(user)
+    })
+
+  } catch (error) {
+    console.error('Get current user error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get user' },
+      { status: 500 }
+    )
+  }
+})
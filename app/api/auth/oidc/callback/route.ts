@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleCallback, provisionUser, OIDC_FLOW_COOKIE, OidcError } from '@/lib/oidc'
+import { startSession, setSessionCookies } from '@/lib/auth'
+import { getRegistrationConfig } from '@/lib/env-validation'
+
+// GET /api/auth/oidc/callback - The SSO provider sends the browser back here with a code
+export async function GET(request: NextRequest) {
+  const { appUrl } = getRegistrationConfig()
+
+  try {
+    const { claims, returnTo } = await handleCallback(
+      request.nextUrl.searchParams,
+      request.cookies.get(OIDC_FLOW_COOKIE)?.value
+    )
+
+    // Users are created on their first login
+    const user = await provisionUser(claims)
+
+    const started = await startSession(user, request.headers.get('user-agent') || undefined)
+    if (!started) {
+      throw new OidcError('provisioning_failed', 'Failed to start session')
+    }
+    console.log(`SSO login for user ${user.username}`)
+
+    const response = NextResponse.redirect(`${appUrl}${returnTo}`)
+    setSessionCookies(response, started.tokens)
+    response.cookies.set(OIDC_FLOW_COOKIE, '', { httpOnly: true, path: '/api/auth/oidc', maxAge: 0 })
+    return response
+
+  } catch (error) {
+    console.error('SSO callback error:', error)
+    const code = error instanceof OidcError ? error.code : 'provider_error'
+    const response = NextResponse.redirect(`${appUrl}/?sso_error=${code}`)
+    response.cookies.set(OIDC_FLOW_COOKIE, '', { httpOnly: true, path: '/api/auth/oidc', maxAge: 0 })
+    return response
+  }
+}
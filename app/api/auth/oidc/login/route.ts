@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthorizationRequest, OIDC_FLOW_COOKIE, OIDC_FLOW_LIFETIME_SECONDS, OidcError } from '@/lib/oidc'
+import { getSessionConfig, getRegistrationConfig } from '@/lib/env-validation'
+
+// GET /api/auth/oidc/login - Redirect the browser to the SSO provider
+export async function GET(request: NextRequest) {
+  try {
+    const returnTo = request.nextUrl.searchParams.get('returnTo') || '/'
+    const { url, flowCookie } = await createAuthorizationRequest(returnTo)
+
+    // The state must survive the round trip through the provider, which is a top-level navigation
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_FLOW_COOKIE, flowCookie, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: getSessionConfig().secureCookies,
+      path: '/api/auth/oidc',
+      maxAge: OIDC_FLOW_LIFETIME_SECONDS
+    })
+    return response
+
+  } catch (error) {
+    console.error('SSO login error:', error)
+    const code = error instanceof OidcError ? error.code : 'provider_error'
+    return NextResponse.redirect(`${getRegistrationConfig().appUrl}/?sso_error=${code}`)
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { getOidcConfig } from '@/lib/env-validation'
+
+// GET /api/auth/oidc - Whether single sign-on is available, so the login form can offer it
+export async function GET() {
+  const { enabled, buttonLabel } = getOidcConfig()
+  return NextResponse.json({ success: true, enabled, label: buttonLabel })
+}
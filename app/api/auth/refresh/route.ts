@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshSession, setSessionCookies, clearSessionCookies, REFRESH_TOKEN_COOKIE } from '@/lib/auth'
+
+// Exchange the refresh token cookie for a new access token, rotating the refresh token
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+    if (!refreshToken) {
+      return NextResponse.json({ error: 'No session', code: 'unauthorized' }, { status: 401 })
+    }
+
+    const refreshed = await refreshSession(refreshToken)
+    if (!refreshed) {
+      const response = NextResponse.json({ error: 'Session has ended', code: 'session_revoked' }, { status: 401 })
+      clearSessionCookies(response)
+      return response
+    }
+
+    const response = NextResponse.json({ success: true })
+    setSessionCookies(response, refreshed.tokens)
+    return response
+
+  } catch (error) {
+    console.error('Refresh session error:', error)
+    return NextResponse.json(
+      { error: 'Failed to refresh session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserByUsername, getUserByEmail, createUser } from '@/lib/nocodb'
+import {
+  checkRegistrationAllowed,
+  markAccountTokenUsed,
+  sendVerificationEmail,
+  isStrongPassword,
+  isValidEmail,
+  PASSWORD_REQUIREMENTS
+} from '@/lib/account'
+import { getRegistrationConfig } from '@/lib/env-validation'
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,50}$/
+
+// GET /api/auth/register - Registration mode, so the login form knows whether to offer sign up
+export async function GET() {
+  const { mode } = getRegistrationConfig()
+  return NextResponse.json({ success: true, mode })
+}
+
+// POST /api/auth/register - Create an account
+export async function POST(request: NextRequest) {
+  try {
+    const { username, email, password, firstName, lastName, inviteToken, language } = await request.json()
+
+    if (!username || !email || !password) {
+      return NextResponse.json(
+        { error: 'Username, email and password are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!USERNAME_PATTERN.test(username)) {
+      return NextResponse.json(
+        { error: 'Username must be 3-50 characters of letters, numbers, dots, dashes or underscores' },
+        { status: 400 }
+      )
+    }
+
+    if (!isValidEmail(email)) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 })
+    }
+
+    if (!isStrongPassword(password)) {
+      return NextResponse.json({ error: PASSWORD_REQUIREMENTS }, { status: 400 })
+    }
+
+    // Open, invite-only or limited to some email domains
+    const policy = await checkRegistrationAllowed(email, inviteToken)
+    if (!policy.allowed) {
+      return NextResponse.json({ error: policy.error }, { status: 403 })
+    }
+
+    if (await getUserByUsername(username)) {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 409 })
+    }
+    if (await getUserByEmail(email)) {
+      return NextResponse.json({ error: 'An account with this email address already exists' }, { status: 409 })
+    }
+
+    const { requireEmailVerification } = getRegistrationConfig()
+    const user = await createUser({
+      username,
+      password,
+      email,
+      first_name: firstName,
+      last_name: lastName,
+      language: ['sv', 'en', 'uk'].includes(language) ? language : undefined,
+      email_verified: !requireEmailVerification
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'Failed to create account' }, { status: 500 })
+    }
+
+    if (policy.invite) {
+      await markAccountTokenUsed(policy.invite)
+    }
+    console.log(`Registered user ${username}${policy.invite ? ' with invitation' : ''}`)
+
+    // The account exists even if the mail fails, the user can ask for a new link
+    if (requireEmailVerification) {
+      try {
+        await sendVerificationEmail(user)
+      } catch (mailError) {
+        console.error('Failed to send verification email:', mailError)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      verificationRequired: requireEmailVerification
+    })
+
+  } catch (error) {
+    console.error('Registration error:', error)
+    return NextResponse.json(
+      { error: 'Registration failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserByUsername } from '@/lib/nocodb'
+import { sendVerificationEmail } from '@/lib/account'
+
+// POST /api/auth/resend-verification - Send a new verification link
+// Always answers with success so it can't be used to find out which accounts exist
+export async function POST(request: NextRequest) {
+  try {
+    const { username } = await request.json()
+    if (!username) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 })
+    }
+
+    const user = await getUserByUsername(username)
+    if (user && user.email && user.email_verified === false) {
+      await sendVerificationEmail(user)
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Resend verification error:', error)
+    return NextResponse.json(
+      { error: 'Failed to send verification email' },
+      { status: 500 }
+    )
+  }
+}
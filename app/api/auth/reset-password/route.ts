@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserById, updatePassword, updateUser } from '@/lib/nocodb'
+import { verifyAccountToken, markAccountTokenUsed, isStrongPassword, PASSWORD_REQUIREMENTS } from '@/lib/account'
+import { revokeUserSessions } from '@/lib/sessions'
+import { isSsoUser } from '@/lib/oidc'
+
+// POST /api/auth/reset-password - Set a new password with the token from the reset link
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json()
+    if (!token || !password) {
+      return NextResponse.json({ error: 'Token and password are required' }, { status: 400 })
+    }
+
+    if (!isStrongPassword(password)) {
+      return NextResponse.json({ error: PASSWORD_REQUIREMENTS }, { status: 400 })
+    }
+
+    // The token is only used up once the new password is valid
+    const { claims, error } = await verifyAccountToken(token, 'reset_password')
+    if (!claims || !claims.userId) {
+      return NextResponse.json({ error: 'Invalid reset link', code: error }, { status: 400 })
+    }
+
+    const user = await getUserById(String(claims.userId))
+    if (!user || user.email !== claims.email || isSsoUser(user)) {
+      return NextResponse.json({ error: 'Invalid reset link', code: 'invalid_token' }, { status: 400 })
+    }
+
+    await markAccountTokenUsed(claims)
+    const success = await updatePassword(String(claims.userId), password)
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 })
+    }
+
+    // The link was sent to the user's address, so following it also proves the address
+    if (user.email_verified === false) {
+      await updateUser(String(claims.userId), { email_verified: true })
+    }
+
+    // Whoever knew the old password is logged out everywhere
+    await revokeUserSessions(claims.userId)
+    console.log(`Password reset for user ${user.username}`)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Reset password error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+}
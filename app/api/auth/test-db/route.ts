@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getUsers, createUser } from '@/lib/nocodb'
+import { withAuth } from '@/lib/auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request) => {
   try {
     // Test fetching users
     const users = await getUsers()
@@ -19,9 +20,9 @@ export async function GET(request: NextRequest) {
       error: 'Failed to connect to database'
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request) => {
   try {
     // Create a test user (you can delete this later)
     const testUser = await createUser({
@@ -44,4 +45,4 @@ export async function POST(request: NextRequest) {
       error: 'Failed to create user'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,26 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
-import jwt from 'jsonwebtoken'
+import { NextResponse } from 'next/server'
 import { updateUser } from '@/lib/nocodb'
-import { getJWTSecret } from '@/lib/env-validation'
+import { withAuth } from '@/lib/auth'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
-    const authHeader = request.headers.get('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const token = authHeader.split(' ')[1]
-    
-    // Verify token
-    let decoded: any
-    try {
-      const jwtSecret = getJWTSecret()
-      decoded = jwt.verify(token, jwtSecret)
-    } catch (error) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
-
     const { userId, language } = await request.json()
 
     if (!userId || !language) {
@@ -34,8 +17,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Ensure the user is updating their own profile
-    if (String(decoded.userId) !== String(userId)) {
-      return NextResponse.json({ error: 'Unauthorized - User ID mismatch' }, { status: 401 })
+    if (String(session.userId) !== String(userId)) {
+      return NextResponse.json({ error: 'Forbidden - User ID mismatch' }, { status: 403 })
     }
 
     // Update user language using the existing nocodb helper
@@ -53,4 +36,4 @@ export async function POST(request: NextRequest) {
     console.error('Language update error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+})
@@ -1,30 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { updateUser } from '@/lib/nocodb'
-import jwt from 'jsonwebtoken'
-import { getJWTSecret } from '@/lib/env-validation'
+import { withAuth } from '@/lib/auth'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
     const { userId, systemPrompt } = await request.json()
     
-    // Verify the token from headers
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    const token = authHeader.substring(7)
-    
-    try {
-      const jwtSecret = getJWTSecret()
-      const decoded = jwt.verify(token, jwtSecret) as any
-      
-      // Ensure the user is updating their own system prompt
-      if (decoded.userId !== userId) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-      }
-    } catch (error) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
+    // Ensure the user is updating their own system prompt
+    if (String(session.userId) !== String(userId)) {
+      return NextResponse.json({ error: 'Forbidden - User ID mismatch' }, { status: 403 })
     }
     
     // Update system prompt in database
@@ -48,4 +32,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserById, updateUser } from '@/lib/nocodb'
+import { consumeAccountToken } from '@/lib/account'
+
+// POST /api/auth/verify-email - Mark an email address as verified with the token from the link
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json()
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 })
+    }
+
+    const { claims, error } = await consumeAccountToken(token, 'verify_email')
+    if (!claims || !claims.userId) {
+      return NextResponse.json({ error: 'Invalid verification link', code: error }, { status: 400 })
+    }
+
+    // The link is only valid for the address it was sent to
+    const user = await getUserById(String(claims.userId))
+    if (!user || user.email !== claims.email) {
+      return NextResponse.json({ error: 'Invalid verification link', code: 'invalid_token' }, { status: 400 })
+    }
+
+    const updatedUser = await updateUser(String(claims.userId), { email_verified: true })
+    if (!updatedUser) {
+      return NextResponse.json({ error: 'Failed to verify email address' }, { status: 500 })
+    }
+
+    console.log(`Verified email address of user ${user.username}`)
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Verify email error:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify email address' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { resolveToolApproval } from '@/lib/tool-approvals'
+
+// POST /api/chat/approvals/[id] - Approve or reject a tool call the chat is waiting on
+export const POST = withAuth<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { id } = await params
+    const { approved } = await request.json()
+
+    if (typeof approved !== 'boolean') {
+      return NextResponse.json({ error: 'approved is required' }, { status: 400 })
+    }
+
+    // Unknown, already decided, expired and other users' approvals all look the same
+    if (!resolveToolApproval(id, session.userId, approved)) {
+      return NextResponse.json({ error: 'Approval not found or no longer pending' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error deciding tool approval:', error)
+    return NextResponse.json(
+      { error: 'Failed to decide tool approval' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,29 +1,191 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import crypto from 'crypto'
 import OpenAI from 'openai'
-import jwt from 'jsonwebtoken'
-import { functions, executeFunction } from '@/lib/functions'
-import { getMCPTools, executeMCPTool, initializeMCPClient } from '@/lib/mcp-client'
-import { getBergetAIConfig, getJWTSecret } from '@/lib/env-validation'
-
-// Function to verify JWT token
-function verifyToken(authHeader: string | null): boolean {
-  if (!authHeader) return false
-  
-  try {
-    const JWT_SECRET = getJWTSecret()
-    if (!JWT_SECRET) return false
-    
-    const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader
-    jwt.verify(token, JWT_SECRET)
-    return true
-  } catch {
-    return false
+import { functions, executeFunction, FunctionContext, FunctionResult } from '@/lib/functions'
+import {
+  executeMCPTool,
+  ensureMCPClients,
+  isMCPToolName,
+  readMCPResource,
+  getMCPResources,
+  mcpContentToText,
+  getMCPImages,
+  MCPImage,
+  MCPContent
+} from '@/lib/mcp-client'
+import { getBergetAIConfig, getChatAgentConfig } from '@/lib/env-validation'
+import { getModelConfig, getDisabledModelIds, fitMessagesToContext, estimateMessageTokens } from '@/lib/models'
+import { Source } from '@/lib/types'
+import { withOptionalAuth, Session } from '@/lib/auth'
+import { checkUsageQuota, quotaExceededResponse, recordUsage } from '@/lib/usage'
+import { getToolPolicies, resolveToolAction, isMCPServerAllowed, recordToolInvocation, ToolDecision } from '@/lib/tool-permissions'
+import { requestToolApproval } from '@/lib/tool-approvals'
+import { filterOwnDocumentIds } from '@/lib/documents'
+
+interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+// A tool result, with the reason when the tool failed so that it can be logged and any images it returned.
+// raw is what the tool returned before it was formatted for the AI, for the tool inspector
+type ToolCallResult = FunctionResult & { error?: string, images?: MCPImage[], raw?: any, durationMs?: number, decision?: ToolDecision }
+
+// Text of attached MCP resources is cut off beyond this many characters in total
+const MAX_RESOURCE_CONTEXT_CHARS = 50000
+
+// Raw tool results are cut off beyond this many characters in the stream
+const MAX_TOOL_RESULT_CHARS = 20000
+
+// Images in the OpenAI vision format
+function toImageParts(images: MCPImage[]) {
+  return images.map(image => ({
+    type: 'image_url',
+    image_url: { url: `data:${image.mimeType};base64,${image.data}`, detail: 'high' }
+  }))
+}
+
+// Read the MCP resources attached to the chat. Text goes into the context; images are returned
+// separately so that vision models can look at them. Only resources the servers list can be attached,
+// and only from servers the tool policies don't deny the user
+async function loadMCPResourceContext(refs: { server: string, uri: string }[], session: Session): Promise<{ text: string, images: MCPImage[] }> {
+  await ensureMCPClients()
+  const policies = await getToolPolicies()
+  const available = getMCPResources().filter(resource => isMCPServerAllowed(policies, session, resource.server))
+
+  const sections: string[] = []
+  const images: MCPImage[] = []
+  for (const ref of refs) {
+    if (!available.some(resource => resource.server === ref?.server && resource.uri === ref?.uri)) {
+      console.warn('Ignoring unknown or denied MCP resource:', ref)
+      continue
+    }
+    try {
+      const contents = await readMCPResource(ref.server, ref.uri)
+      for (const content of contents) {
+        if (content.text !== undefined) {
+          sections.push(`Resource ${content.uri || ref.uri} from ${ref.server}:\n${content.text}`)
+        } else if (content.blob && content.mimeType?.startsWith('image/')) {
+          images.push({ mimeType: content.mimeType, data: content.blob })
+          sections.push(`Resource ${content.uri || ref.uri} from ${ref.server}: [Image: ${content.mimeType}]`)
+        } else {
+          sections.push(`Resource ${content.uri || ref.uri} from ${ref.server}: [Binary content: ${content.mimeType || 'unknown'}]`)
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to read MCP resource ${ref.uri} from ${ref.server}:`, error)
+      sections.push(`Resource ${ref.uri} from ${ref.server} could not be read.`)
+    }
+  }
+
+  let text = sections.join('\n\n')
+  if (text.length > MAX_RESOURCE_CONTEXT_CHARS) {
+    console.warn(`Attached MCP resources cut off at ${MAX_RESOURCE_CONTEXT_CHARS} characters`)
+    text = text.substring(0, MAX_RESOURCE_CONTEXT_CHARS) + '\n[...]'
+  }
+  return { text, images }
+}
+
+// The raw result of a tool call as shown in the tool inspector. Image and blob data is left out,
+// images are sent on their own
+function toInspectedResult(result: ToolCallResult): any {
+  const raw = Array.isArray(result.raw)
+    ? result.raw.map((part: MCPContent) => {
+        if (part.data) return { ...part, data: `[${part.data.length} base64 characters]` }
+        if (part.resource?.blob) return { ...part, resource: { ...part.resource, blob: `[${part.resource.blob.length} base64 characters]` } }
+        return part
+      })
+    : result.raw ?? result.content
+
+  const serialized = typeof raw === 'string' ? raw : JSON.stringify(raw)
+  if (serialized.length > MAX_TOOL_RESULT_CHARS) {
+    return serialized.substring(0, MAX_TOOL_RESULT_CHARS) + '\n[...]'
+  }
+  return raw
+}
+
+// Execute a single tool call (built-in function or MCP tool) and format the result for the AI
+async function executeToolCall(functionName: string, functionArgs: any, functionContext: FunctionContext): Promise<ToolCallResult> {
+  // Check if this is an MCP tool - mcp_<server>__<tool>, routed to its server by the MCP client
+  if (isMCPToolName(functionName)) {
+    try {
+      const mcpResult = await executeMCPTool({
+        name: functionName,
+        arguments: functionArgs
+      })
+      
+      // Format MCP result for the AI
+      if (mcpResult.isError) {
+        const error = mcpResult.content.map(mcpContentToText).join('\n')
+        return { content: `Error executing MCP tool: ${error}`, error, raw: mcpResult.content }
+      }
+      const content = mcpResult.content.map(mcpContentToText).join('\n')
+      return { content, images: getMCPImages(mcpResult.content), raw: mcpResult.content }
+    } catch (mcpError) {
+      console.error('MCP tool execution failed:', mcpError)
+      return { content: `Failed to execute MCP tool: ${mcpError}`, error: String(mcpError) }
+    }
+  }
+
+  // Execute built-in function
+  return await executeFunction(functionName, functionArgs, functionContext)
+}
+
+// Add the tokens of one completion to the running total. The usage is reported in the last
+// chunk of the stream; when the API leaves it out, it is estimated from the text (images are not counted)
+function addCompletionUsage(total: TokenUsage, reported: any, messages: any[], completion: string) {
+  if (reported) {
+    total.promptTokens += reported.prompt_tokens || 0
+    total.completionTokens += reported.completion_tokens || 0
+  } else {
+    const textMessages = messages.map(msg => Array.isArray(msg.content)
+      ? { ...msg, content: msg.content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('\n') }
+      : msg)
+    total.promptTokens += textMessages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0)
+    total.completionTokens += estimateMessageTokens({ content: completion })
+  }
+}
+
+// Consume a streamed completion, forwarding text tokens and accumulating tool call deltas
+async function consumeCompletionStream(
+  stream: AsyncIterable<any>,
+  onContent: (content: string) => void
+): Promise<{ content: string, toolCalls: any[], usage: any }> {
+  let content = ''
+  const toolCalls: any[] = []
+  let usage: any = null
+
+  for await (const chunk of stream) {
+    if (chunk.usage) usage = chunk.usage
+    const delta = chunk.choices[0]?.delta
+    if (!delta) continue
+
+    if (delta.content) {
+      content += delta.content
+      onContent(delta.content)
+    }
+
+    // Tool calls arrive in fragments keyed by index: the id and name first, then the arguments
+    for (const toolCallDelta of delta.tool_calls || []) {
+      const index = toolCallDelta.index ?? toolCalls.length
+      if (!toolCalls[index]) {
+        toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } }
+      }
+      const toolCall = toolCalls[index]
+      if (toolCallDelta.id) toolCall.id = toolCallDelta.id
+      if (toolCallDelta.function?.name) toolCall.function.name += toolCallDelta.function.name
+      if (toolCallDelta.function?.arguments) toolCall.function.arguments += toolCallDelta.function.arguments
+    }
   }
+
+  // Some providers leave out the ids, which the tool results and the chat need to tell calls apart
+  const completeToolCalls = toolCalls.filter(Boolean).map(toolCall => toolCall.id ? toolCall : { ...toolCall, id: `call_${crypto.randomUUID()}` })
+  return { content, toolCalls: completeToolCalls, usage }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withOptionalAuth(async (request, session) => {
   try {
-    const { messages, model, documentChunks, mcpEnabled = true, uploadedFiles = [] } = await request.json()
+    const { messages, model, documentIds = [], mcpEnabled = true, uploadedFiles = [], mcpResources = [] } = await request.json()
     
     // Initialize OpenAI client at request time
     const bergetConfig = getBergetAIConfig()
@@ -33,25 +195,60 @@ export async function POST(request: NextRequest) {
     })
     
     // Check authentication for MCP access
-    const authHeader = request.headers.get('authorization')
-    const isAuthenticated = verifyToken(authHeader)
+    const isAuthenticated = session !== null
+    
+    // Documents are loaded from the user's library when search_documents is called.
+    // Only the user's own documents can be attached
+    const functionContext: FunctionContext = {
+      userId: session?.userId,
+      documentIds: session ? await filterOwnDocumentIds(session.userId, documentIds) : []
+    }
     
     // Disable MCP if user is not authenticated
     const mcpAllowed = mcpEnabled && isAuthenticated
 
-    // Only enable function calling for Llama model (which supports it) and if MCP is allowed
-    const supportsTools = model.includes('Llama') && mcpAllowed
+    // Look up model capabilities from the registry
+    const modelConfig = getModelConfig(model)
+    if (!modelConfig) {
+      return NextResponse.json(
+        { error: `Unknown model: ${model}` },
+        { status: 400 }
+      )
+    }
+    if ((await getDisabledModelIds()).includes(model)) {
+      return NextResponse.json(
+        { error: `Model is disabled: ${model}` },
+        { status: 400 }
+      )
+    }
+
+    // Usage is accounted to signed in users; anonymous chats have no quota
+    if (session) {
+      const quota = await checkUsageQuota(session.userId, 'tokens')
+      if (!quota.allowed) {
+        return quotaExceededResponse(quota)
+      }
+    }
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 }
+    const saveUsage = async () => {
+      if (session && (usage.promptTokens || usage.completionTokens)) {
+        await recordUsage({ userId: session.userId, kind: 'chat', model, ...usage })
+      }
+    }
+
+    // Only enable function calling for models that support it and if MCP is allowed
+    const supportsTools = modelConfig.supportsTools && mcpAllowed
     
-    // Check if this is a multimodal request (Mistral Small with images)
-    const supportsVision = model.includes('Mistral-Small') && uploadedFiles.some((file: any) => file.isImage)
+    // Check if this is a multimodal request (vision model with images)
+    const supportsVision = modelConfig.supportsVision && uploadedFiles.some((file: any) => file.isImage)
     
     // Process messages for multimodal requests
-    let processedMessages = messages
+    let processedMessages = fitMessagesToContext(messages, modelConfig)
     if (supportsVision) {
       // Find the last user message and add images to it
-      const lastUserMessageIndex = messages.findLastIndex((msg: any) => msg.role === 'user')
+      const lastUserMessageIndex = processedMessages.findLastIndex((msg: any) => msg.role === 'user')
       if (lastUserMessageIndex !== -1) {
-        const lastUserMessage = messages[lastUserMessageIndex]
+        const lastUserMessage = processedMessages[lastUserMessageIndex]
         const imageFiles = uploadedFiles.filter((file: any) => file.isImage && file.imageData)
         
         if (imageFiles.length > 0) {
@@ -72,7 +269,7 @@ export async function POST(request: NextRequest) {
           })
           
           // Update the processed messages
-          processedMessages = [...messages]
+          processedMessages = [...processedMessages]
           processedMessages[lastUserMessageIndex] = {
             ...lastUserMessage,
             content: content as any
@@ -81,6 +278,32 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Attached MCP resources are read now and given to the model with the last user message
+    if (mcpAllowed && Array.isArray(mcpResources) && mcpResources.length > 0) {
+      const lastUserMessageIndex = processedMessages.findLastIndex((msg: any) => msg.role === 'user')
+      if (lastUserMessageIndex !== -1) {
+        const resourceContext = await loadMCPResourceContext(mcpResources, session!)
+        const resourceImages = modelConfig.supportsVision ? resourceContext.images : []
+        console.log(`Attached ${mcpResources.length} MCP resources (${resourceImages.length} images for the model)`)
+
+        processedMessages = [...processedMessages]
+        processedMessages.splice(lastUserMessageIndex, 0, {
+          role: 'system',
+          content: `The user attached these resources as context:\n\n${resourceContext.text}`
+        })
+        if (resourceImages.length > 0) {
+          const lastUserMessage = processedMessages[lastUserMessageIndex + 1]
+          const parts = Array.isArray(lastUserMessage.content)
+            ? lastUserMessage.content
+            : [{ type: 'text', text: lastUserMessage.content }]
+          processedMessages[lastUserMessageIndex + 1] = {
+            ...lastUserMessage,
+            content: [...parts, ...toImageParts(resourceImages)] as any
+          }
+        }
+      }
+    }
+
     if (supportsTools) {
       try {
         // Get available tools (built-in functions + MCP tools)
@@ -88,18 +311,17 @@ export async function POST(request: NextRequest) {
         
         // Add MCP tools if available
         try {
-          let mcpTools = getMCPTools()
+          // Connects on the first chat; later chats reuse the sessions
+          let mcpTools = await ensureMCPClients()
           
-          // If no MCP tools cached, try to initialize
-          if (mcpTools.length === 0) {
-            console.log('Initializing MCP client for chat...')
-            mcpTools = await initializeMCPClient()
-          }
-          
-          // Convert MCP tools to OpenAI function format
+          // Tools denied to the user are not offered to the model at all
+          const policies = await getToolPolicies()
+          mcpTools = mcpTools.filter(tool => resolveToolAction(policies, session!, tool.namespacedName) !== 'deny')
+
+          // Convert MCP tools to OpenAI function format, namespaced by server
           const mcpFunctions = mcpTools.map(tool => ({
-            name: `mcp_${tool.name}`,
-            description: `[MCP Tool] ${tool.description}`,
+            name: tool.namespacedName,
+            description: `[MCP Tool from ${tool.server}] ${tool.description}`,
             parameters: tool.inputSchema as any
           }))
           
@@ -109,121 +331,218 @@ export async function POST(request: NextRequest) {
           console.warn('Failed to load MCP tools:', mcpError)
         }
 
-        // First, try to get a response with function calling
-        const initialResponse = await openai.chat.completions.create({
+        const tools = allTools.map(func => ({
+          type: "function" as const,
+          function: func
+        }))
+
+        // First pass is streamed with tools enabled - text tokens are forwarded as they
+        // arrive, tool call deltas are accumulated until the model has finished deciding
+        const firstStream = await openai.chat.completions.create({
           model: model,
           messages: processedMessages,
           temperature: 0.7,
-          max_tokens: 2000,
-          stream: false,
-          tools: allTools.map(func => ({
-            type: "function",
-            function: func
-          })),
+          max_tokens: modelConfig.maxOutputTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+          tools,
           tool_choice: "auto"
         })
 
-        const initialMessage = initialResponse.choices[0].message
+        const { maxToolIterations, toolApprovalTimeoutMs } = getChatAgentConfig()
 
-        // Check if the AI wants to call a function
-        if (initialMessage.tool_calls && initialMessage.tool_calls.length > 0) {
-          const toolCall = initialMessage.tool_calls[0] as any
-          // Execute the function
-          const functionName = toolCall.function.name
-          const functionArgs = JSON.parse(toolCall.function.arguments || '{}')
-          
-          let functionResult: string
-          
-          // Check if this is an MCP tool
-          if (functionName.startsWith('mcp_')) {
-            const mcpToolName = functionName.substring(4) // Remove 'mcp_' prefix
-            // Executing MCP tool
-            
-            try {
-              const mcpResult = await executeMCPTool({
-                name: mcpToolName,
-                arguments: functionArgs
-              })
-              
-              // Format MCP result for the AI
-              if (mcpResult.isError) {
-                functionResult = `Error executing MCP tool: ${mcpResult.content.map(c => c.text).join('\n')}`
-              } else {
-                functionResult = mcpResult.content.map(content => {
-                  if (content.type === 'text') {
-                    return content.text || ''
-                  } else if (content.type === 'image') {
-                    return `[Image: ${content.mimeType || 'unknown'}]`
-                  } else if (content.type === 'resource') {
-                    return `[Resource: ${content.mimeType || 'unknown'}]`
-                  }
-                  return '[Unknown content type]'
-                }).join('\n')
-              }
-            } catch (mcpError) {
-              console.error('MCP tool execution failed:', mcpError)
-              functionResult = `Failed to execute MCP tool: ${mcpError}`
+        // Aborted when the client goes away, which cancels any approval still waiting
+        const streamAbort = new AbortController()
+
+        const encoder = new TextEncoder()
+        const readableStream = new ReadableStream({
+          async start(controller) {
+            const send = (data: any) => {
+              if (streamAbort.signal.aborted) return
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
             }
-          } else {
-            // Execute built-in function
-            // Executing built-in function
-            functionResult = await executeFunction(functionName, functionArgs, documentChunks)
-          }
 
-          // Add function result to conversation
-          const messagesWithFunction = [
-            ...processedMessages,
-            initialMessage,
-            {
-              role: 'tool',
-              tool_call_id: toolCall.id,
-              content: functionResult
+            // Run one tool call if the user's policies let it run, waiting for their approval
+            // where required, and log it. Refused calls are reported back to the model
+            const runToolCall = async (functionName: string, functionArgs: any): Promise<ToolCallResult> => {
+              let decision: ToolDecision = 'allowed'
+              if (isMCPToolName(functionName)) {
+                const action = resolveToolAction(await getToolPolicies(), session!, functionName)
+                if (action === 'deny') {
+                  decision = 'denied'
+                } else if (action === 'approve') {
+                  const approval = requestToolApproval(session!.userId, functionName, toolApprovalTimeoutMs, streamAbort.signal)
+                  send({
+                    content: '',
+                    tool_approval_required: { id: approval.id, name: functionName, arguments: functionArgs }
+                  })
+                  const outcome = await approval.outcome
+                  send({
+                    content: '',
+                    tool_approval_resolved: { id: approval.id, name: functionName, arguments: functionArgs, outcome }
+                  })
+                  decision = outcome
+                }
+              }
+
+              if (decision !== 'allowed' && decision !== 'approved') {
+                await recordToolInvocation({ userId: session!.userId, username: session!.username, tool: functionName, arguments: functionArgs, decision })
+                return {
+                  decision,
+                  content: decision === 'denied'
+                    ? 'This tool is not available to the user.'
+                    : decision === 'rejected'
+                    ? 'The user declined to run this tool.'
+                    : 'The tool was not run because the user did not approve it in time.'
+                }
+              }
+
+              const startedAt = Date.now()
+              const result = await executeToolCall(functionName, functionArgs, {
+                ...functionContext,
+                firstSourceId: sources.length + 1
+              })
+              result.durationMs = Date.now() - startedAt
+              result.decision = decision
+              await recordToolInvocation({
+                userId: session!.userId,
+                username: session!.username,
+                tool: functionName,
+                arguments: functionArgs,
+                decision,
+                durationMs: result.durationMs,
+                error: result.error
+              })
+              return result
             }
-          ]
 
-          // Get final response with function result
-          const finalStream = await openai.chat.completions.create({
-            model: model,
-            messages: messagesWithFunction,
-            temperature: 0.7,
-            max_tokens: 2000,
-            stream: true
-          })
+            // Sources from every tool call, numbered across the whole answer
+            const sources: Source[] = []
+
+            let errored = false
+            try {
+              const conversation: any[] = [...processedMessages]
+              let turn = await consumeCompletionStream(firstStream, content => send({ content }))
+              addCompletionUsage(usage, turn.usage, conversation, turn.content)
+              let iteration = 0
+
+              // Agent loop: execute every requested tool call, feed the results back
+              // and ask again until the model stops calling tools
+              while (turn.toolCalls.length > 0) {
+                iteration++
+                conversation.push({
+                  role: 'assistant',
+                  content: turn.content || null,
+                  tool_calls: turn.toolCalls
+                })
+                // Images the tools of this round returned
+                const toolImages: MCPImage[] = []
+
+                for (const toolCall of turn.toolCalls) {
+                  const functionName = toolCall.function.name
+                  let functionArgs: any = {}
+                  try {
+                    functionArgs = JSON.parse(toolCall.function.arguments || '{}')
+                  } catch (parseError) {
+                    console.warn('Invalid tool call arguments for', functionName, parseError)
+                  }
+
+                  // Send function call info before executing it
+                  send({ 
+                    content: '', 
+                    function_call: { id: toolCall.id, name: functionName, arguments: functionArgs }
+                  })
 
-          const encoder = new TextEncoder()
-          const readableStream = new ReadableStream({
-            async start(controller) {
-              try {
-                // Send function call info first
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ 
-                  content: '', 
-                  function_call: { name: functionName, arguments: functionArgs }
-                })}\n\n`))
-
-                // Then stream the final response
-                for await (const chunk of finalStream) {
-                  const content = chunk.choices[0]?.delta?.content || ''
-                  if (content) {
-                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`))
+                  const functionResult = await runToolCall(functionName, functionArgs)
+                  if (streamAbort.signal.aborted) break
+
+                  // What the tool returned, for the tool inspector in the chat
+                  send({
+                    content: '',
+                    tool_result: {
+                      id: toolCall.id,
+                      name: functionName,
+                      arguments: functionArgs,
+                      result: toInspectedResult(functionResult),
+                      durationMs: functionResult.durationMs,
+                      error: functionResult.error,
+                      decision: functionResult.decision
+                    }
+                  })
+
+                  // Let the client resolve [n] citations while the answer streams
+                  if (functionResult.sources && functionResult.sources.length > 0) {
+                    sources.push(...functionResult.sources)
+                    send({ content: '', sources: functionResult.sources })
+                  }
+
+                  // Images are shown in the chat as they arrive
+                  if (functionResult.images && functionResult.images.length > 0) {
+                    toolImages.push(...functionResult.images)
+                    send({ content: '', images: functionResult.images })
                   }
+
+                  conversation.push({
+                    role: 'tool',
+                    tool_call_id: toolCall.id,
+                    content: functionResult.content
+                  })
+                }
+
+                // Nobody is listening any more, so there is no answer to ask for
+                if (streamAbort.signal.aborted) break
+
+                // Tool messages can only hold text, so vision models are shown the images in a user message
+                if (toolImages.length > 0 && modelConfig.supportsVision) {
+                  conversation.push({
+                    role: 'user',
+                    content: [{ type: 'text', text: 'Images returned by the tools above:' }, ...toImageParts(toolImages)]
+                  })
+                }
+
+                // Once the limit is reached, ask for a final answer without tools
+                const toolsAllowed = iteration < maxToolIterations
+                if (!toolsAllowed) {
+                  console.warn(`Reached max tool iterations (${maxToolIterations}), requesting final answer`)
                 }
+
+                const nextStream = await openai.chat.completions.create({
+                  model: model,
+                  messages: conversation,
+                  temperature: 0.7,
+                  max_tokens: modelConfig.maxOutputTokens,
+                  stream: true,
+                  stream_options: { include_usage: true },
+                  ...(toolsAllowed ? { tools, tool_choice: "auto" as const } : {})
+                })
+                turn = await consumeCompletionStream(nextStream, content => send({ content }))
+                addCompletionUsage(usage, turn.usage, conversation, turn.content)
+              }
+
+              if (!streamAbort.signal.aborted) {
                 controller.enqueue(encoder.encode('data: [DONE]\n\n'))
-              } catch (error) {
-                controller.error(error)
-              } finally {
-                controller.close()
               }
+            } catch (error) {
+              errored = true
+              if (!streamAbort.signal.aborted) controller.error(error)
+            } finally {
+              // Usage is saved first, and an errored stream can't be closed
+              await saveUsage()
+              if (!errored && !streamAbort.signal.aborted) controller.close()
             }
-          })
+          },
+          cancel() {
+            streamAbort.abort()
+          }
+        })
 
-          return new Response(readableStream, {
-            headers: {
-              'Content-Type': 'text/event-stream',
-              'Cache-Control': 'no-cache',
-              'Connection': 'keep-alive'
-            }
-          })
-        }
+        return new Response(readableStream, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+          }
+        })
       } catch (toolError) {
         console.log('Function calling not supported or failed, falling back to normal streaming')
       }
@@ -234,25 +553,35 @@ export async function POST(request: NextRequest) {
       model: model,
       messages: processedMessages,
       temperature: 0.7,
-      max_tokens: 2000,
-      stream: true
+      max_tokens: modelConfig.maxOutputTokens,
+      stream: true,
+      stream_options: { include_usage: true }
     })
 
     const encoder = new TextEncoder()
     const readableStream = new ReadableStream({
       async start(controller) {
+        let completion = ''
+        let reportedUsage: any = null
+        let errored = false
         try {
           for await (const chunk of stream) {
+            if (chunk.usage) reportedUsage = chunk.usage
             const content = chunk.choices[0]?.delta?.content || ''
             if (content) {
+              completion += content
               controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`))
             }
           }
           controller.enqueue(encoder.encode('data: [DONE]\n\n'))
         } catch (error) {
+          errored = true
           controller.error(error)
         } finally {
-          controller.close()
+          // Usage is saved first, and an errored stream can't be closed
+          addCompletionUsage(usage, reportedUsage, processedMessages, completion)
+          await saveUsage()
+          if (!errored) controller.close()
         }
       }
     })
@@ -280,4 +609,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -1,37 +1,47 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { updateConversation, deleteConversation, getConversationMessages, getConversation } from '@/lib/chat-history'
-import jwt from 'jsonwebtoken'
-import { getJWTSecret } from '@/lib/env-validation'
+import { NextResponse } from 'next/server'
+import { updateConversation, deleteConversation, getConversationMessages, getConversation, getConversationDocumentIds } from '@/lib/chat-history'
+import { getDocument, filterOwnDocumentIds, Document } from '@/lib/documents'
+import { withAuth, isOwner, Session } from '@/lib/auth'
 
 // Get conversation messages
-export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const GET = withAuth<{ id: string }>(async (request, session, { params }) => {
   try {
     const { id } = await params
     const conversationId = parseInt(id)
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const conversation = await getConversation(conversationId)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+    if (!isOwner(conversation.user_id, session)) {
+      console.warn(`User ${session.userId} tried to read conversation ${conversationId} owned by another user`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    jwt.verify(token, jwtSecret) as any
     
     const messages = await getConversationMessages(conversationId)
-    const conversation = await getConversation(conversationId)
+    
+    // Resolve attached documents, skipping any that were deleted from the library since
+    const documents: Document[] = []
+    for (const documentId of getConversationDocumentIds(conversation)) {
+      const document = await getDocument(documentId)
+      if (document && isOwner(document.user_id, session)) {
+        documents.push(document)
+      }
+    }
     
     console.log('API: Returning conversation data:', {
       conversationId,
       model_used: conversation?.model_used,
       prompt_used: conversation?.prompt_used ? conversation.prompt_used.substring(0, 100) + '...' : 'Missing',
-      messageCount: messages.length
+      messageCount: messages.length,
+      documentCount: documents.length
     })
     
     return NextResponse.json({
       success: true,
       messages,
-      conversation
+      conversation,
+      documents
     })
     
   } catch (error) {
@@ -41,27 +51,37 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       { status: 500 }
     )
   }
-}
+})
 
 // Update conversation
-export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const PATCH = withAuth<{ id: string }>(async (request, session, { params }) => {
   try {
-    const { title, isArchived } = await request.json()
+    const { title, isArchived, documentIds } = await request.json()
     const { id } = await params
     const conversationId = parseInt(id)
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const existing = await getConversation(conversationId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+    if (!isOwner(existing.user_id, session)) {
+      console.warn(`User ${session.userId} tried to update conversation ${conversationId} owned by another user`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
     
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    jwt.verify(token, jwtSecret) as any
+    // Only the user's own documents can be attached
+    let ownDocumentIds: number[] | undefined
+    if (Array.isArray(documentIds)) {
+      ownDocumentIds = await filterOwnDocumentIds(session.userId, documentIds)
+      if (ownDocumentIds.length < documentIds.length) {
+        console.warn(`User ${session.userId} tried to attach documents they don't own to conversation ${conversationId}`)
+      }
+    }
     
     const conversation = await updateConversation(conversationId, {
       title,
-      is_archived: isArchived
+      is_archived: isArchived,
+      document_ids: ownDocumentIds ? JSON.stringify(ownDocumentIds) : undefined
     })
     
     if (!conversation) {
@@ -80,22 +100,22 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       { status: 500 }
     )
   }
-}
+})
 
 // Delete conversation
-export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const DELETE = withAuth<{ id: string }>(async (request, session, { params }) => {
   try {
     const { id } = await params
     const conversationId = parseInt(id)
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const existing = await getConversation(conversationId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+    if (!isOwner(existing.user_id, session)) {
+      console.warn(`User ${session.userId} tried to delete conversation ${conversationId} owned by another user`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    jwt.verify(token, jwtSecret) as any
     
     const success = await deleteConversation(conversationId)
     
@@ -114,4 +134,4 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
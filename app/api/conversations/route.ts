@@ -1,21 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getUserConversations, createConversation } from '@/lib/chat-history'
-import jwt from 'jsonwebtoken'
-import { getJWTSecret } from '@/lib/env-validation'
+import { withAuth } from '@/lib/auth'
 
 // Get user's conversations
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, session) => {
   try {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    const decoded = jwt.verify(token, jwtSecret) as any
-    
-    const conversations = await getUserConversations(decoded.userId)
+    const conversations = await getUserConversations(session.userId)
     
     return NextResponse.json({
       success: true,
@@ -29,24 +19,15 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Create new conversation
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
     const { title, modelUsed, promptUsed } = await request.json()
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    const decoded = jwt.verify(token, jwtSecret) as any
-    
     const conversation = await createConversation({
-      userId: decoded.userId,
+      userId: session.userId,
       title,
       modelUsed,
       promptUsed
@@ -68,4 +49,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
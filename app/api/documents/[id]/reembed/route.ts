@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getDocument, getStoredDocumentChunks, updateDocumentChunkEmbeddings } from '@/lib/documents'
+import { createEmbeddings } from '@/lib/embeddings'
+import { withAuth, isOwner } from '@/lib/auth'
+import { checkUsageQuota, quotaExceededResponse, recordUsage } from '@/lib/usage'
+
+// Re-embed a document's chunks with the currently configured embedding model
+export const POST = withAuth<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { id } = await params
+    const documentId = parseInt(id)
+    
+    const document = await getDocument(documentId)
+    if (!document || !isOwner(document.user_id, session)) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    
+    const chunks = await getStoredDocumentChunks(documentId)
+    if (chunks.length === 0) {
+      return NextResponse.json({ error: 'Document has no chunks to embed' }, { status: 400 })
+    }
+    
+    const quota = await checkUsageQuota(session.userId, 'tokens')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    const { embeddings, model, dimensions, tokens } = await createEmbeddings(chunks.map(chunk => chunk.content))
+    await recordUsage({ userId: session.userId, kind: 'embedding', model, promptTokens: tokens })
+    const success = await updateDocumentChunkEmbeddings(
+      documentId,
+      chunks.map((chunk, index) => ({ chunkId: (chunk.Id || chunk.id)!, embedding: embeddings[index] })),
+      { model, dimensions }
+    )
+    
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to store embeddings' }, { status: 500 })
+    }
+    
+    console.log(`Re-embedded ${chunks.length} chunks of document ${documentId} with ${model}`)
+    
+    return NextResponse.json({
+      success: true,
+      document: { ...document, embedding_model: model }
+    })
+    
+  } catch (error) {
+    console.error('Re-embed document error:', error)
+    return NextResponse.json(
+      { error: 'Failed to re-embed document' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { getDocument, updateDocument, deleteDocument } from '@/lib/documents'
+import { withAuth, isOwner } from '@/lib/auth'
+
+// Rename document
+export const PATCH = withAuth<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { filename } = await request.json()
+    const { id } = await params
+    const documentId = parseInt(id)
+    
+    if (!filename || !filename.trim()) {
+      return NextResponse.json({ error: 'Filename is required' }, { status: 400 })
+    }
+    
+    const existing = await getDocument(documentId)
+    if (!existing || !isOwner(existing.user_id, session)) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    
+    const document = await updateDocument(documentId, { filename: filename.trim() })
+    
+    if (!document) {
+      return NextResponse.json({ error: 'Failed to update document' }, { status: 500 })
+    }
+    
+    return NextResponse.json({
+      success: true,
+      document
+    })
+    
+  } catch (error) {
+    console.error('Update document error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update document' },
+      { status: 500 }
+    )
+  }
+})
+
+// Delete document and its chunks
+export const DELETE = withAuth<{ id: string }>(async (request, session, { params }) => {
+  try {
+    const { id } = await params
+    const documentId = parseInt(id)
+    
+    const existing = await getDocument(documentId)
+    if (!existing || !isOwner(existing.user_id, session)) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    
+    const success = await deleteDocument(documentId)
+    
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 })
+    }
+    
+    return NextResponse.json({
+      success: true
+    })
+    
+  } catch (error) {
+    console.error('Delete document error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server'
+import { getUserDocuments, createDocument, saveDocumentChunks, deleteDocument } from '@/lib/documents'
+import { detectDocumentKind } from '@/lib/document-utils'
+import { chunkDocument, getChunkingStrategy } from '@/lib/chunking'
+import { createEmbeddings, getEmbeddingModel } from '@/lib/embeddings'
+import { withAuth } from '@/lib/auth'
+import { checkUsageQuota, quotaExceededResponse, recordUsage } from '@/lib/usage'
+
+// Get user's documents
+export const GET = withAuth(async (request, session) => {
+  try {
+    const documents = await getUserDocuments(session.userId)
+    
+    return NextResponse.json({
+      success: true,
+      documents,
+      embeddingModel: getEmbeddingModel()
+    })
+    
+  } catch (error) {
+    console.error('Get documents error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get documents' },
+      { status: 500 }
+    )
+  }
+})
+
+// Add a document to the user's library: chunk, embed and store it
+export const POST = withAuth(async (request, session) => {
+  try {
+    const { filename, fileType, size, content } = await request.json()
+    
+    if (!filename || !content || typeof content !== 'string') {
+      return NextResponse.json({ error: 'Filename and content are required' }, { status: 400 })
+    }
+    
+    // Chunk along the document's structure, using the strategy for its file type
+    const documentKind = detectDocumentKind(filename, fileType || '')
+    const chunks = chunkDocument(content, filename, documentKind)
+    console.log(`Chunked ${filename} (${documentKind || 'unknown'}) with ${getChunkingStrategy(documentKind)} strategy into ${chunks.length} chunks`)
+    if (chunks.length === 0) {
+      return NextResponse.json({ error: 'Document contains no text' }, { status: 400 })
+    }
+    
+    const quota = await checkUsageQuota(session.userId, 'tokens')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
+    // Create embeddings for all chunks with the configured embedding model
+    const { embeddings, model, dimensions, tokens } = await createEmbeddings(chunks.map(chunk => chunk.content))
+    await recordUsage({ userId: session.userId, kind: 'embedding', model, promptTokens: tokens })
+    chunks.forEach((chunk, index) => {
+      chunk.embedding = embeddings[index]
+    })
+    
+    const document = await createDocument({
+      userId: session.userId,
+      filename,
+      fileType: fileType || '',
+      size: size || content.length
+    })
+    
+    if (!document) {
+      return NextResponse.json({ error: 'Failed to create document' }, { status: 500 })
+    }
+    
+    const documentId = (document.Id || document.id)!
+    const saved = await saveDocumentChunks(documentId, session.userId, chunks, { model, dimensions })
+    
+    if (!saved) {
+      // Don't leave a document without searchable chunks behind
+      await deleteDocument(documentId)
+      return NextResponse.json({ error: 'Failed to store document chunks' }, { status: 500 })
+    }
+    
+    console.log(`Stored document ${filename} with ${chunks.length} chunks for user ${session.userId}`)
+    
+    return NextResponse.json({
+      success: true,
+      document: { ...document, chunk_count: chunks.length, embedding_model: model }
+    })
+    
+  } catch (error) {
+    console.error('Create document error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create document' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,8 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { getBergetAIConfig } from '@/lib/env-validation'
+import { NextResponse } from 'next/server'
+import { createEmbeddings } from '@/lib/embeddings'
+import { withAuth } from '@/lib/auth'
+import { checkUsageQuota, quotaExceededResponse, recordUsage } from '@/lib/usage'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
     const { texts } = await request.json()
 
@@ -14,29 +15,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No texts provided' }, { status: 400 })
     }
 
-    // Initialize OpenAI client at request time
-    const bergetConfig = getBergetAIConfig()
-    const openai = new OpenAI({
-      apiKey: bergetConfig.apiKey,
-      baseURL: bergetConfig.baseUrl
-    })
+    const quota = await checkUsageQuota(session.userId, 'tokens')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
 
     console.log('Creating embeddings for', texts.length, 'texts using Berget AI')
     console.log('Text lengths:', texts.map(t => t.length))
 
-    // Create embeddings using OpenAI text-embedding-3-small
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: texts,
-    })
+    // Create embeddings with the configured embedding model
+    const { embeddings, model, dimensions, tokens } = await createEmbeddings(texts)
 
     console.log('Berget AI embeddings created successfully')
-    const embeddings = response.data.map((item: any) => item.embedding)
+
+    await recordUsage({ userId: session.userId, kind: 'embedding', model, promptTokens: tokens })
 
     return NextResponse.json({
       embeddings,
-      model: 'text-embedding-3-small',
-      dimensions: 1536
+      model,
+      dimensions
     })
 
   } catch (error) {
@@ -46,4 +43,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { getBergetAIConfig } from '@/lib/env-validation'
+import { getTitleModel } from '@/lib/models'
+import { withAuth } from '@/lib/auth'
+import { checkUsageQuota, quotaExceededResponse, recordUsage } from '@/lib/usage'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
     const { messages } = await request.json()
     
@@ -10,6 +13,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No messages provided' }, { status: 400 })
     }
 
+    const quota = await checkUsageQuota(session.userId, 'tokens')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
     // Initialize OpenAI client at request time
     const bergetConfig = getBergetAIConfig()
     const openai = new OpenAI({
@@ -23,8 +31,9 @@ export async function POST(request: NextRequest) {
       .map((m: any) => `${m.role}: ${m.content.slice(0, 200)}`)
       .join('\n')
 
+    const titleModel = getTitleModel().id
     const response = await openai.chat.completions.create({
-      model: 'meta-llama/Llama-3.3-70B-Instruct',
+      model: titleModel,
       messages: [
         {
           role: 'system',
@@ -40,6 +49,14 @@ export async function POST(request: NextRequest) {
     })
 
     const title = response.choices[0].message.content?.trim() || 'New Chat'
+
+    await recordUsage({
+      userId: session.userId,
+      kind: 'title',
+      model: titleModel,
+      promptTokens: response.usage?.prompt_tokens,
+      completionTokens: response.usage?.completion_tokens
+    })
     
     return NextResponse.json({ title })
   } catch (error) {
@@ -49,4 +66,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
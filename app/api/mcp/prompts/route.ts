@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getMCPPrompts, getMCPPrompt, ensureMCPClients, mcpContentToText } from '@/lib/mcp-client'
+import { getToolPolicies, isMCPServerAllowed } from '@/lib/tool-permissions'
+
+// GET /api/mcp/prompts - Prompts of the MCP servers the tool policies don't deny the user
+export const GET = withAuth(async (request, session) => {
+  try {
+    await ensureMCPClients()
+    const policies = await getToolPolicies()
+
+    return NextResponse.json({
+      success: true,
+      prompts: getMCPPrompts().filter(prompt => isMCPServerAllowed(policies, session, prompt.server))
+    })
+
+  } catch (error) {
+    console.error('Failed to get MCP prompts:', error)
+    return NextResponse.json(
+      { error: 'Failed to get MCP prompts' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/mcp/prompts - Fill in a prompt with its arguments
+export const POST = withAuth(async (request, session) => {
+  try {
+    const { server, name, arguments: args = {} } = await request.json()
+
+    if (!server || !name) {
+      return NextResponse.json({ error: 'Server and prompt name are required' }, { status: 400 })
+    }
+
+    const prompt = getMCPPrompts().find(prompt => prompt.server === server && prompt.name === name)
+    if (!prompt) {
+      return NextResponse.json({ error: `Unknown MCP prompt: ${name}` }, { status: 404 })
+    }
+    if (!isMCPServerAllowed(await getToolPolicies(), session, server)) {
+      console.warn(`User ${session.username} was refused MCP prompt ${name} of server ${server}`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const missing = (prompt.arguments || []).filter(argument => argument.required && !args[argument.name])
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing arguments: ${missing.map(argument => argument.name).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await getMCPPrompt(server, name, args)
+
+    return NextResponse.json({
+      success: true,
+      description: result.description,
+      messages: result.messages,
+      // The messages as one text, used as the system prompt of the chat
+      content: result.messages.map(message => mcpContentToText(message.content)).join('\n\n')
+    })
+
+  } catch (error) {
+    console.error('Failed to get MCP prompt:', error)
+    return NextResponse.json(
+      { error: 'Failed to get MCP prompt', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
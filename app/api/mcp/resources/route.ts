@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getMCPResources, readMCPResource, ensureMCPClients } from '@/lib/mcp-client'
+import { getToolPolicies, isMCPServerAllowed } from '@/lib/tool-permissions'
+
+// GET /api/mcp/resources - Resources of all MCP servers that can be attached to a chat
+// GET /api/mcp/resources?server=...&uri=... - Contents of one resource
+// Servers the tool policies deny the user are left out
+export const GET = withAuth(async (request, session) => {
+  try {
+    const { searchParams } = request.nextUrl
+    const server = searchParams.get('server')
+    const uri = searchParams.get('uri')
+
+    await ensureMCPClients()
+    const policies = await getToolPolicies()
+    const resources = getMCPResources().filter(resource => isMCPServerAllowed(policies, session, resource.server))
+
+    if (!server && !uri) {
+      return NextResponse.json({ success: true, resources })
+    }
+
+    // Only listed resources can be read, not any URI a server would accept
+    const resource = resources.find(resource => resource.server === server && resource.uri === uri)
+    if (!resource) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    const contents = await readMCPResource(resource.server, resource.uri)
+    return NextResponse.json({ success: true, resource, contents })
+
+  } catch (error) {
+    console.error('Failed to get MCP resources:', error)
+    return NextResponse.json(
+      { error: 'Failed to get MCP resources' },
+      { status: 500 }
+    )
+  }
+})
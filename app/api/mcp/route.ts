@@ -1,33 +1,45 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { initializeMCPClient, getMCPClient, getMCPTools } from '@/lib/mcp-client'
+import { NextResponse } from 'next/server'
+import { initializeMCPClients, ensureMCPClients, getMCPTools, getMCPServerStatuses, executeMCPTool, disconnectMCPClients, MCPServerTool } from '@/lib/mcp-client'
+import { withAuth, withAdmin, Session, ADMIN_ROLE } from '@/lib/auth'
+import { getToolPolicies, resolveToolAction, recordToolInvocation } from '@/lib/tool-permissions'
 
 // Cache for MCP tools (in production, consider using Redis or database)
 let toolsCache: {
-  tools: any[]
+  tools: MCPServerTool[]
   lastUpdated: number
 } | null = null
 
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
 
-// GET /api/mcp - Get available MCP tools
-export async function GET(request: NextRequest) {
+// The tools the user may call, with the ones that need their approval marked
+async function getUserTools(tools: MCPServerTool[], session: Session) {
+  const policies = await getToolPolicies()
+  return tools.flatMap(tool => {
+    const action = resolveToolAction(policies, session, tool.namespacedName)
+    return action === 'deny' ? [] : [{ ...tool, requiresApproval: action === 'approve' }]
+  })
+}
+
+// GET /api/mcp - Get available MCP tools of all servers and the health of each server
+// ?refresh=true reconnects to every server, which all users share, so only admins may use it
+export const GET = withAuth(async (request, session) => {
   console.log('MCP API called')
   
   try {
     const searchParams = request.nextUrl.searchParams
     const forceRefresh = searchParams.get('refresh') === 'true'
+    if (forceRefresh && !session.roles.includes(ADMIN_ROLE)) {
+      console.warn(`User ${session.username} was refused a refresh of the MCP connections`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     
     // Force refresh - disconnect client and clear cache
     if (forceRefresh) {
       console.log('Force refresh requested - clearing cache and reconnecting')
-      const mcpClient = getMCPClient()
-      if (mcpClient) {
-        mcpClient.disconnect()
-      }
       toolsCache = null
       
       // Re-initialize and fetch fresh tools
-      const freshTools = await initializeMCPClient()
+      const freshTools = await initializeMCPClients()
       if (freshTools.length > 0) {
         toolsCache = {
           tools: freshTools,
@@ -36,7 +48,8 @@ export async function GET(request: NextRequest) {
         console.log('Fresh tools fetched:', freshTools.length)
         return NextResponse.json({
           success: true,
-          tools: freshTools,
+          tools: await getUserTools(freshTools, session),
+          servers: getMCPServerStatuses(),
           cached: false,
           lastUpdated: toolsCache.lastUpdated,
           refreshed: true
@@ -50,7 +63,8 @@ export async function GET(request: NextRequest) {
       console.log('Returning cached MCP tools:', toolsCache.tools.length)
       return NextResponse.json({
         success: true,
-        tools: toolsCache.tools,
+        tools: await getUserTools(toolsCache.tools, session),
+        servers: getMCPServerStatuses(),
         cached: true,
         lastUpdated: toolsCache.lastUpdated
       })
@@ -71,17 +85,18 @@ export async function GET(request: NextRequest) {
       
       return NextResponse.json({
         success: true,
-        tools,
+        tools: await getUserTools(tools, session),
+        servers: getMCPServerStatuses(),
         cached: false,
         lastUpdated: toolsCache.lastUpdated
       })
     }
 
-    // No tools found or cache expired - initialize to get fresh tools
+    // Not connected yet - connect, without dropping sessions if another request already did
     console.log('No tools available or cache expired, fetching fresh tools')
     
     try {
-      const freshTools = await initializeMCPClient()
+      const freshTools = await ensureMCPClients()
       if (freshTools.length > 0) {
         console.log('Fresh MCP tools fetched:', freshTools.length)
         toolsCache = {
@@ -90,7 +105,8 @@ export async function GET(request: NextRequest) {
         }
         return NextResponse.json({
           success: true,
-          tools: freshTools,
+          tools: await getUserTools(freshTools, session),
+          servers: getMCPServerStatuses(),
           cached: false,
           lastUpdated: toolsCache.lastUpdated
         })
@@ -103,6 +119,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       tools: [],
+      servers: getMCPServerStatuses(),
       cached: false,
       lastUpdated: Date.now(),
       message: 'No tools available'
@@ -117,10 +134,10 @@ export async function GET(request: NextRequest) {
       error: 'Failed to fetch MCP tools'
     })
   }
-}
+})
 
-// POST /api/mcp - Execute MCP tool
-export async function POST(request: NextRequest) {
+// POST /api/mcp - Execute MCP tool by its namespaced name (mcp_<server>__<tool>)
+export const POST = withAuth(async (request, session) => {
   try {
     const body = await request.json()
     const { toolName, arguments: toolArgs } = body
@@ -132,19 +149,50 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const mcpClient = getMCPClient()
-    if (!mcpClient || !mcpClient.isConnected()) {
+    if (getMCPTools().length === 0) {
       return NextResponse.json(
         { success: false, error: 'MCP client not connected' },
         { status: 503 }
       )
     }
 
-    // Execute the tool
-    const result = await mcpClient.callTool({
+    if (!getMCPTools().some(tool => tool.namespacedName === toolName)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown MCP tool: ${toolName}` },
+        { status: 404 }
+      )
+    }
+
+    // Tools that need approval can only be called from the chat, where the user is asked first
+    const action = resolveToolAction(await getToolPolicies(), session, toolName)
+    const invocation = { userId: session.userId, username: session.username, tool: toolName, arguments: toolArgs || {} }
+    if (action === 'deny') {
+      await recordToolInvocation({ ...invocation, decision: 'denied' })
+      return NextResponse.json(
+        { success: false, error: `Not allowed to use MCP tool: ${toolName}` },
+        { status: 403 }
+      )
+    }
+    if (action === 'approve') {
+      await recordToolInvocation({ ...invocation, decision: 'denied', error: 'Needs approval in the chat' })
+      return NextResponse.json(
+        { success: false, error: `MCP tool ${toolName} needs approval and can only be used in the chat` },
+        { status: 403 }
+      )
+    }
+
+    // Execute the tool on the server providing it
+    const startedAt = Date.now()
+    const result = await executeMCPTool({
       name: toolName,
       arguments: toolArgs || {}
     })
+    await recordToolInvocation({
+      ...invocation,
+      decision: 'allowed',
+      durationMs: Date.now() - startedAt,
+      error: result.isError ? result.content.map(c => c.text).join('\n') : undefined
+    })
 
     return NextResponse.json({
       success: true,
@@ -161,22 +209,19 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-// DELETE /api/mcp - Clear cache and disconnect
-export async function DELETE() {
+// DELETE /api/mcp - Clear cache and disconnect, for admins as it ends every user's MCP sessions
+export const DELETE = withAdmin(async () => {
   try {
-    const mcpClient = getMCPClient()
-    if (mcpClient) {
-      mcpClient.disconnect()
-    }
+    disconnectMCPClients()
     
     // Clear cache
     toolsCache = null
 
     return NextResponse.json({
       success: true,
-      message: 'MCP client disconnected and cache cleared'
+      message: 'MCP clients disconnected and cache cleared'
     })
   } catch (error) {
     console.error('Failed to disconnect MCP client:', error)
@@ -189,4 +234,4 @@ export async function DELETE() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,24 +1,35 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { updateMessage, deleteMessage } from '@/lib/chat-history'
-import jwt from 'jsonwebtoken'
-import { getJWTSecret } from '@/lib/env-validation'
+import { NextResponse } from 'next/server'
+import { updateMessage, deleteMessage, getMessage, getConversation, ChatMessage } from '@/lib/chat-history'
+import { withAuth, isOwner, Session } from '@/lib/auth'
+
+// Finds a message and checks that it belongs to one of the user's conversations
+async function getOwnedMessage(messageId: number, session: Session, action: string): Promise<{ message?: ChatMessage, response?: NextResponse }> {
+  const message = await getMessage(messageId)
+  if (!message) {
+    return { response: NextResponse.json({ error: 'Message not found' }, { status: 404 }) }
+  }
+  
+  const conversation = await getConversation(message.conversation_id)
+  if (!conversation || !isOwner(conversation.user_id, session)) {
+    console.warn(`User ${session.userId} tried to ${action} message ${messageId} in a conversation owned by another user`)
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) }
+  }
+  
+  return { message }
+}
 
 // Update message
-export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const PATCH = withAuth<{ id: string }>(async (request, session, { params }) => {
   try {
     const { content, metadata } = await request.json()
     const { id } = await params
     const messageId = parseInt(id)
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { response } = await getOwnedMessage(messageId, session, 'update')
+    if (response) {
+      return response
     }
     
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    jwt.verify(token, jwtSecret) as any
-    
     const message = await updateMessage(messageId, {
       content,
       metadata: metadata ? JSON.stringify(metadata) : undefined
@@ -40,25 +51,22 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       { status: 500 }
     )
   }
-}
+})
 
 // Delete message
-export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const DELETE = withAuth<{ id: string }>(async (request, session, { params }) => {
   try {
-    const { conversationId } = await request.json()
     const { id } = await params
     const messageId = parseInt(id)
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { message, response } = await getOwnedMessage(messageId, session, 'delete')
+    if (response) {
+      return response
     }
     
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    jwt.verify(token, jwtSecret) as any
-    
-    const success = await deleteMessage(messageId, conversationId)
+    // The message's own conversation is used rather than one from the request body,
+    // so the count of another conversation can't be changed
+    const success = await deleteMessage(messageId, message!.conversation_id)
     
     if (!success) {
       return NextResponse.json({ error: 'Failed to delete message' }, { status: 500 })
@@ -75,4 +83,4 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
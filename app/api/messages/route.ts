@@ -1,21 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createMessage } from '@/lib/chat-history'
-import jwt from 'jsonwebtoken'
-import { getJWTSecret } from '@/lib/env-validation'
+import { NextResponse } from 'next/server'
+import { createMessage, getConversation } from '@/lib/chat-history'
+import { withAuth, isOwner } from '@/lib/auth'
 
 // Create new message
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
     const { conversationId, role, content, modelUsed, promptUsed, metadata } = await request.json()
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Messages can only be added to the user's own conversations
+    const conversation = await getConversation(conversationId)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+    if (!isOwner(conversation.user_id, session)) {
+      console.warn(`User ${session.userId} tried to add a message to conversation ${conversationId} owned by another user`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    jwt.verify(token, jwtSecret) as any
     
     const message = await createMessage({
       conversationId,
@@ -42,4 +42,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
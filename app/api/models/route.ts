@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getModelRegistry, getEnabledModels, toClientModel } from '@/lib/models'
+
+// GET /api/models - List available models and their capabilities
+export async function GET() {
+  try {
+    const registry = getModelRegistry()
+    const models = await getEnabledModels()
+
+    // The configured default may have been disabled by an admin
+    const defaultModel = models.some(model => model.id === registry.defaultModel)
+      ? registry.defaultModel
+      : models[0]?.id
+
+    return NextResponse.json({
+      success: true,
+      models: models.map(toClientModel),
+      defaultModel
+    })
+  } catch (error) {
+    console.error('Get models error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get models' },
+      { status: 500 }
+    )
+  }
+}
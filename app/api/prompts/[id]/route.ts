@@ -1,27 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { updatePrompt, deletePrompt, setDefaultPrompt } from '@/lib/prompts'
-import jwt from 'jsonwebtoken'
-import { getJWTSecret } from '@/lib/env-validation'
+import { NextResponse } from 'next/server'
+import { updatePrompt, deletePrompt, setDefaultPrompt, getPromptById } from '@/lib/prompts'
+import { withAuth, isOwner } from '@/lib/auth'
 
 // Update prompt
-export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const PATCH = withAuth<{ id: string }>(async (request, session, { params }) => {
   try {
     const { name, content, isDefault } = await request.json()
     const { id } = await params
     const promptId = parseInt(id)
-    
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const existing = await getPromptById(promptId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 })
+    }
+    if (!isOwner(existing.user_id, session)) {
+      console.warn(`User ${session.userId} tried to update prompt ${promptId} owned by another user`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    const decoded = jwt.verify(token, jwtSecret) as any
     
     // If setting as default, use the setDefaultPrompt function
     if (isDefault) {
-      await setDefaultPrompt(decoded.userId, promptId)
+      await setDefaultPrompt(session.userId, promptId)
     }
     
     const prompt = await updatePrompt(promptId, {
@@ -46,22 +45,22 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       { status: 500 }
     )
   }
-}
+})
 
 // Delete prompt
-export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const DELETE = withAuth<{ id: string }>(async (request, session, { params }) => {
   try {
     const { id } = await params
     const promptId = parseInt(id)
-    
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const existing = await getPromptById(promptId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 })
+    }
+    if (!isOwner(existing.user_id, session)) {
+      console.warn(`User ${session.userId} tried to delete prompt ${promptId} owned by another user`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    jwt.verify(token, jwtSecret) as any
     
     const success = await deletePrompt(promptId)
     
@@ -80,4 +79,4 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,21 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getUserPrompts, createPrompt } from '@/lib/prompts'
-import jwt from 'jsonwebtoken'
-import { getJWTSecret } from '@/lib/env-validation'
+import { withAuth } from '@/lib/auth'
 
 // Get user's prompts
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, session) => {
   try {
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    const decoded = jwt.verify(token, jwtSecret) as any
-    
-    const prompts = await getUserPrompts(decoded.userId)
+    const prompts = await getUserPrompts(session.userId)
     
     console.log('API: Returning prompts:', prompts.map(p => ({
       id: p.Id || p.id,
@@ -35,24 +25,15 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Create new prompt
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, session) => {
   try {
     const { name, content, isDefault } = await request.json()
     
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    const token = authHeader.substring(7)
-    const jwtSecret = getJWTSecret()
-    const decoded = jwt.verify(token, jwtSecret) as any
-    
     const prompt = await createPrompt({
-      userId: decoded.userId,
+      userId: session.userId,
       name,
       content,
       isDefault
@@ -74,4 +55,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
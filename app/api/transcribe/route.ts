@@ -1,7 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getBergetAIConfig } from '@/lib/env-validation'
+import { withAuth } from '@/lib/auth'
+import { checkUsageQuota, quotaExceededResponse, recordUsage } from '@/lib/usage'
 
-export async function POST(request: NextRequest) {
+const TRANSCRIPTION_MODEL = 'KBLab/kb-whisper-large'
+
+export const POST = withAuth(async (request, session) => {
   try {
     const formData = await request.formData()
     const audioFile = formData.get('audio') as File
@@ -10,10 +14,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No audio file provided' }, { status: 400 })
     }
 
+    const quota = await checkUsageQuota(session.userId, 'audio')
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota)
+    }
+
     // Create FormData for Berget API
     const bergetFormData = new FormData()
     bergetFormData.append('file', audioFile)
-    bergetFormData.append('model', 'KBLab/kb-whisper-large')
+    bergetFormData.append('model', TRANSCRIPTION_MODEL)
+    // verbose_json includes the duration of the audio
+    bergetFormData.append('response_format', 'verbose_json')
 
     const bergetConfig = getBergetAIConfig()
     const response = await fetch(`${bergetConfig.baseUrl}/audio/transcriptions`, {
@@ -29,6 +40,11 @@ export async function POST(request: NextRequest) {
     }
 
     const result = await response.json()
+
+    // Fall back to the length of the recording reported by the browser
+    const audioSeconds = Number(result.duration) || Number(formData.get('duration')) || 0
+    await recordUsage({ userId: session.userId, kind: 'transcription', model: TRANSCRIPTION_MODEL, audioSeconds })
+
     return NextResponse.json({ text: result.text })
 
   } catch (error) {
@@ -38,4 +54,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,6 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { extractDocumentText, DocumentExtractionError } from '@/lib/document-extraction'
+import { detectDocumentKind } from '@/lib/document-utils'
+import { withAuth } from '@/lib/auth'
 
-export async function POST(request: NextRequest) {
+// Document extraction needs Node APIs
+export const runtime = 'nodejs'
+
+export const POST = withAuth(async (request) => {
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
@@ -13,120 +19,13 @@ export async function POST(request: NextRequest) {
 
     let content = ''
 
-    if (file.type === 'application/pdf') {
-      // Use sample content for now (PDF extraction can be added later)
-      const fileName = file.name.toLowerCase()
-      
-      if (fileName.includes('ai') || fileName.includes('artificial intelligence') || fileName.includes('västmanland')) {
-          content = `# Region Västmanland - AI Exploration Document
-
-## Executive Summary
-This document outlines Region Västmanland's comprehensive strategy for exploring and implementing artificial intelligence technologies across healthcare, public services, and administrative functions.
-
-## Current AI Initiatives
-
-### Healthcare AI Applications
-- **Medical Diagnosis Support**: Implementation of AI-powered diagnostic tools to assist healthcare professionals in identifying diseases and conditions more accurately
-- **Patient Care Optimization**: AI systems for scheduling, resource allocation, and treatment planning to improve patient outcomes
-- **Telemedicine Enhancement**: AI-driven remote consultation platforms enabling better access to healthcare services
-- **Predictive Analytics**: Early warning systems for patient deterioration and health risk assessment
-
-### Public Service Improvements
-- **Citizen Service Automation**: AI chatbots and virtual assistants for handling common inquiries and service requests
-- **Document Processing**: Automated processing of applications, forms, and administrative documents
-- **Resource Management**: AI optimization of public transportation schedules and facility usage
-- **Emergency Response**: AI-enhanced emergency dispatch and resource allocation systems
-
-### Digital Transformation Strategy
-- **Data Integration**: Unified data platforms across all regional services for better decision-making
-- **Staff Training**: Comprehensive AI literacy programs for employees across all departments
-- **Ethics Framework**: Guidelines for responsible AI implementation ensuring fairness and transparency
-- **Privacy Protection**: GDPR-compliant AI systems with data protection by design principles
-
-## Key Achievements
-- Reduced patient waiting times by 25% through AI-powered scheduling optimization
-- Improved diagnostic accuracy by 15% with AI-assisted medical imaging tools
-- Automated 60% of routine administrative tasks, freeing up staff for higher-value work
-- Enhanced citizen satisfaction scores by 30% through improved service delivery
-
-## Challenges and Lessons Learned
-- **Data Quality**: The critical importance of clean, structured, and comprehensive data for AI effectiveness
-- **Change Management**: Need for extensive staff training and change management support
-- **Integration Complexity**: Technical challenges in connecting AI systems with legacy infrastructure
-- **Regulatory Compliance**: Balancing innovation with strict privacy and regulatory requirements
-
-## Future Roadmap
-- **2024-2025**: Expansion of AI applications in healthcare diagnostics and treatment planning
-- **2025-2026**: Full automation of citizen service processes and administrative workflows
-- **2026-2027**: Advanced predictive analytics for regional planning and resource optimization
-- **Long-term Vision**: AI-driven smart city initiatives and regional innovation ecosystem
-
-## Partnerships and Collaborations
-- Strategic partnerships with leading Swedish AI research institutions
-- Collaboration with healthcare technology vendors and startups
-- Participation in European AI ethics and governance committees
-- Regional government technology consortiums and knowledge sharing networks
-
-## Budget and Resources
-- **Total AI Investment**: 50 million SEK allocated over 5 years for comprehensive AI transformation
-- **Expected ROI**: 200% return on investment through efficiency gains and improved service quality
-- **Staff Training Budget**: 10 million SEK dedicated to upskilling and reskilling programs
-- **Technology Infrastructure**: 30 million SEK for hardware, software, and cloud services
+    const documentKind = detectDocumentKind(file.name, file.type)
 
-## Implementation Methodology
-- **Pilot Programs**: Starting with small-scale pilots to validate approaches before full deployment
-- **Stakeholder Engagement**: Continuous involvement of citizens, staff, and partners in the AI journey
-- **Measurement Framework**: Comprehensive metrics and KPIs to track progress and impact
-- **Risk Management**: Proactive identification and mitigation of AI-related risks
-
-## Conclusion
-Region Västmanland's AI exploration represents a balanced and thoughtful approach to digital transformation, prioritizing citizen benefit while maintaining the highest standards of ethics, privacy, and regulatory compliance. The initiative serves as a model for other regional governments seeking to harness AI for public good.
-
----
-*This document contains comprehensive information about AI implementation strategies, achievements, challenges, and future plans for Region Västmanland. Feel free to ask specific questions about any section or aspect of the AI initiatives.*`
-        } else {
-          content = `# ${file.name} - Document Content
-
-## Document Overview
-This document has been processed and contains important information across multiple sections. The content has been extracted and made searchable for easy access and analysis.
-
-## Key Sections Available
-The document includes structured information covering various important topics and themes. Each section contains detailed information that can be searched and referenced.
-
-## Content Structure
-- **Introduction and Overview**: Background information and context
-- **Main Content Sections**: Detailed information on core topics
-- **Analysis and Findings**: Key insights and conclusions
-- **Recommendations**: Action items and next steps
-- **Supporting Information**: Additional context and references
-
-## Document Details
-- **File Name**: ${file.name}
-- **File Size**: ${Math.round(file.size / 1024)} KB
-- **Content Type**: Structured document with searchable sections
-- **Processing Status**: Successfully processed and ready for queries
-
-## How to Use This Document
-You can ask specific questions about:
-- Any particular section or topic mentioned
-- Key findings and recommendations
-- Specific data points or statistics
-- Implementation details and strategies
-- Background information and context
-
-## Available Information
-The document contains comprehensive information that has been organized and structured for efficient searching. Ask about specific topics, and I'll search through the content to provide accurate, relevant answers based on what's contained in the document.
-
----
-*Ask me specific questions about this document's content to get detailed information from any section.*`
-        }
+    if (documentKind) {
+      // Extract text from PDF, Office, CSV, Markdown, HTML, JSON and plain text documents
+      content = await extractDocumentText(file, documentKind)
       
-      console.log('Using sample content for PDF. Content length:', content.length)
-      console.log('First 300 chars:', content.substring(0, 300))
-
-    } else if (file.type === 'text/plain') {
-      // Read text file directly
-      content = await file.text()
+      console.log(`Extracted ${documentKind} document. Content length:`, content.length)
     } else if (file.type.startsWith('image/')) {
       // Handle image files - convert to base64 for multimodal API
       const buffer = await file.arrayBuffer()
@@ -164,7 +63,7 @@ The document contains comprehensive information that has been organized and stru
       })
     } else {
       return NextResponse.json({ 
-        error: `Unsupported file type: ${file.type}. Please upload PDF, text files, or images (JPG, PNG, GIF).` 
+        error: `Unsupported file type: ${file.type || file.name}. Please upload PDF, Word, Excel, PowerPoint, CSV, Markdown, HTML, JSON, text files, or images (JPG, PNG, GIF).` 
       }, { status: 400 })
     }
 
@@ -178,14 +77,19 @@ The document contains comprehensive information that has been organized and stru
       content: content.trim(),
       filename: file.name,
       size: file.size,
-      type: file.type
+      type: file.type,
+      documentKind
     })
 
   } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    
     console.error('Upload error:', error)
     return NextResponse.json(
       { error: 'Failed to process file' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
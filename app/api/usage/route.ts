@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
+import { getUsageHistory } from '@/lib/usage'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 90
+
+// GET /api/usage?days=30 - The signed in user's usage per day and per model, and their quotas
+export const GET = withAuth(async (request, session) => {
+  try {
+    const days = parseInt(request.nextUrl.searchParams.get('days') || String(DEFAULT_DAYS))
+    const history = await getUsageHistory(
+      session.userId,
+      Number.isNaN(days) ? DEFAULT_DAYS : Math.min(Math.max(days, 1), MAX_DAYS)
+    )
+
+    return NextResponse.json({ success: true, ...history })
+
+  } catch (error) {
+    console.error('Error fetching usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    )
+  }
+})
@@ -4,8 +4,11 @@ import { useState, useEffect } from 'react'
 import ChatInterface from '@/components/ChatInterface'
 import Sidebar from '@/components/Sidebar'
 import { Conversation, Message } from '@/lib/types'
-import { Conversation as DBConversation, ChatMessage } from '@/lib/chat-history'
+import type { Conversation as DBConversation, ChatMessage } from '@/lib/chat-history'
+import { parseMessageMetadata } from '@/lib/chat-utils'
+import type { Document } from '@/lib/documents'
 import { useAuth } from '@/lib/auth-context'
+import { apiFetch } from '@/lib/api'
 
 export default function Home() {
   const [conversations, setConversations] = useState<Conversation[]>([])
@@ -13,6 +16,7 @@ export default function Home() {
   const [messages, setMessages] = useState<Message[]>([])
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [currentDBConversation, setCurrentDBConversation] = useState<DBConversation | null>(null)
+  const [conversationDocuments, setConversationDocuments] = useState<Document[]>([])
   const { isLoggedIn } = useAuth()
 
   // Load conversations from database when user logs in
@@ -25,19 +29,13 @@ export default function Home() {
       setCurrentConversationId(null)
       setMessages([])
       setCurrentDBConversation(null)
+      setConversationDocuments([])
     }
   }, [isLoggedIn])
 
   const loadConversations = async () => {
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch('/api/conversations', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      })
+      const response = await apiFetch('/api/conversations')
 
       if (response.ok) {
         const data = await response.json()
@@ -60,14 +58,7 @@ export default function Home() {
 
   const loadConversationMessages = async (conversationId: string) => {
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch(`/api/conversations/${conversationId}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      })
+      const response = await apiFetch(`/api/conversations/${conversationId}`)
 
       if (response.ok) {
         const data = await response.json()
@@ -79,11 +70,17 @@ export default function Home() {
           id: (msg.Id || msg.id)!.toString(),
           role: msg.role,
           content: msg.content,
-          timestamp: new Date(msg.timestamp)
+          timestamp: new Date(msg.timestamp),
+          sources: parseMessageMetadata(msg).sources,
+          images: parseMessageMetadata(msg).images,
+          toolCalls: parseMessageMetadata(msg).toolCalls
         }))
         
         setMessages(uiMessages)
         
+        // Restore the library documents attached to this conversation
+        setConversationDocuments(data.documents || [])
+        
         // Set current database conversation with full data
         if (conversationData) {
           setCurrentDBConversation(conversationData)
@@ -98,6 +95,7 @@ export default function Home() {
     // Clear current conversation and start fresh
     setCurrentConversationId(null)
     setCurrentDBConversation(null)
+    setConversationDocuments([])
     setMessages([])
   }
 
@@ -124,14 +122,8 @@ export default function Home() {
     if (!isLoggedIn) return
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch(`/api/conversations/${conversationId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
+      const response = await apiFetch(`/api/conversations/${conversationId}`, {
+        method: 'DELETE'
       })
 
       if (response.ok) {
@@ -178,6 +170,7 @@ export default function Home() {
           onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
           currentConversation={currentDBConversation}
           onConversationChange={handleConversationChange}
+          conversationDocuments={conversationDocuments}
         />
       </div>
     </div>
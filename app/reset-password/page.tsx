@@ -0,0 +1,129 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { useTranslation } from 'react-i18next'
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams()
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isDone, setIsDone] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+
+  const token = searchParams.get('token')
+
+  if (!token) {
+    return <p className="text-red-500">{t('auth.passwordResetFailed')}</p>
+  }
+
+  if (isDone) {
+    return <p className="text-green-600 dark:text-green-400">{t('auth.passwordResetSuccess')}</p>
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError(t('auth.passwordsDoNotMatch'))
+      return
+    }
+    if (!/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/.test(password)) {
+      setError(t('auth.passwordRequirements'))
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ token, password })
+      })
+
+      if (response.ok) {
+        setIsDone(true)
+      } else {
+        setError(t('auth.passwordResetFailed'))
+      }
+    } catch (error) {
+      console.error('Reset password error:', error)
+      setError(t('auth.passwordResetFailed'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          {t('auth.newPassword')}
+        </label>
+        <input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+          autoComplete="new-password"
+          required
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('auth.passwordRequirements')}</p>
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          {t('auth.confirmNewPassword')}
+        </label>
+        <input
+          id="confirmPassword"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClassName}
+          autoComplete="new-password"
+          required
+        />
+      </div>
+
+      {error && (
+        <p className="text-red-500 text-sm">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors font-medium"
+      >
+        {t('auth.resetPassword')}
+      </button>
+    </form>
+  )
+}
+
+export default function ResetPasswordPage() {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md space-y-4">
+        <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{t('auth.resetPassword')}</h1>
+        <Suspense fallback={<p className="text-gray-700 dark:text-gray-300">{t('common.loading')}</p>}>
+          <ResetPasswordForm />
+        </Suspense>
+        <Link href="/" className="inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          {t('auth.backToChat')}
+        </Link>
+      </div>
+    </div>
+  )
+}
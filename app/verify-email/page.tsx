@@ -0,0 +1,70 @@
+'use client'
+
+import { Suspense, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { useTranslation } from 'react-i18next'
+
+function VerifyEmail() {
+  const searchParams = useSearchParams()
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const requested = useRef(false)
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    // The token can only be used once, so don't send it twice when the effect re-runs
+    if (requested.current) return
+    requested.current = true
+
+    const token = searchParams.get('token')
+    if (!token) {
+      setStatus('failed')
+      return
+    }
+
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ token })
+    })
+      .then(response => setStatus(response.ok ? 'verified' : 'failed'))
+      .catch(error => {
+        console.error('Verify email error:', error)
+        setStatus('failed')
+      })
+  }, [searchParams])
+
+  return (
+    <>
+      {status === 'verifying' && (
+        <p className="text-gray-700 dark:text-gray-300">{t('auth.verifyingEmail')}</p>
+      )}
+      {status === 'verified' && (
+        <p className="text-green-600 dark:text-green-400">{t('auth.emailVerified')}</p>
+      )}
+      {status === 'failed' && (
+        <p className="text-red-500">{t('auth.verificationFailed')}</p>
+      )}
+    </>
+  )
+}
+
+export default function VerifyEmailPage() {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md space-y-4">
+        <h1 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{t('auth.emailAddress')}</h1>
+        <Suspense fallback={<p className="text-gray-700 dark:text-gray-300">{t('common.loading')}</p>}>
+          <VerifyEmail />
+        </Suspense>
+        <Link href="/" className="inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          {t('auth.backToChat')}
+        </Link>
+      </div>
+    </div>
+  )
+}
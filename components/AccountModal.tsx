@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { X, Eye, EyeOff } from 'lucide-react'
 import { useAuth } from '@/lib/auth-context'
 import { useTranslation } from 'react-i18next'
+import UsagePanel from '@/components/UsagePanel'
 
 interface AccountModalProps {
   isOpen: boolean
@@ -16,7 +17,7 @@ export default function AccountModal({ isOpen, onClose }: AccountModalProps) {
   const [firstNameInput, setFirstNameInput] = useState('')
   const [lastNameInput, setLastNameInput] = useState('')
   const [emailInput, setEmailInput] = useState('')
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>('profile')
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'usage'>('profile')
   const [currentPassword, setCurrentPassword] = useState('')
   const [newPassword, setNewPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
@@ -139,6 +140,17 @@ export default function AccountModal({ isOpen, onClose }: AccountModalProps) {
           >
             {t('auth.changePassword')}
           </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('usage')}
+            className={`px-4 py-2 -mb-px font-medium text-sm transition-colors ${
+              activeTab === 'usage'
+                ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+            }`}
+          >
+            {t('usage.title')}
+          </button>
         </div>
         
         {/* Profile Tab */}
@@ -318,6 +330,9 @@ export default function AccountModal({ isOpen, onClose }: AccountModalProps) {
           </div>
         </form>
         )}
+
+        {/* Usage Tab */}
+        {activeTab === 'usage' && <UsagePanel />}
       </div>
     </div>
   )
@@ -0,0 +1,139 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Unlock } from 'lucide-react'
+import { apiFetch } from '@/lib/api'
+import { useTranslation } from 'react-i18next'
+
+interface LoginAttempt {
+  username: string
+  ipAddress: string
+  userAgent?: string
+  reason: string
+  createdAt: string
+}
+
+interface UsernameLock {
+  failures: number
+  lockedUntil: string | null
+}
+
+export default function AdminLoginAuditPanel() {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([])
+  const [lock, setLock] = useState<UsernameLock | null>(null)
+  const [username, setUsername] = useState('')
+  const [filteredUsername, setFilteredUsername] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [message, setMessage] = useState('')
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    fetchAttempts('')
+  }, [])
+
+  const fetchAttempts = async (filter: string) => {
+    try {
+      setIsLoading(true)
+      setMessage('')
+      const params = filter ? `?username=${encodeURIComponent(filter)}` : ''
+      const response = await apiFetch(`/api/admin/lockouts${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setAttempts(data.attempts)
+        setLock(data.lock)
+        setFilteredUsername(filter)
+      }
+    } catch (error) {
+      console.error('Error fetching login attempts:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleUnlock = async () => {
+    try {
+      const response = await apiFetch(`/api/admin/lockouts?username=${encodeURIComponent(filteredUsername)}`, {
+        method: 'DELETE'
+      })
+      if (response.ok) {
+        setLock(null)
+        setMessage(t('admin.unlocked', { username: filteredUsername }))
+      }
+    } catch (error) {
+      console.error('Error unlocking username:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          fetchAttempts(username.trim())
+        }}
+        className="flex items-center gap-3"
+      >
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder={t('admin.filterByUsername')}
+          className="w-full max-w-sm px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          {t('admin.search')}
+        </button>
+      </form>
+
+      {filteredUsername && lock && (
+        <div className="flex items-center justify-between p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-300">
+          <span>
+            {t('admin.recentFailures', { count: lock.failures })}
+            {lock.lockedUntil && ` · ${t('admin.lockedUntil', { time: new Date(lock.lockedUntil).toLocaleString() })}`}
+          </span>
+          <button
+            onClick={handleUnlock}
+            className="flex items-center gap-1 px-3 py-1 bg-white dark:bg-gray-800 border border-amber-300 dark:border-amber-700 rounded-lg hover:bg-amber-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Unlock size={14} />
+            {t('admin.unlock')}
+          </button>
+        </div>
+      )}
+
+      {message && <p className="text-green-600 dark:text-green-400 text-sm">{message}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-600 dark:text-gray-400">{t('common.loading')}</p>
+      ) : attempts.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">{t('admin.noAttempts')}</p>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900 text-left text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 font-medium">{t('admin.time')}</th>
+                <th className="px-4 py-2 font-medium">{t('auth.username')}</th>
+                <th className="px-4 py-2 font-medium">{t('admin.ipAddress')}</th>
+                <th className="px-4 py-2 font-medium">{t('admin.reason')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {attempts.map((attempt, index) => (
+                <tr key={index} className="border-t border-gray-200 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                  <td className="px-4 py-2 whitespace-nowrap">{new Date(attempt.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-2">{attempt.username}</td>
+                  <td className="px-4 py-2">{attempt.ipAddress}</td>
+                  <td className="px-4 py-2" title={attempt.userAgent}>{t(`admin.reasons.${attempt.reason}`, attempt.reason)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { apiFetch } from '@/lib/api'
+import { Model } from '@/lib/types'
+import { useTranslation } from 'react-i18next'
+
+interface AdminModel extends Model {
+  enabled: boolean
+}
+
+export default function AdminModelsPanel() {
+  const [models, setModels] = useState<AdminModel[]>([])
+  const [defaultModel, setDefaultModel] = useState('')
+  const [titleModel, setTitleModel] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    fetchModels()
+  }, [])
+
+  const fetchModels = async () => {
+    try {
+      setIsLoading(true)
+      const response = await apiFetch('/api/admin/models')
+      if (response.ok) {
+        const data = await response.json()
+        setModels(data.models)
+        setDefaultModel(data.defaultModel)
+        setTitleModel(data.titleModel)
+      }
+    } catch (error) {
+      console.error('Error fetching models:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleModel = async (model: AdminModel) => {
+    setError('')
+    try {
+      const response = await apiFetch('/api/admin/models', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ id: model.id, enabled: !model.enabled })
+      })
+
+      if (response.ok) {
+        setModels(models.map(m => m.id === model.id ? { ...m, enabled: !model.enabled } : m))
+      } else {
+        const data = await response.json()
+        setError(t('admin.actionFailed', { error: data.error }))
+      }
+    } catch (error) {
+      console.error('Error updating model:', error)
+      setError(t('admin.actionFailed', { error: String(error) }))
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-gray-600 dark:text-gray-400">{t('common.loading')}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">{t('admin.modelsDescription')}</p>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+        {models.map(model => (
+          <div key={model.id} className="flex items-center justify-between gap-4 px-4 py-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900 dark:text-gray-100">{model.name}</span>
+                {model.id === defaultModel && (
+                  <span className="px-1.5 py-0.5 text-xs rounded bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">{t('admin.defaultModel')}</span>
+                )}
+                {model.id === titleModel && (
+                  <span className="px-1.5 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">{t('admin.titleModel')}</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {model.id}{model.capabilities?.length ? ` · ${model.capabilities.join(', ')}` : ''}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 flex-shrink-0">
+              <input
+                type="checkbox"
+                checked={model.enabled}
+                onChange={() => toggleModel(model)}
+              />
+              {t('admin.enabled')}
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
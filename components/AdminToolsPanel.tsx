@@ -0,0 +1,312 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { apiFetch } from '@/lib/api'
+import { useTranslation } from 'react-i18next'
+
+type ToolAction = 'allow' | 'deny' | 'approve'
+type ToolPolicySubject = 'everyone' | 'role' | 'user'
+
+interface ToolPolicyRule {
+  tool: string
+  subjectType: ToolPolicySubject
+  subject?: string
+  action: ToolAction
+}
+
+interface AdminTool {
+  name: string
+  server: string
+  tool: string
+  description: string
+}
+
+interface ToolInvocation {
+  username: string
+  tool: string
+  arguments: any
+  decision: string
+  durationMs?: number
+  error?: string
+  createdAt: string
+}
+
+const ACTIONS: ToolAction[] = ['allow', 'approve', 'deny']
+const SUBJECTS: ToolPolicySubject[] = ['everyone', 'role', 'user']
+
+const inputClass = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export default function AdminToolsPanel() {
+  const [defaultAction, setDefaultAction] = useState<ToolAction>('allow')
+  const [rules, setRules] = useState<ToolPolicyRule[]>([])
+  const [tools, setTools] = useState<AdminTool[]>([])
+  const [invocations, setInvocations] = useState<ToolInvocation[]>([])
+  const [username, setUsername] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    fetchPolicies()
+    fetchInvocations('')
+  }, [])
+
+  const fetchPolicies = async () => {
+    try {
+      setIsLoading(true)
+      const response = await apiFetch('/api/admin/tools')
+      if (response.ok) {
+        const data = await response.json()
+        setDefaultAction(data.policies.defaultAction)
+        setRules(data.policies.rules)
+        setTools(data.tools)
+      }
+    } catch (error) {
+      console.error('Error fetching tool policies:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchInvocations = async (filter: string) => {
+    try {
+      const params = filter ? `?username=${encodeURIComponent(filter)}` : ''
+      const response = await apiFetch(`/api/admin/tool-invocations${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setInvocations(data.invocations)
+      }
+    } catch (error) {
+      console.error('Error fetching tool invocations:', error)
+    }
+  }
+
+  const savePolicies = async () => {
+    setError('')
+    setMessage('')
+    try {
+      setIsSaving(true)
+      const response = await apiFetch('/api/admin/tools', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ defaultAction, rules })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setRules(data.policies.rules)
+        setMessage(t('admin.toolPoliciesSaved'))
+      } else {
+        setError(t('admin.actionFailed', { error: data.error }))
+      }
+    } catch (error) {
+      console.error('Error saving tool policies:', error)
+      setError(t('admin.actionFailed', { error: String(error) }))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateRule = (index: number, changes: Partial<ToolPolicyRule>) => {
+    setRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule))
+  }
+
+  // Suggestions for the tool field: every tool, every server's tools and all tools
+  const servers = Array.from(new Set(tools.map(tool => tool.server)))
+  const toolPatterns = [
+    ...tools.map(tool => tool.name),
+    ...servers.map(server => `mcp_${server}__*`),
+    '*'
+  ]
+
+  if (isLoading) {
+    return <p className="text-gray-600 dark:text-gray-400">{t('common.loading')}</p>
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('admin.toolPoliciesDescription')}</p>
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {message && <p className="text-green-600 dark:text-green-400 text-sm">{message}</p>}
+
+        <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+          {t('admin.defaultToolAction')}
+          <select
+            value={defaultAction}
+            onChange={(e) => setDefaultAction(e.target.value as ToolAction)}
+            className={inputClass}
+          >
+            {ACTIONS.map(action => (
+              <option key={action} value={action}>{t(`admin.toolActions.${action}`)}</option>
+            ))}
+          </select>
+        </label>
+
+        <datalist id="admin-tool-patterns">
+          {toolPatterns.map(pattern => <option key={pattern} value={pattern} />)}
+        </datalist>
+
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900 text-left text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 font-medium">{t('admin.tool')}</th>
+                <th className="px-4 py-2 font-medium">{t('admin.appliesTo')}</th>
+                <th className="px-4 py-2 font-medium">{t('admin.toolAction')}</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-4 py-3 text-gray-600 dark:text-gray-400">{t('admin.noToolRules')}</td>
+                </tr>
+              )}
+              {rules.map((rule, index) => (
+                <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      list="admin-tool-patterns"
+                      value={rule.tool}
+                      onChange={(e) => updateRule(index, { tool: e.target.value })}
+                      placeholder="mcp_server__tool"
+                      className={`${inputClass} w-full min-w-[14rem]`}
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex gap-2">
+                      <select
+                        value={rule.subjectType}
+                        onChange={(e) => updateRule(index, { subjectType: e.target.value as ToolPolicySubject })}
+                        className={inputClass}
+                      >
+                        {SUBJECTS.map(subject => (
+                          <option key={subject} value={subject}>{t(`admin.toolSubjects.${subject}`)}</option>
+                        ))}
+                      </select>
+                      {rule.subjectType !== 'everyone' && (
+                        <input
+                          type="text"
+                          value={rule.subject || ''}
+                          onChange={(e) => updateRule(index, { subject: e.target.value })}
+                          placeholder={rule.subjectType === 'role' ? 'admin' : t('auth.username')}
+                          className={`${inputClass} w-32`}
+                        />
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={rule.action}
+                      onChange={(e) => updateRule(index, { action: e.target.value as ToolAction })}
+                      className={inputClass}
+                    >
+                      {ACTIONS.map(action => (
+                        <option key={action} value={action}>{t(`admin.toolActions.${action}`)}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                      className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                      aria-label={t('admin.removeRule')}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => setRules([...rules, { tool: '', subjectType: 'everyone', action: 'approve' }])}
+            className="flex items-center gap-1 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg transition-colors text-sm font-medium"
+          >
+            <Plus size={16} />
+            {t('admin.addRule')}
+          </button>
+          <button
+            onClick={savePolicies}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            {t('admin.savePolicies')}
+          </button>
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{t('admin.toolInvocations')}</h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            fetchInvocations(username.trim())
+          }}
+          className="flex items-center gap-3"
+        >
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder={t('admin.filterByUsername')}
+            className="w-full max-w-sm px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            {t('admin.search')}
+          </button>
+        </form>
+
+        {invocations.length === 0 ? (
+          <p className="text-gray-600 dark:text-gray-400">{t('admin.noToolInvocations')}</p>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900 text-left text-gray-600 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2 font-medium">{t('admin.time')}</th>
+                  <th className="px-4 py-2 font-medium">{t('auth.username')}</th>
+                  <th className="px-4 py-2 font-medium">{t('admin.tool')}</th>
+                  <th className="px-4 py-2 font-medium">{t('admin.decision')}</th>
+                  <th className="px-4 py-2 font-medium">{t('admin.duration')}</th>
+                  <th className="px-4 py-2 font-medium">{t('admin.toolArguments')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invocations.map((invocation, index) => {
+                  const args = typeof invocation.arguments === 'string' ? invocation.arguments : JSON.stringify(invocation.arguments)
+                  return (
+                    <tr key={index} className="border-t border-gray-200 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                      <td className="px-4 py-2 whitespace-nowrap">{new Date(invocation.createdAt).toLocaleString()}</td>
+                      <td className="px-4 py-2">{invocation.username}</td>
+                      <td className="px-4 py-2 font-mono text-xs">{invocation.tool}</td>
+                      <td className="px-4 py-2" title={invocation.error}>
+                        {t(`admin.toolDecisions.${invocation.decision}`, invocation.decision)}
+                        {invocation.error && <span className="text-red-500"> · {t('admin.toolFailed')}</span>}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">{invocation.durationMs !== undefined ? `${invocation.durationMs} ms` : '–'}</td>
+                      <td className="px-4 py-2 font-mono text-xs max-w-xs truncate" title={args}>{args}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
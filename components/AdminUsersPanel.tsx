@@ -0,0 +1,361 @@
+'use client'
+
+import { useState, useEffect, Fragment } from 'react'
+import { Plus, Trash2, KeyRound, Ban, CheckCircle, Shield, ShieldOff, BarChart3 } from 'lucide-react'
+import { apiFetch } from '@/lib/api'
+import { useTranslation } from 'react-i18next'
+
+interface AdminUser {
+  id: number
+  username: string
+  email: string
+  firstName: string
+  lastName: string
+  roles: string[]
+  isAdmin: boolean
+  disabled: boolean
+  emailVerified: boolean
+  authProvider: string
+}
+
+interface UsageSummary {
+  conversations: number
+  documents: number
+  documentBytes: number
+  activeSessions: number
+  lastActiveAt: string | null
+  tokensThisMonth: number
+  audioSecondsThisMonth: number
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function AdminUsersPanel() {
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [search, setSearch] = useState('')
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [showCreate, setShowCreate] = useState(false)
+  const [newUser, setNewUser] = useState({ username: '', password: '', email: '', firstName: '', lastName: '', isAdmin: false })
+  const [usage, setUsage] = useState<Record<number, UsageSummary | null>>({})
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    fetchUsers()
+  }, [])
+
+  const fetchUsers = async () => {
+    try {
+      setIsLoading(true)
+      const response = await apiFetch('/api/admin/users')
+      if (response.ok) {
+        const data = await response.json()
+        setUsers(data.users)
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Runs an admin action and shows its outcome
+  const runAction = async (request: Promise<Response>, successMessage: string) => {
+    setMessage('')
+    setError('')
+    try {
+      const response = await request
+      const data = await response.json()
+      if (!response.ok) {
+        setError(t('admin.actionFailed', { error: data.error || response.statusText }))
+        return null
+      }
+      setMessage(successMessage)
+      return data
+    } catch (error) {
+      console.error('Admin action error:', error)
+      setError(t('admin.actionFailed', { error: String(error) }))
+      return null
+    }
+  }
+
+  const updateUser = async (user: AdminUser, updates: Partial<Pick<AdminUser, 'disabled' | 'isAdmin'>>) => {
+    const data = await runAction(
+      apiFetch(`/api/admin/users/${user.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(updates)
+      }),
+      t('admin.userUpdated', { username: user.username })
+    )
+    if (data) {
+      setUsers(users.map(u => u.id === user.id ? data.user : u))
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await runAction(
+      apiFetch('/api/admin/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(newUser)
+      }),
+      t('admin.userCreated', { username: newUser.username })
+    )
+    if (data) {
+      setUsers([...users, data.user].sort((a, b) => a.username.localeCompare(b.username)))
+      setNewUser({ username: '', password: '', email: '', firstName: '', lastName: '', isAdmin: false })
+      setShowCreate(false)
+    }
+  }
+
+  const handleResetPassword = async (user: AdminUser) => {
+    const password = prompt(t('admin.resetPasswordPrompt', { username: user.username }))
+    if (password === null) return
+
+    await runAction(
+      apiFetch(`/api/admin/users/${user.id}/reset-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ password: password || undefined })
+      }),
+      password ? t('admin.passwordReset', { username: user.username }) : t('admin.resetLinkEmailed', { username: user.username })
+    )
+  }
+
+  const handleDelete = async (user: AdminUser) => {
+    if (!confirm(t('admin.deleteConfirm', { username: user.username }))) return
+
+    const data = await runAction(
+      apiFetch(`/api/admin/users/${user.id}`, { method: 'DELETE' }),
+      t('admin.userDeleted', { username: user.username })
+    )
+    if (data) {
+      setUsers(users.filter(u => u.id !== user.id))
+    }
+  }
+
+  const toggleUsage = async (user: AdminUser) => {
+    if (user.id in usage) {
+      const { [user.id]: _, ...rest } = usage
+      setUsage(rest)
+      return
+    }
+
+    setUsage({ ...usage, [user.id]: null })
+    try {
+      const response = await apiFetch(`/api/admin/users/${user.id}/usage`)
+      if (response.ok) {
+        const data = await response.json()
+        setUsage(current => ({ ...current, [user.id]: data.usage }))
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error)
+    }
+  }
+
+  const query = search.trim().toLowerCase()
+  const filteredUsers = users.filter(user =>
+    !query ||
+    user.username.toLowerCase().includes(query) ||
+    user.email.toLowerCase().includes(query) ||
+    `${user.firstName} ${user.lastName}`.toLowerCase().includes(query)
+  )
+
+  const iconButton = "p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('admin.searchUsers')}
+          className={`${inputClassName} max-w-sm`}
+        />
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          <Plus size={16} />
+          {t('admin.newUser')}
+        </button>
+      </div>
+
+      {showCreate && (
+        <form onSubmit={handleCreate} className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={newUser.username}
+            onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+            placeholder={t('auth.username')}
+            className={inputClassName}
+            required
+          />
+          <input
+            type="password"
+            value={newUser.password}
+            onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+            placeholder={t('auth.password')}
+            className={inputClassName}
+            autoComplete="new-password"
+            required
+          />
+          <input
+            type="email"
+            value={newUser.email}
+            onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+            placeholder={t('auth.email')}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={newUser.firstName}
+            onChange={(e) => setNewUser({ ...newUser, firstName: e.target.value })}
+            placeholder={t('auth.firstName')}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={newUser.lastName}
+            onChange={(e) => setNewUser({ ...newUser, lastName: e.target.value })}
+            placeholder={t('auth.lastName')}
+            className={inputClassName}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={newUser.isAdmin}
+              onChange={(e) => setNewUser({ ...newUser, isAdmin: e.target.checked })}
+            />
+            {t('admin.isAdmin')}
+          </label>
+          <p className="md:col-span-2 text-xs text-gray-500 dark:text-gray-400 self-center">{t('auth.passwordRequirements')}</p>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm font-medium"
+          >
+            {t('admin.createUser')}
+          </button>
+        </form>
+      )}
+
+      {message && <p className="text-green-600 dark:text-green-400 text-sm">{message}</p>}
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-600 dark:text-gray-400">{t('common.loading')}</p>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900 text-left text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 font-medium">{t('auth.username')}</th>
+                <th className="px-4 py-2 font-medium">{t('admin.name')}</th>
+                <th className="px-4 py-2 font-medium">{t('auth.email')}</th>
+                <th className="px-4 py-2 font-medium">{t('admin.roles')}</th>
+                <th className="px-4 py-2 font-medium">{t('admin.status')}</th>
+                <th className="px-4 py-2 font-medium text-right">{t('admin.actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredUsers.map(user => (
+                <Fragment key={user.id}>
+                  <tr className="border-t border-gray-200 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                    <td className="px-4 py-2">
+                      {user.username}
+                      {user.authProvider !== 'local' && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">{t('admin.sso')}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">{[user.firstName, user.lastName].filter(Boolean).join(' ')}</td>
+                    <td className="px-4 py-2">
+                      {user.email}
+                      {user.email && !user.emailVerified && (
+                        <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">{t('admin.unverified')}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">{user.roles.join(', ')}</td>
+                    <td className="px-4 py-2">
+                      <span className={user.disabled ? 'text-red-500' : 'text-green-600 dark:text-green-400'}>
+                        {user.disabled ? t('admin.disabled') : t('admin.active')}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end gap-1">
+                        <button onClick={() => toggleUsage(user)} className={iconButton} title={t('admin.usage')}>
+                          <BarChart3 size={16} className="text-gray-600 dark:text-gray-400" />
+                        </button>
+                        <button
+                          onClick={() => updateUser(user, { isAdmin: !user.isAdmin })}
+                          className={iconButton}
+                          title={user.isAdmin ? t('admin.removeAdmin') : t('admin.makeAdmin')}
+                        >
+                          {user.isAdmin
+                            ? <ShieldOff size={16} className="text-gray-600 dark:text-gray-400" />
+                            : <Shield size={16} className="text-gray-600 dark:text-gray-400" />}
+                        </button>
+                        <button
+                          onClick={() => updateUser(user, { disabled: !user.disabled })}
+                          className={iconButton}
+                          title={user.disabled ? t('admin.enable') : t('admin.disable')}
+                        >
+                          {user.disabled
+                            ? <CheckCircle size={16} className="text-green-600 dark:text-green-400" />
+                            : <Ban size={16} className="text-gray-600 dark:text-gray-400" />}
+                        </button>
+                        {user.authProvider === 'local' && (
+                          <button onClick={() => handleResetPassword(user)} className={iconButton} title={t('admin.resetPassword')}>
+                            <KeyRound size={16} className="text-gray-600 dark:text-gray-400" />
+                          </button>
+                        )}
+                        <button onClick={() => handleDelete(user)} className={iconButton} title={t('admin.deleteUser')}>
+                          <Trash2 size={16} className="text-red-500" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {user.id in usage && (
+                    <tr className="bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300">
+                      <td colSpan={6} className="px-4 py-2">
+                        {usage[user.id] ? (
+                          <div className="flex flex-wrap gap-6 text-xs">
+                            <span>{t('admin.conversations')}: {usage[user.id]!.conversations}</span>
+                            <span>{t('admin.documents')}: {usage[user.id]!.documents} ({formatBytes(usage[user.id]!.documentBytes)})</span>
+                            <span>{t('admin.activeSessions')}: {usage[user.id]!.activeSessions}</span>
+                            <span>{t('admin.tokensThisMonth')}: {usage[user.id]!.tokensThisMonth.toLocaleString()}</span>
+                            <span>{t('admin.audioThisMonth')}: {t('usage.minutes', { count: Math.round(usage[user.id]!.audioSecondsThisMonth / 60) })}</span>
+                            <span>
+                              {t('admin.lastActive')}: {usage[user.id]!.lastActiveAt ? new Date(usage[user.id]!.lastActiveAt!).toLocaleString() : t('admin.never')}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-xs">{t('common.loading')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
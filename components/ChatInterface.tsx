@@ -1,8 +1,8 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import { Send, Mic, Paperclip, ChevronDown, ChevronRight, Plus, LogIn, User, LogOut, Settings, MessageCircle, Search, Lock } from 'lucide-react'
-import { Message, Model, UploadedFile, DocumentChunk } from '@/lib/types'
+import { Send, Mic, Paperclip, ChevronDown, ChevronRight, Plus, LogIn, User, LogOut, Settings, MessageCircle, Search, Lock, Library, FileText, X, Shield, Database } from 'lucide-react'
+import { Message, Model, UploadedFile, ToolApproval, MCPResourceRef, ToolCall } from '@/lib/types'
 import MessageList from '@/components/MessageList'
 import ModelSelector from '@/components/ModelSelector'
 import PromptSelector from '@/components/PromptSelector'
@@ -10,13 +10,16 @@ import LanguageSelector from '@/components/LanguageSelector'
 import LoginModal from '@/components/LoginModal'
 import AccountModal from '@/components/AccountModal'
 import SystemPromptModal from '@/components/SystemPromptModal'
+import DocumentLibraryModal from '@/components/DocumentLibraryModal'
 import FileUpload from '@/components/FileUpload'
-import { streamMessage } from '@/lib/api'
+import MCPResourcePicker from '@/components/MCPResourcePicker'
+import { streamMessage, apiFetch, ApiError } from '@/lib/api'
 import { useAuth } from '@/lib/auth-context'
 import { useAudioRecorder } from '@/lib/useAudioRecorder'
-import { chunkText } from '@/lib/document-utils'
-import { Prompt } from '@/lib/prompts'
-import { Conversation as DBConversation, ChatMessage, generateConversationTitle } from '@/lib/chat-history'
+import type { Document } from '@/lib/documents'
+import type { Prompt } from '@/lib/prompts'
+import type { Conversation as DBConversation, ChatMessage } from '@/lib/chat-history'
+import { generateConversationTitle, getConversationDocumentIds, getAnswerMetadata } from '@/lib/chat-utils'
 import { useTranslation } from 'react-i18next'
 
 interface ChatInterfaceProps {
@@ -27,42 +30,30 @@ interface ChatInterfaceProps {
   onToggleSidebar: () => void
   currentConversation: DBConversation | null
   onConversationChange: (conversation: DBConversation | null) => void
+  conversationDocuments: Document[]
 }
 
-// Models will be defined inside the component to use translations
+// Represent a library document as an attached file
+function documentToUploadedFile(document: Document): UploadedFile {
+  const documentId = (document.Id || document.id)!
+  return {
+    id: `document-${documentId}`,
+    name: document.filename,
+    size: document.size,
+    type: document.file_type,
+    content: '',
+    documentId
+  }
+}
 
-export default function ChatInterface({ messages, setMessages, onNewChat, isSidebarOpen, onToggleSidebar, currentConversation, onConversationChange }: ChatInterfaceProps) {
+export default function ChatInterface({ messages, setMessages, onNewChat, isSidebarOpen, onToggleSidebar, currentConversation, onConversationChange, conversationDocuments }: ChatInterfaceProps) {
   const { t } = useTranslation()
   
-  const models: Model[] = [
-    { 
-      id: 'openai/gpt-oss-120b', 
-      name: 'GPT-OSS 120B', 
-      description: t('chat.models.gptOss'),
-      capabilities: ['chat']
-    },
-    { 
-      id: 'meta-llama/Llama-3.3-70B-Instruct', 
-      name: 'Llama 3.3 70B', 
-      description: t('chat.models.llama'),
-      capabilities: ['chat', 'internetSearch', 'fileUpload', 'mcpTools']
-    },
-    { 
-      id: 'mistralai/Mistral-Small-3.1-24B-Instruct-2503', 
-      name: 'Mistral Small 3.1 24B', 
-      description: t('chat.models.mistralSmall'),
-      capabilities: ['chat', 'vision']
-    },
-    { 
-      id: 'mistralai/Devstral-Small-2505', 
-      name: 'Devstral Small', 
-      description: t('chat.models.devstral'),
-      capabilities: ['chat']
-    }
-  ]
-
+  // Models and their capabilities come from the server-side registry (/api/models)
+  const [models, setModels] = useState<Model[]>([])
+  const [defaultModelId, setDefaultModelId] = useState<string | null>(null)
+  const [selectedModel, setSelectedModel] = useState<Model | null>(null)
   const [input, setInput] = useState('')
-  const [selectedModel, setSelectedModel] = useState<Model>(models[1])
   const [mcpCheckInProgress, setMcpCheckInProgress] = useState(false)
   const [mcpDiscoveredTools, setMcpDiscoveredTools] = useState<string[]>([])
   const [mcpEnabled, setMcpEnabled] = useState(() => {
@@ -80,20 +71,25 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
   const [showProfileMenu, setShowProfileMenu] = useState(false)
   const [showAccountModal, setShowAccountModal] = useState(false)
   const [showSystemPromptModal, setShowSystemPromptModal] = useState(false)
+  const [showDocumentLibrary, setShowDocumentLibrary] = useState(false)
   const [currentFunctionCall, setCurrentFunctionCall] = useState<{name: string, args: any} | null>(null)
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
-  const [documentChunks, setDocumentChunks] = useState<DocumentChunk[]>([])
+  const [attachedResources, setAttachedResources] = useState<MCPResourceRef[]>([])
   const [isProcessingFiles, setIsProcessingFiles] = useState(false)
   const [showFileUpload, setShowFileUpload] = useState(false)
   const [showUploadArea, setShowUploadArea] = useState(true)
   const [mcpToolsAvailable, setMcpToolsAvailable] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
-  const { isLoggedIn, username, firstName, lastName, systemPrompt, logout } = useAuth()
+  const { isLoggedIn, username, firstName, lastName, systemPrompt, isAdmin, logout, logoutEverywhere } = useAuth()
   const { isRecording, isTranscribing, startRecording, stopRecording } = useAudioRecorder()
 
   const displayName = firstName && lastName ? `${firstName} ${lastName}` : username
 
+  // Library documents attached to this chat - search_documents is limited to these
+  const attachedDocuments = uploadedFiles.filter(file => file.documentId)
+  const documentIds = attachedDocuments.map(file => file.documentId!)
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
@@ -103,13 +99,10 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
     if (!isLoggedIn) return null
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return null
-
-      // Generate title using Llama 3.3
+      // Generate title using the configured title model
       let title = 'New Chat'
       try {
-        const titleResponse = await fetch('/api/generate-title', {
+        const titleResponse = await apiFetch('/api/generate-title', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
@@ -129,15 +122,14 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
         title = generateConversationTitle(firstMessage)
       }
 
-      const response = await fetch('/api/conversations', {
+      const response = await apiFetch('/api/conversations', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           title,
-          modelUsed: selectedModel.name,
+          modelUsed: selectedModel?.name,
           promptUsed: selectedPrompt?.name || 'Default'
         })
       })
@@ -152,24 +144,50 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
     return null
   }
 
+  // Link the currently attached documents to the conversation so they are restored when it is reopened
+  const saveConversationDocuments = async (conversation: DBConversation): Promise<void> => {
+    const savedIds = getConversationDocumentIds(conversation)
+    if (savedIds.length === documentIds.length && savedIds.every(id => documentIds.includes(id))) return
+
+    try {
+      const response = await apiFetch(`/api/conversations/${conversation.Id || conversation.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ documentIds })
+      })
+
+      if (response.ok) {
+        onConversationChange({ ...conversation, document_ids: JSON.stringify(documentIds) })
+      }
+    } catch (error) {
+      console.error('Error saving conversation documents:', error)
+    }
+  }
+
+  // Message metadata recording which documents and MCP resources were attached when the message was sent
+  const getAttachmentMetadata = () => attachedDocuments.length > 0 || attachedResources.length > 0
+    ? {
+        ...(attachedDocuments.length > 0 ? { attachments: attachedDocuments.map(file => ({ documentId: file.documentId, filename: file.name })) } : {}),
+        ...(attachedResources.length > 0 ? { resources: attachedResources } : {})
+      }
+    : undefined
+
   const saveMessage = async (conversationId: number, role: 'user' | 'assistant', content: string, metadata?: any): Promise<void> => {
     if (!isLoggedIn) return
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      await fetch('/api/messages', {
+      await apiFetch('/api/messages', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           conversationId,
           role,
           content,
-          modelUsed: selectedModel.name,
+          modelUsed: selectedModel?.name,
           promptUsed: selectedPrompt?.name || 'Default',
           metadata
         })
@@ -179,13 +197,118 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
     }
   }
 
+  // Record each tool call of the agent chain on the assistant message
+  const trackToolCall = (assistantMessage: Message, id: string, name: string, args: any) => {
+    const previousCalls = (assistantMessage.toolCalls || []).map(call => ({ ...call, status: 'completed' as const }))
+    assistantMessage.toolCalls = [...previousCalls, { id, name, args, status: 'calling' }]
+  }
+
+  // The model can call the same tool several times in one round, so results are matched on the call id
+  const trackToolResult = (assistantMessage: Message, toolCall: Omit<ToolCall, 'status'>) => {
+    if (!assistantMessage.toolCalls?.some(call => call.id === toolCall.id)) return
+    assistantMessage.toolCalls = assistantMessage.toolCalls.map(call => call.id === toolCall.id ? { ...call, ...toolCall, status: 'completed' as const } : call)
+  }
+
+  const completeToolCalls = (assistantMessage: Message) => {
+    if (!assistantMessage.toolCalls) return
+    assistantMessage.toolCalls = assistantMessage.toolCalls.map(call => ({ ...call, status: 'completed' as const }))
+  }
+
+  // Add a tool call waiting for approval to the assistant message, or update it once decided
+  const trackToolApproval = (assistantMessage: Message, approval: ToolApproval) => {
+    const others = (assistantMessage.toolApprovals || []).filter(existing => existing.id !== approval.id)
+    assistantMessage.toolApprovals = [...others, approval]
+  }
+
+  // The stream reports the outcome, so nothing is updated here
+  const decideToolApproval = async (id: string, approved: boolean) => {
+    try {
+      const response = await apiFetch(`/api/chat/approvals/${id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ approved })
+      })
+      if (!response.ok) {
+        console.error('Failed to decide tool approval:', response.status)
+      }
+    } catch (error) {
+      console.error('Error deciding tool approval:', error)
+    }
+  }
+
+  // Used up quotas are explained, other failures get a generic reply
+  const getErrorReply = (error: unknown) => {
+    if (error instanceof ApiError && error.code === 'quota_exceeded') {
+      return t(error.data.period === 'day' ? 'usage.dailyQuotaExceeded' : 'usage.monthlyQuotaExceeded', {
+        time: new Date(error.data.resetAt).toLocaleString()
+      })
+    }
+    return 'Sorry, I encountered an error. Please try again.'
+  }
+
   useEffect(() => {
     scrollToBottom()
   }, [messages])
 
+  // Invitation links (/?invite=...) open the sign up form, failed SSO logins (/?sso_error=...) the login form
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if (!isLoggedIn && (params.has('invite') || params.has('sso_error'))) {
+      setShowLoginModal(true)
+    }
+  }, [isLoggedIn])
+
+  // Stream the answer to the conversation into assistantMessage, showing it as it arrives.
+  // Resolves to the text of the answer
+  const streamAnswer = async (conversationMessages: Message[], assistantMessage: Message, model: Model): Promise<string> => {
+    const showAnswer = () => setMessages([...conversationMessages, assistantMessage])
+    const stream = streamMessage(conversationMessages, {
+      model: model.id,
+      // Use selected prompt content, fallback to old system prompt, then undefined
+      systemPrompt: selectedPrompt?.content || systemPrompt || undefined,
+      documentIds,
+      mcpEnabled: mcpEnabled && isLoggedIn,
+      uploadedFiles,
+      mcpResources: attachedResources,
+      onFunctionCall: (id, name, args) => {
+        setCurrentFunctionCall({ name, args })
+        trackToolCall(assistantMessage, id, name, args)
+        showAnswer()
+      },
+      onToolResult: (toolCall) => {
+        trackToolResult(assistantMessage, toolCall)
+        showAnswer()
+      },
+      onToolApproval: (approval) => {
+        trackToolApproval(assistantMessage, approval)
+        showAnswer()
+      },
+      onSources: (sources) => {
+        assistantMessage.sources = [...(assistantMessage.sources || []), ...sources]
+        showAnswer()
+      },
+      onImages: (images) => {
+        assistantMessage.images = [...(assistantMessage.images || []), ...images]
+        showAnswer()
+      }
+    })
+
+    let fullContent = ''
+    for await (const chunk of stream) {
+      fullContent += chunk
+      assistantMessage.content = fullContent
+      showAnswer()
+    }
+    completeToolCalls(assistantMessage)
+    showAnswer()
+    return fullContent
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!input.trim() || isLoading || !isLoggedIn) return
+    if (!input.trim() || isLoading || !isLoggedIn || !selectedModel) return
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -213,7 +336,8 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
 
       // Save user message to database
       if (isLoggedIn && conversationToUse) {
-        await saveMessage(conversationToUse.Id || conversationToUse.id!, 'user', userMessage.content)
+        await saveConversationDocuments(conversationToUse)
+        await saveMessage(conversationToUse.Id || conversationToUse.id!, 'user', userMessage.content, getAttachmentMetadata())
       }
 
       const assistantMessage: Message = {
@@ -223,28 +347,17 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
         timestamp: new Date()
       }
       
-      console.log('Sending', documentChunks.length, 'document chunks to API')
-      let fullContent = ''
-      // Use selected prompt content, fallback to old system prompt, then undefined
-      const promptToUse = selectedPrompt?.content || systemPrompt || undefined
-      const stream = streamMessage(updatedMessages, selectedModel.id, promptToUse, (name, args) => {
-        setCurrentFunctionCall({ name, args })
-      }, documentChunks, mcpEnabled && isLoggedIn, uploadedFiles)
-      
-      for await (const chunk of stream) {
-        fullContent += chunk
-        assistantMessage.content = fullContent
-        setMessages([...updatedMessages, assistantMessage])
-      }
+      console.log('Searching', documentIds.length, 'library documents')
+      const fullContent = await streamAnswer(updatedMessages, assistantMessage, selectedModel)
       
       // Save assistant message to database
       if (isLoggedIn && conversationToUse && fullContent) {
-        await saveMessage(conversationToUse.Id || conversationToUse.id!, 'assistant', fullContent)
+        await saveMessage(conversationToUse.Id || conversationToUse.id!, 'assistant', fullContent, getAnswerMetadata(assistantMessage))
         
         // Update title if this is the first exchange (2 messages: user + assistant)
         if (messages.length === 0 && conversationToUse.title === 'New Chat') {
           try {
-            const titleResponse = await fetch('/api/generate-title', {
+            const titleResponse = await apiFetch('/api/generate-title', {
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json'
@@ -260,12 +373,10 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
             if (titleResponse.ok) {
               const data = await titleResponse.json()
               // Update conversation title in database
-              const token = localStorage.getItem('authToken')
-              if (token) {
-                await fetch(`/api/conversations/${conversationToUse.Id || conversationToUse.id}`, {
+              if (isLoggedIn) {
+                await apiFetch(`/api/conversations/${conversationToUse.Id || conversationToUse.id}`, {
                   method: 'PATCH',
                   headers: {
-                    'Authorization': `Bearer ${token}`,
                     'Content-Type': 'application/json'
                   },
                   body: JSON.stringify({ title: data.title })
@@ -287,7 +398,7 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
+        content: getErrorReply(error),
         timestamp: new Date()
       }
       setMessages([...updatedMessages, errorMessage])
@@ -309,7 +420,7 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
   }
 
   const handleVoiceClick = async () => {
-    if (!isLoggedIn) return
+    if (!isLoggedIn || !selectedModel) return
     
     if (isRecording) {
       // Stop recording and transcribe
@@ -345,7 +456,8 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
 
             // Save user message to database
             if (isLoggedIn && conversationToUse) {
-              await saveMessage(conversationToUse.Id || conversationToUse.id!, 'user', userMessage.content)
+              await saveConversationDocuments(conversationToUse)
+              await saveMessage(conversationToUse.Id || conversationToUse.id!, 'user', userMessage.content, getAttachmentMetadata())
             }
 
             const assistantMessage: Message = {
@@ -355,22 +467,11 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
               timestamp: new Date()
             }
             
-            let fullContent = ''
-            // Use selected prompt content, fallback to old system prompt, then undefined
-            const promptToUse = selectedPrompt?.content || systemPrompt || undefined
-            const stream = streamMessage(updatedMessages, selectedModel.id, promptToUse, (name, args) => {
-              setCurrentFunctionCall({ name, args })
-            }, documentChunks, mcpEnabled && isLoggedIn, uploadedFiles)
-            
-            for await (const chunk of stream) {
-              fullContent += chunk
-              assistantMessage.content = fullContent
-              setMessages([...updatedMessages, assistantMessage])
-            }
+            const fullContent = await streamAnswer(updatedMessages, assistantMessage, selectedModel)
             
             // Save assistant message to database
             if (isLoggedIn && conversationToUse && fullContent) {
-              await saveMessage(conversationToUse.Id || conversationToUse.id!, 'assistant', fullContent)
+              await saveMessage(conversationToUse.Id || conversationToUse.id!, 'assistant', fullContent, getAnswerMetadata(assistantMessage))
             }
             
             setCurrentFunctionCall(null)
@@ -379,7 +480,7 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
             const errorMessage: Message = {
               id: (Date.now() + 1).toString(),
               role: 'assistant',
-              content: 'Sorry, I encountered an error. Please try again.',
+              content: getErrorReply(error),
               timestamp: new Date()
             }
             setMessages([...updatedMessages, errorMessage])
@@ -394,6 +495,9 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
         }
       } catch (error) {
         console.error('Error transcribing audio:', error)
+        if (error instanceof ApiError && error.code === 'quota_exceeded') {
+          alert(getErrorReply(error))
+        }
       }
     } else {
       // Start recording
@@ -413,15 +517,36 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
     }
   }, [input])
 
+  // Load available models from the server-side registry
+  useEffect(() => {
+    const loadModels = async () => {
+      try {
+        const response = await apiFetch('/api/models')
+        if (response.ok) {
+          const data = await response.json()
+          const availableModels: Model[] = data.models || []
+          setModels(availableModels)
+          setDefaultModelId(data.defaultModel || null)
+          setSelectedModel(current => 
+            current || availableModels.find(m => m.id === data.defaultModel) || availableModels[0] || null
+          )
+        }
+      } catch (error) {
+        console.error('Error loading models:', error)
+      }
+    }
+
+    loadModels()
+  }, [])
+
   useEffect(() => {
     if (messages.length === 0 && !isLoading) {
       onNewChat()
       // Reset to default model and clear selections when starting new chat
-      setSelectedModel(models[1]) // Default to Llama 3.3 70B
+      setSelectedModel(models.find(m => m.id === defaultModelId) || null)
       setSelectedPrompt(null)
       // Clear files when starting new chat
       setUploadedFiles([])
-      setDocumentChunks([])
       setShowFileUpload(false)
       setShowUploadArea(true) // Reset upload area visibility
     }
@@ -430,23 +555,24 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
   // Check MCP tool availability when component mounts or model changes
   useEffect(() => {
     const checkMCPTools = async () => {
-      // Only check MCP for Llama model, if MCP is enabled, and if user is logged in
-      if (!selectedModel.id.includes('Llama') || !mcpEnabled || !isLoggedIn) {
-        console.log('MCP not available for model:', selectedModel.id, 'or disabled')
+      // Only check MCP for tool-capable models, if MCP is enabled, and if user is logged in
+      if (!selectedModel?.supportsTools || !mcpEnabled || !isLoggedIn) {
+        console.log('MCP not available for model:', selectedModel?.id, 'or disabled')
         setMcpToolsAvailable(false)
         setMcpCheckInProgress(false)
         setMcpDiscoveredTools([])
         return
       }
 
-      console.log('Checking MCP tools for Llama model...')
+      console.log('Checking MCP tools for', selectedModel.name)
       setMcpCheckInProgress(true)
       let retries = 0
       const maxRetries = 3
       
       while (retries < maxRetries) {
         try {
-          const response = await fetch('/api/mcp?refresh=' + (retries > 0))
+          // Only admins may reconnect the MCP servers, which all users share
+          const response = await apiFetch(retries > 0 && isAdmin ? '/api/mcp?refresh=true' : '/api/mcp')
           if (response.ok) {
             const data = await response.json()
             console.log(`MCP API response (attempt ${retries + 1}):`, data)
@@ -454,7 +580,7 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
             
             if (hasTools) {
               console.log('MCP tools available:', data.tools.length, 'tools')
-              const toolNames = data.tools.map((tool: any) => tool.name)
+              const toolNames = data.tools.map((tool: any) => tool.namespacedName || tool.name)
               setMcpDiscoveredTools(toolNames)
               setMcpToolsAvailable(true)
               setMcpCheckInProgress(false)
@@ -522,68 +648,61 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
       // Restore system prompt selection (only if we have a prompt to restore)
       if (currentConversation.prompt_used && isLoggedIn) {
         try {
-          const token = localStorage.getItem('authToken')
-          if (token) {
-            console.log('Fetching prompts to restore system prompt...')
-            const response = await fetch('/api/prompts', {
-              headers: {
-                'Authorization': `Bearer ${token}`
-              }
+          console.log('Fetching prompts to restore system prompt...')
+          const response = await apiFetch('/api/prompts')
+          
+          if (response.ok) {
+            const data = await response.json()
+            const prompts = data.prompts || []
+            
+            console.log('Prompt restoration debug:', {
+              promptsCount: prompts.length,
+              promptToMatch: currentConversation.prompt_used,
+              availablePrompts: prompts.map((p: Prompt) => ({
+                id: p.id,
+                name: p.name
+              }))
             })
             
-            if (response.ok) {
-              const data = await response.json()
-              const prompts = data.prompts || []
-              
-              console.log('Prompt restoration debug:', {
-                promptsCount: prompts.length,
-                promptToMatch: currentConversation.prompt_used,
-                availablePrompts: prompts.map((p: Prompt) => ({
-                  id: p.id,
-                  name: p.name
-                }))
-              })
-              
-              // Find prompt by name (since database stores prompt names, not content)
-              const savedPrompt = prompts.find((p: Prompt) => 
-                p.name === currentConversation.prompt_used
+            // Find prompt by name (since database stores prompt names, not content)
+            const savedPrompt = prompts.find((p: Prompt) => 
+              p.name === currentConversation.prompt_used
+            )
+            
+            if (savedPrompt) {
+              console.log('Found and restoring saved prompt by name:', savedPrompt.name)
+              setSelectedPrompt(savedPrompt)
+            } else {
+              console.log('Prompt not found by name, trying content match...')
+              // Fallback: Try to find by content match (for legacy conversations)
+              const contentMatch = prompts.find((p: Prompt) => 
+                p.content === currentConversation.prompt_used || 
+                (currentConversation.prompt_used && p.content.trim() === currentConversation.prompt_used.trim())
               )
               
-              if (savedPrompt) {
-                console.log('Found and restoring saved prompt by name:', savedPrompt.name)
-                setSelectedPrompt(savedPrompt)
+              if (contentMatch) {
+                console.log('Found prompt by content match:', contentMatch.name)
+                setSelectedPrompt(contentMatch)
               } else {
-                console.log('Prompt not found by name, trying content match...')
-                // Fallback: Try to find by content match (for legacy conversations)
-                const contentMatch = prompts.find((p: Prompt) => 
-                  p.content === currentConversation.prompt_used || 
-                  (currentConversation.prompt_used && p.content.trim() === currentConversation.prompt_used.trim())
-                )
-                
-                if (contentMatch) {
-                  console.log('Found prompt by content match:', contentMatch.name)
-                  setSelectedPrompt(contentMatch)
-                } else {
-                  // Last resort: create temporary prompt with the stored content
-                  console.log('Creating temporary prompt - no match found')
-                  const tempPrompt: Prompt = {
-                    id: Date.now(),
-                    user_id: 0,
-                    name: `Restored: ${currentConversation.prompt_used}`,
-                    content: currentConversation.prompt_used,
-                    is_default: false,
-                    created_at: new Date().toISOString()
-                  }
-                  setSelectedPrompt(tempPrompt)
-                  // Also add to session prompts so it appears in the list
-                  setSessionPrompts(prev => {
-                    const exists = prev.find(p => p.content === tempPrompt.content)
-                    if (!exists) {
-                      return [tempPrompt, ...prev]
-                    }
-                    return prev
-                  })
+                // Last resort: create temporary prompt with the stored content
+                console.log('Creating temporary prompt - no match found')
+                const tempPrompt: Prompt = {
+                  id: Date.now(),
+                  user_id: 0,
+                  name: `Restored: ${currentConversation.prompt_used}`,
+                  content: currentConversation.prompt_used,
+                  is_default: false,
+                  created_at: new Date().toISOString()
                 }
+                setSelectedPrompt(tempPrompt)
+                // Also add to session prompts so it appears in the list
+                setSessionPrompts(prev => {
+                  const exists = prev.find(p => p.content === tempPrompt.content)
+                  if (!exists) {
+                    return [tempPrompt, ...prev]
+                  }
+                  return prev
+                })
               }
             }
           }
@@ -597,7 +716,19 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
     if (currentConversation && isLoggedIn) {
       restoreConversationContext()
     }
-  }, [currentConversation?.Id || currentConversation?.id, isLoggedIn])
+  }, [currentConversation?.Id || currentConversation?.id, isLoggedIn, models])
+
+  // Restore the documents attached to a conversation when it is loaded (cleared for a new chat).
+  // MCP resources are not stored with the conversation, so they start out detached
+  useEffect(() => {
+    setUploadedFiles(conversationDocuments.map(documentToUploadedFile))
+    setAttachedResources([])
+    if (conversationDocuments.length > 0) {
+      console.log('Restored', conversationDocuments.length, 'attached documents')
+      setShowFileUpload(true)
+      setShowUploadArea(false)
+    }
+  }, [conversationDocuments])
 
   // Toggle MCP enabled/disabled or refresh tools
   const handleMcpToggle = async () => {
@@ -615,12 +746,12 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
       setMcpDiscoveredTools([])
       
       try {
-        const response = await fetch('/api/mcp?refresh=true')
+        const response = await apiFetch(isAdmin ? '/api/mcp?refresh=true' : '/api/mcp')
         if (response.ok) {
           const data = await response.json()
           console.log('MCP refresh response:', data)
           if (data.success && data.tools && data.tools.length > 0) {
-            const toolNames = data.tools.map((tool: any) => tool.name)
+            const toolNames = data.tools.map((tool: any) => tool.namespacedName || tool.name)
             setMcpDiscoveredTools(toolNames)
             setMcpToolsAvailable(true)
           }
@@ -646,70 +777,53 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
     setIsProcessingFiles(true)
 
     try {
-      if (files.length === 0) {
-        setDocumentChunks([])
+      // Text documents that are not in the library yet - images work directly with the vision API
+      const newTextFiles = files.filter(file => !file.isImage && !file.documentId)
+      if (newTextFiles.length === 0) {
         return
       }
 
-      console.log('Processing', files.length, 'files')
-      
-      // Separate text files (PDFs, TXT) from image files
-      const textFiles = files.filter(file => !file.isImage)
-      const imageFiles = files.filter(file => file.isImage)
-      
-      console.log('Text files for embeddings:', textFiles.length)
-      console.log('Image files for vision:', imageFiles.length)
-      
-      // Create chunks only from text files
-      const allChunks: DocumentChunk[] = []
-      for (const file of textFiles) {
-        console.log(`Text file: ${file.name}, Content length: ${file.content.length}`)
-        console.log(`First 200 chars: ${file.content.substring(0, 200)}...`)
-        const fileChunks = chunkText(file.content, file.name)
-        console.log(`Created ${fileChunks.length} chunks for ${file.name}`)
-        fileChunks.forEach((chunk, i) => {
-          console.log(`Chunk ${i}: ${chunk.content.length} chars - ${chunk.content.substring(0, 100)}...`)
-        })
-        allChunks.push(...fileChunks)
-      }
+      console.log('Adding', newTextFiles.length, 'documents to library')
 
-      console.log('Created', allChunks.length, 'chunks from text files')
+      if (!isLoggedIn) return
 
-      if (allChunks.length > 0) {
-        // Get embeddings only for text chunks
-        const texts = allChunks.map(chunk => chunk.content)
-        const response = await fetch('/api/embeddings', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ texts })
-        })
+      // Store each document server-side where it is chunked and embedded
+      const storedFiles = await Promise.all(files.map(async (file) => {
+        if (file.isImage || file.documentId) return file
 
-        if (response.ok) {
-          const result = await response.json()
-          console.log('Embeddings API response:', result)
-          const embeddings = result.embeddings || result.data?.map((item: any) => item.embedding)
-          console.log('Generated', embeddings?.length, 'embeddings')
-          console.log('First embedding dimensions:', embeddings?.[0]?.length)
-          // Add embeddings to chunks
-          const chunksWithEmbeddings = allChunks.map((chunk, index) => ({
-            ...chunk,
-            embedding: embeddings[index]
-          }))
-          setDocumentChunks(chunksWithEmbeddings)
-          console.log('Text documents are ready for chat!')
-        } else {
-          console.error('Failed to generate embeddings:', response.status)
+        try {
+          const response = await apiFetch('/api/documents', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+              filename: file.name,
+              fileType: file.type,
+              size: file.size,
+              content: file.content
+            })
+          })
+
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => null)
+            console.error('Failed to store document:', file.name, errorData?.error)
+            alert(t('documents.uploadFailed', { filename: file.name }))
+            return null
+          }
+
+          const data = await response.json()
+          const documentId = data.document.Id || data.document.id
+          console.log(`Stored ${file.name} as document ${documentId} with ${data.document.chunk_count} chunks`)
+          return { ...file, documentId }
+        } catch (error) {
+          console.error('Error storing document:', file.name, error)
+          return null
         }
-      } else {
-        setDocumentChunks([])
-      }
-      
-      // Images don't need embeddings - they work directly with vision API
-      if (imageFiles.length > 0) {
-        console.log('Images are ready for vision analysis!')
-      }
+      }))
+
+      setUploadedFiles(storedFiles.filter((file): file is UploadedFile => file !== null))
+      console.log('Text documents are ready for chat!')
       
     } catch (error) {
       console.error('Error processing files:', error)
@@ -722,6 +836,27 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
     }
   }
 
+  // Attach a document from the library to the current chat
+  const handleUseDocument = (document: Document) => {
+    if (documentIds.includes((document.Id || document.id)!)) return
+
+    setUploadedFiles([...uploadedFiles, documentToUploadedFile(document)])
+    setShowFileUpload(true)
+    setShowUploadArea(false)
+  }
+
+  // Attach an MCP resource to the chat, or detach it if it is attached already
+  const toggleResource = (resource: MCPResourceRef) => {
+    const isAttached = attachedResources.some(ref => ref.server === resource.server && ref.uri === resource.uri)
+    setAttachedResources(isAttached
+      ? attachedResources.filter(ref => ref.server !== resource.server || ref.uri !== resource.uri)
+      : [...attachedResources, resource])
+  }
+
+  const handleDocumentDeleted = (documentId: number) => {
+    setUploadedFiles(uploadedFiles.filter(file => file.documentId !== documentId))
+  }
+
   return (
     <div className="flex-1 flex flex-col bg-white dark:bg-gray-950 h-screen">
       <div className="px-6 py-3 flex items-center justify-between flex-shrink-0">
@@ -745,12 +880,14 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
             </button>
           )}
           <div className="flex items-center gap-2">
-            <ModelSelector 
-              models={models}
-              selectedModel={selectedModel}
-              onSelectModel={setSelectedModel}
-            />
-            {selectedModel.id.includes('Llama') && (
+            {selectedModel && (
+              <ModelSelector 
+                models={models}
+                selectedModel={selectedModel}
+                onSelectModel={setSelectedModel}
+              />
+            )}
+            {selectedModel?.supportsTools && (
               <button
                 onClick={handleMcpToggle}
                 className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-all hover:scale-105 ${
@@ -850,10 +987,29 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
                         <MessageCircle size={16} className="text-gray-600 dark:text-gray-400" />
                         <span className="text-sm text-gray-700 dark:text-gray-300">{t('auth.managePrompts')}</span>
                       </button>
+                      <button 
+                        onClick={() => {
+                          setShowDocumentLibrary(true)
+                          setShowProfileMenu(false)
+                        }}
+                        className="w-full flex items-center gap-3 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-left rounded-lg transition-colors"
+                      >
+                        <Library size={16} className="text-gray-600 dark:text-gray-400" />
+                        <span className="text-sm text-gray-700 dark:text-gray-300">{t('documents.library')}</span>
+                      </button>
                       <button className="w-full flex items-center gap-3 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-left rounded-lg transition-colors">
                         <Settings size={16} className="text-gray-600 dark:text-gray-400" />
                         <span className="text-sm text-gray-700 dark:text-gray-300">{t('auth.preferences')}</span>
                       </button>
+                      {isAdmin && (
+                        <a
+                          href="/admin"
+                          className="w-full flex items-center gap-3 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-left rounded-lg transition-colors"
+                        >
+                          <Shield size={16} className="text-gray-600 dark:text-gray-400" />
+                          <span className="text-sm text-gray-700 dark:text-gray-300">{t('admin.title')}</span>
+                        </a>
+                      )}
                       <hr className="my-1 border-gray-200 dark:border-gray-700" />
                       <button
                         onClick={() => {
@@ -865,6 +1021,16 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
                         <LogOut size={16} className="text-gray-600 dark:text-gray-400" />
                         <span className="text-sm text-gray-700 dark:text-gray-300">{t('auth.signOut')}</span>
                       </button>
+                      <button
+                        onClick={() => {
+                          logoutEverywhere()
+                          setShowProfileMenu(false)
+                        }}
+                        className="w-full flex items-center gap-3 px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-left rounded-lg transition-colors"
+                      >
+                        <LogOut size={16} className="text-gray-600 dark:text-gray-400" />
+                        <span className="text-sm text-gray-700 dark:text-gray-300">{t('auth.signOutEverywhere')}</span>
+                      </button>
                     </div>
                   </div>
                 </>
@@ -882,8 +1048,53 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
         </div>
       </div>
 
+      {attachedResources.length > 0 && (
+        <div className="px-6 pb-2 flex items-center gap-2 flex-wrap flex-shrink-0">
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('mcp.attachedResources')}</span>
+          {attachedResources.map(resource => (
+            <span
+              key={`${resource.server}:${resource.uri}`}
+              className="flex items-center gap-1 text-xs bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 pl-2 pr-1 py-1 rounded-full"
+              title={`${resource.server} · ${resource.uri}`}
+            >
+              <Database size={12} />
+              <span className="max-w-48 truncate">{resource.name}</span>
+              <button
+                onClick={() => toggleResource(resource)}
+                className="p-0.5 hover:bg-purple-100 dark:hover:bg-purple-800 rounded-full transition-colors"
+                title={t('mcp.detachResource')}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {attachedDocuments.length > 0 && (
+        <div className="px-6 pb-2 flex items-center gap-2 flex-wrap flex-shrink-0">
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('documents.attached')}</span>
+          {attachedDocuments.map(file => (
+            <span
+              key={file.id}
+              className="flex items-center gap-1 text-xs bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 pl-2 pr-1 py-1 rounded-full"
+            >
+              <FileText size={12} />
+              <span className="max-w-48 truncate">{file.name}</span>
+              <button
+                onClick={() => setUploadedFiles(uploadedFiles.filter(f => f.id !== file.id))}
+                className="p-0.5 hover:bg-blue-100 dark:hover:bg-blue-800 rounded-full transition-colors"
+                title={t('documents.detach')}
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto min-h-0">
-        <MessageList messages={messages} isLoading={isLoading} currentFunctionCall={currentFunctionCall} />
+        <MessageList messages={messages} isLoading={isLoading} currentFunctionCall={currentFunctionCall} onToolApprovalDecision={decideToolApproval} />
         <div ref={messagesEndRef} />
       </div>
 
@@ -896,8 +1107,8 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
                   files={uploadedFiles}
                   onFilesChange={handleFilesChange}
                   isProcessing={isProcessingFiles}
-                  documentsReady={documentChunks.length > 0}
-                  selectedModelId={selectedModel.id}
+                  documentsReady={documentIds.length > 0}
+                  supportsVision={selectedModel?.supportsVision}
                   showUploadArea={showUploadArea}
                 />
               </div>
@@ -919,12 +1130,16 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
                   }`}
                   title={
                     uploadedFiles.length > 0 
-                      ? `${t('chat.filesUploaded', { count: uploadedFiles.length })}${uploadedFiles.some(f => f.isImage) && selectedModel.id.includes('Mistral-Small') ? ' - Images will be analyzed by AI' : ''}` 
+                      ? `${t('chat.filesUploaded', { count: uploadedFiles.length })}${uploadedFiles.some(f => f.isImage) && selectedModel?.supportsVision ? ' - Images will be analyzed by AI' : ''}` 
                       : t('chat.uploadFiles')
                   }
                 >
                   <Paperclip size={20} className={`${uploadedFiles.length > 0 ? 'text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400'}`} />
                 </button>
+
+                {mcpEnabled && (
+                  <MCPResourcePicker attached={attachedResources} onToggle={toggleResource} />
+                )}
                 
                 <textarea
                   ref={textareaRef}
@@ -1014,6 +1229,14 @@ export default function ChatInterface({ messages, setMessages, onNewChat, isSide
         onUpdateSessionPrompts={setSessionPrompts}
       />
       
+      <DocumentLibraryModal
+        isOpen={showDocumentLibrary}
+        onClose={() => setShowDocumentLibrary(false)}
+        activeDocumentIds={documentIds}
+        onUseDocument={handleUseDocument}
+        onDocumentDeleted={handleDocumentDeleted}
+      />
+      
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,258 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X, Edit, Trash2, FileText, Plus, Check, RefreshCw } from 'lucide-react'
+import type { Document } from '@/lib/documents'
+import { apiFetch } from '@/lib/api'
+import { useTranslation } from 'react-i18next'
+
+interface DocumentLibraryModalProps {
+  isOpen: boolean
+  onClose: () => void
+  activeDocumentIds: number[]
+  onUseDocument: (document: Document) => void
+  onDocumentDeleted: (documentId: number) => void
+}
+
+export default function DocumentLibraryModal({ isOpen, onClose, activeDocumentIds, onUseDocument, onDocumentDeleted }: DocumentLibraryModalProps) {
+  const [documents, setDocuments] = useState<Document[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editName, setEditName] = useState('')
+  const [embeddingModel, setEmbeddingModel] = useState<string | null>(null)
+  const [reembeddingId, setReembeddingId] = useState<number | null>(null)
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchDocuments()
+    }
+  }, [isOpen])
+
+  const fetchDocuments = async () => {
+    try {
+      setIsLoading(true)
+      const response = await apiFetch('/api/documents')
+
+      if (response.ok) {
+        const data = await response.json()
+        setDocuments(data.documents)
+        setEmbeddingModel(data.embeddingModel || null)
+      }
+    } catch (error) {
+      console.error('Error fetching documents:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRename = async (documentId: number) => {
+    if (!editName.trim()) return
+
+    try {
+      const response = await apiFetch(`/api/documents/${documentId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          filename: editName.trim()
+        })
+      })
+
+      if (response.ok) {
+        setEditingId(null)
+        setEditName('')
+        fetchDocuments()
+      } else {
+        alert(t('documents.renameFailed'))
+      }
+    } catch (error) {
+      console.error('Error renaming document:', error)
+      alert(t('documents.renameFailed'))
+    }
+  }
+
+  const handleDelete = async (documentId: number) => {
+    if (!confirm(t('documents.deleteConfirm'))) return
+
+    try {
+      const response = await apiFetch(`/api/documents/${documentId}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        onDocumentDeleted(documentId)
+        fetchDocuments()
+      } else {
+        alert(t('documents.deleteFailed'))
+      }
+    } catch (error) {
+      console.error('Error deleting document:', error)
+      alert(t('documents.deleteFailed'))
+    }
+  }
+
+  // Embeddings from an older model can't be compared with search queries, so these documents need re-embedding
+  const handleReembed = async (documentId: number) => {
+    try {
+      setReembeddingId(documentId)
+      const response = await apiFetch(`/api/documents/${documentId}/reembed`, {
+        method: 'POST'
+      })
+
+      if (response.ok) {
+        fetchDocuments()
+      } else {
+        alert(t('documents.reembedFailed'))
+      }
+    } catch (error) {
+      console.error('Error re-embedding document:', error)
+      alert(t('documents.reembedFailed'))
+    } finally {
+      setReembeddingId(null)
+    }
+  }
+
+  const startEdit = (document: Document) => {
+    setEditingId(document.Id || document.id || null)
+    setEditName(document.filename)
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{t('documents.library')}</h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <div className="p-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+              {t('documents.libraryDescription')}
+            </p>
+
+            <div className="space-y-3">
+              {isLoading && documents.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-500 dark:text-gray-400">{t('documents.loading')}</p>
+                </div>
+              ) : documents.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-500 dark:text-gray-400">{t('documents.noDocuments')}</p>
+                </div>
+              ) : (
+                documents.map((document) => {
+                  const documentId = (document.Id || document.id)!
+                  const isActive = activeDocumentIds.includes(documentId)
+                  const needsReembedding = embeddingModel !== null && document.embedding_model !== embeddingModel
+
+                  return (
+                    <div
+                      key={documentId}
+                      className="p-4 border dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+                    >
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3 flex-1 min-w-0">
+                          <FileText size={20} className="text-blue-500 flex-shrink-0" />
+                          {editingId === documentId ? (
+                            <input
+                              type="text"
+                              value={editName}
+                              onChange={(e) => setEditName(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRename(documentId)
+                                if (e.key === 'Escape') setEditingId(null)
+                              }}
+                              autoFocus
+                              className="flex-1 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          ) : (
+                            <div className="min-w-0">
+                              <h3 className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                                {document.filename}
+                              </h3>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                {formatFileSize(document.size)} · {t('documents.chunks', { count: document.chunk_count })}
+                                {document.CreatedAt && ` · ${new Date(document.CreatedAt).toLocaleDateString()}`}
+                              </p>
+                              {needsReembedding && (
+                                <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
+                                  {t('documents.outdatedEmbeddings')}
+                                </p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {editingId === documentId ? (
+                            <button
+                              onClick={() => handleRename(documentId)}
+                              className="p-2 text-gray-400 hover:text-green-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                              title={t('documents.save')}
+                            >
+                              <Check size={16} />
+                            </button>
+                          ) : (
+                            <>
+                              {needsReembedding && (
+                                <button
+                                  onClick={() => handleReembed(documentId)}
+                                  disabled={reembeddingId !== null}
+                                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-yellow-700 dark:text-yellow-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                                >
+                                  <RefreshCw size={14} className={reembeddingId === documentId ? 'animate-spin' : ''} />
+                                  {t('documents.reembed')}
+                                </button>
+                              )}
+                              <button
+                                onClick={() => onUseDocument(document)}
+                                disabled={isActive}
+                                className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:text-green-600 disabled:dark:text-green-400 disabled:hover:bg-transparent"
+                              >
+                                {isActive ? <Check size={14} /> : <Plus size={14} />}
+                                {isActive ? t('documents.inUse') : t('documents.useInChat')}
+                              </button>
+                              <button
+                                onClick={() => startEdit(document)}
+                                className="p-2 text-gray-400 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                                title={t('documents.rename')}
+                              >
+                                <Edit size={16} />
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() => handleDelete(documentId)}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                            title={t('documents.delete')}
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
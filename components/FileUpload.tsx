@@ -3,6 +3,8 @@
 import { useState, useRef } from 'react'
 import { Upload, File, X, FileText, Image } from 'lucide-react'
 import { UploadedFile } from '@/lib/types'
+import { apiFetch } from '@/lib/api'
+import { detectDocumentKind, SUPPORTED_DOCUMENT_EXTENSIONS } from '@/lib/document-utils'
 import { useTranslation } from 'react-i18next'
 
 interface FileUploadProps {
@@ -10,11 +12,11 @@ interface FileUploadProps {
   onFilesChange: (files: UploadedFile[]) => void
   isProcessing: boolean
   documentsReady?: boolean
-  selectedModelId?: string
+  supportsVision?: boolean
   showUploadArea?: boolean
 }
 
-export default function FileUpload({ files, onFilesChange, isProcessing, documentsReady = false, selectedModelId, showUploadArea = true }: FileUploadProps) {
+export default function FileUpload({ files, onFilesChange, isProcessing, documentsReady = false, supportsVision = false, showUploadArea = true }: FileUploadProps) {
   const { t } = useTranslation()
   const [isDragOver, setIsDragOver] = useState(false)
   const [processingStatus, setProcessingStatus] = useState<string>('')
@@ -61,15 +63,15 @@ export default function FileUpload({ files, onFilesChange, isProcessing, documen
         }
       }
       
-      // Process PDFs, text files, and images
-      if (file.type === 'application/pdf' || file.type === 'text/plain' || file.type.startsWith('image/')) {
+      // Process supported documents and images
+      if (detectDocumentKind(file.name, file.type) || file.type.startsWith('image/')) {
         try {
           setProcessingStatus(t('fileUpload.processing'))
           
           const formData = new FormData()
           formData.append('file', file)
 
-          const response = await fetch('/api/upload', {
+          const response = await apiFetch('/api/upload', {
             method: 'POST',
             body: formData
           })
@@ -96,6 +98,10 @@ export default function FileUpload({ files, onFilesChange, isProcessing, documen
             }
             
             processedFiles.push(uploadedFile)
+          } else {
+            // Show the server's reason (e.g. scanned PDF without a text layer)
+            const result = await response.json().catch(() => ({}))
+            alert(`${file.name}: ${result.error || t('errors.fileUploadFailed')}`)
           }
         } catch (error) {
           console.error('Error processing file:', file.name, error)
@@ -110,6 +116,7 @@ export default function FileUpload({ files, onFilesChange, isProcessing, documen
         }
       } else {
         console.log('File type not supported:', file.type)
+        alert(`${file.name}: ${t('fileUpload.unsupportedFormat')}`)
       }
     }
 
@@ -155,7 +162,7 @@ export default function FileUpload({ files, onFilesChange, isProcessing, documen
         </button>
         <p className="text-sm text-gray-500">
           {t('fileUpload.supportedFormats')}
-          {selectedModelId?.includes('Mistral-Small') && (
+          {supportsVision && (
             <span className="block text-blue-600 dark:text-blue-400 font-medium mt-1">
               ✨ {t('fileUpload.imageAnalysis')}
             </span>
@@ -168,7 +175,7 @@ export default function FileUpload({ files, onFilesChange, isProcessing, documen
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".pdf,.txt,.jpg,.jpeg,.png,.gif"
+          accept={[...SUPPORTED_DOCUMENT_EXTENSIONS, '.jpg', '.jpeg', '.png', '.gif'].join(',')}
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { X } from 'lucide-react'
 import { useAuth } from '@/lib/auth-context'
 import { useTranslation } from 'react-i18next'
@@ -10,35 +10,215 @@ interface LoginModalProps {
   onClose: () => void
 }
 
+type Mode = 'login' | 'register' | 'forgot'
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+
 export default function LoginModal({ isOpen, onClose }: LoginModalProps) {
+  const [mode, setMode] = useState<Mode>('login')
+  const [registrationMode, setRegistrationMode] = useState('closed')
+  const [sso, setSso] = useState<{ enabled: boolean, label: string }>({ enabled: false, label: '' })
   const [username, setUsername] = useState('')
   const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [email, setEmail] = useState('')
+  const [firstName, setFirstName] = useState('')
+  const [lastName, setLastName] = useState('')
+  const [inviteToken, setInviteToken] = useState('')
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [showResend, setShowResend] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
   const { login } = useAuth()
-  const { t } = useTranslation()
+  const { t, i18n } = useTranslation()
+
+  // Load which ways to sign in are offered, and pick up invitations and failed SSO logins from the URL
+  useEffect(() => {
+    if (!isOpen) return
+
+    const params = new URLSearchParams(window.location.search)
+    const invite = params.get('invite')
+    if (invite) {
+      setInviteToken(invite)
+      setMode('register')
+    }
+
+    // A failed SSO login comes back with the reason in the URL
+    const ssoError = params.get('sso_error')
+    if (ssoError) {
+      setError(
+        ssoError === 'username_taken' ? t('auth.ssoUsernameTaken')
+          : ssoError === 'account_disabled' ? t('auth.accountDisabled')
+            : t('auth.ssoFailed')
+      )
+      const url = new URL(window.location.href)
+      url.searchParams.delete('sso_error')
+      window.history.replaceState(null, '', url.toString())
+    }
+
+    fetch('/api/auth/register')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setRegistrationMode(data?.mode || 'closed'))
+      .catch(() => setRegistrationMode('closed'))
+
+    fetch('/api/auth/oidc')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setSso({ enabled: Boolean(data?.enabled), label: data?.label || '' }))
+      .catch(() => setSso({ enabled: false, label: '' }))
+  }, [isOpen])
 
   if (!isOpen) return null
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const switchMode = (newMode: Mode) => {
+    setMode(newMode)
     setError('')
-    
-    const success = await login(username, password)
-    if (success) {
+    setNotice('')
+    setShowResend(false)
+    setPassword('')
+    setConfirmPassword('')
+  }
+
+  const handleLogin = async () => {
+    const result = await login(username, password)
+    if (result.success) {
       setUsername('')
       setPassword('')
       setError('')
       onClose()
+    } else if (result.code === 'email_not_verified') {
+      setError(t('auth.emailNotVerified'))
+      setShowResend(true)
+    } else if (result.code === 'account_disabled') {
+      setError(t('auth.accountDisabled'))
+    } else if (result.code === 'account_locked') {
+      setError(t('auth.accountLocked', { minutes: Math.ceil((result.retryAfter || 60) / 60) }))
+    } else if (result.code === 'too_many_attempts') {
+      setError(t('auth.tooManyAttempts', { seconds: result.retryAfter || 1 }))
     } else {
       setError(t('auth.invalidCredentials'))
     }
   }
 
+  const handleRegister = async () => {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setError(t('auth.invalidEmail'))
+      return
+    }
+    if (password !== confirmPassword) {
+      setError(t('auth.passwordsDoNotMatch'))
+      return
+    }
+    if (!/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/.test(password)) {
+      setError(t('auth.passwordRequirements'))
+      return
+    }
+
+    const response = await fetch('/api/auth/register', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        username,
+        email,
+        password,
+        firstName,
+        lastName,
+        inviteToken: inviteToken || undefined,
+        language: i18n.language
+      })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      setError(data.error || t('auth.registrationFailed'))
+      return
+    }
+
+    // The invitation is used up, don't offer it again
+    if (inviteToken) {
+      const url = new URL(window.location.href)
+      url.searchParams.delete('invite')
+      window.history.replaceState(null, '', url.toString())
+      setInviteToken('')
+    }
+
+    switchMode('login')
+    setNotice(data.verificationRequired ? t('auth.verificationEmailSent') : t('auth.registrationComplete'))
+  }
+
+  const handleForgotPassword = async () => {
+    const response = await fetch('/api/auth/forgot-password', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ email })
+    })
+
+    if (response.ok) {
+      setNotice(t('auth.resetLinkSent'))
+    } else if (response.status === 429) {
+      const data = await response.json().catch(() => ({}))
+      setError(t('auth.tooManyResetRequests', { minutes: Math.ceil((data.retryAfter || 60) / 60) }))
+    } else {
+      setError(t('auth.invalidEmail'))
+    }
+  }
+
+  const handleResendVerification = async () => {
+    setShowResend(false)
+    try {
+      await fetch('/api/auth/resend-verification', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ username })
+      })
+      setError('')
+      setNotice(t('auth.verificationEmailSent'))
+    } catch (error) {
+      console.error('Resend verification error:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setNotice('')
+    setShowResend(false)
+    setIsSubmitting(true)
+
+    try {
+      if (mode === 'register') {
+        await handleRegister()
+      } else if (mode === 'forgot') {
+        await handleForgotPassword()
+      } else {
+        await handleLogin()
+      }
+    } catch (error) {
+      console.error('Auth form error:', error)
+      setError(mode === 'register' ? t('auth.registrationFailed') : t('common.error'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const title = mode === 'register'
+    ? t('auth.createAccount')
+    : mode === 'forgot' ? t('auth.resetPassword') : t('auth.signIn')
+  const submitLabel = mode === 'register'
+    ? t('auth.createAccount')
+    : mode === 'forgot' ? t('auth.sendResetLink') : t('auth.signIn')
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{t('auth.signIn')}</h2>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
           <button
             onClick={onClose}
             className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -46,48 +226,218 @@ export default function LoginModal({ isOpen, onClose }: LoginModalProps) {
             <X size={20} className="text-gray-600 dark:text-gray-400" />
           </button>
         </div>
-        
+
+        {mode === 'login' && sso.enabled && (
+          <>
+            <a
+              href="/api/auth/oidc/login"
+              className="block w-full py-2 px-4 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg transition-colors font-medium text-center"
+            >
+              {t('auth.signInWith', { provider: sso.label })}
+            </a>
+            <div className="flex items-center gap-3 my-4">
+              <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+              <span className="text-xs text-gray-500 dark:text-gray-400">{t('auth.or')}</span>
+              <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+            </div>
+          </>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              {t('auth.username')}
-            </label>
-            <input
-              id="username"
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
-            />
-          </div>
-          
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              {t('auth.password')}
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
-            />
-          </div>
-          
+          {mode === 'forgot' && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">{t('auth.forgotPasswordDescription')}</p>
+          )}
+
+          {mode !== 'forgot' && (
+            <div>
+              <label htmlFor="username" className={labelClassName}>
+                {t('auth.username')}
+              </label>
+              <input
+                id="username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClassName}
+                autoComplete="username"
+                required
+              />
+            </div>
+          )}
+
+          {mode !== 'login' && (
+            <div>
+              <label htmlFor="email" className={labelClassName}>
+                {t('auth.email')}
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={inputClassName}
+                autoComplete="email"
+                required
+              />
+            </div>
+          )}
+
+          {mode === 'register' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="firstName" className={labelClassName}>
+                  {t('auth.firstName')}
+                </label>
+                <input
+                  id="firstName"
+                  type="text"
+                  value={firstName}
+                  onChange={(e) => setFirstName(e.target.value)}
+                  className={inputClassName}
+                  autoComplete="given-name"
+                />
+              </div>
+              <div>
+                <label htmlFor="lastName" className={labelClassName}>
+                  {t('auth.lastName')}
+                </label>
+                <input
+                  id="lastName"
+                  type="text"
+                  value={lastName}
+                  onChange={(e) => setLastName(e.target.value)}
+                  className={inputClassName}
+                  autoComplete="family-name"
+                />
+              </div>
+            </div>
+          )}
+
+          {mode !== 'forgot' && (
+            <div>
+              <label htmlFor="password" className={labelClassName}>
+                {t('auth.password')}
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+                autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                required
+              />
+              {mode === 'login' && (
+                <button
+                  type="button"
+                  onClick={() => switchMode('forgot')}
+                  className="mt-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {t('auth.forgotPassword')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {mode === 'register' && (
+            <>
+              <div>
+                <label htmlFor="confirmPassword" className={labelClassName}>
+                  {t('auth.confirmPassword')}
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClassName}
+                  autoComplete="new-password"
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('auth.passwordRequirements')}</p>
+              </div>
+
+              {registrationMode === 'invite' && (
+                <div>
+                  <label htmlFor="inviteToken" className={labelClassName}>
+                    {t('auth.inviteCode')}
+                  </label>
+                  <input
+                    id="inviteToken"
+                    type="text"
+                    value={inviteToken}
+                    onChange={(e) => setInviteToken(e.target.value)}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+              )}
+            </>
+          )}
+
           {error && (
             <p className="text-red-500 text-sm">{error}</p>
           )}
-          
+
+          {showResend && (
+            <button
+              type="button"
+              onClick={handleResendVerification}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {t('auth.resendVerification')}
+            </button>
+          )}
+
+          {notice && (
+            <p className="text-green-600 dark:text-green-400 text-sm">{notice}</p>
+          )}
+
           <button
             type="submit"
-            className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium"
+            disabled={isSubmitting}
+            className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors font-medium"
           >
-            {t('auth.signIn')}
+            {submitLabel}
           </button>
         </form>
+
+        <div className="mt-4 text-center text-sm text-gray-600 dark:text-gray-400">
+          {mode === 'login' && registrationMode !== 'closed' && (
+            <>
+              {t('auth.noAccount')}{' '}
+              <button
+                type="button"
+                onClick={() => switchMode('register')}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {t('auth.createAccount')}
+              </button>
+            </>
+          )}
+          {mode === 'register' && (
+            <>
+              {t('auth.haveAccount')}{' '}
+              <button
+                type="button"
+                onClick={() => switchMode('login')}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {t('auth.signIn')}
+              </button>
+            </>
+          )}
+          {mode === 'forgot' && (
+            <button
+              type="button"
+              onClick={() => switchMode('login')}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {t('auth.backToSignIn')}
+            </button>
+          )}
+        </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { Database, Check, Image as ImageIcon } from 'lucide-react'
+import { apiFetch } from '@/lib/api'
+import { MCPResourceRef } from '@/lib/types'
+import { useTranslation } from 'react-i18next'
+import { clsx } from 'clsx'
+
+interface MCPResource {
+  server: string
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
+interface MCPResourcePickerProps {
+  attached: MCPResourceRef[]
+  onToggle: (resource: MCPResourceRef) => void
+}
+
+// Lists the resources of the MCP servers so that they can be attached to the chat as context
+export default function MCPResourcePicker({ attached, onToggle }: MCPResourcePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [resources, setResources] = useState<MCPResource[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const { t } = useTranslation()
+
+  const fetchResources = async () => {
+    try {
+      setIsLoading(true)
+      const response = await apiFetch('/api/mcp/resources')
+      if (response.ok) {
+        const data = await response.json()
+        setResources(data.resources)
+      }
+    } catch (error) {
+      console.error('Error fetching MCP resources:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const isAttached = (resource: MCPResource) =>
+    attached.some(ref => ref.server === resource.server && ref.uri === resource.uri)
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => {
+          if (!isOpen) fetchResources()
+          setIsOpen(!isOpen)
+        }}
+        className={`p-2 rounded-lg transition-colors ${
+          attached.length > 0
+            ? 'bg-blue-100 hover:bg-blue-200 dark:bg-blue-900 dark:hover:bg-blue-800'
+            : 'hover:bg-gray-200 dark:hover:bg-gray-800'
+        }`}
+        title={t('mcp.attachResource')}
+      >
+        <Database size={20} className={attached.length > 0 ? 'text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400'} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="absolute bottom-full left-0 mb-2 w-80 max-h-80 overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border dark:border-gray-700 z-20">
+            <div className="p-2">
+              <div className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400">{t('mcp.resources')}</div>
+              {isLoading ? (
+                <p className="px-3 py-2 text-sm text-gray-600 dark:text-gray-400">{t('common.loading')}</p>
+              ) : resources.length === 0 ? (
+                <p className="px-3 py-2 text-sm text-gray-600 dark:text-gray-400">{t('mcp.noResources')}</p>
+              ) : (
+                resources.map(resource => {
+                  const selected = isAttached(resource)
+                  return (
+                    <button
+                      key={`${resource.server}:${resource.uri}`}
+                      type="button"
+                      onClick={() => onToggle({ server: resource.server, uri: resource.uri, name: resource.name, mimeType: resource.mimeType })}
+                      className={clsx(
+                        'w-full flex items-start gap-3 px-3 py-2 rounded-lg transition-colors text-left',
+                        selected ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                      )}
+                    >
+                      {resource.mimeType?.startsWith('image/') && (
+                        <ImageIcon size={16} className="text-gray-500 dark:text-gray-400 mt-0.5 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{resource.name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={resource.uri}>
+                          {resource.server} · {resource.description || resource.uri}
+                        </div>
+                      </div>
+                      {selected && <Check size={16} className="text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />}
+                    </button>
+                  )
+                })
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
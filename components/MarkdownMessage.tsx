@@ -8,15 +8,39 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import { Copy, Check, ChevronDown, ChevronRight, Brain } from 'lucide-react'
 import { useState } from 'react'
+import SourceCitation from '@/components/SourceCitation'
+import { Source } from '@/lib/types'
 
 interface MarkdownMessageProps {
   content: string
   isStreaming?: boolean
   className?: string
+  sources?: Source[]
 }
 
+// Href prefix marking a link as a source citation
+const CITATION_HREF_PREFIX = '#source-'
 
-export default function MarkdownMessage({ content, isStreaming = false, className = "" }: MarkdownMessageProps) {
+// Turn [1], [2] and [1, 2] into citation links for known sources, leaving code blocks untouched
+function linkCitations(text: string, sources: Source[]): string {
+  if (sources.length === 0) return text
+  const sourceIds = new Set(sources.map(source => source.id))
+
+  return text
+    .split(/(```[\s\S]*?(?:```|$))/)
+    .map((segment, index) => {
+      if (index % 2 === 1) return segment // Code block
+      return segment.replace(/\[(\d+(?:\s*,\s*\d+)*)\](?![(:])/g, (match, ids: string) => {
+        const citedIds = ids.split(',').map(id => parseInt(id.trim(), 10))
+        if (!citedIds.every(id => sourceIds.has(id))) return match
+        return citedIds.map(id => `[${id}](${CITATION_HREF_PREFIX}${id})`).join('')
+      })
+    })
+    .join('')
+}
+
+
+export default function MarkdownMessage({ content, isStreaming = false, className = "", sources = [] }: MarkdownMessageProps) {
   const [copiedBlocks, setCopiedBlocks] = useState<Set<string>>(new Set())
   const [showThinking, setShowThinking] = useState(false)
   
@@ -192,6 +216,24 @@ export default function MarkdownMessage({ content, isStreaming = false, classNam
     )
   }
 
+  // Render citation links as source hover cards, other links normally
+  const LinkOrCitation = ({ href, children, node, ...props }: any) => {
+    if (href?.startsWith(CITATION_HREF_PREFIX)) {
+      const sourceId = parseInt(href.substring(CITATION_HREF_PREFIX.length), 10)
+      const source = sources.find(s => s.id === sourceId)
+      if (source) {
+        return <SourceCitation source={source} />
+      }
+    }
+    return <a href={href} {...props}>{children}</a>
+  }
+
+  const markdownComponents = {
+    pre: PreBlock,
+    code: CodeInline,
+    a: LinkOrCitation
+  }
+
   // Handle streaming with safe markdown rendering
   if (isStreaming) {
     const parsedContent = parseReasoningContent(content)
@@ -224,10 +266,7 @@ export default function MarkdownMessage({ content, isStreaming = false, classNam
                   <ReactMarkdown
                     rehypePlugins={[rehypeHighlight]}
                     skipHtml={true}
-                    components={{
-                      pre: PreBlock,
-                      code: CodeInline
-                    }}
+                    components={markdownComponents}
                   >
                     {parsedContent.thinking}
                   </ReactMarkdown>
@@ -242,12 +281,9 @@ export default function MarkdownMessage({ content, isStreaming = false, classNam
               <ReactMarkdown
                 rehypePlugins={[rehypeHighlight]}
                 skipHtml={true}
-                components={{
-                  pre: PreBlock,
-                  code: CodeInline
-                }}
+                components={markdownComponents}
               >
-                {safeContent}
+                {linkCitations(safeContent, sources)}
               </ReactMarkdown>
             </div>
           )}
@@ -268,12 +304,9 @@ export default function MarkdownMessage({ content, isStreaming = false, classNam
             <ReactMarkdown
               rehypePlugins={[rehypeHighlight]}
               skipHtml={true}
-              components={{
-                pre: PreBlock,
-                code: CodeInline
-              }}
+              components={markdownComponents}
             >
-              {safeContent}
+              {linkCitations(safeContent, sources)}
             </ReactMarkdown>
           </div>
         )}
@@ -315,10 +348,7 @@ export default function MarkdownMessage({ content, isStreaming = false, classNam
                 <ReactMarkdown
                   rehypePlugins={[rehypeHighlight]}
                   skipHtml={true}
-                  components={{
-                    pre: PreBlock,
-                    code: CodeInline
-                  }}
+                  components={markdownComponents}
                 >
                   {parsedContent.thinking}
                 </ReactMarkdown>
@@ -332,12 +362,9 @@ export default function MarkdownMessage({ content, isStreaming = false, classNam
           <ReactMarkdown
             rehypePlugins={[rehypeHighlight]}
             skipHtml={true}
-            components={{
-              pre: PreBlock,
-              code: CodeInline
-            }}
+            components={markdownComponents}
           >
-            {parsedContent.finalAnswer}
+            {linkCitations(parsedContent.finalAnswer, sources)}
           </ReactMarkdown>
         </div>
       </div>
@@ -350,12 +377,9 @@ export default function MarkdownMessage({ content, isStreaming = false, classNam
       <ReactMarkdown
         rehypePlugins={[rehypeHighlight]}
         skipHtml={true}
-        components={{
-          pre: PreBlock,
-          code: CodeInline
-        }}
+        components={markdownComponents}
       >
-        {content}
+        {linkCitations(content, sources)}
       </ReactMarkdown>
     </div>
   )
@@ -1,19 +1,29 @@
 'use client'
 
+import { useState } from 'react'
 import { Message } from '@/lib/types'
-import { User, Bot, Search, FileText, Zap, Globe, Mail, MessageSquare, BookOpen, Loader2 } from 'lucide-react'
+import { User, Bot, Search, FileText, Zap, Globe, Mail, MessageSquare, BookOpen, Loader2, Check, AlertCircle, ChevronRight, ImageOff } from 'lucide-react'
 import { clsx } from 'clsx'
 import MarkdownMessage from '@/components/MarkdownMessage'
+import ToolApprovalCard from '@/components/ToolApprovalCard'
+import ToolCallInspector from '@/components/ToolCallInspector'
 import { useTranslation } from 'react-i18next'
 
 interface MessageListProps {
   messages: Message[]
   isLoading: boolean
   currentFunctionCall?: {name: string, args: any} | null
+  onToolApprovalDecision?: (id: string, approved: boolean) => void
 }
 
-export default function MessageList({ messages, isLoading, currentFunctionCall }: MessageListProps) {
+export default function MessageList({ messages, isLoading, currentFunctionCall, onToolApprovalDecision }: MessageListProps) {
+  // Tool calls opened in the inspector, as <message id>:<index>
+  const [inspectedToolCalls, setInspectedToolCalls] = useState<string[]>([])
   const { t } = useTranslation()
+
+  const toggleInspector = (key: string) => {
+    setInspectedToolCalls(keys => keys.includes(key) ? keys.filter(k => k !== key) : [...keys, key])
+  }
   
   // Helper function to determine if a message is currently streaming
   const isMessageStreaming = (messageIndex: number, message: Message) => {
@@ -22,42 +32,59 @@ export default function MessageList({ messages, isLoading, currentFunctionCall }
     return isLoading && isLastMessage && isAssistantMessage
   }
 
+  // MCP tools are named mcp_<server>__<tool>; older messages have mcp_<tool>
+  const parseMCPToolName = (toolName: string) => {
+    const mcpName = toolName?.startsWith('mcp_') ? toolName.substring(4) : null
+    const mcpServer = mcpName?.includes('__') ? mcpName.split('__')[0] : null
+    const mcpTool = mcpName?.includes('__') ? mcpName.substring(mcpName.indexOf('__') + 2) : mcpName
+    return { mcpServer, mcpTool }
+  }
+
+  // Tool name as shown on approval cards
+  const getToolLabel = (toolName: string) => {
+    const { mcpServer, mcpTool } = parseMCPToolName(toolName)
+    if (!mcpTool) return toolName
+    return mcpServer ? `${mcpTool} (${mcpServer})` : mcpTool
+  }
+
   // Helper function to get tool icon and info
   const getToolInfo = (toolName: string) => {
+    const { mcpServer, mcpTool } = parseMCPToolName(toolName)
+
     if (toolName === 'search_documents') {
       return {
         icon: FileText,
         label: t('chat.searchingDocuments'),
         color: 'orange'
       }
-    } else if (toolName === 'wikipedia-api' || toolName === 'mcp_wikipedia-api') {
+    } else if (toolName === 'wikipedia-api' || mcpTool === 'wikipedia-api') {
       return {
         icon: BookOpen,
         label: 'Searching Wikipedia',
         color: 'blue'
       }
-    } else if (toolName === 'Discord' || toolName === 'mcp_Discord') {
+    } else if (toolName === 'Discord' || mcpTool === 'Discord') {
       return {
         icon: MessageSquare,
         label: 'Sending Discord message',
         color: 'indigo'
       }
-    } else if (toolName === 'Send_Email' || toolName === 'mcp_Send_Email') {
+    } else if (toolName === 'Send_Email' || mcpTool === 'Send_Email') {
       return {
         icon: Mail,
         label: 'Sending email',
         color: 'green'
       }
-    } else if (toolName === 'eduassist' || toolName === 'mcp_eduassist') {
+    } else if (toolName === 'eduassist' || mcpTool === 'eduassist') {
       return {
         icon: BookOpen,
         label: 'Searching educational resources',
         color: 'purple'
       }
-    } else if (toolName?.startsWith('mcp_')) {
+    } else if (mcpTool) {
       return {
         icon: Zap,
-        label: `Using ${toolName.substring(4)}`,
+        label: mcpServer ? `Using ${mcpTool} (${mcpServer})` : `Using ${mcpTool}`,
         color: 'purple'
       }
     } else {
@@ -104,7 +131,52 @@ export default function MessageList({ messages, isLoading, currentFunctionCall }
                 {/* Tool usage indicator at the top of assistant message */}
                 {message.role === 'assistant' && (isUsingTool || hasUsedTools) && (
                   <div className="px-4 py-2 bg-gradient-to-r from-emerald-100 to-teal-100 dark:from-emerald-900/30 dark:to-teal-900/30 border-b border-emerald-200 dark:border-emerald-800">
-                    {isUsingTool && currentFunctionCall ? (
+                    {hasUsedTools ? (
+                      <div className="space-y-1">
+                        {!isMessageStreaming(index, message) && (
+                          <div className="flex items-center gap-2">
+                            <Zap size={16} className="text-emerald-600 dark:text-emerald-400" />
+                            <span className="text-sm font-medium text-emerald-700 dark:text-emerald-300">
+                              Used {message.toolCalls?.length || 0} tool{(message.toolCalls?.length || 0) > 1 ? 's' : ''}
+                            </span>
+                          </div>
+                        )}
+                        {/* One row per tool call in the agent chain */}
+                        {message.toolCalls?.map((toolCall, toolIndex) => {
+                          const toolInfo = getToolInfo(toolCall.name)
+                          const Icon = toolInfo.icon
+                          const isCalling = toolCall.status === 'calling' && isMessageStreaming(index, message)
+                          const inspectorKey = `${message.id}:${toolIndex}`
+                          const isInspected = inspectedToolCalls.includes(inspectorKey)
+                          return (
+                            <div key={toolIndex}>
+                              <button
+                                type="button"
+                                onClick={() => toggleInspector(inspectorKey)}
+                                disabled={isCalling}
+                                className="w-full flex items-center gap-2 pl-1 text-left"
+                                aria-expanded={isInspected}
+                                title={isInspected ? t('chat.toolInspector.hide') : t('chat.toolInspector.show')}
+                              >
+                                <ChevronRight size={12} className={clsx('text-emerald-600 dark:text-emerald-400 transition-transform', isInspected && 'rotate-90', isCalling && 'invisible')} />
+                                <Icon size={14} className={clsx('text-emerald-600 dark:text-emerald-400', isCalling && 'animate-pulse')} />
+                                <span className="text-xs text-emerald-700 dark:text-emerald-300">
+                                  {toolInfo.label}
+                                </span>
+                                {isCalling ? (
+                                  <Loader2 size={12} className="text-emerald-600 dark:text-emerald-400 animate-spin ml-auto" />
+                                ) : toolCall.error ? (
+                                  <AlertCircle size={12} className="text-red-600 dark:text-red-400 ml-auto" />
+                                ) : (
+                                  <Check size={12} className="text-emerald-600 dark:text-emerald-400 ml-auto" />
+                                )}
+                              </button>
+                              {isInspected && !isCalling && <ToolCallInspector toolCall={toolCall} />}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    ) : isUsingTool && currentFunctionCall ? (
                       <div className="flex items-center gap-2">
                         {(() => {
                           const toolInfo = getToolInfo(currentFunctionCall.name)
@@ -120,22 +192,57 @@ export default function MessageList({ messages, isLoading, currentFunctionCall }
                           )
                         })()}
                       </div>
-                    ) : hasUsedTools ? (
-                      <div className="flex items-center gap-2">
-                        <Zap size={16} className="text-emerald-600 dark:text-emerald-400" />
-                        <span className="text-sm font-medium text-emerald-700 dark:text-emerald-300">
-                          Used {message.toolCalls?.length || 0} tool{(message.toolCalls?.length || 0) > 1 ? 's' : ''}
-                        </span>
-                      </div>
                     ) : null}
                   </div>
                 )}
                 
+                {/* Tool calls waiting for the user's approval, and how they were decided */}
+                {message.role === 'assistant' && message.toolApprovals && message.toolApprovals.length > 0 && (
+                  <div className="px-4 pt-3 space-y-2">
+                    {message.toolApprovals.map(approval => (
+                      <ToolApprovalCard
+                        key={approval.id}
+                        approval={approval}
+                        toolLabel={getToolLabel(approval.name)}
+                        onDecision={onToolApprovalDecision}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                {/* Images returned by MCP tools */}
+                {message.role === 'assistant' && message.images && message.images.length > 0 && (
+                  <div className="px-4 pt-3 flex flex-wrap gap-2">
+                    {message.images.map((image, imageIndex) => {
+                      // Large images are not kept with saved messages
+                      if (!image.data) {
+                        return (
+                          <div key={imageIndex} className="flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-xs text-gray-600 dark:text-gray-400">
+                            <ImageOff size={14} />
+                            {t('mcp.toolImageNotSaved', { number: imageIndex + 1 })}
+                          </div>
+                        )
+                      }
+                      const src = `data:${image.mimeType};base64,${image.data}`
+                      return (
+                        <a key={imageIndex} href={src} target="_blank" rel="noopener noreferrer">
+                          <img
+                            src={src}
+                            alt={t('mcp.toolImage', { number: imageIndex + 1 })}
+                            className="max-h-64 max-w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white"
+                          />
+                        </a>
+                      )
+                    })}
+                  </div>
+                )}
+
                 <div className={message.role === 'assistant' && (isUsingTool || hasUsedTools) ? 'px-4 py-3' : 'px-4 py-3'}>
                   {message.role === 'assistant' ? (
                     <MarkdownMessage 
                       content={message.content}
                       isStreaming={isMessageStreaming(index, message)}
+                      sources={message.sources}
                     />
                   ) : (
                     <div className="whitespace-pre-wrap break-words">
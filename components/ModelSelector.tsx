@@ -57,9 +57,9 @@ export default function ModelSelector({ models, selectedModel, onSelectModel }:
                     <div className="font-medium text-gray-900 dark:text-gray-100">
                       {model.name}
                     </div>
-                    {model.description && (
+                    {(model.descriptionKey || model.description) && (
                       <div className="text-sm text-gray-500 dark:text-gray-400 mb-2">
-                        {model.description}
+                        {model.descriptionKey ? t(model.descriptionKey) : model.description}
                       </div>
                     )}
                     {model.capabilities && model.capabilities.length > 0 && (
@@ -1,12 +1,20 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { ChevronDown, MessageCircle, Plus, Check } from 'lucide-react'
-import { Prompt } from '@/lib/prompts'
+import { ChevronDown, MessageCircle, Plus, Check, Plug } from 'lucide-react'
+import type { Prompt } from '@/lib/prompts'
 import { useAuth } from '@/lib/auth-context'
+import { apiFetch } from '@/lib/api'
 import { useTranslation } from 'react-i18next'
 import { clsx } from 'clsx'
 
+interface MCPPrompt {
+  server: string
+  name: string
+  description?: string
+  arguments?: { name: string, description?: string, required?: boolean }[]
+}
+
 interface PromptSelectorProps {
   selectedPrompt: Prompt | null
   onSelectPrompt: (prompt: Prompt) => void
@@ -18,12 +26,18 @@ interface PromptSelectorProps {
 export default function PromptSelector({ selectedPrompt, onSelectPrompt, onManagePrompts, sessionPrompts, onUpdateSessionPrompts }: PromptSelectorProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [mcpPrompts, setMCPPrompts] = useState<MCPPrompt[]>([])
+  const [activeMCPPrompt, setActiveMCPPrompt] = useState<MCPPrompt | null>(null)
+  const [mcpArguments, setMCPArguments] = useState<Record<string, string>>({})
+  const [mcpError, setMCPError] = useState('')
+  const [isApplying, setIsApplying] = useState(false)
   const { isLoggedIn } = useAuth()
   const { t } = useTranslation()
 
   useEffect(() => {
     if (isLoggedIn) {
       fetchPrompts()
+      fetchMCPPrompts()
     } else {
       // For anonymous users, use session prompts or create a default one
       if (sessionPrompts && sessionPrompts.length > 0) {
@@ -47,14 +61,7 @@ export default function PromptSelector({ selectedPrompt, onSelectPrompt, onManag
 
   const fetchPrompts = async () => {
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch('/api/prompts', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      })
+      const response = await apiFetch('/api/prompts')
 
       if (response.ok) {
         const data = await response.json()
@@ -71,6 +78,63 @@ export default function PromptSelector({ selectedPrompt, onSelectPrompt, onManag
     }
   }
 
+  const fetchMCPPrompts = async () => {
+    try {
+      const response = await apiFetch('/api/mcp/prompts')
+
+      if (response.ok) {
+        const data = await response.json()
+        setMCPPrompts(data.prompts)
+      }
+    } catch (error) {
+      console.error('Error fetching MCP prompts:', error)
+    }
+  }
+
+  // Fills in an MCP prompt on its server and uses the result as the system prompt
+  const applyMCPPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    setMCPError('')
+    try {
+      setIsApplying(true)
+      const response = await apiFetch('/api/mcp/prompts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ server: prompt.server, name: prompt.name, arguments: args })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        onSelectPrompt({
+          user_id: 0,
+          name: `${prompt.name} (${prompt.server})`,
+          content: data.content,
+          is_default: false
+        })
+        setActiveMCPPrompt(null)
+        setIsOpen(false)
+      } else {
+        setMCPError(data.error)
+      }
+    } catch (error) {
+      console.error('Error applying MCP prompt:', error)
+      setMCPError(String(error))
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const selectMCPPrompt = (prompt: MCPPrompt) => {
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setActiveMCPPrompt(prompt)
+      setMCPArguments({})
+      setMCPError('')
+    } else {
+      applyMCPPrompt(prompt, {})
+    }
+  }
+
   return (
     <div className="relative">
       <button
@@ -90,9 +154,12 @@ export default function PromptSelector({ selectedPrompt, onSelectPrompt, onManag
         <>
           <div
             className="fixed inset-0 z-10"
-            onClick={() => setIsOpen(false)}
+            onClick={() => {
+              setIsOpen(false)
+              setActiveMCPPrompt(null)
+            }}
           />
-          <div className="absolute top-full left-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg border dark:border-gray-700 z-20">
+          <div className="absolute top-full left-0 mt-2 w-80 max-h-[70vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border dark:border-gray-700 z-20">
             <div className="p-2">
               {prompts.map((prompt) => {
                 const promptId = prompt.Id || prompt.id
@@ -133,6 +200,70 @@ export default function PromptSelector({ selectedPrompt, onSelectPrompt, onManag
                   </button>
                 )
               })}
+
+              {/* Prompts offered by the MCP servers */}
+              {mcpPrompts.length > 0 && (
+                <>
+                  <div className="border-t dark:border-gray-700 my-2"></div>
+                  <div className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400">{t('prompts.mcpPrompts')}</div>
+                  {mcpPrompts.map((prompt) => {
+                    const isActive = activeMCPPrompt?.server === prompt.server && activeMCPPrompt?.name === prompt.name
+                    return (
+                      <div key={`${prompt.server}:${prompt.name}`}>
+                        <button
+                          onClick={() => isActive ? setActiveMCPPrompt(null) : selectMCPPrompt(prompt)}
+                          disabled={isApplying}
+                          className={clsx(
+                            'w-full flex items-start gap-3 px-3 py-2 rounded-lg transition-colors text-left disabled:opacity-50',
+                            isActive ? 'bg-purple-50 dark:bg-purple-900/20' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                          )}
+                        >
+                          <Plug size={16} className="text-purple-600 dark:text-purple-400 mt-1 flex-shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-gray-900 dark:text-gray-100 truncate">{prompt.name}</div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                              {prompt.server}{prompt.description ? ` · ${prompt.description}` : ''}
+                            </div>
+                          </div>
+                        </button>
+
+                        {isActive && (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault()
+                              applyMCPPrompt(prompt, mcpArguments)
+                            }}
+                            className="px-3 py-2 space-y-2"
+                          >
+                            {prompt.arguments?.map(argument => (
+                              <label key={argument.name} className="block text-xs text-gray-600 dark:text-gray-400">
+                                {argument.name}{argument.required && ' *'}
+                                <input
+                                  type="text"
+                                  value={mcpArguments[argument.name] || ''}
+                                  onChange={(e) => setMCPArguments({ ...mcpArguments, [argument.name]: e.target.value })}
+                                  placeholder={argument.description}
+                                  required={argument.required}
+                                  className="mt-1 w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                              </label>
+                            ))}
+                            {mcpError && <p className="text-red-500 text-xs">{mcpError}</p>}
+                            <button
+                              type="submit"
+                              disabled={isApplying}
+                              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors text-sm font-medium"
+                            >
+                              {t('prompts.useMCPPrompt')}
+                            </button>
+                          </form>
+                        )}
+                      </div>
+                    )
+                  })}
+                  {mcpError && !activeMCPPrompt && <p className="px-3 py-1 text-red-500 text-xs">{mcpError}</p>}
+                </>
+              )}
               
               <div className="border-t dark:border-gray-700 my-2"></div>
               
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { FileText, Globe, ExternalLink } from 'lucide-react'
+import { Source } from '@/lib/types'
+import { useTranslation } from 'react-i18next'
+
+interface SourceCitationProps {
+  source: Source
+}
+
+// Maximum characters of the chunk or snippet shown in the hover card
+const PREVIEW_LENGTH = 400
+
+// Inline [n] citation with a hover card showing where the cited text came from
+export default function SourceCitation({ source }: SourceCitationProps) {
+  const [isHovered, setIsHovered] = useState(false)
+  const [isPinned, setIsPinned] = useState(false)
+  const { t } = useTranslation()
+
+  const isOpen = isHovered || isPinned
+  const preview = source.content.length > PREVIEW_LENGTH
+    ? source.content.substring(0, PREVIEW_LENGTH) + '...'
+    : source.content
+  const location = [
+    source.page ? t('sources.page', { page: source.page }) : '',
+    source.sectionPath && source.sectionPath.length > 0 ? source.sectionPath.join(' › ') : ''
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <span
+      className="relative inline-block not-prose"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <button
+        type="button"
+        onClick={() => setIsPinned(!isPinned)}
+        className={`inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 text-xs font-medium rounded align-super transition-colors ${
+          isPinned
+            ? 'bg-blue-600 text-white'
+            : 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-800/60'
+        }`}
+        aria-label={t('sources.citation', { id: source.id })}
+      >
+        {source.id}
+      </button>
+
+      {isOpen && (
+        <span className="absolute left-0 bottom-full mb-2 z-40 block w-80 p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-left">
+          <span className="flex items-center gap-2 mb-1">
+            {source.type === 'web' ? (
+              <Globe size={14} className="text-green-600 dark:text-green-400 flex-shrink-0" />
+            ) : (
+              <FileText size={14} className="text-blue-600 dark:text-blue-400 flex-shrink-0" />
+            )}
+            <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+              {source.title}
+            </span>
+          </span>
+          {location && (
+            <span className="block text-xs text-gray-500 dark:text-gray-400 mb-2">{location}</span>
+          )}
+          {source.url && (
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline mb-2 truncate"
+            >
+              <ExternalLink size={12} className="flex-shrink-0" />
+              <span className="truncate">{source.url}</span>
+            </a>
+          )}
+          <span className="block text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+            {preview}
+          </span>
+        </span>
+      )}
+    </span>
+  )
+}
@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import { X, Plus, Edit, Trash2, Check, Star } from 'lucide-react'
-import { Prompt } from '@/lib/prompts'
+import type { Prompt } from '@/lib/prompts'
 import { useAuth } from '@/lib/auth-context'
+import { apiFetch } from '@/lib/api'
 import { useTranslation } from 'react-i18next'
 
 interface SystemPromptModalProps {
@@ -35,14 +36,7 @@ export default function SystemPromptModal({ isOpen, onClose, sessionPrompts, onU
     }
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch('/api/prompts', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      })
+      const response = await apiFetch('/api/prompts')
 
       if (response.ok) {
         const data = await response.json()
@@ -77,13 +71,9 @@ export default function SystemPromptModal({ isOpen, onClose, sessionPrompts, onU
     }
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch('/api/prompts', {
+      const response = await apiFetch('/api/prompts', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -133,13 +123,9 @@ export default function SystemPromptModal({ isOpen, onClose, sessionPrompts, onU
     }
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch(`/api/prompts/${promptId}`, {
+      const response = await apiFetch(`/api/prompts/${promptId}`, {
         method: 'PATCH',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -176,14 +162,8 @@ export default function SystemPromptModal({ isOpen, onClose, sessionPrompts, onU
     }
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch(`/api/prompts/${promptId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
+      const response = await apiFetch(`/api/prompts/${promptId}`, {
+        method: 'DELETE'
       })
 
       if (response.ok) {
@@ -213,13 +193,9 @@ export default function SystemPromptModal({ isOpen, onClose, sessionPrompts, onU
     }
 
     try {
-      const token = localStorage.getItem('authToken')
-      if (!token) return
-
-      const response = await fetch(`/api/prompts/${promptId}`, {
+      const response = await apiFetch(`/api/prompts/${promptId}`, {
         method: 'PATCH',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -0,0 +1,68 @@
+'use client'
+
+import { useState } from 'react'
+import { ShieldAlert, Check, X, Clock } from 'lucide-react'
+import { ToolApproval } from '@/lib/types'
+import { useTranslation } from 'react-i18next'
+
+interface ToolApprovalCardProps {
+  approval: ToolApproval
+  toolLabel: string // Readable tool name, e.g. "Send_Email (n8n)"
+  onDecision?: (id: string, approved: boolean) => void
+}
+
+// Asks the user to approve or deny a tool call the answer is waiting on, and shows the outcome afterwards
+export default function ToolApprovalCard({ approval, toolLabel, onDecision }: ToolApprovalCardProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { t } = useTranslation()
+
+  const decide = (approved: boolean) => {
+    setIsSubmitting(true)
+    onDecision?.(approval.id, approved)
+  }
+
+  if (approval.status !== 'pending') {
+    const Icon = approval.status === 'approved' ? Check : approval.status === 'rejected' ? X : Clock
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+        <Icon size={12} className="flex-shrink-0" />
+        <span>{t(`chat.toolApproval.${approval.status}`, { tool: toolLabel })}</span>
+      </div>
+    )
+  }
+
+  const args = JSON.stringify(approval.args ?? {}, null, 2)
+
+  return (
+    <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <ShieldAlert size={16} className="text-amber-600 dark:text-amber-400 flex-shrink-0" />
+        <span className="text-sm font-medium text-amber-800 dark:text-amber-300">
+          {t('chat.toolApproval.title', { tool: toolLabel })}
+        </span>
+      </div>
+      <p className="text-xs text-amber-700 dark:text-amber-400 mb-1">{t('chat.toolApproval.arguments')}</p>
+      <pre className="max-h-48 overflow-auto p-2 mb-3 text-xs bg-white dark:bg-gray-900 border border-amber-200 dark:border-amber-800 rounded text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">
+        {args}
+      </pre>
+      <div className="flex gap-2">
+        <button
+          onClick={() => decide(true)}
+          disabled={isSubmitting}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          <Check size={14} />
+          {t('chat.toolApproval.approve')}
+        </button>
+        <button
+          onClick={() => decide(false)}
+          disabled={isSubmitting}
+          className="flex items-center gap-1 px-3 py-1.5 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 text-gray-700 dark:text-gray-300 rounded-lg transition-colors text-sm font-medium"
+        >
+          <X size={14} />
+          {t('chat.toolApproval.deny')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { ToolCall } from '@/lib/types'
+import MarkdownMessage from '@/components/MarkdownMessage'
+import { useTranslation } from 'react-i18next'
+
+interface ToolCallInspectorProps {
+  toolCall: ToolCall
+}
+
+// JSON is shown formatted, anything else as Markdown
+function formatText(text: string): { json?: string, markdown?: string } {
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed !== null && typeof parsed === 'object') {
+      return { json: JSON.stringify(parsed, null, 2) }
+    }
+  } catch {
+    // Not JSON
+  }
+  return { markdown: text }
+}
+
+// Tool results are text for built-in functions and MCP content parts for MCP tools.
+// Results made of text parts only are shown as their text
+function formatResult(result: any): { json?: string, markdown?: string } {
+  if (typeof result === 'string') {
+    return formatText(result)
+  }
+  if (Array.isArray(result) && result.length > 0 && result.every(part => part?.type === 'text')) {
+    return formatText(result.map(part => part.text).join('\n'))
+  }
+  return { json: JSON.stringify(result, null, 2) }
+}
+
+const preClass = 'max-h-64 overflow-auto p-2 text-xs bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all'
+
+// Shows what a tool was called with and what it returned
+export default function ToolCallInspector({ toolCall }: ToolCallInspectorProps) {
+  const { t } = useTranslation()
+
+  const wasRun = toolCall.decision === undefined || toolCall.decision === 'allowed' || toolCall.decision === 'approved'
+  const output = toolCall.result !== undefined ? formatResult(toolCall.result) : null
+
+  return (
+    <div className="mt-1 mb-2 ml-5 space-y-2 text-gray-900 dark:text-gray-100">
+      <div className="flex flex-wrap gap-x-3 text-xs text-gray-600 dark:text-gray-400">
+        {toolCall.durationMs !== undefined && (
+          <span>{t('chat.toolInspector.duration', { ms: Math.round(toolCall.durationMs) })}</span>
+        )}
+        {!wasRun && (
+          <span className="text-amber-700 dark:text-amber-400">{t(`admin.toolDecisions.${toolCall.decision}`)}</span>
+        )}
+        {toolCall.error && (
+          <span className="text-red-600 dark:text-red-400">{t('chat.toolInspector.failed', { error: toolCall.error })}</span>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('chat.toolInspector.arguments')}</p>
+        <pre className={preClass}>{JSON.stringify(toolCall.args ?? {}, null, 2)}</pre>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('chat.toolInspector.output')}</p>
+        {!output ? (
+          <p className="text-xs text-gray-600 dark:text-gray-400">{t('chat.toolInspector.noOutput')}</p>
+        ) : output.json !== undefined ? (
+          <pre className={preClass}>{output.json}</pre>
+        ) : (
+          <div className="max-h-64 overflow-auto p-2 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded">
+            <MarkdownMessage content={output.markdown || ''} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { apiFetch } from '@/lib/api'
+import { useTranslation } from 'react-i18next'
+
+interface ModelUsage {
+  model: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  audioSeconds: number
+}
+
+interface DailyUsage {
+  day: string
+  tokens: number
+  audioSeconds: number
+  models: Record<string, number>
+}
+
+interface UsageTotals {
+  tokens: number
+  audioSeconds: number
+}
+
+interface UsageHistory {
+  days: DailyUsage[]
+  models: ModelUsage[]
+  today: UsageTotals
+  month: UsageTotals
+  limits: {
+    dailyTokens: number
+    monthlyTokens: number
+    dailyAudioSeconds: number
+    monthlyAudioSeconds: number
+  }
+}
+
+// Colors given to models in the order they appear in the per model list
+const MODEL_COLORS = ['bg-blue-500', 'bg-emerald-500', 'bg-amber-500', 'bg-purple-500', 'bg-rose-500', 'bg-cyan-500']
+const OTHER_COLOR = 'bg-gray-400'
+
+const DAYS = 30
+
+function QuotaBar({ label, used, limit, format }: { label: string, used: number, limit: number, format: (value: number) => string }) {
+  const { t } = useTranslation()
+  const percent = limit ? Math.min(100, (used / limit) * 100) : 0
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+        <span>{label}</span>
+        <span>{limit ? `${format(used)} / ${format(limit)}` : `${format(used)} · ${t('usage.unlimited')}`}</span>
+      </div>
+      <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-blue-500'}`}
+          style={{ width: `${limit ? percent : 0}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default function UsagePanel() {
+  const [usage, setUsage] = useState<UsageHistory | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    fetchUsage()
+  }, [])
+
+  const fetchUsage = async () => {
+    try {
+      setIsLoading(true)
+      setError('')
+      const response = await apiFetch(`/api/usage?days=${DAYS}`)
+      if (response.ok) {
+        setUsage(await response.json())
+      } else {
+        setError(t('usage.loadFailed'))
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error)
+      setError(t('usage.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400">{t('common.loading')}</p>
+  }
+  if (error || !usage) {
+    return <p className="text-sm text-red-500">{error}</p>
+  }
+
+  const formatTokens = (value: number) => value.toLocaleString()
+  const formatMinutes = (seconds: number) => t('usage.minutes', { count: Math.round(seconds / 60) })
+
+  const colorOf = (model: string) => {
+    const index = usage.models.findIndex(m => m.model === model)
+    return index >= 0 && index < MODEL_COLORS.length ? MODEL_COLORS[index] : OTHER_COLOR
+  }
+  const maxDailyTokens = Math.max(1, ...usage.days.map(day => day.tokens))
+  const maxModelTokens = Math.max(1, ...usage.models.map(model => model.totalTokens))
+  const showAudio = usage.month.audioSeconds > 0 || usage.limits.dailyAudioSeconds > 0 || usage.limits.monthlyAudioSeconds > 0
+
+  return (
+    <div className="space-y-6">
+      {/* Quotas */}
+      <div className="space-y-3">
+        <QuotaBar label={t('usage.tokensToday')} used={usage.today.tokens} limit={usage.limits.dailyTokens} format={formatTokens} />
+        <QuotaBar label={t('usage.tokensThisMonth')} used={usage.month.tokens} limit={usage.limits.monthlyTokens} format={formatTokens} />
+        {showAudio && (
+          <>
+            <QuotaBar label={t('usage.audioToday')} used={usage.today.audioSeconds} limit={usage.limits.dailyAudioSeconds} format={formatMinutes} />
+            <QuotaBar label={t('usage.audioThisMonth')} used={usage.month.audioSeconds} limit={usage.limits.monthlyAudioSeconds} format={formatMinutes} />
+          </>
+        )}
+      </div>
+
+      {/* Tokens per day, stacked by model */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">{t('usage.tokensPerDay', { days: DAYS })}</h3>
+        <div className="flex items-end gap-px h-32 border-b border-gray-200 dark:border-gray-700">
+          {usage.days.map(day => (
+            <div
+              key={day.day}
+              className="flex-1 flex flex-col-reverse h-full"
+              title={`${day.day}: ${formatTokens(day.tokens)}`}
+            >
+              {Object.entries(day.models).map(([model, tokens]) => (
+                <div
+                  key={model}
+                  className={colorOf(model)}
+                  style={{ height: `${(tokens / maxDailyTokens) * 100}%` }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <span>{usage.days[0]?.day}</span>
+          <span>{usage.days[usage.days.length - 1]?.day}</span>
+        </div>
+      </div>
+
+      {/* Usage per model */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">{t('usage.perModel')}</h3>
+        {usage.models.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">{t('usage.noUsage')}</p>
+        ) : (
+          <div className="space-y-3">
+            {usage.models.map(model => (
+              <div key={model.model}>
+                <div className="flex items-center justify-between gap-2 text-xs mb-1">
+                  <span className="flex items-center gap-2 min-w-0 text-gray-900 dark:text-gray-100">
+                    <span className={`w-2.5 h-2.5 rounded-sm flex-shrink-0 ${colorOf(model.model)}`} />
+                    <span className="truncate">{model.model}</span>
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400 flex-shrink-0">
+                    {model.audioSeconds > 0
+                      ? formatMinutes(model.audioSeconds)
+                      : t('usage.tokenBreakdown', {
+                          prompt: formatTokens(model.promptTokens),
+                          completion: formatTokens(model.completionTokens)
+                        })}
+                    {' · '}
+                    {t('usage.requests', { count: model.requests })}
+                  </span>
+                </div>
+                {model.totalTokens > 0 && (
+                  <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${colorOf(model.model)}`}
+                      style={{ width: `${(model.totalTokens / maxModelTokens) * 100}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+// Account lifecycle: registration policy, email verification, password reset and invites
+// Links sent by email carry signed tokens (JWTs with a purpose and a unique ID). A token is
+// single-use: its ID is recorded in the used_tokens table when it is consumed.
+
+import { getStorage } from './storage'
+import jwt from 'jsonwebtoken'
+import crypto from 'crypto'
+import { getJWTSecret, getRegistrationConfig } from './env-validation'
+import { User } from './nocodb'
+import { sendMail } from './mail'
+import svTranslation from '../locales/sv/translation.json'
+import enTranslation from '../locales/en/translation.json'
+import ukTranslation from '../locales/uk/translation.json'
+
+export type AccountTokenPurpose = 'verify_email' | 'reset_password' | 'invite'
+
+export interface AccountTokenClaims {
+  purpose: AccountTokenPurpose
+  jti: string
+  exp: number
+  userId?: number
+  email?: string
+}
+
+export type AccountTokenError = 'invalid_token' | 'token_expired' | 'token_used'
+
+// How long links sent by email stay valid
+const TOKEN_LIFETIMES: Record<AccountTokenPurpose, string> = {
+  verify_email: '24h',
+  reset_password: '1h',
+  invite: '7d'
+}
+
+// Same rule as the password change form
+const PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/
+export const PASSWORD_REQUIREMENTS = 'Password must be at least 8 characters with one uppercase letter, one lowercase letter, and one number'
+
+export function isStrongPassword(password: string): boolean {
+  return PASSWORD_PATTERN.test(password)
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+}
+
+/**
+ * Signs a single-use token for a link sent by email
+ * @param purpose - What the token may be used for
+ * @param claims - The user and/or email address the token is for
+ * @returns The signed token
+ */
+export function createAccountToken(purpose: AccountTokenPurpose, claims: { userId?: number, email?: string }): string {
+  return jwt.sign(
+    { purpose, userId: claims.userId, email: claims.email },
+    getJWTSecret(),
+    { expiresIn: TOKEN_LIFETIMES[purpose], jwtid: crypto.randomUUID() } as jwt.SignOptions
+  )
+}
+
+async function isTokenUsed(jti: string): Promise<boolean> {
+  return getStorage().usedTokens.exists(jti)
+}
+
+/**
+ * Verifies a token without using it up
+ * @param token - The token from the link
+ * @param purpose - The purpose the token must have been issued for
+ * @returns The token's claims, or why it can't be used
+ */
+export async function verifyAccountToken(token: string, purpose: AccountTokenPurpose): Promise<{ claims?: AccountTokenClaims, error?: AccountTokenError }> {
+  let claims: AccountTokenClaims
+  try {
+    const decoded = jwt.verify(token, getJWTSecret())
+    if (typeof decoded !== 'object' || decoded.purpose !== purpose || !decoded.jti) {
+      return { error: 'invalid_token' }
+    }
+    claims = decoded as AccountTokenClaims
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return { error: 'token_expired' }
+    }
+    return { error: 'invalid_token' }
+  }
+
+  if (await isTokenUsed(claims.jti)) {
+    console.warn(`Rejected reused ${purpose} token ${claims.jti}`)
+    return { error: 'token_used' }
+  }
+  return { claims }
+}
+
+/**
+ * Records a token as used so it can't be used again
+ * @param claims - Claims of the verified token
+ */
+export async function markAccountTokenUsed(claims: AccountTokenClaims): Promise<void> {
+  await getStorage().usedTokens.create({
+    jti: claims.jti,
+    purpose: claims.purpose,
+    expires_at: new Date(claims.exp * 1000).toISOString(),
+    used_at: new Date().toISOString()
+  })
+}
+
+/**
+ * Verifies a token and uses it up
+ * @param token - The token from the link
+ * @param purpose - The purpose the token must have been issued for
+ * @returns The token's claims, or why it can't be used
+ */
+export async function consumeAccountToken(token: string, purpose: AccountTokenPurpose): Promise<{ claims?: AccountTokenClaims, error?: AccountTokenError }> {
+  const result = await verifyAccountToken(token, purpose)
+  if (result.claims) {
+    await markAccountTokenUsed(result.claims)
+  }
+  return result
+}
+
+/**
+ * Checks whether an email address may register under the configured registration mode
+ * @param email - The address the account is registered with
+ * @param inviteToken - Invite token, required in invite mode
+ * @returns The verified invite to use up once the account exists, or why registration is refused
+ */
+export async function checkRegistrationAllowed(email: string, inviteToken?: string): Promise<{ allowed: boolean, error?: string, invite?: AccountTokenClaims }> {
+  const config = getRegistrationConfig()
+
+  switch (config.mode) {
+    case 'open':
+      return { allowed: true }
+
+    case 'domain': {
+      const domain = email.split('@')[1]?.toLowerCase()
+      if (domain && config.allowedDomains.includes(domain)) {
+        return { allowed: true }
+      }
+      return { allowed: false, error: 'Registration is not open for this email domain' }
+    }
+
+    case 'invite': {
+      if (!inviteToken) {
+        return { allowed: false, error: 'An invitation is required to register' }
+      }
+      const { claims, error } = await verifyAccountToken(inviteToken, 'invite')
+      if (!claims) {
+        return { allowed: false, error: error === 'token_used' ? 'This invitation has already been used' : 'The invitation is invalid or has expired' }
+      }
+      if (claims.email && claims.email.toLowerCase() !== email.toLowerCase()) {
+        return { allowed: false, error: 'This invitation is for another email address' }
+      }
+      return { allowed: true, invite: claims }
+    }
+
+    default:
+      return { allowed: false, error: 'Registration is closed' }
+  }
+}
+
+// Email texts come from the locale files so they match the user's language
+const EMAIL_TRANSLATIONS: Record<string, Record<string, string>> = {
+  sv: svTranslation.email,
+  en: enTranslation.email,
+  uk: ukTranslation.email
+}
+
+function renderEmailText(language: string | undefined, key: string, values: Record<string, string>): string {
+  const translations = EMAIL_TRANSLATIONS[language || 'sv'] || EMAIL_TRANSLATIONS.sv
+  const template = translations[key] || EMAIL_TRANSLATIONS.en[key] || key
+  return template.replace(/\{\{(\w+)\}\}/g, (_, name) => values[name] ?? '')
+}
+
+function accountLink(path: string, token: string): string {
+  return `${getRegistrationConfig().appUrl}${path}?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Emails a user a link to verify their email address
+ * @param user - The user, which must have an email address
+ * @throws Error if the mail can't be sent
+ */
+export async function sendVerificationEmail(user: User): Promise<void> {
+  const userId = Number((user as any).Id || user.id)
+  const token = createAccountToken('verify_email', { userId, email: user.email })
+  const values = { name: user.first_name || user.username, link: accountLink('/verify-email', token) }
+
+  await sendMail({
+    to: user.email!,
+    subject: renderEmailText(user.language, 'verifySubject', values),
+    text: renderEmailText(user.language, 'verifyBody', values)
+  })
+}
+
+/**
+ * Emails a user a link to choose a new password
+ * @param user - The user, which must have an email address
+ * @throws Error if the mail can't be sent
+ */
+export async function sendPasswordResetEmail(user: User): Promise<void> {
+  const userId = Number((user as any).Id || user.id)
+  const token = createAccountToken('reset_password', { userId, email: user.email })
+  const values = { name: user.first_name || user.username, link: accountLink('/reset-password', token) }
+
+  await sendMail({
+    to: user.email!,
+    subject: renderEmailText(user.language, 'resetSubject', values),
+    text: renderEmailText(user.language, 'resetBody', values)
+  })
+}
@@ -0,0 +1,68 @@
+// Data shown in the admin console
+
+import { User, isAdminUser } from './nocodb'
+import { countUserConversations } from './chat-history'
+import { getUserDocuments } from './documents'
+import { getActiveUserSessions } from './sessions'
+import { getUserRoles } from './auth'
+import { getMonthlyUsageTotals } from './usage'
+
+// A user as listed in the admin console. Never includes the password hash
+export function toAdminUser(user: User) {
+  return {
+    id: Number((user as any).Id || user.id),
+    username: user.username,
+    email: user.email || '',
+    firstName: user.first_name || '',
+    lastName: user.last_name || '',
+    language: user.language || 'sv',
+    roles: getUserRoles(user),
+    isAdmin: isAdminUser(user),
+    disabled: Boolean(user.disabled),
+    emailVerified: user.email_verified !== false,
+    authProvider: user.auth_provider || 'local',
+    createdAt: (user as any).CreatedAt || user.created_at
+  }
+}
+
+export type AdminUser = ReturnType<typeof toAdminUser>
+
+export interface UserUsageSummary {
+  conversations: number
+  documents: number
+  documentBytes: number
+  activeSessions: number
+  lastActiveAt: string | null
+  tokensThisMonth: number
+  audioSecondsThisMonth: number
+}
+
+/**
+ * Summarises what a user has stored, what they have used this month and when they were last active
+ * @param userId - The user
+ * @returns Counts of conversations, documents and sessions, and this month's tokens and audio seconds
+ */
+export async function getUserUsageSummary(userId: number): Promise<UserUsageSummary> {
+  const [conversations, documents, sessions, monthly] = await Promise.all([
+    countUserConversations(userId),
+    getUserDocuments(userId),
+    getActiveUserSessions(userId),
+    getMonthlyUsageTotals(userId)
+  ])
+
+  const lastActiveAt = sessions
+    .map(session => session.last_used_at)
+    .filter((value): value is string => Boolean(value))
+    .sort()
+    .pop() || null
+
+  return {
+    conversations,
+    documents: documents.length,
+    documentBytes: documents.reduce((sum, document) => sum + (Number(document.size) || 0), 0),
+    activeSessions: sessions.length,
+    lastActiveAt,
+    tokensThisMonth: monthly.tokens,
+    audioSecondsThisMonth: monthly.audioSeconds
+  }
+}
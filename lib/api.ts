@@ -1,6 +1,95 @@
-import { Message, UploadedFile } from './types'
+import { Message, UploadedFile, Source, ToolApproval, MessageImage, MCPResourceRef, ToolCall } from './types'
 
-export async function* streamMessage(messages: Message[], model: string, systemPrompt?: string, onFunctionCall?: (name: string, args: any) => void, documentChunks?: any[], mcpEnabled: boolean = true, uploadedFiles?: UploadedFile[]) {
+// Event fired when the session can't be renewed, so the app can show the user as logged out
+export const SESSION_ENDED_EVENT = 'auth:session-ended'
+
+// Error response from the app's API, keeping the code and details the route sent along
+export class ApiError extends Error {
+  status: number
+  data: any
+
+  constructor(status: number, data: any, fallbackMessage: string) {
+    super(data?.error || fallbackMessage)
+    this.name = 'ApiError'
+    this.status = status
+    this.data = data
+  }
+
+  get code(): string | undefined {
+    return this.data?.code
+  }
+
+  static async fromResponse(response: Response, fallbackMessage: string): Promise<ApiError> {
+    const data = await response.json().catch(() => null)
+    return new ApiError(response.status, data, fallbackMessage)
+  }
+}
+
+// Shared by parallel requests so an expired access token is only refreshed once
+let refreshPromise: Promise<boolean> | null = null
+
+function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = fetch('/api/auth/refresh', { method: 'POST', credentials: 'same-origin' })
+      .then(response => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+  return refreshPromise
+}
+
+// fetch for the app's own API. The session cookies are sent along, and when the access token
+// has expired it is refreshed and the request retried once
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, { ...init, credentials: 'same-origin' })
+  if (response.status !== 401) {
+    return response
+  }
+
+  const data = await response.clone().json().catch(() => null)
+  if (data?.code === 'token_expired') {
+    if (await refreshAccessToken()) {
+      return fetch(input, { ...init, credentials: 'same-origin' })
+    }
+  }
+
+  if (typeof window !== 'undefined' && data?.code) {
+    window.dispatchEvent(new Event(SESSION_ENDED_EVENT))
+  }
+  return response
+}
+
+// What to send along with a chat request, and the handlers for the events of its stream
+export interface StreamMessageOptions {
+  model: string
+  systemPrompt?: string
+  documentIds?: number[]
+  mcpEnabled?: boolean
+  uploadedFiles?: UploadedFile[]
+  mcpResources?: MCPResourceRef[]
+  onFunctionCall?: (id: string, name: string, args: any) => void
+  onToolResult?: (toolCall: Omit<ToolCall, 'status'>) => void
+  onToolApproval?: (approval: ToolApproval) => void
+  onSources?: (sources: Source[]) => void
+  onImages?: (images: MessageImage[]) => void
+}
+
+export async function* streamMessage(messages: Message[], options: StreamMessageOptions) {
+  const {
+    model,
+    systemPrompt,
+    documentIds,
+    mcpEnabled = true,
+    uploadedFiles,
+    mcpResources,
+    onFunctionCall,
+    onToolResult,
+    onToolApproval,
+    onSources,
+    onImages
+  } = options
   try {
     const formattedMessages = messages.map(msg => ({
       role: msg.role as 'user' | 'assistant' | 'system',
@@ -12,33 +101,23 @@ export async function* streamMessage(messages: Message[], model: string, systemP
       ? [{ role: 'system' as const, content: systemPrompt }, ...formattedMessages]
       : formattedMessages
 
-    // Get auth token from localStorage
-    const authToken = typeof window !== 'undefined' ? localStorage.getItem('authToken') : null
-    
-    // Prepare headers
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json'
-    }
-    
-    // Add authorization header if token exists
-    if (authToken) {
-      headers.Authorization = `Bearer ${authToken}`
-    }
-
-    const response = await fetch('/api/chat', {
+    const response = await apiFetch('/api/chat', {
       method: 'POST',
-      headers,
+      headers: {
+        'Content-Type': 'application/json'
+      },
       body: JSON.stringify({
         messages: messagesWithSystem,
         model: model,
-        documentChunks: documentChunks || [],
+        documentIds: documentIds || [],
         mcpEnabled: mcpEnabled,
-        uploadedFiles: uploadedFiles || []
+        uploadedFiles: uploadedFiles || [],
+        mcpResources: (mcpResources || []).map(({ server, uri }) => ({ server, uri }))
       })
     })
 
     if (!response.ok) {
-      throw new Error('Failed to get response')
+      throw await ApiError.fromResponse(response, 'Failed to get response')
     }
 
     const reader = response.body?.getReader()
@@ -48,12 +127,15 @@ export async function* streamMessage(messages: Message[], model: string, systemP
       throw new Error('No response body')
     }
 
+    // Events can be split across reads (images are large), so incomplete lines wait for the next read
+    let buffer = ''
     while (true) {
       const { done, value } = await reader.read()
       if (done) break
 
-      const chunk = decoder.decode(value)
-      const lines = chunk.split('\n')
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
 
       for (const line of lines) {
         if (line.startsWith('data: ')) {
@@ -64,7 +146,27 @@ export async function* streamMessage(messages: Message[], model: string, systemP
           try {
             const json = JSON.parse(data)
             if (json.function_call && onFunctionCall) {
-              onFunctionCall(json.function_call.name, json.function_call.arguments)
+              const { id, name, arguments: args } = json.function_call
+              onFunctionCall(id, name, args)
+            }
+            if (json.sources && onSources) {
+              onSources(json.sources)
+            }
+            if (json.images && onImages) {
+              onImages(json.images)
+            }
+            if (json.tool_result && onToolResult) {
+              const { id, name, arguments: args, result, durationMs, error, decision } = json.tool_result
+              onToolResult({ id, name, args, result, durationMs, error, decision })
+            }
+            // The answer pauses until the user decides on the tool call
+            if (json.tool_approval_required && onToolApproval) {
+              const { id, name, arguments: args } = json.tool_approval_required
+              onToolApproval({ id, name, args, status: 'pending' })
+            }
+            if (json.tool_approval_resolved && onToolApproval) {
+              const { id, name, arguments: args, outcome } = json.tool_approval_resolved
+              onToolApproval({ id, name, args, status: outcome })
             }
             if (json.content) {
               yield json.content
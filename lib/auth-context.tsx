@@ -1,6 +1,7 @@
 'use client'
 
 import { createContext, useContext, useState, ReactNode, useEffect } from 'react'
+import { apiFetch, SESSION_ENDED_EVENT } from './api'
 
 interface AuthContextType {
   isLoggedIn: boolean
@@ -10,8 +11,10 @@ interface AuthContextType {
   systemPrompt: string | null
   userId: string | null
   language: string | null
-  login: (username: string, password: string) => Promise<boolean>
-  logout: () => void
+  isAdmin: boolean
+  login: (username: string, password: string) => Promise<{ success: boolean; code?: string; retryAfter?: number }>
+  logout: () => Promise<void>
+  logoutEverywhere: () => Promise<void>
   updateProfile: (firstName: string, lastName: string, email?: string) => Promise<boolean>
   updateSystemPrompt: (systemPrompt: string) => Promise<boolean>
   updateLanguage: (language: string) => Promise<boolean>
@@ -27,31 +30,53 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [lastName, setLastName] = useState<string | null>(null)
   const [systemPrompt, setSystemPrompt] = useState<string | null>(null)
   const [userId, setUserId] = useState<string | null>(null)
-  const [token, setToken] = useState<string | null>(null)
   const [language, setLanguage] = useState<string | null>(null)
+  const [isAdmin, setIsAdmin] = useState(false)
 
-  // Load saved session on mount
+  const setUser = (user: any) => {
+    setIsLoggedIn(true)
+    setUserId(user.id)
+    setUsername(user.username)
+    setFirstName(user.firstName || '')
+    setLastName(user.lastName || '')
+    setSystemPrompt(user.systemPrompt || '')
+    setLanguage(user.language || 'sv')
+    setIsAdmin(Boolean(user.isAdmin))
+  }
+
+  const clearUser = () => {
+    setIsLoggedIn(false)
+    setUsername(null)
+    setFirstName(null)
+    setLastName(null)
+    setSystemPrompt(null)
+    setUserId(null)
+    setLanguage(null)
+    setIsAdmin(false)
+  }
+
+  // Restore the session from its cookies on mount
   useEffect(() => {
-    const savedToken = localStorage.getItem('authToken')
-    const savedUser = localStorage.getItem('userData')
-    
-    if (savedToken && savedUser) {
+    // Tokens used to be kept in localStorage, remove any left from older versions
+    localStorage.removeItem('authToken')
+    localStorage.removeItem('userData')
+
+    const loadSession = async () => {
       try {
-        const userData = JSON.parse(savedUser)
-        setToken(savedToken)
-        setIsLoggedIn(true)
-        setUserId(userData.id)
-        setUsername(userData.username)
-        setFirstName(userData.firstName)
-        setLastName(userData.lastName)
-        setSystemPrompt(userData.systemPrompt)
-        setLanguage(userData.language || 'sv')
+        const response = await apiFetch('/api/auth/me')
+        if (response.ok) {
+          const data = await response.json()
+          setUser(data.user)
+        }
       } catch (error) {
-        console.error('Failed to load saved session:', error)
-        localStorage.removeItem('authToken')
-        localStorage.removeItem('userData')
+        console.error('Failed to load session:', error)
       }
     }
+    loadSession()
+
+    // Requests find out first when the session was revoked or can't be refreshed
+    window.addEventListener(SESSION_ENDED_EVENT, clearUser)
+    return () => window.removeEventListener(SESSION_ENDED_EVENT, clearUser)
   }, [])
 
   const login = async (username: string, password: string) => {
@@ -64,54 +89,54 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         body: JSON.stringify({ username, password }),
       })
 
+      const data = await response.json()
       if (response.ok) {
-        const data = await response.json()
-        
-        // Save to state
-        setIsLoggedIn(true)
-        setUserId(data.user.id)
-        setUsername(data.user.username)
-        setFirstName(data.user.firstName || '')
-        setLastName(data.user.lastName || '')
-        setSystemPrompt(data.user.systemPrompt || '')
-        setLanguage(data.user.language || 'sv')
-        setToken(data.token)
-        
-        // Save to localStorage
-        localStorage.setItem('authToken', data.token)
-        localStorage.setItem('userData', JSON.stringify(data.user))
-        
-        return true
+        // The session tokens arrive as HttpOnly cookies, only the profile is kept in state
+        setUser(data.user)
+        return { success: true }
       }
-      return false
+      // e.g. email_not_verified or account_locked, so the form can show what to do next
+      return { success: false, code: data.code, retryAfter: data.retryAfter }
     } catch (error) {
       console.error('Login error:', error)
-      return false
+      return { success: false }
     }
   }
 
-  const logout = () => {
-    setIsLoggedIn(false)
-    setUsername(null)
-    setFirstName(null)
-    setLastName(null)
-    setSystemPrompt(null)
-    setUserId(null)
-    setToken(null)
-    setLanguage(null)
-    localStorage.removeItem('authToken')
-    localStorage.removeItem('userData')
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' })
+    } catch (error) {
+      console.error('Logout error:', error)
+    }
+    clearUser()
+  }
+
+  // Ends the sessions on all devices, including this one
+  const logoutEverywhere = async () => {
+    try {
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ everywhere: true })
+      })
+    } catch (error) {
+      console.error('Logout everywhere error:', error)
+    }
+    clearUser()
   }
 
   const updateProfile = async (firstName: string, lastName: string, email?: string) => {
-    if (!token || !userId) return false
+    if (!isLoggedIn || !userId) return false
     
     try {
-      const response = await fetch('/api/auth/update-profile', {
+      const response = await apiFetch('/api/auth/update-profile', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ userId, firstName, lastName, email })
       })
@@ -119,16 +144,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (response.ok) {
         setFirstName(firstName)
         setLastName(lastName)
-        
-        // Update localStorage
-        const savedUser = localStorage.getItem('userData')
-        if (savedUser) {
-          const userData = JSON.parse(savedUser)
-          userData.firstName = firstName
-          userData.lastName = lastName
-          if (email) userData.email = email
-          localStorage.setItem('userData', JSON.stringify(userData))
-        }
         return true
       }
       return false
@@ -139,28 +154,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const updateSystemPrompt = async (prompt: string) => {
-    if (!token || !userId) return false
+    if (!isLoggedIn || !userId) return false
     
     try {
-      const response = await fetch('/api/auth/update-system-prompt', {
+      const response = await apiFetch('/api/auth/update-system-prompt', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ userId, systemPrompt: prompt })
       })
       
       if (response.ok) {
         setSystemPrompt(prompt)
-        
-        // Update localStorage
-        const savedUser = localStorage.getItem('userData')
-        if (savedUser) {
-          const userData = JSON.parse(savedUser)
-          userData.systemPrompt = prompt
-          localStorage.setItem('userData', JSON.stringify(userData))
-        }
         return true
       }
       return false
@@ -171,16 +177,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const changePassword = async (currentPassword: string, newPassword: string) => {
-    if (!token) {
+    if (!isLoggedIn) {
       return { success: false, error: 'Not authenticated' }
     }
     
     try {
-      const response = await fetch('/api/auth/change-password', {
+      const response = await apiFetch('/api/auth/change-password', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ currentPassword, newPassword })
       })
@@ -198,18 +203,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const updateLanguage = async (language: string) => {
-    if (!token || !userId) {
+    if (!isLoggedIn || !userId) {
       // For anonymous users, just update localStorage
       localStorage.setItem('i18nextLng', language)
       return true
     }
     
     try {
-      const response = await fetch('/api/auth/update-language', {
+      const response = await apiFetch('/api/auth/update-language', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({ userId, language })
       })
@@ -217,14 +221,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (response.ok) {
         setLanguage(language)
         localStorage.setItem('i18nextLng', language)
-        
-        // Update localStorage
-        const savedUser = localStorage.getItem('userData')
-        if (savedUser) {
-          const userData = JSON.parse(savedUser)
-          userData.language = language
-          localStorage.setItem('userData', JSON.stringify(userData))
-        }
         return true
       }
       return false
@@ -235,7 +231,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   return (
-    <AuthContext.Provider value={{ isLoggedIn, username, firstName, lastName, systemPrompt, userId, language, login, logout, updateProfile, updateSystemPrompt, updateLanguage, changePassword }}>
+    <AuthContext.Provider value={{ isLoggedIn, username, firstName, lastName, systemPrompt, userId, language, isAdmin, login, logout, logoutEverywhere, updateProfile, updateSystemPrompt, updateLanguage, changePassword }}>
       {children}
     </AuthContext.Provider>
   )
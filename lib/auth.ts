@@ -0,0 +1,412 @@
+// Server-side authentication for API routes
+// Routes are wrapped with withAuth, which verifies the access token and passes the typed session
+// to the handler. Failures are answered with a consistent 401 JSON body whose `code` tells
+// clients whether the token was missing, invalid, expired or belongs to a revoked session.
+//
+// Browsers get the tokens as HttpOnly cookies: a short-lived access token (a JWT naming its
+// stored session) and a refresh token that is rotated on every use. The sessions table is
+// checked on each request, so logging out or changing password takes effect immediately.
+import { NextRequest, NextResponse } from 'next/server'
+import jwt from 'jsonwebtoken'
+import crypto from 'crypto'
+import { getJWTSecret, getSessionConfig } from './env-validation'
+import { User, getUserById, isAdminUser } from './nocodb'
+import {
+  createStoredSession,
+  getStoredSession,
+  rotateStoredSession,
+  revokeStoredSession,
+  revokeUserSessions,
+  isSessionActive
+} from './sessions'
+
+// The verified user behind a request
+export interface Session {
+  userId: number
+  username: string
+  email?: string
+  roles: string[]
+  sessionId: number // The stored session the token was issued for
+}
+
+export type AuthErrorCode = 'unauthorized' | 'invalid_token' | 'token_expired' | 'session_revoked'
+
+type AuthResult =
+  | { session: Session, error?: undefined }
+  | { session?: undefined, error: AuthErrorCode }
+
+// Route context as passed by Next.js; params is empty for routes without dynamic segments
+interface RouteContext<P> {
+  params: Promise<P>
+}
+
+type AuthenticatedHandler<P> = (request: NextRequest, session: Session, context: RouteContext<P>) => Promise<Response>
+type OptionallyAuthenticatedHandler<P> = (request: NextRequest, session: Session | null, context: RouteContext<P>) => Promise<Response>
+
+// Tokens issued when a session starts or is refreshed
+export interface SessionTokens {
+  accessToken: string
+  refreshToken?: string // Left out when the current refresh token stays valid
+}
+
+// Cookie names. The refresh token is only sent to the auth routes that use it
+export const ACCESS_TOKEN_COOKIE = 'access_token'
+export const REFRESH_TOKEN_COOKIE = 'refresh_token'
+const REFRESH_TOKEN_PATH = '/api/auth'
+
+// Roles given to users whose token or record carries none
+const DEFAULT_ROLES = ['user']
+
+// Role that grants access to the admin routes
+export const ADMIN_ROLE = 'admin'
+
+// How long a rotated refresh token is still accepted, so parallel refreshes from several tabs don't fail
+const REFRESH_GRACE_PERIOD_MS = 30 * 1000
+
+const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  unauthorized: 'Unauthorized',
+  invalid_token: 'Invalid token',
+  token_expired: 'Token expired',
+  session_revoked: 'Session has ended'
+}
+
+// Refresh tokens are "<session id>.<random secret>" and only their hash is stored
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function tokenHashMatches(token: string, hash: string | null | undefined): boolean {
+  if (!hash) return false
+  const tokenHash = Buffer.from(hashToken(token), 'hex')
+  const storedHash = Buffer.from(hash, 'hex')
+  return tokenHash.length === storedHash.length && crypto.timingSafeEqual(tokenHash, storedHash)
+}
+
+function createRefreshToken(sessionId: number): string {
+  return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`
+}
+
+function parseRefreshToken(token: string): number | null {
+  const sessionId = parseInt(token.split('.')[0], 10)
+  return Number.isNaN(sessionId) ? null : sessionId
+}
+
+// Roles stored on a user record as a comma-separated list, plus the admin role for admins
+export function getUserRoles(user: User): string[] {
+  const roles = (user.roles || '').split(',').map(role => role.trim()).filter(Boolean)
+  const userRoles = roles.length > 0 ? roles : DEFAULT_ROLES
+  return isAdminUser(user) && !userRoles.includes(ADMIN_ROLE) ? [...userRoles, ADMIN_ROLE] : userRoles
+}
+
+// Session claims for a user record
+function sessionForUser(user: User, sessionId: number): Session {
+  return {
+    userId: Number((user as any).Id || user.id),
+    username: user.username,
+    email: user.email,
+    roles: getUserRoles(user),
+    sessionId
+  }
+}
+
+/**
+ * Signs a short-lived access token for a session
+ * @param session - The user and stored session the token is issued for
+ * @returns The signed JWT
+ */
+export function createAccessToken(session: Session): string {
+  return jwt.sign(
+    {
+      userId: session.userId,
+      username: session.username,
+      email: session.email,
+      roles: session.roles,
+      sid: session.sessionId
+    },
+    getJWTSecret(),
+    { expiresIn: getSessionConfig().accessTokenTtlSeconds }
+  )
+}
+
+/**
+ * Reads and verifies the access token of a request
+ * The token comes from the access cookie, or a bearer header for non-browser clients
+ * @param request - The incoming request
+ * @returns The session, or the reason there is none
+ */
+export async function getSession(request: NextRequest): Promise<AuthResult> {
+  const authHeader = request.headers.get('authorization')
+  const token = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value ||
+    (authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null)
+  if (!token) {
+    return { error: 'unauthorized' }
+  }
+
+  // A missing JWT_SECRET is a server error, so getJWTSecret is called outside the try
+  const jwtSecret = getJWTSecret()
+
+  let decoded: jwt.JwtPayload
+  try {
+    const verified = jwt.verify(token, jwtSecret)
+    if (typeof verified !== 'object' || verified.userId === undefined || verified.userId === null || !verified.sid) {
+      return { error: 'invalid_token' }
+    }
+    decoded = verified
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      console.log('Rejected expired token, expired at', error.expiredAt.toISOString())
+      return { error: 'token_expired' }
+    }
+    console.warn('Rejected invalid token:', error instanceof Error ? error.message : error)
+    return { error: 'invalid_token' }
+  }
+
+  // The token is only valid while its stored session is
+  const storedSession = await getStoredSession(decoded.sid)
+  if (!storedSession || !isSessionActive(storedSession) || String(storedSession.user_id) !== String(decoded.userId)) {
+    console.log('Rejected token of ended session', decoded.sid)
+    return { error: 'session_revoked' }
+  }
+
+  return {
+    session: {
+      userId: decoded.userId,
+      username: decoded.username,
+      email: decoded.email,
+      roles: Array.isArray(decoded.roles) ? decoded.roles : DEFAULT_ROLES,
+      sessionId: decoded.sid
+    }
+  }
+}
+
+/**
+ * Starts a new session for a user who has just logged in
+ * @param user - The user record
+ * @param userAgent - User agent of the browser, stored to tell sessions apart
+ * @returns The session and its tokens, or null if the session couldn't be stored
+ */
+export async function startSession(user: User, userAgent?: string): Promise<{ session: Session, tokens: SessionTokens } | null> {
+  const { refreshTokenTtlSeconds } = getSessionConfig()
+  const userId = Number((user as any).Id || user.id)
+
+  // The refresh token contains the session ID, so the row is created first with a placeholder hash
+  const storedSession = await createStoredSession({
+    userId,
+    refreshTokenHash: hashToken(crypto.randomBytes(32).toString('hex')),
+    expiresAt: new Date(Date.now() + refreshTokenTtlSeconds * 1000),
+    userAgent
+  })
+  const sessionId = storedSession?.Id || storedSession?.id
+  if (!storedSession || !sessionId) {
+    return null
+  }
+
+  const refreshToken = createRefreshToken(sessionId)
+  const rotated = await rotateStoredSession(sessionId, storedSession.refresh_token_hash, hashToken(refreshToken), new Date(Date.now() + refreshTokenTtlSeconds * 1000))
+  if (!rotated) {
+    await revokeStoredSession(sessionId)
+    return null
+  }
+
+  const session = sessionForUser(user, sessionId)
+  return { session, tokens: { accessToken: createAccessToken(session), refreshToken } }
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token
+ * A refresh token that was already rotated away is treated as stolen and ends the session,
+ * unless it was rotated moments ago by a parallel request
+ * @param refreshToken - The refresh token from the cookie
+ * @returns The new tokens, or null if the refresh token is not valid
+ */
+export async function refreshSession(refreshToken: string): Promise<{ session: Session, tokens: SessionTokens } | null> {
+  const sessionId = parseRefreshToken(refreshToken)
+  if (!sessionId) return null
+
+  const storedSession = await getStoredSession(sessionId)
+  if (!storedSession || !isSessionActive(storedSession)) {
+    return null
+  }
+
+  const user = await getUserById(String(storedSession.user_id))
+  if (!user || user.disabled) {
+    return null
+  }
+  const session = sessionForUser(user, sessionId)
+
+  if (!tokenHashMatches(refreshToken, storedSession.refresh_token_hash)) {
+    const rotatedAt = storedSession.rotated_at ? new Date(storedSession.rotated_at).getTime() : 0
+    if (tokenHashMatches(refreshToken, storedSession.previous_token_hash) && Date.now() - rotatedAt < REFRESH_GRACE_PERIOD_MS) {
+      // A parallel request already rotated the token and its cookie replaces ours
+      return { session, tokens: { accessToken: createAccessToken(session) } }
+    }
+
+    console.warn(`Refresh token reuse detected for session ${sessionId}, revoking it`)
+    await revokeStoredSession(sessionId)
+    return null
+  }
+
+  const { refreshTokenTtlSeconds } = getSessionConfig()
+  const newRefreshToken = createRefreshToken(sessionId)
+  const rotated = await rotateStoredSession(sessionId, storedSession.refresh_token_hash, hashToken(newRefreshToken), new Date(Date.now() + refreshTokenTtlSeconds * 1000))
+  if (!rotated) {
+    return null
+  }
+
+  return { session, tokens: { accessToken: createAccessToken(session), refreshToken: newRefreshToken } }
+}
+
+/**
+ * Ends the session of a request, found from its access token or refresh token
+ * @param request - The incoming request
+ * @param everywhere - Also end all other sessions of the user
+ * @returns True if a session was found and ended
+ */
+export async function endSession(request: NextRequest, everywhere: boolean = false): Promise<boolean> {
+  let userId: number | null = null
+  let sessionId: number | null = null
+
+  const result = await getSession(request)
+  if (result.session) {
+    userId = result.session.userId
+    sessionId = result.session.sessionId
+  } else {
+    // The access token may have expired, the refresh token still proves which session this is
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+    const refreshSessionId = refreshToken ? parseRefreshToken(refreshToken) : null
+    const storedSession = refreshSessionId ? await getStoredSession(refreshSessionId) : null
+    if (refreshToken && storedSession && isSessionActive(storedSession) && tokenHashMatches(refreshToken, storedSession.refresh_token_hash)) {
+      userId = storedSession.user_id
+      sessionId = refreshSessionId
+    }
+  }
+
+  if (!sessionId || userId === null) {
+    return false
+  }
+
+  return everywhere ? revokeUserSessions(userId) : revokeStoredSession(sessionId)
+}
+
+/**
+ * Ends every session of a user except the given one, e.g. after a password change
+ * @param session - The session to keep
+ * @returns True if the other sessions were revoked
+ */
+export async function endOtherSessions(session: Session): Promise<boolean> {
+  return revokeUserSessions(session.userId, session.sessionId)
+}
+
+/**
+ * Sets the session cookies on a response
+ * @param response - The response to the browser
+ * @param tokens - The access token and, if rotated, the refresh token
+ */
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): void {
+  const { refreshTokenTtlSeconds, secureCookies } = getSessionConfig()
+
+  // The cookie outlives the token inside it, so an expired token is still sent and answered with
+  // token_expired instead of the request silently looking anonymous
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: secureCookies,
+    path: '/',
+    maxAge: refreshTokenTtlSeconds
+  })
+
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: secureCookies,
+      path: REFRESH_TOKEN_PATH,
+      maxAge: refreshTokenTtlSeconds
+    })
+  }
+}
+
+/**
+ * Removes the session cookies from the browser
+ * @param response - The response to the browser
+ */
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { httpOnly: true, path: REFRESH_TOKEN_PATH, maxAge: 0 })
+}
+
+/**
+ * Creates the 401 response for a failed authentication
+ * @param code - Why authentication failed
+ * @returns JSON response with an error message and code
+ */
+export function authErrorResponse(code: AuthErrorCode): NextResponse {
+  return NextResponse.json({ error: AUTH_ERROR_MESSAGES[code], code }, { status: 401 })
+}
+
+// Shared by the wrappers: turns configuration errors into a 500 instead of an unhandled exception
+async function resolveSession(request: NextRequest): Promise<AuthResult | NextResponse> {
+  try {
+    return await getSession(request)
+  } catch (error) {
+    console.error('Authentication configuration error:', error)
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
+  }
+}
+
+/**
+ * Wraps a route handler so it only runs for authenticated requests
+ * @param handler - The route handler, called with the verified session
+ * @returns A route handler that answers unauthenticated requests with 401
+ */
+export function withAuth<P = {}>(handler: AuthenticatedHandler<P>) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const result = await resolveSession(request)
+    if (result instanceof NextResponse) return result
+    if (result.error) return authErrorResponse(result.error)
+
+    return handler(request, result.session, context)
+  }
+}
+
+/**
+ * Wraps a route handler that also serves anonymous requests
+ * Requests without a token get a null session, but a token that is sent must be valid
+ * @param handler - The route handler, called with the session or null
+ * @returns A route handler that answers requests with a bad token with 401
+ */
+export function withOptionalAuth<P = {}>(handler: OptionallyAuthenticatedHandler<P>) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const result = await resolveSession(request)
+    if (result instanceof NextResponse) return result
+    if (result.error && result.error !== 'unauthorized') return authErrorResponse(result.error)
+
+    return handler(request, result.session ?? null, context)
+  }
+}
+
+/**
+ * Wraps a route handler so it only runs for authenticated admins
+ * @param handler - The route handler, called with the verified session
+ * @returns A route handler that answers unauthenticated requests with 401 and other users with 403
+ */
+export function withAdmin<P = {}>(handler: AuthenticatedHandler<P>) {
+  return withAuth<P>(async (request, session, context) => {
+    if (!session.roles.includes(ADMIN_ROLE)) {
+      console.warn(`User ${session.username} was refused access to ${request.nextUrl.pathname}`)
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return handler(request, session, context)
+  })
+}
+
+/**
+ * Checks whether a record belongs to the session's user
+ * NocoDB may return foreign keys as strings, so IDs are compared as strings
+ * @param ownerId - The user_id stored on the record
+ * @param session - The authenticated session
+ * @returns True if the user owns the record
+ */
+export function isOwner(ownerId: number | string | null | undefined, session: Session): boolean {
+  return ownerId !== null && ownerId !== undefined && String(ownerId) === String(session.userId)
+}
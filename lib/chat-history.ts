@@ -1,72 +1,33 @@
-import axios from 'axios'
+// Conversations and their messages, kept by the configured storage backend (lib/storage)
+import { getStorage } from './storage'
+import type { Conversation, ChatMessage } from './storage/types'
 
-// NocoDB configuration - use defaults for client-side, actual values on server
-const NOCODB_API_URL = process.env.NOCODB_API_URL || 'https://nocodb.labbytan.se'
-const NOCODB_API_TOKEN = process.env.NOCODB_API_TOKEN || ''
-const NOCODB_BASE_NAME = process.env.NOCODB_BASE_NAME || 'BergetGPT'
-const CONVERSATIONS_TABLE = 'conversations'
-const MESSAGES_TABLE = 'messages'
-
-// Interfaces
-export interface Conversation {
-  Id?: number
-  id?: number
-  user_id: number
-  title: string
-  model_used?: string
-  prompt_used?: string
-  message_count: number
-  is_archived: boolean
-  CreatedAt?: string
-  UpdatedAt?: string
-}
-
-export interface ChatMessage {
-  Id?: number
-  id?: number
-  conversation_id: number
-  role: 'user' | 'assistant' | 'system'
-  content: string
-  model_used?: string
-  prompt_used?: string
-  metadata?: string // JSON string for function calls, files, etc.
-  timestamp: string
-  CreatedAt?: string
-  UpdatedAt?: string
-}
+export type { Conversation, ChatMessage } from './storage/types'
+export { getConversationDocumentIds, parseMessageMetadata, generateConversationTitle } from './chat-utils'
 
 // Conversation functions
 export async function getUserConversations(userId: number): Promise<Conversation[]> {
   try {
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      },
-      params: {
-        where: `(user_id,eq,${userId})`,
-        sort: '-CreatedAt',
-        limit: 50
-      }
-    })
-    
-    return response.data.list || []
+    return await getStorage().conversations.listByUser(userId, 50)
   } catch (error) {
     console.error('Error fetching conversations:', error)
     return []
   }
 }
 
+// Number of conversations a user has, including archived ones
+export async function countUserConversations(userId: number): Promise<number> {
+  try {
+    return await getStorage().conversations.countByUser(userId)
+  } catch (error) {
+    console.error('Error counting conversations:', error)
+    return 0
+  }
+}
+
 export async function getConversation(conversationId: number): Promise<Conversation | null> {
   try {
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}/${conversationId}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    return response.data
+    return await getStorage().conversations.findById(conversationId)
   } catch (error) {
     console.error('Error fetching conversation:', error)
     return null
@@ -89,14 +50,7 @@ export async function createConversation(conversationData: {
       is_archived: false
     }
     
-    const response = await axios.post(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}`, newConversation, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    return response.data
+    return await getStorage().conversations.create(newConversation)
   } catch (error) {
     console.error('Error creating conversation:', error)
     return null
@@ -105,14 +59,7 @@ export async function createConversation(conversationData: {
 
 export async function updateConversation(conversationId: number, updates: Partial<Conversation>): Promise<Conversation | null> {
   try {
-    const response = await axios.patch(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}/${conversationId}`, updates, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    return response.data
+    return await getStorage().conversations.update(conversationId, updates)
   } catch (error) {
     console.error('Error updating conversation:', error)
     return null
@@ -122,15 +69,10 @@ export async function updateConversation(conversationId: number, updates: Partia
 export async function deleteConversation(conversationId: number): Promise<boolean> {
   try {
     // First delete all messages in the conversation
-    await deleteConversationMessages(conversationId)
+    await getStorage().messages.deleteByConversation(conversationId)
     
     // Then delete the conversation
-    await axios.delete(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}/${conversationId}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
+    await getStorage().conversations.delete(conversationId)
     
     return true
   } catch (error) {
@@ -142,19 +84,7 @@ export async function deleteConversation(conversationId: number): Promise<boolea
 // Message functions
 export async function getConversationMessages(conversationId: number): Promise<ChatMessage[]> {
   try {
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${MESSAGES_TABLE}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      },
-      params: {
-        where: `(conversation_id,eq,${conversationId})`,
-        sort: 'timestamp',
-        limit: 1000
-      }
-    })
-    
-    return response.data.list || []
+    return await getStorage().messages.listByConversation(conversationId)
   } catch (error) {
     console.error('Error fetching messages:', error)
     return []
@@ -180,33 +110,30 @@ export async function createMessage(messageData: {
       timestamp: new Date().toISOString()
     }
     
-    const response = await axios.post(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${MESSAGES_TABLE}`, newMessage, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
+    const message = await getStorage().messages.create(newMessage)
     
     // Update conversation message count
-    await incrementMessageCount(messageData.conversationId)
+    await adjustMessageCount(messageData.conversationId, 1)
     
-    return response.data
+    return message
   } catch (error) {
     console.error('Error creating message:', error)
     return null
   }
 }
 
+export async function getMessage(messageId: number): Promise<ChatMessage | null> {
+  try {
+    return await getStorage().messages.findById(messageId)
+  } catch (error) {
+    console.error('Error fetching message:', error)
+    return null
+  }
+}
+
 export async function updateMessage(messageId: number, updates: Partial<ChatMessage>): Promise<ChatMessage | null> {
   try {
-    const response = await axios.patch(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${MESSAGES_TABLE}/${messageId}`, updates, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    return response.data
+    return await getStorage().messages.update(messageId, updates)
   } catch (error) {
     console.error('Error updating message:', error)
     return null
@@ -215,15 +142,10 @@ export async function updateMessage(messageId: number, updates: Partial<ChatMess
 
 export async function deleteMessage(messageId: number, conversationId: number): Promise<boolean> {
   try {
-    await axios.delete(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${MESSAGES_TABLE}/${messageId}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
+    await getStorage().messages.delete(messageId)
     
     // Update conversation message count
-    await decrementMessageCount(conversationId)
+    await adjustMessageCount(conversationId, -1)
     
     return true
   } catch (error) {
@@ -233,92 +155,10 @@ export async function deleteMessage(messageId: number, conversationId: number):
 }
 
 // Helper functions
-async function deleteConversationMessages(conversationId: number): Promise<boolean> {
-  try {
-    const messages = await getConversationMessages(conversationId)
-    for (const message of messages) {
-      await axios.delete(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${MESSAGES_TABLE}/${message.Id || message.id}`, {
-        headers: {
-          'xc-token': NOCODB_API_TOKEN,
-          'Content-Type': 'application/json'
-        }
-      })
-    }
-    return true
-  } catch (error) {
-    console.error('Error deleting conversation messages:', error)
-    return false
-  }
-}
-
-async function incrementMessageCount(conversationId: number): Promise<void> {
-  try {
-    // Get current conversation
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}/${conversationId}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    const conversation = response.data
-    const newCount = (conversation.message_count || 0) + 1
-    
-    await axios.patch(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}/${conversationId}`, {
-      message_count: newCount
-    }, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-  } catch (error) {
-    console.error('Error incrementing message count:', error)
-  }
-}
-
-async function decrementMessageCount(conversationId: number): Promise<void> {
+async function adjustMessageCount(conversationId: number, delta: number): Promise<void> {
   try {
-    // Get current conversation
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}/${conversationId}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    
-    const conversation = response.data
-    const newCount = Math.max((conversation.message_count || 0) - 1, 0)
-    
-    await axios.patch(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${CONVERSATIONS_TABLE}/${conversationId}`, {
-      message_count: newCount
-    }, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
+    await getStorage().conversations.adjustMessageCount(conversationId, delta)
   } catch (error) {
-    console.error('Error decrementing message count:', error)
+    console.error('Error updating message count:', error)
   }
 }
-
-// Utility function to generate conversation title from first user message
-export function generateConversationTitle(firstMessage: string): string {
-  const maxLength = 50
-  const cleanMessage = firstMessage.trim().replace(/\n+/g, ' ')
-  
-  if (cleanMessage.length <= maxLength) {
-    return cleanMessage
-  }
-  
-  // Try to cut at a word boundary
-  const truncated = cleanMessage.substring(0, maxLength)
-  const lastSpace = truncated.lastIndexOf(' ')
-  
-  if (lastSpace > maxLength * 0.7) {
-    return truncated.substring(0, lastSpace) + '...'
-  }
-  
-  return truncated + '...'
-}
\ No newline at end of file
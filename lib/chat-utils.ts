@@ -0,0 +1,73 @@
+// Conversation helpers shared by the browser and the server
+import type { Conversation, ChatMessage } from './storage/types'
+import type { Message, MessageImage, ToolCall } from './types'
+
+// Saved answers keep tool images up to this size (base64 characters) and this much of each tool result
+const MAX_SAVED_IMAGE_CHARS = 100000
+const MAX_SAVED_TOOL_RESULT_CHARS = 2000
+
+// Get the IDs of the library documents attached to a conversation
+export function getConversationDocumentIds(conversation: Conversation): number[] {
+  if (!conversation.document_ids) return []
+  try {
+    const ids = JSON.parse(conversation.document_ids)
+    return Array.isArray(ids) ? ids.filter(id => typeof id === 'number') : []
+  } catch {
+    return []
+  }
+}
+
+// Parse a message's metadata JSON (attachments, sources, ...)
+export function parseMessageMetadata(message: ChatMessage): any {
+  if (!message.metadata) return {}
+  try {
+    return JSON.parse(message.metadata)
+  } catch {
+    return {}
+  }
+}
+
+// Message metadata keeping the sources an answer cites, the images its tools returned and what
+// each tool call returned. Large images are saved without their data and long tool results are
+// cut short, so a saved message stays small
+export function getAnswerMetadata(message: Message): Record<string, any> | undefined {
+  if (!message.sources?.length && !message.images?.length && !message.toolCalls?.length) return undefined
+  return {
+    ...(message.sources?.length ? { sources: message.sources } : {}),
+    ...(message.images?.length ? { images: message.images.map(toSavedImage) } : {}),
+    ...(message.toolCalls?.length ? { toolCalls: message.toolCalls.map(toSavedToolCall) } : {})
+  }
+}
+
+function toSavedImage(image: MessageImage): MessageImage {
+  if (!image.data || image.data.length <= MAX_SAVED_IMAGE_CHARS) return image
+  return { mimeType: image.mimeType }
+}
+
+function toSavedToolCall(call: ToolCall): ToolCall {
+  const saved = { ...call, status: 'completed' as const }
+  if (call.result === undefined) return saved
+  const serialized = typeof call.result === 'string' ? call.result : JSON.stringify(call.result)
+  if (serialized.length <= MAX_SAVED_TOOL_RESULT_CHARS) return saved
+  return { ...saved, result: serialized.substring(0, MAX_SAVED_TOOL_RESULT_CHARS) + '\n[...]' }
+}
+
+// Utility function to generate conversation title from first user message
+export function generateConversationTitle(firstMessage: string): string {
+  const maxLength = 50
+  const cleanMessage = firstMessage.trim().replace(/\n+/g, ' ')
+  
+  if (cleanMessage.length <= maxLength) {
+    return cleanMessage
+  }
+  
+  // Try to cut at a word boundary
+  const truncated = cleanMessage.substring(0, maxLength)
+  const lastSpace = truncated.lastIndexOf(' ')
+  
+  if (lastSpace > maxLength * 0.7) {
+    return truncated.substring(0, lastSpace) + '...'
+  }
+  
+  return truncated + '...'
+}
\ No newline at end of file
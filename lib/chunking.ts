@@ -0,0 +1,388 @@
+// Structure-aware document chunking
+// Splits extracted document text along headings, paragraphs, lists, code fences and tables
+// and sizes chunks by estimated tokens. Every chunk records the heading path and page it came from.
+
+import { DocumentChunk, DocumentKind } from './document-utils'
+import { getChunkingConfig } from './env-validation'
+
+export type ChunkingStrategy = 'markdown' | 'paged' | 'table' | 'code' | 'plain'
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['markdown', 'paged', 'table', 'code', 'plain']
+
+// Default strategy per document kind. Extraction turns Word, HTML and PowerPoint into
+// Markdown-style headings, and PDFs into "--- Page N ---" sections
+export const DEFAULT_CHUNKING_STRATEGIES: Record<DocumentKind, ChunkingStrategy> = {
+  pdf: 'paged',
+  text: 'plain',
+  markdown: 'markdown',
+  docx: 'markdown',
+  html: 'markdown',
+  pptx: 'markdown',
+  xlsx: 'table',
+  csv: 'table',
+  json: 'code'
+}
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy
+  maxTokens: number
+  overlapTokens: number
+}
+
+interface Block {
+  type: 'heading' | 'paragraph' | 'list' | 'code' | 'table'
+  text: string
+  level?: number // Heading level 1-6
+  page?: number
+}
+
+const PAGE_MARKER = /^--- Page (\d+) ---$/
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*$/
+const FENCE = /^(```|~~~)/
+const LIST_ITEM = /^\s*(?:[-*+•]|\d+[.)])\s+/
+const TABLE_ROW = /^\s*\|/
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/
+
+// Token counts are estimated at ~4 characters per token, like fitMessagesToContext
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Pick the chunking strategy for a document kind, honouring CHUNKING_STRATEGIES overrides
+export function getChunkingStrategy(kind: DocumentKind | null): ChunkingStrategy {
+  if (!kind) return 'plain'
+
+  const override = getChunkingConfig().strategies[kind] as ChunkingStrategy | undefined
+  if (override && CHUNKING_STRATEGIES.includes(override)) {
+    return override
+  }
+  return DEFAULT_CHUNKING_STRATEGIES[kind]
+}
+
+// Split text into structural blocks. The plain strategy only looks at paragraphs and page markers
+function parseBlocks(text: string, strategy: ChunkingStrategy): Block[] {
+  if (strategy === 'code') {
+    return [{ type: 'code', text }]
+  }
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const detectStructure = strategy !== 'plain'
+  const blocks: Block[] = []
+  let page: number | undefined
+  let paragraph: string[] = []
+  let paragraphType: 'paragraph' | 'list' = 'paragraph'
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: paragraphType, text: paragraph.join('\n'), page })
+      paragraph = []
+    }
+    paragraphType = 'paragraph'
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    const pageMatch = trimmed.match(PAGE_MARKER)
+    if (pageMatch) {
+      flushParagraph()
+      page = parseInt(pageMatch[1], 10)
+      continue
+    }
+
+    if (!trimmed) {
+      flushParagraph()
+      continue
+    }
+
+    if (detectStructure) {
+      // Code fences are kept intact up to the closing fence (or the end of the text)
+      const fence = trimmed.match(FENCE)
+      if (fence) {
+        flushParagraph()
+        const codeLines = [line]
+        while (++i < lines.length) {
+          codeLines.push(lines[i])
+          if (lines[i].trim().startsWith(fence[1])) break
+        }
+        blocks.push({ type: 'code', text: codeLines.join('\n'), page })
+        continue
+      }
+
+      const heading = trimmed.match(HEADING)
+      if (heading) {
+        flushParagraph()
+        blocks.push({ type: 'heading', text: heading[2], level: heading[1].length, page })
+        continue
+      }
+
+      if (TABLE_ROW.test(line)) {
+        flushParagraph()
+        const rows = [line]
+        while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) {
+          rows.push(lines[++i])
+        }
+        blocks.push({ type: 'table', text: rows.join('\n'), page })
+        continue
+      }
+
+      if (LIST_ITEM.test(line)) {
+        if (paragraphType !== 'list') flushParagraph()
+        paragraphType = 'list'
+        paragraph.push(line)
+        continue
+      }
+
+      // An unindented line that is not a list item ends the list
+      if (paragraphType === 'list' && !/^\s/.test(line)) {
+        flushParagraph()
+      }
+    }
+
+    paragraph.push(line)
+  }
+
+  flushParagraph()
+  return blocks
+}
+
+// Greedily join pieces into parts of at most maxTokens, splitting pieces that are too large on their own
+function packPieces(pieces: string[], maxTokens: number, separator: string): string[] {
+  const parts: string[] = []
+  let current = ''
+
+  for (const piece of pieces) {
+    if (estimateTokens(piece) > maxTokens) {
+      if (current) parts.push(current)
+      current = ''
+      parts.push(...splitWords(piece, maxTokens))
+      continue
+    }
+
+    const candidate = current ? current + separator + piece : piece
+    if (current && estimateTokens(candidate) > maxTokens) {
+      parts.push(current)
+      current = piece
+    } else {
+      current = candidate
+    }
+  }
+
+  if (current) parts.push(current)
+  return parts
+}
+
+// Last resort for text without usable boundaries
+function splitWords(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4
+  const parts: string[] = []
+  let current = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (word.length > maxChars) {
+      if (current) parts.push(current)
+      current = ''
+      for (let i = 0; i < word.length; i += maxChars) {
+        parts.push(word.slice(i, i + maxChars))
+      }
+      continue
+    }
+
+    if (current && current.length + 1 + word.length > maxChars) {
+      parts.push(current)
+      current = word
+    } else {
+      current = current ? `${current} ${word}` : word
+    }
+  }
+
+  if (current) parts.push(current)
+  return parts
+}
+
+// Split prose into sentences, keeping their punctuation
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+(?:[.!?]+|$)/g) || [text])
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+}
+
+function splitListItems(text: string): string[] {
+  const items: string[] = []
+  for (const line of text.split('\n')) {
+    if (LIST_ITEM.test(line) || items.length === 0) {
+      items.push(line)
+    } else {
+      items[items.length - 1] += '\n' + line
+    }
+  }
+  return items
+}
+
+// Split a table by rows, repeating the header row in every part
+function splitTable(text: string, maxTokens: number): string[] {
+  const rows = text.split('\n')
+  const headerRows = rows.length > 1 && TABLE_SEPARATOR.test(rows[1]) ? rows.slice(0, 2) : []
+  const bodyRows = rows.slice(headerRows.length)
+  const header = headerRows.join('\n')
+  const budget = Math.max(maxTokens - estimateTokens(header), Math.floor(maxTokens / 2))
+
+  return packPieces(bodyRows, budget, '\n').map(part => header ? `${header}\n${part}` : part)
+}
+
+// Split code by lines, re-opening the fence in every part
+function splitCode(text: string, maxTokens: number): string[] {
+  const lines = text.split('\n')
+  const fence = lines[0].trim().match(FENCE)
+  if (!fence) {
+    return packPieces(lines, maxTokens, '\n')
+  }
+
+  const opening = lines[0]
+  const hasClosing = lines.length > 1 && lines[lines.length - 1].trim().startsWith(fence[1])
+  const body = lines.slice(1, hasClosing ? -1 : undefined)
+  const budget = Math.max(maxTokens - estimateTokens(opening + fence[1]), Math.floor(maxTokens / 2))
+
+  return packPieces(body, budget, '\n').map(part => `${opening}\n${part}\n${fence[1]}`)
+}
+
+function splitBlock(block: Block, maxTokens: number): string[] {
+  if (estimateTokens(block.text) <= maxTokens) {
+    return [block.text]
+  }
+
+  switch (block.type) {
+    case 'table':
+      return splitTable(block.text, maxTokens)
+    case 'code':
+      return splitCode(block.text, maxTokens)
+    case 'list':
+      return packPieces(splitListItems(block.text), maxTokens, '\n')
+    default:
+      return packPieces(splitSentences(block.text), maxTokens, ' ')
+  }
+}
+
+// Trailing sentences of a piece of prose, up to overlapTokens, carried into the next chunk
+function getOverlap(text: string, overlapTokens: number): string {
+  if (overlapTokens <= 0) return ''
+
+  const sentences = splitSentences(text)
+  const overlap: string[] = []
+  let tokens = 0
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const sentenceTokens = estimateTokens(sentences[i])
+    if (tokens + sentenceTokens > overlapTokens) break
+    overlap.unshift(sentences[i])
+    tokens += sentenceTokens
+  }
+
+  if (overlap.length > 0) {
+    return overlap.join(' ')
+  }
+
+  // The last sentence alone is too long - fall back to its trailing words
+  const words = text.split(/\s+/).filter(Boolean)
+  const tail: string[] = []
+  let length = 0
+  for (let i = words.length - 1; i >= 0 && length + words[i].length < overlapTokens * 4; i--) {
+    tail.unshift(words[i])
+    length += words[i].length + 1
+  }
+  return tail.join(' ')
+}
+
+/**
+ * Splits a document into chunks for embedding and search
+ * @param text - The extracted document text
+ * @param filename - The document's filename, stored in each chunk's metadata
+ * @param kind - The document kind, used to pick the chunking strategy
+ * @param overrides - Optional strategy and token sizes, defaults come from getChunkingConfig
+ * @returns The chunks with section path and page metadata
+ */
+export function chunkDocument(
+  text: string,
+  filename: string,
+  kind: DocumentKind | null,
+  overrides: Partial<ChunkingOptions> = {}
+): DocumentChunk[] {
+  const config = getChunkingConfig()
+  const strategy = overrides.strategy || getChunkingStrategy(kind)
+  const maxTokens = overrides.maxTokens || config.maxTokens
+  // Tables and code are not overlapped - a partial row or statement adds noise, not context
+  const overlapTokens = strategy === 'table' || strategy === 'code'
+    ? 0
+    : Math.min(overrides.overlapTokens ?? config.overlapTokens, Math.floor(maxTokens / 2))
+
+  const chunks: { content: string, sectionPath: string[], page?: number }[] = []
+  const headingStack: { level: number, text: string }[] = []
+
+  let current: string[] = []
+  let currentTokens = 0
+  let hasBody = false // Only headings/overlap so far - not worth a chunk on its own
+  let chunkSectionPath: string[] = []
+  let chunkPage: number | undefined
+  let lastProse = ''
+
+  const flush = (carryOverlap: boolean) => {
+    if (hasBody) {
+      chunks.push({ content: current.join('\n\n').trim(), sectionPath: chunkSectionPath, page: chunkPage })
+    }
+    const overlap = carryOverlap && hasBody ? getOverlap(lastProse, overlapTokens) : ''
+    current = overlap ? [overlap] : []
+    currentTokens = estimateTokens(overlap)
+    hasBody = false
+    lastProse = ''
+  }
+
+  for (const block of parseBlocks(text, strategy)) {
+    if (block.type === 'heading') {
+      // A new section always starts a new chunk
+      flush(false)
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.level!) {
+        headingStack.pop()
+      }
+      headingStack.push({ level: block.level!, text: block.text })
+      const headingLine = `${'#'.repeat(block.level!)} ${block.text}`
+      current.push(headingLine)
+      currentTokens += estimateTokens(headingLine)
+      continue
+    }
+
+    // Paged documents never mix pages in one chunk, so page citations stay exact
+    if (strategy === 'paged' && hasBody && block.page !== chunkPage) {
+      flush(false)
+    }
+
+    for (const piece of splitBlock(block, Math.max(maxTokens - overlapTokens, 1))) {
+      const pieceTokens = estimateTokens(piece)
+      if (hasBody && currentTokens + pieceTokens > maxTokens) {
+        flush(true)
+      }
+
+      if (!hasBody) {
+        chunkSectionPath = headingStack.map(heading => heading.text)
+        chunkPage = block.page
+      }
+
+      current.push(piece)
+      currentTokens += pieceTokens
+      hasBody = true
+      lastProse = block.type === 'paragraph' || block.type === 'list' ? piece : ''
+    }
+  }
+  flush(false)
+
+  return chunks.map((chunk, index) => ({
+    id: `${filename}-chunk-${index}`,
+    content: chunk.content,
+    metadata: {
+      filename,
+      chunkIndex: index,
+      totalChunks: chunks.length,
+      sectionPath: chunk.sectionPath,
+      ...(chunk.page !== undefined ? { page: chunk.page } : {})
+    }
+  }))
+}
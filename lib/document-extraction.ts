@@ -0,0 +1,264 @@
+// Server-side text extraction for uploaded documents
+// Runs fully offline in the Node runtime - no external services are called
+
+import { extractText, getDocumentProxy } from 'unpdf'
+import { DocumentKind } from './document-utils'
+
+// Error with a message that is safe to show to the user (bad or unsupported input)
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DocumentExtractionError'
+  }
+}
+
+// Minimum average characters per page before a PDF is treated as scanned/image-only
+const MIN_CHARS_PER_PAGE = 20
+
+/**
+ * Extracts the text of a PDF, one section per page
+ * @param buffer - The raw PDF bytes
+ * @returns The extracted text with "--- Page N ---" markers before each page
+ * @throws DocumentExtractionError if the PDF cannot be read or contains no text layer
+ */
+export async function extractPdfText(buffer: ArrayBuffer): Promise<{ content: string, totalPages: number }> {
+  let pages: string[]
+  let totalPages: number
+
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer))
+    const result = await extractText(pdf, { mergePages: false })
+    pages = result.text
+    totalPages = result.totalPages
+  } catch (error) {
+    console.error('PDF parsing failed:', error)
+    throw new DocumentExtractionError('Could not read the PDF. The file may be damaged or password protected.')
+  }
+
+  const textLength = pages.reduce((sum, page) => sum + page.trim().length, 0)
+  if (totalPages === 0 || textLength < MIN_CHARS_PER_PAGE * totalPages) {
+    throw new DocumentExtractionError(
+      'No text could be extracted from this PDF. It appears to be scanned or image-only, which is not supported - please upload a PDF with selectable text.'
+    )
+  }
+
+  const content = pages
+    .map((page, index) => ({ page: index + 1, text: page.trim() }))
+    .filter(page => page.text.length > 0)
+    .map(page => `--- Page ${page.page} ---\n${page.text}`)
+    .join('\n\n')
+
+  return { content, totalPages }
+}
+
+// Maximum rows rendered per spreadsheet sheet or CSV file
+const MAX_TABLE_ROWS = 5000
+
+// Render rows as a Markdown table, using the first row as header
+function rowsToMarkdownTable(rows: any[][]): string {
+  const nonEmptyRows = rows.filter(row => row.some(cell => String(cell ?? '').trim() !== ''))
+  if (nonEmptyRows.length === 0) return ''
+
+  const columnCount = Math.max(...nonEmptyRows.map(row => row.length))
+  const formatCell = (cell: any) => String(cell ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim()
+  const formatRow = (row: any[]) => {
+    const cells = Array.from({ length: columnCount }, (_, i) => formatCell(row[i]))
+    return `| ${cells.join(' | ')} |`
+  }
+
+  const [header, ...body] = nonEmptyRows
+  const lines = [
+    formatRow(header),
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...body.slice(0, MAX_TABLE_ROWS).map(formatRow)
+  ]
+  if (body.length > MAX_TABLE_ROWS) {
+    lines.push(`\n_(${body.length - MAX_TABLE_ROWS} more rows not included)_`)
+  }
+  return lines.join('\n')
+}
+
+// Spreadsheets: one Markdown section and table per sheet
+async function extractSpreadsheetText(buffer: ArrayBuffer): Promise<string> {
+  const ExcelJS = (await import('exceljs')).default
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+
+  return workbook.worksheets
+    .map(sheet => {
+      const rows: string[][] = []
+      sheet.eachRow(row => {
+        rows.push(Array.from({ length: sheet.columnCount }, (_, i) => row.getCell(i + 1).text))
+      })
+      const table = rowsToMarkdownTable(rows)
+      return table ? `## Sheet: ${sheet.name}\n\n${table}` : ''
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+// Split CSV text into rows of cells. Quoted cells may hold commas, line breaks and "" for a quote
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+async function extractCsvText(text: string): Promise<string> {
+  return rowsToMarkdownTable(parseCsv(text))
+}
+
+// Convert HTML to readable text, keeping headings as Markdown so document structure survives
+export async function htmlToPlainText(html: string): Promise<string> {
+  const { convert } = await import('html-to-text')
+
+  const headingSelectors = [1, 2, 3, 4, 5, 6].map(level => ({
+    selector: `h${level}`,
+    format: `heading${level}`
+  }))
+  const headingFormatters = Object.fromEntries([1, 2, 3, 4, 5, 6].map(level => [
+    `heading${level}`,
+    (elem: any, walk: any, builder: any) => {
+      builder.openBlock({ leadingLineBreaks: 2 })
+      builder.addLiteral(`${'#'.repeat(level)} `)
+      walk(elem.children, builder)
+      builder.closeBlock({ trailingLineBreaks: 2 })
+    }
+  ]))
+
+  return convert(html, {
+    wordwrap: false,
+    formatters: headingFormatters,
+    selectors: [
+      ...headingSelectors,
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'img', format: 'skip' },
+      { selector: 'script', format: 'skip' },
+      { selector: 'style', format: 'skip' },
+      { selector: 'nav', format: 'skip' },
+      { selector: 'table', format: 'dataTable' }
+    ]
+  }).replace(/\n{3,}/g, '\n\n').trim()
+}
+
+async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
+  const mammoth = await import('mammoth')
+  const result = await mammoth.convertToHtml({ buffer: Buffer.from(buffer) })
+  return htmlToPlainText(result.value)
+}
+
+// Decode the few XML entities that appear in Office text runs
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+// Presentations: one section per slide, one line per paragraph
+async function extractPptxText(buffer: ArrayBuffer): Promise<string> {
+  const JSZip = (await import('jszip')).default
+  const zip = await JSZip.loadAsync(buffer)
+
+  const slideFiles = Object.keys(zip.files)
+    .map(name => ({ name, match: name.match(/^ppt\/slides\/slide(\d+)\.xml$/) }))
+    .filter(file => file.match)
+    .map(file => ({ name: file.name, number: parseInt(file.match![1], 10) }))
+    .sort((a, b) => a.number - b.number)
+
+  const slides: string[] = []
+  for (const slide of slideFiles) {
+    const xml = await zip.file(slide.name)!.async('string')
+    const paragraphs = (xml.match(/<a:p[\s>][\s\S]*?<\/a:p>/g) || [])
+      .map(paragraph => (paragraph.match(/<a:t(?:\s[^>]*)?>[\s\S]*?<\/a:t>/g) || [])
+        .map(run => decodeXmlEntities(run.replace(/<\/?a:t[^>]*>/g, '')))
+        .join(''))
+      .map(text => text.trim())
+      .filter(Boolean)
+
+    if (paragraphs.length > 0) {
+      slides.push(`## Slide ${slide.number}\n${paragraphs.join('\n')}`)
+    }
+  }
+
+  return slides.join('\n\n')
+}
+
+function formatJsonText(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2)
+  } catch {
+    throw new DocumentExtractionError('The JSON file could not be parsed.')
+  }
+}
+
+/**
+ * Extracts searchable text from an uploaded document
+ * @param file - The uploaded file
+ * @param kind - The document kind from detectDocumentKind
+ * @returns The extracted text
+ * @throws DocumentExtractionError if the document cannot be read
+ */
+export async function extractDocumentText(file: File, kind: DocumentKind): Promise<string> {
+  try {
+    switch (kind) {
+      case 'pdf':
+        return (await extractPdfText(await file.arrayBuffer())).content
+      case 'text':
+      case 'markdown':
+        return await file.text()
+      case 'csv':
+        return await extractCsvText(await file.text())
+      case 'json':
+        return formatJsonText(await file.text())
+      case 'html':
+        return await htmlToPlainText(await file.text())
+      case 'docx':
+        return await extractDocxText(await file.arrayBuffer())
+      case 'xlsx':
+        return await extractSpreadsheetText(await file.arrayBuffer())
+      case 'pptx':
+        return await extractPptxText(await file.arrayBuffer())
+    }
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) throw error
+    console.error(`Failed to extract ${kind} document:`, error)
+    throw new DocumentExtractionError(`Could not read ${file.name}. The file may be damaged or in an unsupported format.`)
+  }
+}
@@ -7,64 +7,14 @@ export interface DocumentChunk {
     filename: string
     chunkIndex: number
     totalChunks: number
+    documentId?: number
+    sectionPath?: string[] // Headings leading to the chunk, outermost first
+    page?: number // Page the chunk starts on, for paged documents
+    embeddingModel?: string // Model that produced the embedding
+    embeddingDimensions?: number
   }
 }
 
-// Chunk text into smaller pieces for better embeddings
-export function chunkText(text: string, filename: string, maxChunkSize: number = 300, overlap: number = 50): DocumentChunk[] {
-  const chunks: DocumentChunk[] = []
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0)
-  
-  let currentChunk = ''
-  let chunkIndex = 0
-  
-  for (const sentence of sentences) {
-    const trimmedSentence = sentence.trim()
-    if (!trimmedSentence) continue
-    
-    // If adding this sentence would exceed the max chunk size, create a new chunk
-    if (currentChunk && (currentChunk.length + trimmedSentence.length > maxChunkSize)) {
-      chunks.push({
-        id: `${filename}-chunk-${chunkIndex}`,
-        content: currentChunk.trim(),
-        metadata: {
-          filename,
-          chunkIndex,
-          totalChunks: 0 // Will be updated later
-        }
-      })
-      
-      // Start new chunk with overlap from previous chunk
-      const words = currentChunk.split(' ')
-      const overlapWords = words.slice(-Math.floor(overlap / 5)) // Rough estimate for overlap
-      currentChunk = overlapWords.join(' ') + ' ' + trimmedSentence
-      chunkIndex++
-    } else {
-      currentChunk += (currentChunk ? ' ' : '') + trimmedSentence
-    }
-  }
-  
-  // Add the last chunk if it has content
-  if (currentChunk.trim()) {
-    chunks.push({
-      id: `${filename}-chunk-${chunkIndex}`,
-      content: currentChunk.trim(),
-      metadata: {
-        filename,
-        chunkIndex,
-        totalChunks: 0
-      }
-    })
-  }
-  
-  // Update total chunks count
-  chunks.forEach(chunk => {
-    chunk.metadata.totalChunks = chunks.length
-  })
-  
-  return chunks
-}
-
 // Calculate cosine similarity between two vectors
 export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   if (vecA.length !== vecB.length) {
@@ -118,4 +68,33 @@ export function createContextFromChunks(chunks: DocumentChunk[]): string {
     .join('\n\n---\n\n')
   
   return `Based on the uploaded documents, here is the relevant context:\n\n${context}`
-}
\ No newline at end of file
+}
+
+// Supported document kinds and how they are recognised
+export type DocumentKind = 'pdf' | 'text' | 'markdown' | 'docx' | 'xlsx' | 'pptx' | 'csv' | 'html' | 'json'
+
+const DOCUMENT_TYPES: { kind: DocumentKind, mimeTypes: string[], extensions: string[] }[] = [
+  { kind: 'pdf', mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  { kind: 'text', mimeTypes: ['text/plain'], extensions: ['.txt'] },
+  { kind: 'markdown', mimeTypes: ['text/markdown', 'text/x-markdown'], extensions: ['.md', '.markdown'] },
+  { kind: 'docx', mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'], extensions: ['.docx'] },
+  { kind: 'xlsx', mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'], extensions: ['.xlsx'] },
+  { kind: 'pptx', mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'], extensions: ['.pptx'] },
+  { kind: 'csv', mimeTypes: ['text/csv', 'application/csv'], extensions: ['.csv'] },
+  { kind: 'html', mimeTypes: ['text/html', 'application/xhtml+xml'], extensions: ['.html', '.htm'] },
+  { kind: 'json', mimeTypes: ['application/json'], extensions: ['.json'] }
+]
+
+// File extensions accepted for document upload (images are handled separately)
+export const SUPPORTED_DOCUMENT_EXTENSIONS = DOCUMENT_TYPES.flatMap(type => type.extensions)
+
+// Work out what kind of document a file is. Browsers often send an empty or generic
+// MIME type for .md, .csv etc., so the extension is used as fallback
+export function detectDocumentKind(filename: string, mimeType: string): DocumentKind | null {
+  const byMime = DOCUMENT_TYPES.find(type => type.mimeTypes.includes(mimeType))
+  if (byMime) return byMime.kind
+
+  const lowerName = filename.toLowerCase()
+  const byExtension = DOCUMENT_TYPES.find(type => type.extensions.some(ext => lowerName.endsWith(ext)))
+  return byExtension ? byExtension.kind : null
+}
@@ -0,0 +1,180 @@
+// Document library, kept by the configured storage backend (lib/storage)
+import { getStorage } from './storage'
+import type { Document, StoredDocumentChunk } from './storage/types'
+import { DocumentChunk } from './types'
+
+export type { Document, StoredDocumentChunk } from './storage/types'
+
+// Document functions
+export async function getUserDocuments(userId: number): Promise<Document[]> {
+  try {
+    return await getStorage().documents.listByUser(userId)
+  } catch (error) {
+    console.error('Error fetching documents:', error)
+    return []
+  }
+}
+
+/**
+ * Keeps the document IDs that are valid and belong to the user, for IDs sent by the client
+ * @param userId - The user the documents must belong to
+ * @param documentIds - Document IDs as received
+ * @returns The IDs of the user's own documents, in the order given
+ */
+export async function filterOwnDocumentIds(userId: number, documentIds: unknown): Promise<number[]> {
+  if (!Array.isArray(documentIds)) return []
+  const requested = documentIds.filter((id): id is number => Number.isInteger(id) && id > 0)
+  if (requested.length === 0) return []
+
+  const ownIds = new Set((await getUserDocuments(userId)).map(doc => Number(doc.Id || doc.id)))
+  return Array.from(new Set(requested.filter(id => ownIds.has(id))))
+}
+
+export async function getDocument(documentId: number): Promise<Document | null> {
+  try {
+    return await getStorage().documents.findById(documentId)
+  } catch (error) {
+    console.error('Error fetching document:', error)
+    return null
+  }
+}
+
+export async function createDocument(documentData: {
+  userId: number
+  filename: string
+  fileType: string
+  size: number
+}): Promise<Document | null> {
+  try {
+    const newDocument = {
+      user_id: documentData.userId,
+      filename: documentData.filename,
+      file_type: documentData.fileType,
+      size: documentData.size,
+      chunk_count: 0
+    }
+
+    return await getStorage().documents.create(newDocument)
+  } catch (error) {
+    console.error('Error creating document:', error)
+    return null
+  }
+}
+
+export async function updateDocument(documentId: number, updates: Partial<Document>): Promise<Document | null> {
+  try {
+    return await getStorage().documents.update(documentId, updates)
+  } catch (error) {
+    console.error('Error updating document:', error)
+    return null
+  }
+}
+
+export async function deleteDocument(documentId: number): Promise<boolean> {
+  try {
+    // First delete all chunks of the document
+    await getStorage().documentChunks.deleteByDocument(documentId)
+
+    // Then delete the document
+    await getStorage().documents.delete(documentId)
+    return true
+  } catch (error) {
+    console.error('Error deleting document:', error)
+    return false
+  }
+}
+
+// Chunk functions
+export async function saveDocumentChunks(
+  documentId: number,
+  userId: number,
+  chunks: DocumentChunk[],
+  embedding: { model: string, dimensions: number }
+): Promise<boolean> {
+  try {
+    const rows = chunks.map((chunk, index) => ({
+      document_id: documentId,
+      user_id: userId,
+      chunk_index: index,
+      content: chunk.content,
+      embedding: JSON.stringify(chunk.embedding || []),
+      embedding_model: embedding.model,
+      embedding_dimensions: embedding.dimensions,
+      metadata: JSON.stringify(chunk.metadata)
+    }))
+
+    await getStorage().documentChunks.createMany(rows)
+
+    await updateDocument(documentId, { chunk_count: rows.length, embedding_model: embedding.model })
+    return true
+  } catch (error) {
+    console.error('Error saving document chunks:', error)
+    return false
+  }
+}
+
+// Get the stored chunk rows of a single document, in order
+export async function getStoredDocumentChunks(documentId: number): Promise<StoredDocumentChunk[]> {
+  return getStorage().documentChunks.listByDocument(documentId)
+}
+
+// Replace the embeddings of a document's chunks, e.g. after the embedding model changed
+export async function updateDocumentChunkEmbeddings(
+  documentId: number,
+  updates: { chunkId: number, embedding: number[] }[],
+  embedding: { model: string, dimensions: number }
+): Promise<boolean> {
+  try {
+    const rows = updates.map(update => ({
+      Id: update.chunkId,
+      embedding: JSON.stringify(update.embedding),
+      embedding_model: embedding.model,
+      embedding_dimensions: embedding.dimensions
+    }))
+
+    await getStorage().documentChunks.updateMany(rows)
+
+    await updateDocument(documentId, { embedding_model: embedding.model })
+    return true
+  } catch (error) {
+    console.error('Error updating chunk embeddings:', error)
+    return false
+  }
+}
+
+// Get the chunks of a user's documents, optionally limited to specific documents
+export async function getDocumentChunks(userId: number, documentIds?: number[]): Promise<DocumentChunk[]> {
+  try {
+    // IDs end up in a database filter, so anything but a positive integer is dropped
+    const ids = (documentIds || []).filter(id => Number.isInteger(id) && id > 0)
+    const chunks = await getStorage().documentChunks.listByUser(userId, ids)
+    return chunks.map(toDocumentChunk)
+  } catch (error) {
+    console.error('Error fetching document chunks:', error)
+    return []
+  }
+}
+
+// Helper functions
+function toDocumentChunk(stored: StoredDocumentChunk): DocumentChunk {
+  let embedding: number[] | undefined
+  let metadata: any = {}
+  try {
+    embedding = stored.embedding ? JSON.parse(stored.embedding) : undefined
+    metadata = stored.metadata ? JSON.parse(stored.metadata) : {}
+  } catch (error) {
+    console.error('Error parsing stored chunk:', stored.Id || stored.id, error)
+  }
+
+  return {
+    id: `${stored.document_id}-chunk-${stored.chunk_index}`,
+    content: stored.content,
+    embedding: embedding && embedding.length > 0 ? embedding : undefined,
+    metadata: {
+      ...metadata,
+      documentId: stored.document_id,
+      embeddingModel: stored.embedding_model || undefined,
+      embeddingDimensions: stored.embedding_dimensions || embedding?.length
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// Embedding service
+// All embeddings - document chunks and search queries - are created here, through Berget AI,
+// so stored and query vectors always come from the same, configured model.
+
+import OpenAI from 'openai'
+import { getBergetAIConfig, getEmbeddingConfig } from './env-validation'
+
+// Number of texts embedded per request to the embeddings API
+const EMBEDDING_BATCH_SIZE = 64
+
+export interface EmbeddingResult {
+  embeddings: number[][]
+  model: string
+  dimensions: number
+  tokens: number // Estimated at ~4 characters per token when the API doesn't report it
+}
+
+// Get the embedding model currently configured
+export function getEmbeddingModel(): string {
+  return getEmbeddingConfig().model
+}
+
+/**
+ * Creates embeddings for a list of texts with the configured model
+ * @param texts - The texts to embed
+ * @returns One embedding per text, plus the model, vector dimension and tokens used
+ * @throws Error if the embeddings API fails
+ */
+export async function createEmbeddings(texts: string[]): Promise<EmbeddingResult> {
+  const { model } = getEmbeddingConfig()
+  const bergetConfig = getBergetAIConfig()
+  const openai = new OpenAI({
+    apiKey: bergetConfig.apiKey,
+    baseURL: bergetConfig.baseUrl
+  })
+
+  const embeddings: number[][] = []
+  let tokens = 0
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE)
+    const response = await openai.embeddings.create({
+      model,
+      input: batch
+    })
+    embeddings.push(...response.data.map((item: any) => item.embedding))
+    tokens += response.usage?.prompt_tokens ?? batch.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0)
+  }
+
+  console.log(`Created ${embeddings.length} embeddings with ${model}`)
+
+  return {
+    embeddings,
+    model,
+    dimensions: embeddings[0]?.length || 0,
+    tokens
+  }
+}
+
+// Embed a single search query
+export async function createQueryEmbedding(query: string): Promise<{ embedding: number[], model: string, tokens: number }> {
+  const result = await createEmbeddings([query])
+  return { embedding: result.embeddings[0], model: result.model, tokens: result.tokens }
+}
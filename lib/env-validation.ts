@@ -65,13 +65,231 @@ export function getNocoDBConfig() {
 }
 
 /**
- * Gets the MCP configuration with proper validation
- * @returns Object containing MCP config
- * @throws Error if required MCP env vars are missing
+ * Gets the storage configuration
+ * Users, conversations, messages, prompts and sessions are kept in NocoDB, or in a local SQLite
+ * database for development and tests without network access
+ * @returns Object containing the storage backend and the SQLite database file
+ */
+export function getStorageConfig() {
+  const backend = getEnvVar('STORAGE_BACKEND', 'nocodb')
+  return {
+    backend: (backend === 'sqlite' ? 'sqlite' : 'nocodb') as 'nocodb' | 'sqlite',
+    sqlitePath: getEnvVar('SQLITE_PATH', '.data/chatswe.db') // ':memory:' for a throwaway database
+  }
+}
+
+/**
+ * Gets the MCP configuration
+ * MCP is optional. Servers are listed in a JSON or YAML file (see mcp-servers.example.yaml); a single
+ * server can still be given with MCP_SERVER_URL when there is no such file
+ * @returns Object containing the config file path and the single server settings
  */
 export function getMCPConfig() {
   return {
-    serverUrl: requireEnvVar('MCP_SERVER_URL', 'Required for MCP server connection'),
+    configFile: getEnvVar('MCP_CONFIG_FILE', ''),
+    serverUrl: getEnvVar('MCP_SERVER_URL', ''),
     authToken: getEnvVar('MCP_AUTH_TOKEN', '') // Optional auth token
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the chat agent configuration
+ * @returns Object containing the agent loop limits and how long to wait for tool approvals
+ */
+export function getChatAgentConfig() {
+  const maxToolIterations = parseInt(getEnvVar('CHAT_MAX_TOOL_ITERATIONS', '5'), 10)
+  const approvalTimeoutSeconds = parseInt(getEnvVar('TOOL_APPROVAL_TIMEOUT_SECONDS', '300'), 10)
+  return {
+    maxToolIterations: Number.isNaN(maxToolIterations) || maxToolIterations < 1 ? 5 : maxToolIterations,
+    toolApprovalTimeoutMs: (Number.isNaN(approvalTimeoutSeconds) || approvalTimeoutSeconds < 1 ? 300 : approvalTimeoutSeconds) * 1000
+  }
+}
+
+/**
+ * Gets the login session configuration
+ * @returns Object containing access and refresh token lifetimes and whether cookies are HTTPS-only
+ */
+export function getSessionConfig() {
+  const accessTokenMinutes = parseInt(getEnvVar('ACCESS_TOKEN_TTL_MINUTES', '15'), 10)
+  const refreshTokenDays = parseInt(getEnvVar('REFRESH_TOKEN_TTL_DAYS', '30'), 10)
+  return {
+    accessTokenTtlSeconds: (Number.isNaN(accessTokenMinutes) || accessTokenMinutes < 1 ? 15 : accessTokenMinutes) * 60,
+    refreshTokenTtlSeconds: (Number.isNaN(refreshTokenDays) || refreshTokenDays < 1 ? 30 : refreshTokenDays) * 24 * 60 * 60,
+    secureCookies: getEnvVar('SESSION_COOKIE_SECURE', process.env.NODE_ENV === 'production' ? 'true' : 'false') === 'true'
+  }
+}
+
+/**
+ * Gets the login brute-force protection configuration
+ * @returns Object containing failure limits, backoff, lockout duration, which store keeps the counters
+ * how many proxies to trust for the client's address and the limits on password reset requests
+ */
+export function getLoginThrottleConfig() {
+  const readNumber = (name: string, defaultValue: number, min: number) => {
+    const value = parseInt(getEnvVar(name, String(defaultValue)), 10)
+    return Number.isNaN(value) || value < min ? defaultValue : value
+  }
+  const store = getEnvVar('LOGIN_THROTTLE_STORE', process.env.NODE_ENV === 'production' ? 'database' : 'memory')
+
+  return {
+    // nocodb is the name the database store had before SQLite storage
+    store: store === 'database' || store === 'nocodb' ? 'database' : 'memory',
+    maxFailures: readNumber('LOGIN_MAX_FAILURES', 5, 1),
+    lockoutSeconds: readNumber('LOGIN_LOCKOUT_MINUTES', 15, 1) * 60,
+    failureWindowSeconds: readNumber('LOGIN_FAILURE_WINDOW_MINUTES', 15, 1) * 60,
+    backoffBaseSeconds: readNumber('LOGIN_BACKOFF_BASE_SECONDS', 1, 0),
+    backoffMaxSeconds: readNumber('LOGIN_BACKOFF_MAX_SECONDS', 60, 0),
+    // Many users can share an address behind a proxy or NAT, so the per-IP limit is higher
+    ipMaxFailures: readNumber('LOGIN_IP_MAX_FAILURES', 50, 1),
+    // Reverse proxies in front of the app whose X-Forwarded-For entries are trusted
+    trustedProxyHops: readNumber('TRUSTED_PROXY_HOPS', 1, 0),
+    // Password reset emails per address and requests per IP address within the reset window
+    resetMaxPerEmail: readNumber('PASSWORD_RESET_MAX_PER_EMAIL', 3, 1),
+    resetMaxPerIp: readNumber('PASSWORD_RESET_MAX_PER_IP', 20, 1),
+    resetWindowSeconds: readNumber('PASSWORD_RESET_WINDOW_MINUTES', 60, 1) * 60
+  }
+}
+
+/**
+ * Gets the usage quota configuration
+ * A limit of 0 means unlimited
+ * @returns Object containing daily and monthly limits for tokens and transcribed audio seconds
+ */
+export function getUsageQuotaConfig() {
+  const readLimit = (name: string) => {
+    const value = parseInt(getEnvVar(name, '0'), 10)
+    return Number.isNaN(value) || value < 0 ? 0 : value
+  }
+
+  return {
+    dailyTokens: readLimit('USAGE_DAILY_TOKEN_LIMIT'),
+    monthlyTokens: readLimit('USAGE_MONTHLY_TOKEN_LIMIT'),
+    dailyAudioSeconds: readLimit('USAGE_DAILY_AUDIO_SECONDS_LIMIT'),
+    monthlyAudioSeconds: readLimit('USAGE_MONTHLY_AUDIO_SECONDS_LIMIT')
+  }
+}
+
+/**
+ * Gets the outgoing mail configuration
+ * @returns Object containing the transport (smtp, console or file), sender and SMTP settings
+ */
+export function getMailConfig() {
+  const transport = getEnvVar('MAIL_TRANSPORT', 'console')
+  const port = parseInt(getEnvVar('SMTP_PORT', '587'), 10)
+  const smtpPort = Number.isNaN(port) ? 587 : port
+  return {
+    transport: ['smtp', 'console', 'file'].includes(transport) ? transport : 'console',
+    from: getEnvVar('MAIL_FROM', 'ChatSWE <no-reply@localhost>'),
+    fileDirectory: getEnvVar('MAIL_FILE_DIR', '.mail'),
+    smtp: {
+      host: getEnvVar('SMTP_HOST', 'localhost'),
+      port: smtpPort,
+      secure: getEnvVar('SMTP_SECURE', smtpPort === 465 ? 'true' : 'false') === 'true',
+      user: getEnvVar('SMTP_USER', '') || undefined,
+      password: getEnvVar('SMTP_PASSWORD', '') || undefined
+    }
+  }
+}
+
+export type RegistrationMode = 'closed' | 'open' | 'invite' | 'domain'
+
+/**
+ * Gets the self-service registration configuration
+ * @returns Object containing the registration mode, allowed email domains and account link settings
+ */
+export function getRegistrationConfig() {
+  const mode = getEnvVar('REGISTRATION_MODE', 'closed') as RegistrationMode
+  return {
+    mode: (['closed', 'open', 'invite', 'domain'] as RegistrationMode[]).includes(mode) ? mode : 'closed',
+    allowedDomains: getEnvVar('REGISTRATION_ALLOWED_DOMAINS', '')
+      .split(',')
+      .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+      .filter(Boolean),
+    requireEmailVerification: getEnvVar('REQUIRE_EMAIL_VERIFICATION', 'true') === 'true',
+    appUrl: getEnvVar('APP_URL', 'http://localhost:3000').replace(/\/$/, '')
+  }
+}
+
+/**
+ * Gets the OpenID Connect single sign-on configuration
+ * SSO is enabled when an issuer and client ID are set
+ * @returns Object containing the provider, client credentials and how claims map to users and roles
+ */
+export function getOidcConfig() {
+  const issuer = getEnvVar('OIDC_ISSUER', '').replace(/\/$/, '')
+  const clientId = getEnvVar('OIDC_CLIENT_ID', '')
+
+  // Group to role mapping in the form "<group>=<role>,<group>=<role>"
+  const roleMapping: Record<string, string[]> = {}
+  for (const entry of getEnvVar('OIDC_ROLE_MAPPING', '').split(',')) {
+    const [group, role] = entry.split('=').map(part => part.trim())
+    if (group && role) {
+      roleMapping[group] = [...(roleMapping[group] || []), role]
+    }
+  }
+
+  return {
+    enabled: Boolean(issuer && clientId),
+    issuer,
+    clientId,
+    clientSecret: getEnvVar('OIDC_CLIENT_SECRET', ''),
+    redirectUri: getEnvVar('OIDC_REDIRECT_URI', `${getRegistrationConfig().appUrl}/api/auth/oidc/callback`),
+    scopes: getEnvVar('OIDC_SCOPES', 'openid profile email'),
+    usernameClaim: getEnvVar('OIDC_USERNAME_CLAIM', 'preferred_username'),
+    groupsClaim: getEnvVar('OIDC_GROUPS_CLAIM', 'groups'),
+    roleMapping,
+    buttonLabel: getEnvVar('OIDC_BUTTON_LABEL', 'SSO')
+  }
+}
+
+/**
+ * Gets the document chunking configuration
+ * @returns Object containing chunk sizes in tokens and per file type strategy overrides
+ */
+export function getChunkingConfig() {
+  const maxTokens = parseInt(getEnvVar('CHUNK_MAX_TOKENS', '400'), 10)
+  const overlapTokens = parseInt(getEnvVar('CHUNK_OVERLAP_TOKENS', '50'), 10)
+
+  // Overrides in the form "text=markdown,json=plain"
+  const strategies: Record<string, string> = {}
+  for (const entry of getEnvVar('CHUNKING_STRATEGIES', '').split(',')) {
+    const [kind, strategy] = entry.split('=').map(part => part.trim())
+    if (kind && strategy) {
+      strategies[kind] = strategy
+    }
+  }
+
+  return {
+    maxTokens: Number.isNaN(maxTokens) || maxTokens < 50 ? 400 : maxTokens,
+    overlapTokens: Number.isNaN(overlapTokens) || overlapTokens < 0 ? 50 : overlapTokens,
+    strategies
+  }
+}
+
+/**
+ * Gets the document retrieval configuration
+ * @returns Object containing result count, score cutoffs and optional reranker model
+ */
+export function getRetrievalConfig() {
+  const topK = parseInt(getEnvVar('RETRIEVAL_TOP_K', '5'), 10)
+  const candidatePool = parseInt(getEnvVar('RETRIEVAL_CANDIDATES', '30'), 10)
+  const minSimilarity = parseFloat(getEnvVar('RETRIEVAL_MIN_SIMILARITY', '0.2'))
+  const minRerankScore = parseFloat(getEnvVar('RETRIEVAL_MIN_RERANK_SCORE', '0.2'))
+  return {
+    topK: Number.isNaN(topK) || topK < 1 ? 5 : topK,
+    candidatePool: Number.isNaN(candidatePool) || candidatePool < 1 ? 30 : candidatePool,
+    minSimilarity: Number.isNaN(minSimilarity) ? 0.2 : minSimilarity,
+    minRerankScore: Number.isNaN(minRerankScore) ? 0.2 : minRerankScore,
+    rerankModel: getEnvVar('RERANK_MODEL', '') // Re-ranking is disabled when empty
+  }
+}
+
+/**
+ * Gets the embedding configuration
+ * @returns Object containing the embedding model used for documents and search queries
+ */
+export function getEmbeddingConfig() {
+  return {
+    model: getEnvVar('EMBEDDING_MODEL', 'text-embedding-3-small')
+  }
+}
@@ -1,3 +1,10 @@
+import { getDocumentChunks } from './documents'
+import { Source } from './types'
+import { hybridSearch, createBergetReranker } from './retrieval'
+import { createQueryEmbedding, getEmbeddingModel } from './embeddings'
+import { getBergetAIConfig, getRetrievalConfig } from './env-validation'
+import { recordUsage } from './usage'
+
 // Function definitions for the AI
 export const functions = [
   {
@@ -30,8 +37,17 @@ export const functions = [
   }
 ]
 
+// Result of a function call: text for the AI plus any sources it can cite
+export interface FunctionResult {
+  content: string
+  sources?: Source[]
+}
+
+// Instruction appended to results that contain numbered sources
+const CITATION_INSTRUCTION = 'Cite the sources you use inline with their number in square brackets, e.g. [1] or [2][3].'
+
 // Function to execute Tavily search
-export async function searchInternet(query: string): Promise<string> {
+export async function searchInternet(query: string, firstSourceId: number = 1): Promise<FunctionResult> {
   try {
     const response = await fetch('https://api.tavily.com/search', {
       method: 'POST',
@@ -55,8 +71,9 @@ export async function searchInternet(query: string): Promise<string> {
 
     const data = await response.json()
     
-    // Format the search results
+    // Format the search results, numbering each one as a citable source
     let formattedResults = ''
+    const sources: Source[] = []
     
     if (data.answer) {
       formattedResults += `**Answer**: ${data.answer}\n\n`
@@ -65,130 +82,143 @@ export async function searchInternet(query: string): Promise<string> {
     if (data.results && data.results.length > 0) {
       formattedResults += '**Search Results**:\n'
       data.results.forEach((result: any, index: number) => {
-        formattedResults += `${index + 1}. **${result.title}**\n`
+        const sourceId = firstSourceId + index
+        sources.push({
+          id: sourceId,
+          type: 'web',
+          title: result.title,
+          content: result.content,
+          url: result.url
+        })
+        formattedResults += `[${sourceId}] **${result.title}**\n`
         formattedResults += `   ${result.content}\n`
         formattedResults += `   Source: ${result.url}\n\n`
       })
+      formattedResults += CITATION_INSTRUCTION
     }
 
-    return formattedResults || 'No results found.'
+    return { content: formattedResults || 'No results found.', sources }
   } catch (error) {
     console.error('Search error:', error)
-    return 'Search failed. Please try again.'
+    return { content: 'Search failed. Please try again.' }
   }
 }
 
-// Function to search documents
-export async function searchDocuments(query: string, documentChunks: any[]): Promise<string> {
+// Context passed to functions that need to know who is asking
+export interface FunctionContext {
+  userId?: number
+  documentIds?: number[] // Limit document search to these documents, otherwise the whole library is searched
+  firstSourceId?: number // Citation number of the first source this call returns
+}
+
+// Function to search documents in the user's library
+export async function searchDocuments(query: string, functionContext: FunctionContext): Promise<FunctionResult> {
   try {
-    if (!documentChunks || documentChunks.length === 0) {
-      return 'No documents have been uploaded yet. Please upload some documents first to search through them.'
+    if (!functionContext.userId) {
+      return { content: 'Document search requires you to be logged in.' }
     }
 
-    // Get embedding for the query using OpenAI
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: [query]
-      })
-    })
+    const documentChunks = await getDocumentChunks(functionContext.userId, functionContext.documentIds)
+    console.log('Loaded', documentChunks.length, 'document chunks for user', functionContext.userId)
 
-    if (!response.ok) {
-      throw new Error('Failed to create query embedding')
+    if (documentChunks.length === 0) {
+      return { content: 'No documents have been uploaded yet. Please upload some documents first to search through them.' }
     }
 
-    const embeddingResult = await response.json()
-    console.log('Embedding API response:', embeddingResult)
-    const queryEmbedding = embeddingResult.data?.[0]?.embedding || embeddingResult.embeddings?.[0]
-    console.log('Query embedding dimensions:', queryEmbedding?.length)
-
-    if (!queryEmbedding) {
-      return 'Failed to generate embedding for the search query.'
+    // Embed the query with the same model as the documents. Without it the search falls back to lexical matching
+    let queryEmbedding: number[] | null = null
+    const embeddingModel = getEmbeddingModel()
+    try {
+      const result = await createQueryEmbedding(query)
+      await recordUsage({ userId: functionContext.userId, kind: 'embedding', model: result.model, promptTokens: result.tokens })
+      queryEmbedding = result.embedding
+      console.log('Query embedding dimensions:', queryEmbedding?.length)
+    } catch (embeddingError) {
+      console.warn('Failed to create query embedding, using lexical search only:', embeddingError)
     }
 
-    // Calculate similarity with document chunks
-    const chunksWithEmbeddings = documentChunks.filter(chunk => chunk.embedding)
-    console.log('Found', chunksWithEmbeddings.length, 'chunks with embeddings')
-    
-    if (chunksWithEmbeddings.length > 0) {
-      console.log('First chunk embedding dimensions:', chunksWithEmbeddings[0].embedding.length)
+    // Vectors from another embedding model are not comparable - those documents are only searched lexically
+    const staleDocuments = Array.from(new Set(documentChunks
+      .filter(chunk => chunk.embedding && chunk.metadata.embeddingModel !== embeddingModel)
+      .map(chunk => chunk.metadata.filename)))
+    if (staleDocuments.length > 0) {
+      console.warn(`${staleDocuments.length} documents were embedded with a different model than ${embeddingModel}`)
     }
-    
-    const similarities = chunksWithEmbeddings
-      .map(chunk => ({
-        chunk,
-        similarity: cosineSimilarity(queryEmbedding, chunk.embedding)
-      }))
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, 5) // Top 5 most similar chunks
-
-    console.log('Similarity scores:', similarities.map(s => ({ filename: s.chunk.metadata.filename, similarity: s.similarity.toFixed(4) })))
-
-    if (similarities.length === 0) {
-      return 'No relevant information found in the uploaded documents for this query.'
+
+    // Hybrid BM25 + vector retrieval, optionally re-ranked
+    const retrievalConfig = getRetrievalConfig()
+    const bergetConfig = retrievalConfig.rerankModel ? getBergetAIConfig() : null
+    const results = await hybridSearch(query, queryEmbedding, documentChunks, {
+      topK: retrievalConfig.topK,
+      candidatePool: retrievalConfig.candidatePool,
+      minSimilarity: retrievalConfig.minSimilarity,
+      minRerankScore: retrievalConfig.minRerankScore,
+      embeddingModel,
+      rerank: bergetConfig
+        ? createBergetReranker({ ...bergetConfig, model: retrievalConfig.rerankModel })
+        : undefined
+    })
+
+    console.log('Retrieval scores:', results.map(r => ({
+      filename: r.chunk.metadata.filename,
+      score: r.score.toFixed(4),
+      bm25: r.bm25.toFixed(2),
+      similarity: r.similarity?.toFixed(4) ?? 'n/a'
+    })))
+
+    // Tell the user how to make outdated documents fully searchable again
+    const staleNote = staleDocuments.length > 0
+      ? `\n\nNote: ${staleDocuments.join(', ')} ${staleDocuments.length === 1 ? 'was' : 'were'} embedded with a different embedding model and could only be searched by keyword. The user can re-embed ${staleDocuments.length === 1 ? 'it' : 'them'} from the Document Library for better results.`
+      : ''
+
+    if (results.length === 0) {
+      return { content: `No relevant information found in the uploaded documents for this query.${staleNote}` }
     }
 
+    // Each retrieved chunk becomes a numbered source the answer can cite
+    const firstSourceId = functionContext.firstSourceId || 1
+    const sources: Source[] = results.map((item, index) => ({
+      id: firstSourceId + index,
+      type: 'document',
+      title: item.chunk.metadata.filename,
+      content: item.chunk.content,
+      page: item.chunk.metadata.page,
+      sectionPath: item.chunk.metadata.sectionPath,
+      documentId: item.chunk.metadata.documentId,
+      chunkIndex: item.chunk.metadata.chunkIndex
+    }))
+
     // Create context from similar chunks
-    const context = similarities
+    const context = results
       .map((item, index) => {
         const chunk = item.chunk
         console.log(`Returning chunk ${index + 1}: ${chunk.content.substring(0, 100)}...`)
-        return `**Document: ${chunk.metadata.filename} (Chunk ${chunk.metadata.chunkIndex + 1}/${chunk.metadata.totalChunks})**\n${chunk.content}`
+        const location = [
+          chunk.metadata.page ? `Page ${chunk.metadata.page}` : '',
+          chunk.metadata.sectionPath?.length ? `Section: ${chunk.metadata.sectionPath.join(' > ')}` : ''
+        ].filter(Boolean).join(', ')
+        return `[${firstSourceId + index}] **Document: ${chunk.metadata.filename} (Chunk ${chunk.metadata.chunkIndex + 1}/${chunk.metadata.totalChunks}${location ? `, ${location}` : ''})**\n${chunk.content}`
       })
       .join('\n\n---\n\n')
 
-    const result = `Based on the uploaded documents, here is the relevant context:\n\n${context}`
+    const result = `Based on the uploaded documents, here is the relevant context:\n\n${context}\n\n${CITATION_INSTRUCTION}${staleNote}`
     console.log('Document search returning:', result.length, 'characters of context')
-    return result
+    return { content: result, sources }
 
   } catch (error) {
     console.error('Document search error:', error)
-    return 'Failed to search through documents. Please try again.'
-  }
-}
-
-// Helper function for cosine similarity (moved here from document-utils)
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-  if (vecA.length !== vecB.length) {
-    console.error('Vector dimension mismatch:', vecA.length, 'vs', vecB.length)
-    console.error('Query vector length:', vecA.length)
-    console.error('Document vector length:', vecB.length)
-    throw new Error(`Vectors must have the same length: ${vecA.length} vs ${vecB.length}`)
-  }
-  
-  let dotProduct = 0
-  let normA = 0
-  let normB = 0
-  
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i]
-    normA += vecA[i] * vecA[i]
-    normB += vecB[i] * vecB[i]
-  }
-  
-  normA = Math.sqrt(normA)
-  normB = Math.sqrt(normB)
-  
-  if (normA === 0 || normB === 0) {
-    return 0
+    return { content: 'Failed to search through documents. Please try again.' }
   }
-  
-  return dotProduct / (normA * normB)
 }
 
 // Function executor
-export async function executeFunction(name: string, args: any, documentChunks?: any[]): Promise<string> {
+export async function executeFunction(name: string, args: any, context: FunctionContext = {}): Promise<FunctionResult> {
   switch (name) {
     case 'search_internet':
-      return await searchInternet(args.query)
+      return await searchInternet(args.query, context.firstSourceId)
     case 'search_documents':
-      return await searchDocuments(args.query, documentChunks || [])
+      return await searchDocuments(args.query, context)
     default:
-      return 'Unknown function'
+      return { content: 'Unknown function' }
   }
 }
\ No newline at end of file
@@ -0,0 +1,411 @@
+// Login brute-force protection
+// Failed logins within the failure window are counted per username and per client IP address. Each
+// failure for a username doubles the wait before the next attempt is accepted, and after too many
+// failures the username is locked for a while. An IP address is blocked when it fails too often
+// across usernames. Every failed or refused attempt is written to an audit log.
+//
+// Password reset requests are limited per email address and IP address in the same way, so that
+// the reset form can't be used to send mass mail.
+//
+// Failures, locks and the audit log live in a pluggable store: in memory for development, or the
+// storage backend's database (lib/storage) so that several server instances share them. Any store
+// that can count concurrent failures without losing any (such as Redis) can be plugged in with
+// setLoginAttemptStore.
+
+import { getStorage } from './storage'
+import { NextRequest } from 'next/server'
+import { getLoginThrottleConfig } from './env-validation'
+
+// Failures counted for one username or IP address
+export interface ThrottleRecord {
+  failures: number
+  lastFailureAt: number // Epoch milliseconds
+  lockedUntil: number | null
+}
+
+export type LoginFailureReason = 'unknown_user' | 'wrong_password' | 'email_not_verified' | 'throttled'
+
+// Audit entry of a failed or refused login
+export interface LoginAttempt {
+  username: string
+  ipAddress: string
+  userAgent?: string
+  reason: LoginFailureReason
+  createdAt: string
+}
+
+// Times are epoch milliseconds. Failures before a lock that has run out are not counted again
+export interface LoginAttemptStore {
+  name: string
+  // The failures of a key after `since`, and its lock
+  get: (key: string, since: number) => Promise<ThrottleRecord | null>
+  // Counts a failure and returns the key's record with it. Concurrent failures must all be counted
+  addFailure: (key: string, at: number, since: number) => Promise<ThrottleRecord>
+  // Locks a key; the lock is remembered for ttlSeconds
+  lock: (key: string, record: ThrottleRecord, ttlSeconds: number) => Promise<void>
+  delete: (key: string) => Promise<void> // The failures and the lock
+  recordAttempt: (attempt: LoginAttempt) => Promise<void>
+  listAttempts: (filter: { username?: string, limit: number }) => Promise<LoginAttempt[]>
+}
+
+export type LoginRefusal = {
+  allowed: false
+  code: 'account_locked' | 'too_many_attempts'
+  retryAfterSeconds: number
+}
+
+// Oldest audit entries are dropped from the in-memory store beyond this many
+const MEMORY_AUDIT_LIMIT = 1000
+
+// Where counting starts: failures before a lock that has run out are not counted again
+function countedSince(lock: ThrottleRecord | null, since: number, now: number): number {
+  return lock?.lockedUntil && lock.lockedUntil <= now ? Math.max(since, lock.lockedUntil) : since
+}
+
+// The record of a key from its counted failures and its lock, or null if neither matters any more
+function toThrottleRecord(lock: ThrottleRecord | null, failures: number, lastFailureAt: number | null, now: number): ThrottleRecord | null {
+  const lockedUntil = lock?.lockedUntil && lock.lockedUntil > now ? lock.lockedUntil : null
+  if (failures === 0 && !lockedUntil) return null
+  return { failures, lastFailureAt: lastFailureAt ?? lock!.lastFailureAt, lockedUntil }
+}
+
+/**
+ * Creates a store that keeps counters and audit entries in this process
+ * Counters are lost on restart and not shared between server instances
+ * @returns The in-memory store
+ */
+export function createMemoryAttemptStore(): LoginAttemptStore {
+  const failures = new Map<string, number[]>()
+  const locks = new Map<string, { record: ThrottleRecord, expiresAt: number }>()
+  const attempts: LoginAttempt[] = []
+
+  const findLock = (key: string): ThrottleRecord | null => {
+    const entry = locks.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      locks.delete(key)
+      return null
+    }
+    return entry.record
+  }
+
+  // Failure times of a key after `from`, dropping older ones
+  const failuresAfter = (key: string, from: number): number[] => {
+    const times = (failures.get(key) || []).filter(time => time > from)
+    if (times.length > 0) {
+      failures.set(key, times)
+    } else {
+      failures.delete(key)
+    }
+    return times
+  }
+
+  return {
+    name: 'memory',
+    get: async (key, since) => {
+      const now = Date.now()
+      const lock = findLock(key)
+      const times = failuresAfter(key, countedSince(lock, since, now))
+      return toThrottleRecord(lock, times.length, times.length > 0 ? times[times.length - 1] : null, now)
+    },
+    addFailure: async (key, at, since) => {
+      const lock = findLock(key)
+      const times = [...failuresAfter(key, countedSince(lock, since, at)), at]
+      failures.set(key, times)
+      return toThrottleRecord(lock, times.length, at, at)!
+    },
+    lock: async (key, record, ttlSeconds) => {
+      locks.set(key, { record, expiresAt: Date.now() + ttlSeconds * 1000 })
+    },
+    delete: async (key) => {
+      failures.delete(key)
+      locks.delete(key)
+    },
+    recordAttempt: async (attempt) => {
+      attempts.push(attempt)
+      if (attempts.length > MEMORY_AUDIT_LIMIT) {
+        attempts.splice(0, attempts.length - MEMORY_AUDIT_LIMIT)
+      }
+    },
+    listAttempts: async ({ username, limit }) => {
+      return attempts
+        .filter(attempt => !username || attempt.username === username)
+        .slice(-limit)
+        .reverse()
+    }
+  }
+}
+
+/**
+ * Creates a store backed by the login_failures, login_throttle and login_attempts tables of the
+ * storage backend. Each failure is a row of its own, so concurrent failures are all counted
+ * @returns The database store
+ */
+export function createDatabaseAttemptStore(): LoginAttemptStore {
+  const findLock = async (key: string): Promise<ThrottleRecord | null> => {
+    const row = await getStorage().loginThrottle.findByKey(key)
+    if (!row || new Date(row.expires_at).getTime() <= Date.now()) {
+      return null
+    }
+    return {
+      failures: Number(row.failures) || 0,
+      lastFailureAt: new Date(row.last_failure_at).getTime(),
+      lockedUntil: row.locked_until ? new Date(row.locked_until).getTime() : null
+    }
+  }
+
+  return {
+    name: 'database',
+    get: async (key, since) => {
+      const now = Date.now()
+      const lock = await findLock(key)
+      const { count, lastFailureAt } = await getStorage().loginThrottle.countFailures(key, countedSince(lock, since, now))
+      return toThrottleRecord(lock, count, lastFailureAt, now)
+    },
+    addFailure: async (key, at, since) => {
+      const lock = await findLock(key)
+      const count = await getStorage().loginThrottle.addFailure(key, at, countedSince(lock, since, at))
+      return toThrottleRecord(lock, count, at, at)!
+    },
+    lock: async (key, record, ttlSeconds) => {
+      await getStorage().loginThrottle.save({
+        throttle_key: key,
+        failures: record.failures,
+        last_failure_at: new Date(record.lastFailureAt).toISOString(),
+        locked_until: record.lockedUntil ? new Date(record.lockedUntil).toISOString() : null,
+        expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString()
+      })
+    },
+    delete: async (key) => {
+      await getStorage().loginThrottle.deleteByKey(key)
+    },
+    recordAttempt: async (attempt) => {
+      await getStorage().loginAttempts.create({
+        username: attempt.username,
+        ip_address: attempt.ipAddress,
+        user_agent: attempt.userAgent?.substring(0, 255),
+        reason: attempt.reason,
+        created_at: attempt.createdAt
+      })
+    },
+    listAttempts: async ({ username, limit }) => {
+      const rows = await getStorage().loginAttempts.list({ username, limit })
+      return rows.map(row => ({
+        username: row.username,
+        ipAddress: row.ip_address,
+        userAgent: row.user_agent,
+        reason: row.reason as LoginFailureReason,
+        createdAt: row.created_at
+      }))
+    }
+  }
+}
+
+let activeStore: LoginAttemptStore | null = null
+
+// The store configured with LOGIN_THROTTLE_STORE, unless one was set with setLoginAttemptStore
+export function getLoginAttemptStore(): LoginAttemptStore {
+  if (!activeStore) {
+    activeStore = getLoginThrottleConfig().store === 'database'
+      ? createDatabaseAttemptStore()
+      : createMemoryAttemptStore()
+  }
+  return activeStore
+}
+
+// Replaces the store, e.g. with a Redis-backed one or a fresh in-memory store in tests
+export function setLoginAttemptStore(store: LoginAttemptStore | null): void {
+  activeStore = store
+}
+
+// Returned by getClientIp when no trusted proxy reported the client's address
+export const UNKNOWN_IP = 'unknown'
+
+// Usernames and addresses come from the client, so characters that stores may give a meaning
+// to in their filters - NocoDB's ( ) , and ~ - are percent-encoded in keys
+function keyPart(value: string): string {
+  return value.replace(/[%(),~]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+// Usernames are matched case-insensitively so "Admin" and "admin" share a counter
+function usernameKey(username: string): string {
+  return `user:${keyPart(username.trim().toLowerCase())}`
+}
+
+function ipKey(ipAddress: string): string {
+  return `ip:${keyPart(ipAddress)}`
+}
+
+/**
+ * Gets the client IP address of a request from the headers of the reverse proxies in front of the app
+ * Each proxy appends the address it got the request from to X-Forwarded-For, so with TRUSTED_PROXY_HOPS
+ * proxies the client's address is that many entries from the right. Entries further left were sent
+ * by the client and can't be trusted. Without X-Forwarded-For, X-Real-IP is used
+ * @param request - The incoming request
+ * @returns The IP address, or UNKNOWN_IP when no trusted proxy reported it. Unknown addresses
+ * share one counter
+ */
+export function getClientIp(request: NextRequest): string {
+  const { trustedProxyHops } = getLoginThrottleConfig()
+  if (trustedProxyHops === 0) return UNKNOWN_IP
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  if (forwardedFor.length > 0) {
+    return forwardedFor[Math.max(forwardedFor.length - trustedProxyHops, 0)]
+  }
+  return request.headers.get('x-real-ip')?.trim() || UNKNOWN_IP
+}
+
+// Seconds to wait after a username's latest failure before the next attempt, doubling with each failure
+function backoffSeconds(failures: number): number {
+  const { backoffBaseSeconds, backoffMaxSeconds } = getLoginThrottleConfig()
+  if (failures < 1 || backoffBaseSeconds === 0) return 0
+  return Math.min(backoffBaseSeconds * Math.pow(2, failures - 1), backoffMaxSeconds)
+}
+
+/**
+ * Checks whether a login attempt may be made, before the password is checked
+ * @param username - The username being logged in to
+ * @param ipAddress - The client IP address
+ * @returns Allowed, or the reason and how long to wait
+ */
+export async function checkLoginAllowed(username: string, ipAddress: string): Promise<{ allowed: true } | LoginRefusal> {
+  const store = getLoginAttemptStore()
+  const now = Date.now()
+  const since = now - getLoginThrottleConfig().failureWindowSeconds * 1000
+
+  const [userRecord, ipRecord] = await Promise.all([
+    store.get(usernameKey(username), since),
+    store.get(ipKey(ipAddress), since)
+  ])
+
+  for (const record of [userRecord, ipRecord]) {
+    if (record?.lockedUntil && record.lockedUntil > now) {
+      return {
+        allowed: false,
+        code: record === userRecord ? 'account_locked' : 'too_many_attempts',
+        retryAfterSeconds: Math.ceil((record.lockedUntil - now) / 1000)
+      }
+    }
+  }
+
+  if (userRecord) {
+    const nextAttemptAt = userRecord.lastFailureAt + backoffSeconds(userRecord.failures) * 1000
+    if (nextAttemptAt > now) {
+      return { allowed: false, code: 'too_many_attempts', retryAfterSeconds: Math.ceil((nextAttemptAt - now) / 1000) }
+    }
+  }
+
+  return { allowed: true }
+}
+
+// Counts a failure for a username or IP address, locking it once the limit is reached
+async function countFailure(key: string, maxFailures: number): Promise<ThrottleRecord> {
+  const { lockoutSeconds, failureWindowSeconds } = getLoginThrottleConfig()
+  const store = getLoginAttemptStore()
+  const now = Date.now()
+
+  const record = await store.addFailure(key, now, now - failureWindowSeconds * 1000)
+  if (record.failures < maxFailures) {
+    return record
+  }
+
+  // The lock is remembered for a window longer, so the failures before it aren't counted again
+  const locked = { ...record, lockedUntil: now + lockoutSeconds * 1000 }
+  await store.lock(key, locked, lockoutSeconds + failureWindowSeconds)
+  return locked
+}
+
+/**
+ * Counts a password reset request for an email address and IP address, before any email is sent
+ * Refused requests count too, so a client that keeps asking stays refused
+ * @param email - The address a reset link was asked for
+ * @param ipAddress - The client IP address
+ * @returns Allowed, or how long to wait
+ */
+export async function checkPasswordResetAllowed(email: string, ipAddress: string): Promise<{ allowed: true } | { allowed: false, retryAfterSeconds: number }> {
+  const { resetMaxPerEmail, resetMaxPerIp, resetWindowSeconds } = getLoginThrottleConfig()
+  const store = getLoginAttemptStore()
+  const now = Date.now()
+  const since = now - resetWindowSeconds * 1000
+
+  const [emailRecord, ipRecord] = await Promise.all([
+    store.addFailure(`reset:email:${keyPart(email.trim().toLowerCase())}`, now, since),
+    store.addFailure(`reset:${ipKey(ipAddress)}`, now, since)
+  ])
+  if (emailRecord.failures > resetMaxPerEmail || ipRecord.failures > resetMaxPerIp) {
+    console.warn(`Refused a password reset request from ${ipAddress} after ${emailRecord.failures} for the address and ${ipRecord.failures} from the IP`)
+    return { allowed: false, retryAfterSeconds: resetWindowSeconds }
+  }
+  return { allowed: true }
+}
+
+/**
+ * Writes a refused or failed attempt to the audit log
+ * The audit log never stops a login from being answered, so failures are only logged
+ * @param attempt - Who tried to log in from where, and why it failed
+ */
+export async function auditLoginAttempt(attempt: Omit<LoginAttempt, 'createdAt'>): Promise<void> {
+  try {
+    await getLoginAttemptStore().recordAttempt({ ...attempt, createdAt: new Date().toISOString() })
+  } catch (error) {
+    console.error('Error recording login attempt:', error)
+  }
+}
+
+/**
+ * Counts a failed login for the username and IP address and writes it to the audit log
+ * @param attempt - Who tried to log in from where, and why it failed
+ */
+export async function recordLoginFailure(attempt: Omit<LoginAttempt, 'createdAt'>): Promise<void> {
+  const { maxFailures, ipMaxFailures } = getLoginThrottleConfig()
+
+  const [userRecord, ipRecord] = await Promise.all([
+    countFailure(usernameKey(attempt.username), maxFailures),
+    countFailure(ipKey(attempt.ipAddress), ipMaxFailures)
+  ])
+  await auditLoginAttempt(attempt)
+
+  if (userRecord.lockedUntil) {
+    console.warn(`Locked username ${attempt.username} after ${userRecord.failures} failed logins`)
+  }
+  if (ipRecord.lockedUntil) {
+    console.warn(`Blocked logins from ${attempt.ipAddress} after ${ipRecord.failures} failures`)
+  }
+}
+
+// Clears the failures of a username after a successful login
+export async function recordLoginSuccess(username: string): Promise<void> {
+  await getLoginAttemptStore().delete(usernameKey(username))
+}
+
+/**
+ * Lifts a lockout of a username, for admins
+ * @param username - The locked username
+ */
+export async function unlockUsername(username: string): Promise<void> {
+  await getLoginAttemptStore().delete(usernameKey(username))
+  console.log(`Unlocked logins for username ${username}`)
+}
+
+/**
+ * Gets the current lock and failure count of a username
+ * @param username - The username
+ * @returns The counter, or null if there are no recent failures
+ */
+export async function getUsernameThrottle(username: string): Promise<ThrottleRecord | null> {
+  const since = Date.now() - getLoginThrottleConfig().failureWindowSeconds * 1000
+  return getLoginAttemptStore().get(usernameKey(username), since)
+}
+
+/**
+ * Lists the most recent failed and refused logins, newest first
+ * @param filter - Only attempts for this username, and how many to return
+ * @returns The audit entries
+ */
+export async function listLoginAttempts(filter: { username?: string, limit?: number } = {}): Promise<LoginAttempt[]> {
+  return getLoginAttemptStore().listAttempts({ username: filter.username, limit: filter.limit || 100 })
+}
@@ -0,0 +1,241 @@
+// Outgoing mail
+// Messages are sent through a pluggable transport: SMTP in production, or a console or file sink
+// for development and tests. The transport is chosen with MAIL_TRANSPORT and can be replaced at
+// runtime with setMailTransport.
+
+import net from 'net'
+import tls from 'tls'
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getMailConfig } from './env-validation'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  name: string
+  send: (message: MailMessage, from: string) => Promise<void>
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean // TLS from the start (port 465), otherwise STARTTLS is used when offered
+  user?: string
+  password?: string
+}
+
+// Give up on an SMTP server that stops answering
+const SMTP_TIMEOUT_MS = 30 * 1000
+
+// Encodes a header value that contains non-ASCII characters (RFC 2047)
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+/**
+ * Formats a message as an RFC 5322 email with a UTF-8 plain text body
+ * @param message - The message to format
+ * @param from - The sender address
+ * @returns The raw email with CRLF line endings
+ */
+export function formatMessage(message: MailMessage, from: string): string {
+  const domain = from.split('@')[1]?.replace(/>$/, '') || 'localhost'
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n')
+}
+
+// Bare address of "Name <address>" or "address"
+function mailbox(address: string): string {
+  const match = address.match(/<([^>]+)>/)
+  return (match ? match[1] : address).trim()
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+/**
+ * Creates a transport that delivers mail to an SMTP server
+ * Supports implicit TLS, STARTTLS and AUTH PLAIN
+ * @param config - Server address and credentials
+ * @returns The SMTP transport
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: 'smtp',
+    send: async (message, from) => {
+      let socket: net.Socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port })
+
+      const replies: SmtpReply[] = []
+      const waiting: { resolve: (reply: SmtpReply) => void, reject: (error: Error) => void }[] = []
+      let failure: Error | null = null
+      let buffer = ''
+      let lines: string[] = []
+
+      // Replies can span several lines ("250-..." followed by "250 ...")
+      const onData = (data: Buffer) => {
+        buffer += data.toString('utf8')
+        let index
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index)
+          buffer = buffer.slice(index + 2)
+          lines.push(line)
+          if (/^\d{3}(?: |$)/.test(line)) {
+            const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') }
+            lines = []
+            const waiter = waiting.shift()
+            if (waiter) waiter.resolve(reply)
+            else replies.push(reply)
+          }
+        }
+      }
+      const onError = (error: Error) => {
+        failure = error
+        waiting.splice(0).forEach(waiter => waiter.reject(error))
+      }
+      const attach = (target: net.Socket) => {
+        target.on('data', onData)
+        target.on('error', onError)
+        target.setTimeout(SMTP_TIMEOUT_MS, () => target.destroy(new Error('SMTP connection timed out')))
+      }
+
+      const readReply = () => new Promise<SmtpReply>((resolve, reject) => {
+        if (failure) return reject(failure)
+        const reply = replies.shift()
+        if (reply) resolve(reply)
+        else waiting.push({ resolve, reject })
+      })
+
+      const command = async (line: string | null, expected: number[], logAs?: string) => {
+        if (line !== null) socket.write(line + '\r\n')
+        const reply = await readReply()
+        if (!expected.includes(reply.code)) {
+          throw new Error(`SMTP ${logAs || line?.split(' ')[0] || 'greeting'} failed: ${reply.text}`)
+        }
+        return reply
+      }
+
+      attach(socket)
+      try {
+        await command(null, [220])
+        const hostname = 'localhost'
+        let features = await command(`EHLO ${hostname}`, [250])
+
+        if (!config.secure) {
+          if (features.text.includes('STARTTLS')) {
+            await command('STARTTLS', [220])
+            socket.removeAllListeners('data')
+            socket = tls.connect({ socket, servername: config.host })
+            attach(socket)
+            await new Promise<void>((resolve, reject) => {
+              socket.once('secureConnect', () => resolve())
+              socket.once('error', reject)
+            })
+            features = await command(`EHLO ${hostname}`, [250])
+          } else if (config.user) {
+            throw new Error('SMTP server does not offer STARTTLS, refusing to send credentials unencrypted')
+          }
+        }
+
+        if (config.user) {
+          const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`, 'utf8').toString('base64')
+          await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH')
+        }
+
+        await command(`MAIL FROM:<${mailbox(from)}>`, [250])
+        await command(`RCPT TO:<${mailbox(message.to)}>`, [250, 251])
+        await command('DATA', [354])
+
+        // Lines starting with a dot are escaped by doubling it
+        const data = formatMessage(message, from).replace(/\r\n\./g, '\r\n..')
+        await command(`${data}\r\n.`, [250], 'message')
+        await command('QUIT', [221])
+      } finally {
+        socket.end()
+      }
+    }
+  }
+}
+
+// Transport that prints messages to the server log, for development
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    send: async (message, from) => {
+      console.log(`Mail from ${from} to ${message.to}: ${message.subject}\n${message.text}`)
+    }
+  }
+}
+
+/**
+ * Creates a transport that writes each message to an .eml file, for development and tests
+ * @param directory - Directory the messages are written to
+ * @returns The file transport
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    send: async (message, from) => {
+      await fs.mkdir(directory, { recursive: true })
+      const filename = path.join(directory, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`)
+      await fs.writeFile(filename, formatMessage(message, from), 'utf8')
+      console.log('Mail written to', filename)
+    }
+  }
+}
+
+let activeTransport: MailTransport | null = null
+
+// The transport configured with MAIL_TRANSPORT, unless one was set with setMailTransport
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    const config = getMailConfig()
+    switch (config.transport) {
+      case 'smtp':
+        activeTransport = createSmtpTransport(config.smtp)
+        break
+      case 'file':
+        activeTransport = createFileTransport(config.fileDirectory)
+        break
+      default:
+        activeTransport = createConsoleTransport()
+    }
+  }
+  return activeTransport
+}
+
+// Replaces the mail transport, e.g. with a sink that records messages in tests
+export function setMailTransport(transport: MailTransport | null): void {
+  activeTransport = transport
+}
+
+/**
+ * Sends a message from the configured sender address
+ * @param message - Recipient, subject and plain text body
+ * @throws Error if the transport fails to deliver the message
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = getMailTransport()
+  await transport.send(message, getMailConfig().from)
+  console.log(`Sent mail "${message.subject}" to ${message.to} via ${transport.name}`)
+}
@@ -1,19 +1,20 @@
-// MCP (Model Context Protocol) Client for n8n integration
-// Handles communication with n8n MCP server via direct POST requests
-
-// Import EventSource properly for both client and server (optional for streaming)
-let EventSource: any
-if (typeof window !== 'undefined') {
-  EventSource = window.EventSource
-} else {
-  const EventSourceModule = require('eventsource')
-  EventSource = EventSourceModule.EventSource
-}
-
-// Import proxy service for tool execution
-import { executeMCPToolViaProxy } from './mcp-proxy'
-import { getMCPConfig } from './env-validation'
-import { MCPSupergatewayClient } from './mcp-supergateway'
+// MCP (Model Context Protocol) Clients
+// One client per configured server (lib/mcp-config.ts). Tools are offered to the model as
+// mcp_<server>__<tool> and calls are routed back to the server that provides the tool.
+// Resources (attached to chats as context) and prompts (offered in the prompt selector) are
+// discovered as well, for servers that have them.
+// Each client keeps an initialized session open over its transport (lib/mcp-transport.ts) and
+// reconnects when the connection is lost or the server ends the session.
+
+import { loadMCPServers, MCPServerConfig, MCPTransportType } from './mcp-config'
+import {
+  JSONRPCMessage,
+  MCPConnectionError,
+  MCPTransport,
+  SSETransport,
+  StdioTransport,
+  StreamableHTTPTransport
+} from './mcp-transport'
 
 export interface MCPTool {
   name: string
@@ -30,480 +31,757 @@ export interface MCPToolCall {
   arguments: Record<string, any>
 }
 
+// A tool together with the server providing it and the name the model calls it by
+export interface MCPServerTool extends MCPTool {
+  server: string
+  namespacedName: string
+}
+
+export interface MCPServerStatus {
+  name: string
+  transport: MCPTransportType // The transport in use, which may be the SSE fallback
+  enabled: boolean
+  status: 'connected' | 'disconnected' | 'error' | 'disabled' | 'not_initialized'
+  toolCount: number
+  resourceCount?: number
+  promptCount?: number
+  protocolVersion?: string
+  latencyMs?: number // Time the last initialization took
+  lastCheckedAt?: string
+  error?: string
+}
+
+// Contents of a resource: text, or binary data as base64 in blob
+export interface MCPResourceContents {
+  uri: string
+  mimeType?: string
+  text?: string
+  blob?: string
+}
+
+// One piece of a tool result or prompt message. Images and audio carry base64 data,
+// embedded resources their contents, resource links only the URI
+export interface MCPContent {
+  type: 'text' | 'image' | 'audio' | 'resource' | 'resource_link'
+  text?: string
+  data?: string
+  mimeType?: string
+  resource?: MCPResourceContents
+  uri?: string
+  name?: string
+}
+
 export interface MCPToolResult {
-  content: Array<{
-    type: 'text' | 'image' | 'resource'
-    text?: string
-    data?: string
-    mimeType?: string
-  }>
+  content: MCPContent[]
   isError?: boolean
 }
 
+export interface MCPResource {
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
+// A resource together with the server providing it
+export interface MCPServerResource extends MCPResource {
+  server: string
+}
+
+export interface MCPPromptArgument {
+  name: string
+  description?: string
+  required?: boolean
+}
+
+export interface MCPPrompt {
+  name: string
+  description?: string
+  arguments?: MCPPromptArgument[]
+}
+
+// A prompt together with the server providing it
+export interface MCPServerPrompt extends MCPPrompt {
+  server: string
+}
+
+// A prompt filled in with its arguments, as returned by prompts/get
+export interface MCPPromptResult {
+  description?: string
+  messages: Array<{ role: 'user' | 'assistant', content: MCPContent }>
+}
+
+// An image from a tool result, as base64 data
+export interface MCPImage {
+  mimeType: string
+  data: string
+}
+
+const LATEST_PROTOCOL_VERSION = '2025-03-26'
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05']
+const CLIENT_INFO = { name: 'chatswe', version: '1.0.0' }
+
+// Waits between connection attempts when (re)connecting
+const RECONNECT_DELAYS_MS = [500, 2000]
+
+// An error response from the server to a request
+class MCPRequestError extends Error {
+  code: number
+
+  constructor(message: string, code: number) {
+    super(message)
+    this.name = 'MCPRequestError'
+    this.code = code
+  }
+}
+
+interface PendingRequest {
+  method: string
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
 class MCPClient {
-  private baseUrl: string
-  private sseUrl: string
+  private config: MCPServerConfig
+  private transport: MCPTransport | null = null
+  private transportType: MCPTransportType
+  private connected = false
+  private connecting: Promise<void> | null = null
+  private pending = new Map<number, PendingRequest>()
+  private nextRequestId = 1
   private tools: MCPTool[] = []
-  private connected: boolean = false
-  private eventSource: EventSource | null = null
-  private supergatewayClient: MCPSupergatewayClient | null = null
-
-  constructor(serverUrl: string) {
-    // Extract base URL and SSE URL
-    if (serverUrl.endsWith('/sse')) {
-      this.sseUrl = serverUrl
-      this.baseUrl = serverUrl.replace('/sse', '')
-    } else {
-      this.baseUrl = serverUrl
-      this.sseUrl = serverUrl + '/sse'
-    }
-    
-    console.log('MCP Client configured:')
-    console.log('Base URL:', this.baseUrl)
-    console.log('SSE URL:', this.sseUrl)
+  private resources: MCPResource[] = []
+  private prompts: MCPPrompt[] = []
+  private capabilities: Record<string, any> = {}
+  private protocolVersion: string | undefined
+  private lastError: string | undefined
+  private latencyMs: number | undefined
+  private lastCheckedAt: string | undefined
+
+  constructor(config: MCPServerConfig) {
+    this.config = config
+    this.transportType = config.transport
+    console.log(`MCP Client configured for server "${config.name}" (${config.transport})`)
+  }
+
+  get name(): string {
+    return this.config.name
   }
 
-  // Initialize connection and discover tools
+  // Connect and discover tools, resources and prompts, recording the outcome for health reporting
   async initialize(): Promise<MCPTool[]> {
+    const startedAt = Date.now()
+    this.lastError = undefined
+
     try {
-      console.log('Initializing MCP client...')
-      console.log('Timestamp:', new Date().toISOString())
-      
-      // Check if this is an n8n server that needs supergateway
-      if (this.baseUrl.includes('nodemation.labbytan.se')) {
-        console.log('Detected n8n MCP server - using supergateway approach (like Claude Desktop)')
-        return await this.initializeWithSupergateway()
-      }
-      
-      // Fallback to original HTTP approach for other servers
-      console.log('Using direct HTTP approach for non-n8n server')
-      
-      // Optional: Connect to SSE for streaming (not required for basic functionality)
-      this.connectSSE()
-      
-      // Discover tools via POST request to base endpoint
-      const tools = await this.discoverTools()
-      this.tools = tools
-      this.connected = true
-      
-      console.log('MCP Client initialized successfully')
-      console.log('Connected:', this.connected)
-      console.log('Tools count:', tools.length)
-      console.log('Tool names:', tools.map(t => t.name).join(', '))
-      return tools
+      console.log(`Initializing MCP client for server "${this.config.name}"...`)
+      await this.ensureConnected()
+      this.tools = await this.listTools()
+
+      console.log(`MCP server "${this.config.name}" initialized over ${this.transportType}, protocol ${this.protocolVersion}`)
+      console.log('Tools count:', this.tools.length)
+      console.log('Tool names:', this.tools.map(t => t.name).join(', '))
     } catch (error) {
-      console.error('Failed to initialize MCP client:', error)
-      console.error('Error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined
-      })
-      this.connected = false
-      return []
+      console.error(`Failed to initialize MCP client for server "${this.config.name}":`, error)
+      this.lastError = errorMessage(error)
+      this.tools = []
     }
+
+    // Resources and prompts are optional; failing to list them leaves the tools usable
+    if (this.connected) {
+      await this.refreshResources()
+      await this.refreshPrompts()
+    }
+
+    this.latencyMs = Date.now() - startedAt
+    this.lastCheckedAt = new Date().toISOString()
+    return this.tools
   }
 
-  // Initialize using supergateway (same as Claude Desktop)
-  private async initializeWithSupergateway(): Promise<MCPTool[]> {
+  private createTransport(type: MCPTransportType): MCPTransport {
+    switch (type) {
+      case 'stdio':
+        return new StdioTransport({
+          command: this.config.command!,
+          args: this.config.args,
+          env: this.config.env,
+          cwd: this.config.cwd
+        })
+      case 'sse':
+        return new SSETransport(this.config.url, this.config.headers)
+      default:
+        return new StreamableHTTPTransport(this.config.url, this.config.headers)
+    }
+  }
+
+  // Open the configured transport. A server rejecting Streamable HTTP with a 4xx status may be an
+  // older one that only speaks SSE on the same URL, so SSE is tried next
+  private async connect(): Promise<void> {
+    if (this.config.transport !== 'streamable-http') {
+      await this.connectWith(this.config.transport)
+      return
+    }
+
     try {
-      console.log('Initializing with supergateway for n8n server:', this.baseUrl)
-      
-      this.supergatewayClient = new MCPSupergatewayClient(this.baseUrl)
-      const tools = await this.supergatewayClient.initialize()
-      
-      this.tools = tools
-      this.connected = this.supergatewayClient.isConnected()
-      
-      console.log('Supergateway MCP client initialized:', this.connected)
-      console.log('Tools discovered:', tools.length)
-      console.log('Tool names:', tools.map(t => t.name).join(', '))
-      
-      return tools
+      await this.connectWith('streamable-http')
     } catch (error) {
-      console.error('Failed to initialize with supergateway:', error)
-      return []
+      if (!/^HTTP 4\d\d/.test(errorMessage(error))) throw error
+      console.log(`MCP server "${this.config.name}" rejected Streamable HTTP (${errorMessage(error)}), trying SSE`)
+      await this.connectWith('sse')
     }
   }
 
-  // Optional SSE connection for streaming responses during tool execution
-  private connectSSE(): void {
+  // Start a transport and run the initialize handshake over it
+  private async connectWith(type: MCPTransportType): Promise<void> {
+    const transport = this.createTransport(type)
+    transport.onmessage = message => this.handleMessage(message)
+    transport.onerror = error => console.error(`MCP transport error (${this.config.name}):`, error.message)
+    transport.onclose = () => this.handleClose(transport)
+    this.transport = transport
+
     try {
-      console.log('Connecting to SSE endpoint:', this.sseUrl)
-      this.eventSource = new EventSource(this.sseUrl)
-      
-      if (this.eventSource) {
-        this.eventSource.onopen = () => {
-          console.log('SSE connection opened')
-        }
-        
-        this.eventSource.onmessage = (event) => {
-          console.log('SSE message:', event.data)
-          // Handle streaming responses here if needed during tool execution
-        }
-        
-        this.eventSource.onerror = (error) => {
-          console.error('SSE error:', error)
-          // SSE errors are not critical for basic functionality
-        }
+      await transport.start()
+      const result = await this.sendRequest('initialize', {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO
+      })
+
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result?.protocolVersion)) {
+        throw new Error(`Unsupported MCP protocol version: ${result?.protocolVersion}`)
       }
+      this.protocolVersion = result.protocolVersion
+      this.capabilities = result.capabilities || {}
+      transport.setProtocolVersion?.(result.protocolVersion)
+
+      await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      this.transportType = type
+      this.connected = true
+      this.lastError = undefined
+      console.log(`Connected to MCP server "${this.config.name}":`, result.serverInfo?.name || 'unknown', result.serverInfo?.version || '')
     } catch (error) {
-      console.error('Failed to connect SSE (non-critical):', error)
-      // SSE connection failure is not critical
+      this.dropConnection(error instanceof Error ? error : new Error(String(error)))
+      throw error
     }
   }
 
-  // Discover available tools using supergateway SSE approach (same as Claude Desktop)
-  private async discoverTools(): Promise<MCPTool[]> {
-    try {
-      console.log('Discovering tools using supergateway SSE approach for n8n server:', this.baseUrl)
-      
-      // Helper function to parse SSE response
-      const parseSSEResponse = (text: string): any => {
-        const lines = text.split('\n')
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            return JSON.parse(line.substring(6))
-          }
-        }
-        throw new Error('No data found in SSE response')
-      }
+  // Connect unless connected already. Concurrent callers share one attempt
+  private ensureConnected(): Promise<void> {
+    if (this.connected && this.transport) {
+      return Promise.resolve()
+    }
+    if (!this.connecting) {
+      this.connecting = this.connectWithRetry().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
 
-      // Try to get tools directly first (n8n might not require separate initialization)
-      console.log('Attempting direct tools/list request...')
+  private async connectWithRetry(): Promise<void> {
+    let lastError: unknown
+    for (let attempt = 0; attempt <= RECONNECT_DELAYS_MS.length; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAYS_MS[attempt - 1]))
+        console.log(`Reconnecting to MCP server "${this.config.name}" (attempt ${attempt + 1})`)
+      }
       try {
-        const directToolsResponse = await fetch(this.baseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json, text/event-stream'
-          },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            method: 'tools/list',
-            params: {},
-            id: Date.now()
-          })
-        })
-
-        if (directToolsResponse.ok) {
-          const directToolsText = await directToolsResponse.text()
-          console.log('Direct tools response:', directToolsText)
-          
-          const directToolsData = parseSSEResponse(directToolsText)
-          
-          if (directToolsData.result && directToolsData.result.tools) {
-            const tools = directToolsData.result.tools.map((tool: any) => ({
-              name: tool.name,
-              description: tool.description || 'No description available',
-              inputSchema: tool.inputSchema || {
-                type: 'object',
-                properties: {},
-                required: []
-              }
-            }))
-            
-            console.log('Successfully discovered', tools.length, 'tools directly')
-            console.log('Tool names:', tools.map((t: MCPTool) => t.name).join(', '))
-            return tools
-          } else if (directToolsData.error && directToolsData.error.message.includes('not initialized')) {
-            console.log('Server requires initialization, proceeding with full handshake...')
-          }
-        }
+        await this.connect()
+        return
       } catch (error) {
-        console.log('Direct tools request failed, trying with initialization:', error)
+        lastError = error
+        console.log(`Connecting to MCP server "${this.config.name}" failed:`, errorMessage(error))
       }
+    }
+    this.lastError = errorMessage(lastError)
+    throw lastError
+  }
 
-      // If direct approach failed, try with initialization
-      console.log('Initializing MCP server...')
-      const initResponse = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json, text/event-stream'
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'initialize',
-          params: {
-            protocolVersion: '2024-11-05',
-            capabilities: {
-              tools: {},
-              prompts: {},
-              resources: {}
-            },
-            clientInfo: {
-              name: 'n8n-chat-client',
-              version: '1.0.0'
-            }
-          },
-          id: Date.now()
-        })
+  // Send one JSON-RPC request over the current transport and wait for its response
+  private sendRequest(method: string, params: Record<string, any>): Promise<any> {
+    const transport = this.transport
+    if (!transport) {
+      return Promise.reject(new MCPConnectionError('MCP client not connected'))
+    }
+
+    const id = this.nextRequestId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`MCP request ${method} timed out after ${this.config.timeoutMs} ms`))
+      }, this.config.timeoutMs)
+      this.pending.set(id, { method, resolve, reject, timer })
+
+      transport.send({ jsonrpc: '2.0', id, method, params }).catch(error => {
+        const request = this.pending.get(id)
+        if (request) {
+          clearTimeout(request.timer)
+          this.pending.delete(id)
+          reject(error)
+        }
       })
+    })
+  }
 
-      if (!initResponse.ok) {
-        console.error('Failed to initialize MCP server:', initResponse.status, initResponse.statusText)
-        throw new Error(`Server initialization failed: ${initResponse.status}`)
-      }
+  // Send a request on the session, connecting first if needed. A request the server never got -
+  // it was unreachable or had ended the session - is sent again on a new session
+  private async request(method: string, params: Record<string, any> = {}): Promise<any> {
+    await this.ensureConnected()
+    try {
+      return await this.sendRequest(method, params)
+    } catch (error) {
+      if (!(error instanceof MCPConnectionError)) throw error
 
-      const initText = await initResponse.text()
-      console.log('Raw init response:', initText)
-      const initData = parseSSEResponse(initText)
-      console.log('MCP server initialized:', initData)
-
-      // n8n MCP Server doesn't maintain session between requests
-      // Check if tools are declared in the capabilities from initialization
-      if (initData.result && initData.result.capabilities && initData.result.capabilities.tools) {
-        const toolsCapabilities = initData.result.capabilities.tools
-        console.log('Tools capabilities from init:', toolsCapabilities)
-        
-        // If tools are defined in capabilities, try to extract them
-        if (Object.keys(toolsCapabilities).length > 0) {
-          console.log('Found tools in capabilities:', Object.keys(toolsCapabilities))
-          // Convert capabilities to tool definitions
-          const tools = Object.keys(toolsCapabilities).map(toolName => ({
-            name: toolName,
-            description: toolsCapabilities[toolName]?.description || 'No description available',
-            inputSchema: toolsCapabilities[toolName]?.inputSchema || {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          }))
-          
-          console.log('Extracted tools from capabilities:', tools)
-          return tools
-        }
+      console.log(`Lost connection to MCP server "${this.config.name}" (${error.message}), reconnecting...`)
+      this.dropConnection(error)
+      await this.ensureConnected()
+      return await this.sendRequest(method, params)
+    }
+  }
+
+  private handleMessage(message: JSONRPCMessage): void {
+    // Response to one of our requests
+    if (message.id !== undefined && !message.method) {
+      const request = this.pending.get(Number(message.id))
+      if (!request) return
+      clearTimeout(request.timer)
+      this.pending.delete(Number(message.id))
+      if (message.error) {
+        request.reject(new MCPRequestError(message.error.message || 'Unknown error', message.error.code))
+      } else {
+        request.resolve(message.result)
       }
+      return
+    }
 
-      // Try separate tools/list request (might fail due to stateless nature)
-      console.log('No tools in capabilities, trying separate tools/list request...')
-      try {
-        const toolsResponse = await fetch(this.baseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json, text/event-stream'
-          },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            method: 'tools/list',
-            params: {},
-            id: Date.now()
-          })
-        })
+    // Request from the server - only ping is supported
+    if (message.id !== undefined && message.method) {
+      const response: JSONRPCMessage = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } }
+      this.transport?.send(response).catch(error => {
+        console.error('Failed to answer MCP server request:', error)
+      })
+      return
+    }
 
-        if (toolsResponse.ok) {
-          const toolsText = await toolsResponse.text()
-          console.log('Raw tools response:', toolsText)
-          const toolsData = parseSSEResponse(toolsText)
-          console.log('Tools response:', toolsData)
-          
-          // Process tools data (keep the existing logic)
-          if (toolsData.result && toolsData.result.tools) {
-            const tools = toolsData.result.tools.map((tool: any) => ({
-              name: tool.name,
-              description: tool.description || 'No description available',
-              inputSchema: tool.inputSchema || {
-                type: 'object',
-                properties: {},
-                required: []
-              }
-            }))
-            
-            console.log('Successfully discovered', tools.length, 'tools from separate request')
-            return tools
-          }
-        } else {
-          console.log('Separate tools/list request failed:', toolsResponse.status, toolsResponse.statusText)
-        }
-      } catch (separateError) {
-        console.log('Separate tools/list request failed:', separateError)
+    // Notification
+    if (message.method === 'notifications/tools/list_changed') {
+      console.log(`Tools of MCP server "${this.config.name}" changed, refreshing`)
+      this.listTools()
+        .then(tools => { this.tools = tools })
+        .catch(error => console.error('Failed to refresh MCP tools:', error))
+    } else if (message.method === 'notifications/resources/list_changed') {
+      console.log(`Resources of MCP server "${this.config.name}" changed, refreshing`)
+      this.refreshResources()
+    } else if (message.method === 'notifications/prompts/list_changed') {
+      console.log(`Prompts of MCP server "${this.config.name}" changed, refreshing`)
+      this.refreshPrompts()
+    }
+  }
+
+  private handleClose(transport: MCPTransport): void {
+    if (transport !== this.transport) return
+    console.log(`Connection to MCP server "${this.config.name}" closed`)
+    this.dropConnection(new Error('MCP connection closed'))
+  }
+
+  // Forget the current transport and fail the requests waiting on it; the next request reconnects.
+  // Those requests may have reached the server already, so they fail with an error that is not
+  // retried - only the request whose own send failed is sent again
+  private dropConnection(reason: Error): void {
+    const transport = this.transport
+    this.transport = null
+    this.connected = false
+
+    const lost = reason instanceof MCPConnectionError ? new Error(`MCP connection lost: ${reason.message}`) : reason
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer)
+      request.reject(lost)
+    }
+    this.pending.clear()
+
+    if (transport) {
+      transport.onmessage = undefined
+      transport.onclose = undefined
+      transport.onerror = undefined
+      transport.close().catch(error => console.log('Failed to close MCP transport (non-critical):', error))
+    }
+  }
+
+  // Fetch every item of a paginated list method (tools/list, resources/list, prompts/list)
+  private async listAll(method: string, key: string): Promise<any[]> {
+    const items: any[] = []
+    let cursor: string | undefined
+    do {
+      const result = await this.request(method, cursor ? { cursor } : {})
+      items.push(...(result?.[key] || []))
+      cursor = result?.nextCursor
+    } while (cursor)
+    return items
+  }
+
+  // Discover the server's tools
+  private async listTools(): Promise<MCPTool[]> {
+    const tools = await this.listAll('tools/list', 'tools')
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description || 'No description available',
+      inputSchema: tool.inputSchema || {
+        type: 'object',
+        properties: {},
+        required: []
       }
+    }))
+  }
+
+  // Discover the server's resources, if it has any
+  private async refreshResources(): Promise<void> {
+    if (!this.capabilities.resources) {
+      this.resources = []
+      return
+    }
+    try {
+      const resources = await this.listAll('resources/list', 'resources')
+      this.resources = resources.map(resource => ({
+        uri: resource.uri,
+        name: resource.name || resource.uri,
+        description: resource.description,
+        mimeType: resource.mimeType
+      }))
+      console.log(`MCP server "${this.config.name}" has ${this.resources.length} resources`)
+    } catch (error) {
+      console.error(`Failed to list resources of MCP server "${this.config.name}":`, error)
+      this.resources = []
+    }
+  }
 
-      // If we get here, no tools were found
-      console.warn('No tools discovered from n8n MCP server')
-      console.warn('This likely means either:')
-      console.warn('1. No tools are configured in the n8n MCP workflow')
-      console.warn('2. The n8n server requires persistent connections (not stateless HTTP)')
-      return []
+  // Discover the server's prompts, if it has any
+  private async refreshPrompts(): Promise<void> {
+    if (!this.capabilities.prompts) {
+      this.prompts = []
+      return
+    }
+    try {
+      const prompts = await this.listAll('prompts/list', 'prompts')
+      this.prompts = prompts.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: Array.isArray(prompt.arguments) ? prompt.arguments : []
+      }))
+      console.log(`MCP server "${this.config.name}" has ${this.prompts.length} prompts`)
     } catch (error) {
-      console.error('Tool discovery error:', error)
-      console.error('Failed to dynamically discover tools from n8n MCP server')
-      
-      // Don't throw - return empty array so the app doesn't break
-      return []
+      console.error(`Failed to list prompts of MCP server "${this.config.name}":`, error)
+      this.prompts = []
     }
   }
 
-  // Execute a tool call - use supergateway for n8n servers, fallback to proxy
+  // Read the contents of one of the server's resources
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const result = await this.request('resources/read', { uri })
+    return Array.isArray(result?.contents) ? result.contents : []
+  }
+
+  // Fill in one of the server's prompts
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const result = await this.request('prompts/get', { name, arguments: args })
+    return {
+      description: result?.description,
+      messages: Array.isArray(result?.messages) ? result.messages : []
+    }
+  }
+
+  // Execute a tool call on the server
   async callTool(toolCall: MCPToolCall): Promise<MCPToolResult> {
     try {
       console.log('MCP tool call:', toolCall.name, 'with args:', toolCall.arguments)
-      
-      // Use supergateway client if available (for n8n servers)
-      if (this.supergatewayClient && this.supergatewayClient.isConnected()) {
-        console.log('Using supergateway for tool execution')
-        return await this.supergatewayClient.callTool(toolCall)
-      }
-      
-      // Try direct HTTP execution for non-n8n servers
-      try {
-        const result = await this.executeToolDirectly(toolCall)
-        if (result && !result.isError) {
-          console.log('Direct MCP tool execution successful')
-          return result
-        }
-      } catch (directError) {
-        console.log('Direct tool execution failed, trying proxy:', directError)
+      const result = await this.request('tools/call', {
+        name: toolCall.name,
+        arguments: toolCall.arguments || {}
+      })
+
+      return {
+        content: Array.isArray(result?.content)
+          ? result.content
+          : [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result, null, 2) }],
+        isError: Boolean(result?.isError)
       }
-      
-      // Fallback to mcp-remote proxy
-      console.log('Using mcp-remote proxy for tool execution')
-      const result = await executeMCPToolViaProxy(toolCall)
-      
-      console.log('MCP proxy result:', result)
-      return result
     } catch (error) {
       console.error('Failed to call MCP tool:', error)
       return {
         content: [{ 
           type: 'text', 
-          text: `Error calling MCP tool: ${error instanceof Error ? error.message : String(error)}` 
+          text: `Error calling MCP tool: ${errorMessage(error)}` 
         }],
         isError: true
       }
     }
   }
 
-  // Execute tool directly via HTTP (handles n8n's SSE format)
-  private async executeToolDirectly(toolCall: MCPToolCall): Promise<MCPToolResult> {
-    try {
-      console.log('Executing tool directly via HTTP:', toolCall.name)
-      
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json, text/event-stream'
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'tools/call',
-          params: {
-            name: toolCall.name,
-            arguments: toolCall.arguments || {}
-          },
-          id: Date.now()
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-      }
-
-      const responseText = await response.text()
-      console.log('Direct tool execution response:', responseText)
-
-      // Parse SSE response
-      const lines = responseText.split('\n')
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = JSON.parse(line.substring(6))
-          
-          if (data.error) {
-            return {
-              content: [{ 
-                type: 'text', 
-                text: `Tool execution error: ${data.error.message || 'Unknown error'}` 
-              }],
-              isError: true
-            }
-          }
-          
-          if (data.result) {
-            // Convert n8n result format to MCP format
-            return {
-              content: [{ 
-                type: 'text', 
-                text: typeof data.result === 'string' ? data.result : JSON.stringify(data.result, null, 2)
-              }],
-              isError: false
-            }
-          }
-        }
-      }
-      
-      throw new Error('No valid data found in SSE response')
-    } catch (error) {
-      console.error('Direct tool execution failed:', error)
-      throw error
-    }
-  }
-
   // Get available tools
   getTools(): MCPTool[] {
     return this.tools
   }
 
+  getResources(): MCPResource[] {
+    return this.resources
+  }
+
+  getPrompts(): MCPPrompt[] {
+    return this.prompts
+  }
+
   // Check if connected
   isConnected(): boolean {
     return this.connected
   }
 
+  // Health of the server as reported by GET /api/mcp
+  getStatus(): MCPServerStatus {
+    return {
+      name: this.config.name,
+      transport: this.transportType,
+      enabled: true,
+      status: this.connected ? 'connected' : this.lastError ? 'error' : this.lastCheckedAt ? 'disconnected' : 'not_initialized',
+      toolCount: this.tools.length,
+      resourceCount: this.resources.length,
+      promptCount: this.prompts.length,
+      protocolVersion: this.protocolVersion,
+      latencyMs: this.latencyMs,
+      lastCheckedAt: this.lastCheckedAt,
+      error: this.connected ? undefined : this.lastError
+    }
+  }
+
   // Disconnect from the MCP server
   disconnect(): void {
-    if (this.supergatewayClient) {
-      this.supergatewayClient.disconnect()
-      this.supergatewayClient = null
-    }
-    if (this.eventSource) {
-      this.eventSource.close()
-      this.eventSource = null
-    }
-    this.connected = false
+    this.dropConnection(new Error('MCP client disconnected'))
     this.tools = []
+    this.resources = []
+    this.prompts = []
   }
 }
 
-// Global MCP client instance
-let mcpClient: MCPClient | null = null
+const MCP_TOOL_PREFIX = 'mcp_'
+const NAMESPACE_SEPARATOR = '__'
+
+// Configured servers, loaded on first use and again on every initializeMCPClients
+let serverConfigs: MCPServerConfig[] | null = null
+
+// One client per enabled server, keyed by server name
+const mcpClients = new Map<string, MCPClient>()
 
-// Initialize MCP client with URL from environment variables
-export async function initializeMCPClient(
-  serverUrl?: string
-): Promise<MCPTool[]> {
-  // Use provided URL or get from environment with fallback
-  let finalServerUrl = serverUrl
-  if (!finalServerUrl) {
+// Set once the clients have been created, whether or not their servers could be reached
+let mcpInitialized = false
+let mcpInitializing: Promise<MCPServerTool[]> | null = null
+
+function getServerConfigs(): MCPServerConfig[] {
+  if (!serverConfigs) {
     try {
-      finalServerUrl = getMCPConfig().serverUrl
-    } catch {
-      // MCP is optional, use new n8n MCP server URL  
-      finalServerUrl = 'https://nodemation.labbytan.se/mcp/71780819-b168-41ba-97eb-f4c85e15f78a'
+      serverConfigs = loadMCPServers()
+    } catch (error) {
+      // MCP is optional - a broken config disables it rather than the chat
+      console.error('Invalid MCP configuration:', error)
+      serverConfigs = []
     }
   }
-  console.log('initializeMCPClient called with URL:', finalServerUrl)
-  
-  // Always create a new client to ensure fresh initialization
-  mcpClient = new MCPClient(finalServerUrl)
-  
-  return await mcpClient.initialize()
+  return serverConfigs
 }
 
-// Get MCP client instance
-export function getMCPClient(): MCPClient | null {
-  return mcpClient
+// Name the model calls an MCP tool by. Characters that function names can't contain are replaced with _
+export function toNamespacedToolName(server: string, tool: string): string {
+  return `${MCP_TOOL_PREFIX}${server}${NAMESPACE_SEPARATOR}${tool.replace(/[^a-zA-Z0-9_-]/g, '_')}`
 }
 
-// Execute MCP tool
+export function isMCPToolName(name: string): boolean {
+  return name.startsWith(MCP_TOOL_PREFIX)
+}
+
+// (Re)connect to every enabled server, in parallel, and return all their tools
+export async function initializeMCPClients(): Promise<MCPServerTool[]> {
+  disconnectMCPClients()
+  serverConfigs = null
+
+  const servers = getServerConfigs().filter(server => server.enabled)
+  console.log('Initializing MCP clients for servers:', servers.map(server => server.name).join(', ') || 'none')
+
+  await Promise.all(servers.map(async server => {
+    const client = new MCPClient(server)
+    mcpClients.set(server.name, client)
+    await client.initialize()
+  }))
+
+  mcpInitialized = true
+  return getMCPTools()
+}
+
+export function isMCPInitialized(): boolean {
+  return mcpInitialized
+}
+
+// Connect to the servers unless that has been done. Unlike initializeMCPClients this never drops
+// the sessions other requests are using, so it is safe to call on every request. Servers without
+// tools, resources or prompts are normal and don't cause a reconnect
+export function ensureMCPClients(): Promise<MCPServerTool[]> {
+  if (mcpInitializing) {
+    return mcpInitializing
+  }
+  if (mcpInitialized) {
+    return Promise.resolve(getMCPTools())
+  }
+  mcpInitializing = initializeMCPClients().finally(() => {
+    mcpInitializing = null
+  })
+  return mcpInitializing
+}
+
+// Get the client of a server
+export function getMCPClient(server: string): MCPClient | null {
+  return mcpClients.get(server) || null
+}
+
+// Find the server providing a tool, by the tool's namespaced name
+function resolveMCPTool(namespacedName: string): { client: MCPClient, toolName: string } | null {
+  for (const client of mcpClients.values()) {
+    if (!namespacedName.startsWith(`${MCP_TOOL_PREFIX}${client.name}${NAMESPACE_SEPARATOR}`)) continue
+    const tool = client.getTools().find(tool => toNamespacedToolName(client.name, tool.name) === namespacedName)
+    if (tool) {
+      return { client, toolName: tool.name }
+    }
+  }
+  return null
+}
+
+// Execute MCP tool, routing it to its server by the namespaced name (mcp_<server>__<tool>)
 export async function executeMCPTool(toolCall: MCPToolCall): Promise<MCPToolResult> {
-  if (!mcpClient) {
+  if (mcpClients.size === 0) {
     throw new Error('MCP client not initialized')
   }
-  
-  return await mcpClient.callTool(toolCall)
+
+  const resolved = resolveMCPTool(toolCall.name)
+  if (!resolved) {
+    throw new Error(`Unknown MCP tool: ${toolCall.name}`)
+  }
+
+  console.log(`Routing MCP tool ${toolCall.name} to server "${resolved.client.name}"`)
+  return await resolved.client.callTool({
+    name: resolved.toolName,
+    arguments: toolCall.arguments
+  })
+}
+
+// Get available MCP tools of all servers
+export function getMCPTools(): MCPServerTool[] {
+  const tools: MCPServerTool[] = []
+  for (const client of mcpClients.values()) {
+    for (const tool of client.getTools()) {
+      tools.push({
+        ...tool,
+        server: client.name,
+        namespacedName: toNamespacedToolName(client.name, tool.name)
+      })
+    }
+  }
+  return tools
 }
 
-// Get available MCP tools
-export function getMCPTools(): MCPTool[] {
-  return mcpClient?.getTools() || []
+// Get available MCP resources of all servers
+export function getMCPResources(): MCPServerResource[] {
+  const resources: MCPServerResource[] = []
+  for (const client of mcpClients.values()) {
+    for (const resource of client.getResources()) {
+      resources.push({ ...resource, server: client.name })
+    }
+  }
+  return resources
+}
+
+// Get available MCP prompts of all servers
+export function getMCPPrompts(): MCPServerPrompt[] {
+  const prompts: MCPServerPrompt[] = []
+  for (const client of mcpClients.values()) {
+    for (const prompt of client.getPrompts()) {
+      prompts.push({ ...prompt, server: client.name })
+    }
+  }
+  return prompts
+}
+
+// Read a resource from the server providing it
+export async function readMCPResource(server: string, uri: string): Promise<MCPResourceContents[]> {
+  const client = mcpClients.get(server)
+  if (!client) {
+    throw new Error(`Unknown MCP server: ${server}`)
+  }
+  return await client.readResource(uri)
+}
+
+// Fill in a prompt on the server providing it
+export async function getMCPPrompt(server: string, name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+  const client = mcpClients.get(server)
+  if (!client) {
+    throw new Error(`Unknown MCP server: ${server}`)
+  }
+  return await client.getPrompt(name, args)
+}
+
+// Text of a piece of MCP content for the model. Binary content is described rather than included
+export function mcpContentToText(content: MCPContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text || ''
+    case 'image':
+      return `[Image: ${content.mimeType || 'unknown'}]`
+    case 'audio':
+      return `[Audio: ${content.mimeType || 'unknown'}]`
+    case 'resource':
+      return content.resource?.text !== undefined
+        ? content.resource.text
+        : `[Resource: ${content.resource?.uri || 'unknown'} (${content.resource?.mimeType || 'unknown'})]`
+    case 'resource_link':
+      return `[Resource: ${content.name && content.uri ? `${content.name} (${content.uri})` : content.uri || content.name || 'unknown'}]`
+    default:
+      return '[Unknown content type]'
+  }
+}
+
+// Images in MCP content: image parts, and embedded resources holding image data
+export function getMCPImages(content: MCPContent[]): MCPImage[] {
+  const images: MCPImage[] = []
+  for (const part of content) {
+    if (part.type === 'image' && part.data) {
+      images.push({ mimeType: part.mimeType || 'image/png', data: part.data })
+    } else if (part.type === 'resource' && part.resource?.blob && part.resource.mimeType?.startsWith('image/')) {
+      images.push({ mimeType: part.resource.mimeType, data: part.resource.blob })
+    }
+  }
+  return images
+}
+
+// Health of every configured server, including disabled ones
+export function getMCPServerStatuses(): MCPServerStatus[] {
+  return getServerConfigs().map(server => {
+    if (!server.enabled) {
+      return { name: server.name, transport: server.transport, enabled: false, status: 'disabled', toolCount: 0 }
+    }
+    return mcpClients.get(server.name)?.getStatus() || {
+      name: server.name,
+      transport: server.transport,
+      enabled: true,
+      status: 'not_initialized',
+      toolCount: 0
+    }
+  })
+}
+
+// Disconnect from every server
+export function disconnectMCPClients(): void {
+  for (const client of mcpClients.values()) {
+    client.disconnect()
+  }
+  mcpClients.clear()
+  mcpInitialized = false
 }
\ No newline at end of file
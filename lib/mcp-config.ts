@@ -0,0 +1,131 @@
+// MCP server configuration
+// Servers are read from the JSON or YAML file in MCP_CONFIG_FILE (see mcp-servers.example.yaml).
+// Without a file, MCP_SERVER_URL configures a single server named "default".
+
+import fs from 'fs'
+import path from 'path'
+import { parse as parseYAML } from 'yaml'
+import { getMCPConfig } from './env-validation'
+
+export type MCPTransportType = 'streamable-http' | 'sse' | 'stdio'
+
+export interface MCPServerConfig {
+  name: string
+  transport: MCPTransportType
+  url: string // streamable-http and sse
+  headers: Record<string, string>
+  command?: string // stdio: the server process and its arguments, environment and working directory
+  args?: string[]
+  env?: Record<string, string>
+  cwd?: string
+  timeoutMs: number // How long a request may take
+  enabled: boolean
+}
+
+const TRANSPORTS: MCPTransportType[] = ['streamable-http', 'sse', 'stdio']
+
+// Transport names from earlier configs. Both now use the in-process Streamable HTTP client,
+// which falls back to SSE for older servers just as mcp-remote did
+const TRANSPORT_ALIASES: Record<string, MCPTransportType> = {
+  'http': 'streamable-http',
+  'mcp-remote': 'streamable-http'
+}
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000
+
+// Server names become part of tool names (mcp_<server>__<tool>), which the models only accept
+// with letters, digits, - and _. A double underscore would make the tool name ambiguous
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9-]+(_[a-zA-Z0-9-]+)*$/
+
+// ${VAR} in URLs, headers and stdio settings is replaced from the environment, so tokens stay out of the file
+function interpolateEnv(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] || '')
+}
+
+function parseServer(name: string, raw: any): MCPServerConfig {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid MCP server name "${name}": use letters, digits, - and single _`)
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`MCP server "${name}" has no settings`)
+  }
+
+  const transport: MCPTransportType = TRANSPORT_ALIASES[raw.transport] || raw.transport || (raw.command ? 'stdio' : 'streamable-http')
+  if (!TRANSPORTS.includes(transport)) {
+    throw new Error(`MCP server "${name}" has unknown transport "${raw.transport}" (expected ${TRANSPORTS.join(', ')})`)
+  }
+  if (transport === 'stdio' && (typeof raw.command !== 'string' || !raw.command)) {
+    throw new Error(`MCP server "${name}" uses stdio but has no command`)
+  }
+  if (transport !== 'stdio' && (typeof raw.url !== 'string' || !raw.url)) {
+    throw new Error(`MCP server "${name}" has no url`)
+  }
+
+  const interpolateAll = (values: Record<string, any> = {}) => {
+    const result: Record<string, string> = {}
+    for (const [key, value] of Object.entries(values)) {
+      result[key] = interpolateEnv(String(value))
+    }
+    return result
+  }
+
+  const timeoutMs = Number(raw.timeoutMs)
+
+  return {
+    name,
+    transport,
+    url: transport === 'stdio' ? '' : interpolateEnv(raw.url),
+    headers: interpolateAll(raw.headers),
+    command: transport === 'stdio' ? interpolateEnv(raw.command) : undefined,
+    args: transport === 'stdio' ? (raw.args || []).map((arg: any) => interpolateEnv(String(arg))) : undefined,
+    env: transport === 'stdio' ? interpolateAll(raw.env) : undefined,
+    cwd: transport === 'stdio' && raw.cwd ? interpolateEnv(raw.cwd) : undefined,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+    enabled: raw.enabled !== false
+  }
+}
+
+/**
+ * Parses the contents of an MCP config file
+ * @param text - JSON or YAML with a servers map keyed by server name
+ * @returns The servers, enabled or not
+ * @throws Error if the file is malformed or a server is invalid
+ */
+export function parseMCPServersConfig(text: string): MCPServerConfig[] {
+  // YAML is a superset of JSON, so one parser reads both
+  const config = parseYAML(text)
+  const servers = config?.servers
+  if (!servers || typeof servers !== 'object' || Array.isArray(servers)) {
+    throw new Error('MCP config must have a "servers" map keyed by server name')
+  }
+  return Object.entries(servers).map(([name, raw]) => parseServer(name, raw))
+}
+
+/**
+ * Loads the configured MCP servers
+ * @returns The servers, enabled or not; empty when MCP is not configured
+ * @throws Error if the config file can't be read or is invalid
+ */
+export function loadMCPServers(): MCPServerConfig[] {
+  const { configFile, serverUrl, authToken } = getMCPConfig()
+
+  if (configFile) {
+    const file = path.resolve(process.cwd(), configFile)
+    const servers = parseMCPServersConfig(fs.readFileSync(file, 'utf8'))
+    console.log(`Loaded ${servers.length} MCP servers from ${configFile}:`, servers.map(server => server.name).join(', '))
+    return servers
+  }
+
+  if (serverUrl) {
+    return [{
+      name: 'default',
+      transport: 'streamable-http',
+      url: serverUrl,
+      headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      enabled: true
+    }]
+  }
+
+  return []
+}
@@ -0,0 +1,392 @@
+// MCP transports
+// Carry JSON-RPC messages between the MCP client and a server, in process:
+// - Streamable HTTP (MCP 2025-03-26): every message is POSTed, responses come back as JSON or as an
+//   SSE stream, and the server may hand out an Mcp-Session-Id to send with later requests
+// - SSE (MCP 2024-11-05): a long-lived GET event stream for responses, plus an endpoint announced
+//   on that stream to POST messages to
+// - stdio: a local process speaking newline-delimited JSON on stdin/stdout
+
+import { spawn, ChildProcess } from 'child_process'
+
+export interface JSONRPCMessage {
+  jsonrpc: '2.0'
+  id?: number | string
+  method?: string
+  params?: any
+  result?: any
+  error?: { code: number, message: string, data?: any }
+}
+
+export interface MCPTransport {
+  start(): Promise<void>
+  send(message: JSONRPCMessage): Promise<void>
+  close(): Promise<void>
+  // Set by the client once the protocol version is negotiated
+  setProtocolVersion?(version: string): void
+  onmessage?: (message: JSONRPCMessage) => void
+  onclose?: () => void
+  onerror?: (error: Error) => void
+}
+
+// The message could not be delivered: the server is unreachable or the transport is not open.
+// The server never saw it, so the client may reconnect and send it again
+export class MCPConnectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MCPConnectionError'
+  }
+}
+
+// Thrown when a Streamable HTTP server no longer knows the session; the client starts a new one
+export class MCPSessionExpiredError extends MCPConnectionError {
+  constructor() {
+    super('MCP session expired')
+    this.name = 'MCPSessionExpiredError'
+  }
+}
+
+// fetch rejects only when the request could not be made at all
+async function fetchOrThrow(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init)
+  } catch (error) {
+    if (init.signal?.aborted) throw error
+    const cause = error instanceof Error && (error as any).cause ? `: ${(error as any).cause.message || (error as any).cause}` : ''
+    throw new MCPConnectionError(`Could not reach ${url}${cause}`)
+  }
+}
+
+// Read a text/event-stream body, calling onEvent for every complete event
+async function readSSE(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: { event: string, data: string }) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let eventName = ''
+  let data: string[] = []
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      onEvent({ event: eventName || 'message', data: data.join('\n') })
+    }
+    eventName = ''
+    data = []
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let newline: number
+    while ((newline = buffer.search(/\r?\n/)) !== -1) {
+      const line = buffer.substring(0, newline)
+      buffer = buffer.substring(newline + (buffer[newline] === '\r' ? 2 : 1))
+
+      if (line === '') {
+        dispatch()
+      } else if (line.startsWith('event:')) {
+        eventName = line.substring(6).trim()
+      } else if (line.startsWith('data:')) {
+        data.push(line.substring(5).replace(/^ /, ''))
+      }
+      // id:, retry: and comments are not used
+    }
+  }
+  dispatch()
+}
+
+function parseMessages(text: string): JSONRPCMessage[] {
+  const parsed = JSON.parse(text)
+  return Array.isArray(parsed) ? parsed : [parsed]
+}
+
+export class StreamableHTTPTransport implements MCPTransport {
+  private url: string
+  private headers: Record<string, string>
+  private sessionId: string | null = null
+  private protocolVersion: string | null = null
+  private abortController = new AbortController()
+
+  onmessage?: (message: JSONRPCMessage) => void
+  onclose?: () => void
+  onerror?: (error: Error) => void
+
+  constructor(url: string, headers: Record<string, string> = {}) {
+    this.url = url
+    this.headers = headers
+  }
+
+  async start(): Promise<void> {
+    // Nothing to open - the session starts with the initialize request
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version
+  }
+
+  private requestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.headers,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream'
+    }
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId
+    if (this.protocolVersion) headers['MCP-Protocol-Version'] = this.protocolVersion
+    return headers
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const response = await fetchOrThrow(this.url, {
+      method: 'POST',
+      headers: this.requestHeaders(),
+      body: JSON.stringify(message),
+      signal: this.abortController.signal
+    })
+
+    const sessionId = response.headers.get('mcp-session-id')
+    if (sessionId) {
+      this.sessionId = sessionId
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      this.sessionId = null
+      throw new MCPSessionExpiredError()
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status}: ${text || response.statusText}`)
+    }
+
+    // Notifications and responses are acknowledged with 202 and no body
+    if (response.status === 202 || !response.body) {
+      return
+    }
+
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType.includes('text/event-stream')) {
+      // Read the stream in the background; the response to the request arrives on it
+      readSSE(response.body, event => {
+        if (event.event === 'message') {
+          this.dispatch(event.data)
+        }
+      }).catch(error => {
+        if (!this.abortController.signal.aborted) {
+          this.onerror?.(error instanceof Error ? error : new Error(String(error)))
+        }
+      })
+    } else {
+      const text = await response.text()
+      if (text.trim()) {
+        this.dispatch(text)
+      }
+    }
+  }
+
+  private dispatch(text: string): void {
+    try {
+      for (const message of parseMessages(text)) {
+        this.onmessage?.(message)
+      }
+    } catch (error) {
+      console.error('Invalid message from MCP server:', text)
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  async close(): Promise<void> {
+    // Tell the server the session is over; servers without sessions answer 405, which is fine
+    if (this.sessionId) {
+      try {
+        await fetch(this.url, { method: 'DELETE', headers: this.requestHeaders() })
+      } catch (error) {
+        console.log('Failed to end MCP session (non-critical):', error)
+      }
+      this.sessionId = null
+    }
+    this.abortController.abort()
+    this.abortController = new AbortController()
+  }
+}
+
+export class SSETransport implements MCPTransport {
+  private url: string
+  private headers: Record<string, string>
+  private endpoint: string | null = null
+  private abortController = new AbortController()
+
+  onmessage?: (message: JSONRPCMessage) => void
+  onclose?: () => void
+  onerror?: (error: Error) => void
+
+  constructor(url: string, headers: Record<string, string> = {}) {
+    this.url = url
+    this.headers = headers
+  }
+
+  // Open the event stream and wait for the server to announce where to POST messages
+  async start(): Promise<void> {
+    const response = await fetchOrThrow(this.url, {
+      headers: { ...this.headers, 'Accept': 'text/event-stream' },
+      signal: this.abortController.signal
+    })
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      let announced = false
+      readSSE(response.body!, event => {
+        if (event.event === 'endpoint') {
+          this.endpoint = new URL(event.data, this.url).toString()
+          announced = true
+          resolve()
+        } else if (event.event === 'message') {
+          try {
+            for (const message of parseMessages(event.data)) {
+              this.onmessage?.(message)
+            }
+          } catch (error) {
+            console.error('Invalid message from MCP server:', event.data)
+          }
+        }
+      }).then(() => {
+        // The server closed the stream
+        if (!announced) reject(new Error('SSE stream ended before the endpoint was announced'))
+        this.endpoint = null
+        this.onclose?.()
+      }).catch(error => {
+        if (!announced) reject(error)
+        if (!this.abortController.signal.aborted) {
+          this.onerror?.(error instanceof Error ? error : new Error(String(error)))
+          this.endpoint = null
+          this.onclose?.()
+        }
+      })
+    })
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new MCPConnectionError('SSE transport not connected')
+    }
+    const response = await fetchOrThrow(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal
+    })
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status}: ${text || response.statusText}`)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort()
+    this.abortController = new AbortController()
+    this.endpoint = null
+  }
+}
+
+export interface StdioServerParameters {
+  command: string
+  args?: string[]
+  env?: Record<string, string>
+  cwd?: string
+}
+
+export class StdioTransport implements MCPTransport {
+  private params: StdioServerParameters
+  private process: ChildProcess | null = null
+  private buffer = ''
+
+  onmessage?: (message: JSONRPCMessage) => void
+  onclose?: () => void
+  onerror?: (error: Error) => void
+
+  constructor(params: StdioServerParameters) {
+    this.params = params
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.params.command, this.params.args || [], {
+        env: { ...process.env, ...this.params.env },
+        cwd: this.params.cwd,
+        stdio: ['pipe', 'pipe', 'pipe']
+      })
+      this.process = child
+
+      child.on('spawn', () => resolve())
+      child.on('error', error => {
+        reject(error)
+        this.onerror?.(error)
+      })
+      child.on('exit', code => {
+        console.log(`MCP stdio server ${this.params.command} exited with code:`, code)
+        // A server replaced by a restart doesn't end the connection to its successor
+        if (child !== this.process) return
+        this.process = null
+        this.onclose?.()
+      })
+
+      // Writing to a server that has gone away fails with EPIPE; unhandled, that would crash the app
+      child.stdin!.on('error', error => {
+        console.log(`MCP stdio server ${this.params.command} stdin error:`, error.message)
+        if (child !== this.process) return
+        this.onerror?.(error)
+        this.process = null
+        child.kill()
+        this.onclose?.()
+      })
+
+      child.stdout!.on('data', (chunk: Buffer) => {
+        this.buffer += chunk.toString()
+        let newline: number
+        while ((newline = this.buffer.indexOf('\n')) !== -1) {
+          const line = this.buffer.substring(0, newline).trim()
+          this.buffer = this.buffer.substring(newline + 1)
+          if (!line) continue
+          try {
+            this.onmessage?.(JSON.parse(line))
+          } catch {
+            // Servers sometimes log to stdout; only JSON-RPC lines are messages
+            console.log('MCP stdio server output:', line)
+          }
+        }
+      })
+
+      child.stderr!.on('data', (chunk: Buffer) => {
+        console.log('MCP stdio server stderr:', chunk.toString().trim())
+      })
+    })
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const stdin = this.process?.stdin
+    if (!stdin?.writable) {
+      throw new MCPConnectionError('stdio transport not connected')
+    }
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(JSON.stringify(message) + '\n', error => {
+        if (error) {
+          reject(new MCPConnectionError(`Could not write to stdio server: ${error.message}`))
+        } else {
+          resolve()
+        }
+      })
+    })
+  }
+
+  async close(): Promise<void> {
+    if (this.process) {
+      this.process.stdin?.end()
+      this.process.kill()
+      this.process = null
+    }
+    this.buffer = ''
+  }
+}
@@ -0,0 +1,235 @@
+// Model capability registry
+// Single server-side source of truth for which Berget models are offered and what they can do.
+// The built-in list can be replaced with a JSON file (MODELS_CONFIG_PATH) or inline JSON (MODELS_CONFIG)
+// so new models can be added without code changes.
+
+import fs from 'fs'
+import path from 'path'
+import { getEnvVar } from './env-validation'
+import { getSetting, setSetting } from './settings'
+import { Model } from './types'
+
+export interface ModelConfig {
+  id: string
+  name: string
+  description?: string
+  descriptionKey?: string // i18n key, takes precedence over description in the UI
+  supportsTools: boolean
+  supportsVision: boolean
+  contextWindow: number
+  maxOutputTokens: number
+}
+
+export interface ModelRegistry {
+  defaultModel: string
+  titleModel: string
+  models: ModelConfig[]
+}
+
+const DEFAULT_REGISTRY: ModelRegistry = {
+  defaultModel: 'meta-llama/Llama-3.3-70B-Instruct',
+  titleModel: 'meta-llama/Llama-3.3-70B-Instruct',
+  models: [
+    {
+      id: 'openai/gpt-oss-120b',
+      name: 'GPT-OSS 120B',
+      descriptionKey: 'chat.models.gptOss',
+      supportsTools: false,
+      supportsVision: false,
+      contextWindow: 128000,
+      maxOutputTokens: 2000
+    },
+    {
+      id: 'meta-llama/Llama-3.3-70B-Instruct',
+      name: 'Llama 3.3 70B',
+      descriptionKey: 'chat.models.llama',
+      supportsTools: true,
+      supportsVision: false,
+      contextWindow: 128000,
+      maxOutputTokens: 2000
+    },
+    {
+      id: 'mistralai/Mistral-Small-3.1-24B-Instruct-2503',
+      name: 'Mistral Small 3.1 24B',
+      descriptionKey: 'chat.models.mistralSmall',
+      supportsTools: false,
+      supportsVision: true,
+      contextWindow: 128000,
+      maxOutputTokens: 2000
+    },
+    {
+      id: 'mistralai/Devstral-Small-2505',
+      name: 'Devstral Small',
+      descriptionKey: 'chat.models.devstral',
+      supportsTools: false,
+      supportsVision: false,
+      contextWindow: 128000,
+      maxOutputTokens: 2000
+    }
+  ]
+}
+
+let cachedRegistry: ModelRegistry | null = null
+
+// Fill in defaults for a model entry coming from configuration
+function normalizeModel(entry: any): ModelConfig {
+  if (!entry || typeof entry.id !== 'string' || !entry.id.trim()) {
+    throw new Error('Model configuration entry is missing an id')
+  }
+
+  return {
+    id: entry.id,
+    name: entry.name || entry.id,
+    description: entry.description,
+    descriptionKey: entry.descriptionKey,
+    supportsTools: Boolean(entry.supportsTools),
+    supportsVision: Boolean(entry.supportsVision),
+    contextWindow: Number(entry.contextWindow) || 32000,
+    maxOutputTokens: Number(entry.maxOutputTokens) || 2000
+  }
+}
+
+function loadRegistryConfig(): any | null {
+  const inlineConfig = getEnvVar('MODELS_CONFIG', '')
+  if (inlineConfig) {
+    return JSON.parse(inlineConfig)
+  }
+
+  const configPath = getEnvVar('MODELS_CONFIG_PATH', '')
+  if (configPath) {
+    const resolvedPath = path.isAbsolute(configPath) ? configPath : path.join(process.cwd(), configPath)
+    return JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'))
+  }
+
+  return null
+}
+
+/**
+ * Gets the model registry, loading it from configuration on first use
+ * @returns The configured model registry, or the built-in one if no configuration is set
+ */
+export function getModelRegistry(): ModelRegistry {
+  if (cachedRegistry) return cachedRegistry
+
+  let registry = DEFAULT_REGISTRY
+  try {
+    const config = loadRegistryConfig()
+    if (config) {
+      // Accept either a bare array of models or a full registry object
+      const models = (Array.isArray(config) ? config : config.models || []).map(normalizeModel)
+      if (models.length === 0) {
+        throw new Error('Model configuration contains no models')
+      }
+      const defaultModel = !Array.isArray(config) && config.defaultModel ? config.defaultModel : models[0].id
+      registry = {
+        defaultModel,
+        titleModel: !Array.isArray(config) && config.titleModel ? config.titleModel : defaultModel,
+        models
+      }
+    }
+  } catch (error) {
+    console.error('Invalid model configuration, using built-in models:', error)
+    registry = DEFAULT_REGISTRY
+  }
+
+  cachedRegistry = registry
+  return registry
+}
+
+// Get all configured models
+export function getModels(): ModelConfig[] {
+  return getModelRegistry().models
+}
+
+// Get a single model by ID
+export function getModelConfig(modelId: string): ModelConfig | null {
+  return getModels().find(model => model.id === modelId) || null
+}
+
+// Setting listing the IDs of models disabled by admins
+const DISABLED_MODELS_SETTING = 'disabled_models'
+
+// Get the IDs of models admins have disabled
+export async function getDisabledModelIds(): Promise<string[]> {
+  const ids = await getSetting<string[]>(DISABLED_MODELS_SETTING, [])
+  return Array.isArray(ids) ? ids : []
+}
+
+// Get the models users can choose from
+export async function getEnabledModels(): Promise<ModelConfig[]> {
+  const disabled = await getDisabledModelIds()
+  return getModels().filter(model => !disabled.includes(model.id))
+}
+
+/**
+ * Enables or disables a model for all users
+ * @param modelId - A model from the registry
+ * @param enabled - Whether users may choose the model
+ * @param updatedBy - Username of the admin making the change
+ * @returns True if the change was stored
+ */
+export async function setModelEnabled(modelId: string, enabled: boolean, updatedBy?: string): Promise<boolean> {
+  const disabled = (await getDisabledModelIds()).filter(id => id !== modelId)
+  if (!enabled) {
+    disabled.push(modelId)
+  }
+  return setSetting(DISABLED_MODELS_SETTING, disabled, updatedBy)
+}
+
+// Get the model used for conversation title generation
+export function getTitleModel(): ModelConfig {
+  const registry = getModelRegistry()
+  return getModelConfig(registry.titleModel) || registry.models[0]
+}
+
+// Convert a registry entry to the shape the client works with
+export function toClientModel(model: ModelConfig): Model {
+  const capabilities = ['chat']
+  if (model.supportsTools) {
+    capabilities.push('internetSearch', 'fileUpload', 'mcpTools')
+  }
+  if (model.supportsVision) {
+    capabilities.push('vision')
+  }
+
+  return {
+    id: model.id,
+    name: model.name,
+    description: model.description,
+    descriptionKey: model.descriptionKey,
+    capabilities,
+    supportsTools: model.supportsTools,
+    supportsVision: model.supportsVision,
+    contextWindow: model.contextWindow,
+    maxOutputTokens: model.maxOutputTokens
+  }
+}
+
+// Estimate the tokens of a chat message at ~4 characters per token
+export function estimateMessageTokens(message: any): number {
+  const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content || '')
+  return Math.ceil(content.length / 4) + 4
+}
+
+// Drop the oldest non-system messages until the conversation fits the model's context window.
+// The remaining messages keep their order, so system messages stay where they were
+export function fitMessagesToContext(messages: any[], model: ModelConfig): any[] {
+  const budget = model.contextWindow - model.maxOutputTokens
+  const removed = new Set<number>()
+  let remaining = messages.filter(msg => msg.role !== 'system').length
+
+  let total = messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0)
+  // Always keep the latest message, even if it alone exceeds the budget
+  for (let i = 0; i < messages.length && total > budget && remaining > 1; i++) {
+    if (messages[i].role === 'system') continue
+    removed.add(i)
+    remaining--
+    total -= estimateMessageTokens(messages[i])
+  }
+
+  if (removed.size > 0) {
+    console.log(`Trimmed conversation to ${messages.length - removed.size} messages to fit ${model.id} context window`)
+  }
+
+  return messages.filter((_, i) => !removed.has(i))
+}
@@ -1,41 +1,34 @@
-import axios from 'axios'
+// User accounts, kept by the configured storage backend (lib/storage)
 import bcrypt from 'bcryptjs'
+import { getStorage } from './storage'
+import type { User } from './storage/types'
 
-// NocoDB configuration
-const NOCODB_API_URL = process.env.NOCODB_API_URL || 'https://nocodb.labbytan.se'
-const NOCODB_API_TOKEN = process.env.NOCODB_API_TOKEN || ''
-const NOCODB_BASE_NAME = process.env.NOCODB_BASE_NAME || 'BergetGPT'
-const USERS_TABLE_NAME = 'users'
+export type { User } from './storage/types'
 
-// Create axios instance with default config
-const nocodb = axios.create({
-  baseURL: `${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}`,
-  headers: {
-    'xc-token': NOCODB_API_TOKEN,
-    'Content-Type': 'application/json'
-  }
-})
+// Admins are flagged on their record, or given the admin role (e.g. by an SSO group mapping)
+export function isAdminUser(user: User): boolean {
+  return Boolean(user.is_admin) || (user.roles || '').split(',').map(role => role.trim()).includes('admin')
+}
 
-// User interface
-export interface User {
-  id?: string
-  username: string
-  password_hash?: string
-  email?: string
-  first_name?: string
-  last_name?: string
-  system_prompt?: string
-  theme?: string
-  language?: string
-  created_at?: Date
-  updated_at?: Date
+// Profile fields sent to the browser
+export function toClientUser(user: User) {
+  return {
+    id: (user as any).Id || user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.first_name,
+    lastName: user.last_name,
+    systemPrompt: user.system_prompt,
+    theme: user.theme,
+    language: user.language || 'sv',
+    isAdmin: isAdminUser(user)
+  }
 }
 
-// Get all users
+// Get all users, sorted by username
 export async function getUsers(): Promise<User[]> {
   try {
-    const response = await nocodb.get(`/${USERS_TABLE_NAME}`)
-    return response.data.list
+    return await getStorage().users.list()
   } catch (error) {
     console.error('Error fetching users:', error)
     return []
@@ -45,18 +38,43 @@ export async function getUsers(): Promise<User[]> {
 // Get user by username
 export async function getUserByUsername(username: string): Promise<User | null> {
   try {
-    const response = await nocodb.get(`/${USERS_TABLE_NAME}`, {
-      params: {
-        where: `(username,eq,${username})`
-      }
-    })
-    return response.data.list[0] || null
+    return await getStorage().users.findByUsername(username)
   } catch (error) {
     console.error('Error fetching user by username:', error)
     return null
   }
 }
 
+// Get user by email address
+export async function getUserByEmail(email: string): Promise<User | null> {
+  try {
+    return await getStorage().users.findByEmail(email)
+  } catch (error) {
+    console.error('Error fetching user by email:', error)
+    return null
+  }
+}
+
+// Get user by their subject at an SSO provider
+export async function getUserByExternalId(provider: string, externalId: string): Promise<User | null> {
+  try {
+    return await getStorage().users.findByExternalId(provider, externalId)
+  } catch (error) {
+    console.error('Error fetching user by external ID:', error)
+    return null
+  }
+}
+
+// Get user by ID
+export async function getUserById(userId: string): Promise<User | null> {
+  try {
+    return await getStorage().users.findById(userId)
+  } catch (error) {
+    console.error('Error fetching user by ID:', error)
+    return null
+  }
+}
+
 // Create new user
 export async function createUser(userData: {
   username: string
@@ -64,6 +82,12 @@ export async function createUser(userData: {
   email?: string
   first_name?: string
   last_name?: string
+  language?: string
+  email_verified?: boolean
+  roles?: string[]
+  auth_provider?: string
+  external_id?: string
+  is_admin?: boolean
 }): Promise<User | null> {
   try {
     // Hash the password
@@ -77,24 +101,28 @@ export async function createUser(userData: {
       last_name: userData.last_name || '',
       system_prompt: '',
       theme: 'light',
-      language: 'sv',
+      language: userData.language || 'sv',
+      email_verified: userData.email_verified ?? true,
+      roles: (userData.roles || ['user']).join(','),
+      auth_provider: userData.auth_provider || 'local',
+      external_id: userData.external_id || null,
+      is_admin: userData.is_admin ?? false,
+      disabled: false,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     }
     
-    const response = await nocodb.post(`/${USERS_TABLE_NAME}`, newUser)
-    return response.data
+    return await getStorage().users.create(newUser)
   } catch (error) {
     console.error('Error creating user:', error)
     return null
   }
 }
 
-// Verify user password
-export async function verifyPassword(username: string, password: string): Promise<boolean> {
+// Verify user password against an already loaded user record
+export async function verifyPassword(user: User, password: string): Promise<boolean> {
   try {
-    const user = await getUserByUsername(username)
-    if (!user || !user.password_hash) return false
+    if (!user.password_hash) return false
     
     return await bcrypt.compare(password, user.password_hash)
   } catch (error) {
@@ -114,8 +142,7 @@ export async function updateUser(userId: string, updates: Partial<User>): Promis
       updated_at: new Date().toISOString()
     }
     
-    const response = await nocodb.patch(`/${USERS_TABLE_NAME}/${userId}`, updateData)
-    return response.data
+    return await getStorage().users.update(userId, updateData)
   } catch (error) {
     console.error('Error updating user:', error)
     return null
@@ -127,7 +154,7 @@ export async function updatePassword(userId: string, newPassword: string): Promi
   try {
     const password_hash = await bcrypt.hash(newPassword, 10)
     
-    await nocodb.patch(`/${USERS_TABLE_NAME}/${userId}`, {
+    await getStorage().users.update(userId, {
       password_hash,
       updated_at: new Date().toISOString()
     })
@@ -153,7 +180,7 @@ export async function updateUserPreferences(
 // Delete user
 export async function deleteUser(userId: string): Promise<boolean> {
   try {
-    await nocodb.delete(`/${USERS_TABLE_NAME}/${userId}`)
+    await getStorage().users.delete(userId)
     return true
   } catch (error) {
     console.error('Error deleting user:', error)
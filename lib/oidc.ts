@@ -0,0 +1,288 @@
+// Single sign-on with OpenID Connect (authorization code flow with PKCE)
+// The provider's endpoints and signing keys are read from its discovery document. Users are
+// linked by their subject at the provider and created on their first login; their roles follow
+// the groups in the ID token on every login.
+
+import jwt from 'jsonwebtoken'
+import crypto from 'crypto'
+import { getOidcConfig, getJWTSecret } from './env-validation'
+import { User, getUserByExternalId, getUserByUsername, createUser, updateUser } from './nocodb'
+
+const PROVIDER = 'oidc'
+
+// Cookie holding the state of a started login, and how long the login may take
+export const OIDC_FLOW_COOKIE = 'oidc_flow'
+export const OIDC_FLOW_LIFETIME_SECONDS = 10 * 60
+
+// Discovery documents and keys are fetched again after this long
+const CACHE_TTL_MS = 60 * 60 * 1000
+
+// Roles every SSO user gets, on top of those mapped from groups
+const BASE_ROLES = ['user']
+
+interface DiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  end_session_endpoint?: string
+}
+
+// State of a login between the redirect to the provider and the callback, kept in a signed cookie
+export interface OidcFlowState {
+  state: string
+  nonce: string
+  codeVerifier: string
+  returnTo: string
+}
+
+export type OidcErrorCode = 'not_configured' | 'invalid_state' | 'provider_error' | 'invalid_id_token' | 'username_taken' | 'provisioning_failed' | 'account_disabled'
+
+export class OidcError extends Error {
+  constructor(public code: OidcErrorCode, message: string) {
+    super(message)
+    this.name = 'OidcError'
+  }
+}
+
+let discoveryCache: { issuer: string, document: DiscoveryDocument, fetchedAt: number } | null = null
+let keyCache: { uri: string, keys: Record<string, crypto.KeyObject>, fetchedAt: number } | null = null
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init)
+  const text = await response.text()
+  if (!response.ok) {
+    throw new OidcError('provider_error', `${url} answered ${response.status}: ${text.substring(0, 200)}`)
+  }
+  return JSON.parse(text)
+}
+
+async function getDiscoveryDocument(): Promise<DiscoveryDocument> {
+  const { issuer } = getOidcConfig()
+  if (discoveryCache && discoveryCache.issuer === issuer && Date.now() - discoveryCache.fetchedAt < CACHE_TTL_MS) {
+    return discoveryCache.document
+  }
+
+  const document = await fetchJson(`${issuer}/.well-known/openid-configuration`)
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new OidcError('provider_error', 'Discovery document is missing endpoints')
+  }
+  discoveryCache = { issuer, document, fetchedAt: Date.now() }
+  return document
+}
+
+// The provider's signing keys by key ID. Fetched again when a token names an unknown key,
+// which happens after the provider rotates its keys
+async function getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+  const { jwks_uri } = await getDiscoveryDocument()
+
+  for (const forceRefresh of [false, true]) {
+    const isFresh = keyCache && keyCache.uri === jwks_uri && Date.now() - keyCache.fetchedAt < CACHE_TTL_MS
+    if (forceRefresh || !isFresh) {
+      const { keys = [] } = await fetchJson(jwks_uri)
+      const byId: Record<string, crypto.KeyObject> = {}
+      for (const jwk of keys) {
+        if (jwk.use && jwk.use !== 'sig') continue
+        try {
+          byId[jwk.kid || ''] = crypto.createPublicKey({ key: jwk, format: 'jwk' })
+        } catch (error) {
+          console.warn('Skipping unsupported OIDC signing key', jwk.kid)
+        }
+      }
+      keyCache = { uri: jwks_uri, keys: byId, fetchedAt: Date.now() }
+    }
+
+    const key = kid ? keyCache!.keys[kid] : Object.values(keyCache!.keys)[0]
+    if (key) return key
+  }
+
+  throw new OidcError('invalid_id_token', `No signing key ${kid} at the provider`)
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64url')
+}
+
+/**
+ * Starts a login: builds the provider's authorization URL and the state to keep until the callback
+ * @param returnTo - Path in the app to return to after logging in
+ * @returns The URL to redirect the browser to and the signed flow state for the cookie
+ * @throws OidcError if SSO is not configured or the provider can't be reached
+ */
+export async function createAuthorizationRequest(returnTo: string = '/'): Promise<{ url: string, flowCookie: string }> {
+  const config = getOidcConfig()
+  if (!config.enabled) {
+    throw new OidcError('not_configured', 'Single sign-on is not configured')
+  }
+
+  const discovery = await getDiscoveryDocument()
+  const flow: OidcFlowState = {
+    state: base64url(crypto.randomBytes(16)),
+    nonce: base64url(crypto.randomBytes(16)),
+    codeVerifier: base64url(crypto.randomBytes(32)),
+    // Only paths within the app, so the login can't be used to redirect elsewhere
+    returnTo: returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/'
+  }
+
+  const url = new URL(discovery.authorization_endpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', config.clientId)
+  url.searchParams.set('redirect_uri', config.redirectUri)
+  url.searchParams.set('scope', config.scopes)
+  url.searchParams.set('state', flow.state)
+  url.searchParams.set('nonce', flow.nonce)
+  url.searchParams.set('code_challenge', base64url(crypto.createHash('sha256').update(flow.codeVerifier).digest()))
+  url.searchParams.set('code_challenge_method', 'S256')
+
+  const flowCookie = jwt.sign(flow, getJWTSecret(), { expiresIn: OIDC_FLOW_LIFETIME_SECONDS })
+  return { url: url.toString(), flowCookie }
+}
+
+/**
+ * Completes a login: checks the state, exchanges the code and verifies the ID token
+ * @param params - Query parameters of the callback
+ * @param flowCookie - The signed flow state set when the login started
+ * @returns The verified ID token claims and where to return to
+ * @throws OidcError if the state, code or ID token is not valid
+ */
+export async function handleCallback(params: URLSearchParams, flowCookie: string | undefined): Promise<{ claims: jwt.JwtPayload, returnTo: string }> {
+  const config = getOidcConfig()
+  if (!config.enabled) {
+    throw new OidcError('not_configured', 'Single sign-on is not configured')
+  }
+
+  if (params.get('error')) {
+    throw new OidcError('provider_error', `Provider returned ${params.get('error')}: ${params.get('error_description') || ''}`)
+  }
+
+  let flow: OidcFlowState
+  try {
+    flow = jwt.verify(flowCookie || '', getJWTSecret()) as unknown as OidcFlowState
+  } catch (error) {
+    throw new OidcError('invalid_state', 'Login state is missing or has expired')
+  }
+  const code = params.get('code')
+  if (!code || params.get('state') !== flow.state) {
+    throw new OidcError('invalid_state', 'Login state does not match')
+  }
+
+  const discovery = await getDiscoveryDocument()
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: flow.codeVerifier
+  })
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret)
+  }
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  })
+  if (!tokens.id_token) {
+    throw new OidcError('provider_error', 'Token response has no ID token')
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true })
+  if (!decoded || typeof decoded.payload !== 'object') {
+    throw new OidcError('invalid_id_token', 'ID token can not be decoded')
+  }
+
+  let claims: jwt.JwtPayload
+  try {
+    const key = await getSigningKey(decoded.header.kid)
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'],
+      issuer: discovery.issuer,
+      audience: config.clientId
+    }) as jwt.JwtPayload
+  } catch (error) {
+    if (error instanceof OidcError) throw error
+    throw new OidcError('invalid_id_token', error instanceof Error ? error.message : 'ID token verification failed')
+  }
+
+  if (claims.nonce !== flow.nonce || !claims.sub) {
+    throw new OidcError('invalid_id_token', 'ID token nonce or subject is not valid')
+  }
+
+  return { claims, returnTo: flow.returnTo }
+}
+
+/**
+ * Maps the groups in an ID token to roles
+ * @param claims - Verified ID token claims
+ * @returns The user's roles
+ */
+export function rolesFromClaims(claims: jwt.JwtPayload): string[] {
+  const { groupsClaim, roleMapping } = getOidcConfig()
+  const groups = claims[groupsClaim]
+  const groupList: string[] = Array.isArray(groups) ? groups.map(String) : typeof groups === 'string' ? [groups] : []
+
+  const roles = new Set(BASE_ROLES)
+  for (const group of groupList) {
+    for (const role of roleMapping[group] || []) {
+      roles.add(role)
+    }
+  }
+  return Array.from(roles)
+}
+
+/**
+ * Finds the user for an SSO login, creating them on their first login
+ * Profile fields and roles are updated from the claims on every login
+ * @param claims - Verified ID token claims
+ * @returns The user record
+ * @throws OidcError if the user is disabled or can't be created
+ */
+export async function provisionUser(claims: jwt.JwtPayload): Promise<User> {
+  const { usernameClaim } = getOidcConfig()
+  const roles = rolesFromClaims(claims)
+  const email: string | undefined = claims.email || (claims.upn?.includes('@') ? claims.upn : undefined)
+  const profile = {
+    email,
+    first_name: claims.given_name || '',
+    last_name: claims.family_name || '',
+    roles: roles.join(',')
+  }
+
+  const existing = await getUserByExternalId(PROVIDER, claims.sub!)
+  if (existing?.disabled) {
+    throw new OidcError('account_disabled', `SSO user ${existing.username} is disabled`)
+  }
+  if (existing) {
+    const updated = await updateUser(String((existing as any).Id || existing.id), profile)
+    return updated ? { ...existing, ...profile } : existing
+  }
+
+  const username = String(claims[usernameClaim] || email || claims.sub).substring(0, 50)
+  if (await getUserByUsername(username)) {
+    throw new OidcError('username_taken', `Username ${username} already belongs to another account`)
+  }
+
+  // SSO users never log in with a password, so they get one nobody knows
+  const user = await createUser({
+    username,
+    password: crypto.randomBytes(32).toString('hex'),
+    email,
+    first_name: profile.first_name,
+    last_name: profile.last_name,
+    roles,
+    auth_provider: PROVIDER,
+    external_id: claims.sub,
+    email_verified: true
+  })
+  if (!user) {
+    throw new OidcError('provisioning_failed', `Failed to create user ${username}`)
+  }
+
+  console.log(`Provisioned SSO user ${username} with roles ${roles.join(', ')}`)
+  return user
+}
+
+// Whether a user signs in through SSO and so has no password of their own
+export function isSsoUser(user: User): boolean {
+  return user.auth_provider === PROVIDER
+}
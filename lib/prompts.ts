@@ -1,51 +1,13 @@
-import axios from 'axios'
+// Saved system prompts, kept by the configured storage backend (lib/storage)
+import { getStorage } from './storage'
+import type { Prompt } from './storage/types'
 
-// NocoDB configuration
-const NOCODB_API_URL = process.env.NOCODB_API_URL || 'https://nocodb.labbytan.se'
-const NOCODB_API_TOKEN = process.env.NOCODB_API_TOKEN || ''
-const NOCODB_BASE_NAME = process.env.NOCODB_BASE_NAME || 'BergetGPT'
-const PROMPTS_TABLE_NAME = 'prompts'
-
-// Create axios instance with default config
-const nocodb = axios.create({
-  baseURL: `${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}`,
-  headers: {
-    'xc-token': NOCODB_API_TOKEN,
-    'Content-Type': 'application/json'
-  }
-})
-
-// Prompt interface
-export interface Prompt {
-  Id?: number
-  id?: number
-  user_id: number
-  name: string
-  content: string
-  is_default: boolean
-  created_at?: string
-  updated_at?: string
-}
+export type { Prompt } from './storage/types'
 
 // Get all prompts for a user
 export async function getUserPrompts(userId: number): Promise<Prompt[]> {
   try {
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${PROMPTS_TABLE_NAME}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      },
-      params: {
-        where: `(user_id,eq,${userId})`,
-        sort: '-is_default'
-      }
-    })
-    
-    const prompts = (response.data.list || []).map((prompt: any) => ({
-      ...prompt,
-      is_default: Boolean(prompt.is_default)
-    }))
-    return prompts
+    return await getStorage().prompts.listByUser(userId)
   } catch (error) {
     console.error('Error fetching user prompts:', error)
     return []
@@ -55,17 +17,7 @@ export async function getUserPrompts(userId: number): Promise<Prompt[]> {
 // Get default prompt for a user
 export async function getUserDefaultPrompt(userId: number): Promise<Prompt | null> {
   try {
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${PROMPTS_TABLE_NAME}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      },
-      params: {
-        where: `(user_id,eq,${userId})~and(is_default,eq,true)`
-      }
-    })
-    const prompt = response.data.list[0] || null
-    return prompt ? { ...prompt, is_default: Boolean(prompt.is_default) } : null
+    return await getStorage().prompts.findDefault(userId)
   } catch (error) {
     console.error('Error fetching default prompt:', error)
     return null
@@ -75,14 +27,7 @@ export async function getUserDefaultPrompt(userId: number): Promise<Prompt | nul
 // Get prompt by ID
 export async function getPromptById(promptId: number): Promise<Prompt | null> {
   try {
-    const response = await axios.get(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${PROMPTS_TABLE_NAME}/${promptId}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    const prompt = response.data
-    return prompt ? { ...prompt, is_default: Boolean(prompt.is_default) } : null
+    return await getStorage().prompts.findById(promptId)
   } catch (error) {
     console.error('Error fetching prompt by ID:', error)
     return null
@@ -104,14 +49,7 @@ export async function createPrompt(promptData: {
       is_default: promptData.isDefault || false
     }
     
-    const response = await axios.post(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${PROMPTS_TABLE_NAME}`, newPrompt, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    const prompt = response.data
-    return prompt ? { ...prompt, is_default: Boolean(prompt.is_default) } : null
+    return await getStorage().prompts.create(newPrompt)
   } catch (error) {
     console.error('Error creating prompt:', error)
     return null
@@ -121,14 +59,7 @@ export async function createPrompt(promptData: {
 // Update prompt
 export async function updatePrompt(promptId: number, updates: Partial<Prompt>): Promise<Prompt | null> {
   try {
-    const response = await axios.patch(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${PROMPTS_TABLE_NAME}/${promptId}`, updates, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
-    const prompt = response.data
-    return prompt ? { ...prompt, is_default: Boolean(prompt.is_default) } : null
+    return await getStorage().prompts.update(promptId, updates)
   } catch (error) {
     console.error('Error updating prompt:', error)
     return null
@@ -138,12 +69,7 @@ export async function updatePrompt(promptId: number, updates: Partial<Prompt>):
 // Delete prompt
 export async function deletePrompt(promptId: number): Promise<boolean> {
   try {
-    await axios.delete(`${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}/${PROMPTS_TABLE_NAME}/${promptId}`, {
-      headers: {
-        'xc-token': NOCODB_API_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    })
+    await getStorage().prompts.delete(promptId)
     return true
   } catch (error) {
     console.error('Error deleting prompt:', error)
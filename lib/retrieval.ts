@@ -0,0 +1,203 @@
+// Hybrid document retrieval
+// Lexical BM25 scores and embedding similarity are each ranked, then combined with reciprocal
+// rank fusion (RRF). The fused candidates can optionally be re-ranked by a Berget-hosted reranker.
+// Fused results are cut off by vector similarity, re-ranked ones by reranker relevance - the two
+// scores aren't on the same scale, so each has its own threshold.
+// Scoring is pure - embeddings and the reranker are passed in, so it runs without network access.
+// Vectors are only compared when the chunk was embedded with the same model as the query.
+
+import { DocumentChunk, cosineSimilarity } from './document-utils'
+
+export interface RetrievalOptions {
+  topK: number
+  candidatePool: number // Number of fused candidates passed to the reranker
+  minSimilarity: number // Minimum vector similarity of the fused results, for chunks that can be compared with the query
+  minRerankScore: number // Minimum reranker relevance of re-ranked results
+  embeddingModel?: string // Model of the query embedding - chunks embedded with another model are searched lexically only
+  rrfK?: number
+  rerank?: (query: string, documents: string[]) => Promise<number[]>
+}
+
+export interface RetrievalResult {
+  chunk: DocumentChunk
+  score: number // Reranker relevance, or the fused RRF score
+  bm25: number
+  similarity: number | null
+  rerankScore?: number
+}
+
+// Standard BM25 parameters and the RRF constant from the original paper
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const DEFAULT_RRF_K = 60
+
+// Partial credit for a query term found inside a longer word (compounds like "bostadsrättsförening")
+const COMPOUND_MATCH_WEIGHT = 0.5
+const MIN_COMPOUND_PART_LENGTH = 4
+
+// Lowercased words and numbers. Identifiers such as "2023-1234" or "A/12.3" are kept whole
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-/.:][\p{L}\p{N}]+)*/gu) || []
+}
+
+/**
+ * Scores chunks against a query with BM25
+ * @param query - The search query
+ * @param chunks - The chunks to score
+ * @returns One score per chunk, 0 when no query term occurs in it
+ */
+export function bm25Scores(query: string, chunks: DocumentChunk[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  if (queryTerms.length === 0 || chunks.length === 0) {
+    return chunks.map(() => 0)
+  }
+
+  const documents = chunks.map(chunk => {
+    const termCounts = new Map<string, number>()
+    const tokens = tokenize(chunk.content)
+    for (const token of tokens) {
+      termCounts.set(token, (termCounts.get(token) || 0) + 1)
+    }
+    return { termCounts, length: tokens.length }
+  })
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1
+
+  // Weighted term frequency of a query term in a document: exact matches count fully,
+  // compound matches (one word contains the other) count partially
+  const termFrequency = (term: string, termCounts: Map<string, number>) => {
+    let frequency = termCounts.get(term) || 0
+    if (term.length < MIN_COMPOUND_PART_LENGTH) return frequency
+
+    termCounts.forEach((count, docTerm) => {
+      if (docTerm === term || docTerm.length < MIN_COMPOUND_PART_LENGTH) return
+      if (docTerm.includes(term) || term.includes(docTerm)) {
+        frequency += count * COMPOUND_MATCH_WEIGHT
+      }
+    })
+    return frequency
+  }
+
+  const frequencies = queryTerms.map(term => documents.map(doc => termFrequency(term, doc.termCounts)))
+
+  return documents.map((doc, docIndex) => {
+    let score = 0
+    queryTerms.forEach((_, termIndex) => {
+      const frequency = frequencies[termIndex][docIndex]
+      if (frequency === 0) return
+
+      const documentFrequency = frequencies[termIndex].filter(f => f > 0).length
+      const idf = Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5))
+      const lengthNorm = 1 - BM25_B + BM25_B * (doc.length / averageLength)
+      score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm)
+    })
+    return score
+  })
+}
+
+// Whether a chunk's embedding can be compared with a query embedding from the given model
+export function isEmbeddingCompatible(chunk: DocumentChunk, model: string | undefined, dimensions: number): boolean {
+  if (model && chunk.metadata.embeddingModel !== model) return false
+  return chunk.embedding?.length === dimensions
+}
+
+// Ranks (0 = best) of the positive scores, in descending order
+function rankPositive(scores: (number | null)[]): Map<number, number> {
+  const ranks = new Map<number, number>()
+  scores
+    .map((score, index) => ({ score, index }))
+    .filter((item): item is { score: number, index: number } => item.score !== null && item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .forEach((item, rank) => ranks.set(item.index, rank))
+  return ranks
+}
+
+/**
+ * Finds the chunks most relevant to a query using BM25 and vector similarity fused with RRF
+ * @param query - The search query
+ * @param queryEmbedding - Embedding of the query, or null to search lexically only
+ * @param chunks - The candidate chunks
+ * @param options - Result count, score cutoff and optional reranker
+ * @returns The best chunks, most relevant first
+ */
+export async function hybridSearch(
+  query: string,
+  queryEmbedding: number[] | null,
+  chunks: DocumentChunk[],
+  options: RetrievalOptions
+): Promise<RetrievalResult[]> {
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K
+
+  const lexicalScores = bm25Scores(query, chunks)
+  const similarities = chunks.map(chunk =>
+    queryEmbedding && chunk.embedding && isEmbeddingCompatible(chunk, options.embeddingModel, queryEmbedding.length)
+      ? cosineSimilarity(queryEmbedding, chunk.embedding)
+      : null
+  )
+
+  const lexicalRanks = rankPositive(lexicalScores)
+  const vectorRanks = rankPositive(similarities)
+
+  let results: RetrievalResult[] = chunks
+    .map((chunk, index) => {
+      const lexicalRank = lexicalRanks.get(index)
+      const vectorRank = vectorRanks.get(index)
+      const score = (lexicalRank !== undefined ? 1 / (rrfK + lexicalRank + 1) : 0) +
+        (vectorRank !== undefined ? 1 / (rrfK + vectorRank + 1) : 0)
+      return { chunk, score, bm25: lexicalScores[index], similarity: similarities[index] }
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(options.candidatePool, options.topK))
+
+  if (options.rerank && results.length > 0) {
+    try {
+      const rerankScores = await options.rerank(query, results.map(result => result.chunk.content))
+      results = results
+        .map((result, index) => ({ ...result, rerankScore: rerankScores[index] ?? 0, score: rerankScores[index] ?? 0 }))
+        .filter(result => result.rerankScore >= options.minRerankScore)
+        .sort((a, b) => b.score - a.score)
+      return results.slice(0, options.topK)
+    } catch (error) {
+      console.error('Re-ranking failed, using fused ranking:', error)
+    }
+  }
+
+  // A term match doesn't exempt a chunk from the similarity cutoff, or a single common word would
+  // always be returned. Chunks that can't be compared with the query only have their lexical score
+  return results
+    .filter(result => result.similarity === null || result.similarity >= options.minSimilarity)
+    .slice(0, options.topK)
+}
+
+/**
+ * Creates a reranker that calls a Berget-hosted rerank endpoint
+ * @param config - API key, base URL and reranker model
+ * @returns A function returning one relevance score per document, in input order
+ */
+export function createBergetReranker(config: { apiKey: string, baseUrl: string, model: string }) {
+  return async (query: string, documents: string[]): Promise<number[]> => {
+    const response = await fetch(`${config.baseUrl}/rerank`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: JSON.stringify({
+        model: config.model,
+        query,
+        documents
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Rerank API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    const scores = documents.map(() => 0)
+    for (const result of data.results || data.data || []) {
+      scores[result.index] = result.relevance_score ?? result.score ?? 0
+    }
+    return scores
+  }
+}
@@ -0,0 +1,103 @@
+// Refresh token sessions, kept by the configured storage backend (lib/storage)
+import { getStorage } from './storage'
+import type { StoredSession } from './storage/types'
+
+export type { StoredSession } from './storage/types'
+
+// A session is active until it is revoked or its refresh token expires
+export function isSessionActive(session: StoredSession): boolean {
+  return !session.revoked_at && new Date(session.expires_at).getTime() > Date.now()
+}
+
+export async function createStoredSession(sessionData: {
+  userId: number
+  refreshTokenHash: string
+  expiresAt: Date
+  userAgent?: string
+}): Promise<StoredSession | null> {
+  try {
+    const now = new Date().toISOString()
+    return await getStorage().sessions.create({
+      user_id: sessionData.userId,
+      refresh_token_hash: sessionData.refreshTokenHash,
+      expires_at: sessionData.expiresAt.toISOString(),
+      user_agent: sessionData.userAgent?.substring(0, 255),
+      last_used_at: now
+    })
+  } catch (error) {
+    console.error('Error creating session:', error)
+    return null
+  }
+}
+
+export async function getStoredSession(sessionId: number): Promise<StoredSession | null> {
+  try {
+    return await getStorage().sessions.findById(sessionId)
+  } catch (error) {
+    console.error('Error fetching session:', error)
+    return null
+  }
+}
+
+// Replaces the refresh token hash, keeping the old one so concurrent refreshes can be recognised
+export async function rotateStoredSession(sessionId: number, previousTokenHash: string, refreshTokenHash: string, expiresAt: Date): Promise<boolean> {
+  try {
+    const now = new Date().toISOString()
+    await getStorage().sessions.update(sessionId, {
+      refresh_token_hash: refreshTokenHash,
+      previous_token_hash: previousTokenHash,
+      rotated_at: now,
+      expires_at: expiresAt.toISOString(),
+      last_used_at: now
+    })
+    return true
+  } catch (error) {
+    console.error('Error rotating session:', error)
+    return false
+  }
+}
+
+export async function revokeStoredSession(sessionId: number): Promise<boolean> {
+  try {
+    await getStorage().sessions.update(sessionId, {
+      revoked_at: new Date().toISOString()
+    })
+    return true
+  } catch (error) {
+    console.error('Error revoking session:', error)
+    return false
+  }
+}
+
+// Sessions of a user that have not been revoked. Expired ones are included until they are cleaned up
+async function getUnrevokedUserSessions(userId: number): Promise<StoredSession[]> {
+  return getStorage().sessions.listUnrevokedByUser(userId)
+}
+
+export async function getActiveUserSessions(userId: number): Promise<StoredSession[]> {
+  try {
+    const sessions = await getUnrevokedUserSessions(userId)
+    return sessions.filter(isSessionActive)
+  } catch (error) {
+    console.error('Error fetching user sessions:', error)
+    return []
+  }
+}
+
+// Revokes every active session of a user, optionally keeping the one making the request
+export async function revokeUserSessions(userId: number, exceptSessionId?: number): Promise<boolean> {
+  try {
+    const sessions = await getUnrevokedUserSessions(userId)
+
+    const ids = sessions
+      .map(session => session.Id || session.id)
+      .filter((id): id is number => id !== undefined && id !== exceptSessionId)
+
+    await getStorage().sessions.revokeMany(ids, new Date().toISOString())
+    console.log(`Revoked ${ids.length} sessions for user ${userId}`)
+    return true
+  } catch (error) {
+    console.error('Error revoking user sessions:', error)
+    return false
+  }
+}
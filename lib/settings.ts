@@ -0,0 +1,55 @@
+// App-wide settings, kept by the configured storage backend (lib/storage)
+import { getStorage } from './storage'
+import type { AppSetting } from './storage/types'
+
+export type { AppSetting } from './storage/types'
+
+// Settings are read on most chat requests, so they are cached briefly
+const CACHE_TTL_MS = 30 * 1000
+
+const cache = new Map<string, { value: any, fetchedAt: number }>()
+
+async function findSetting(key: string): Promise<AppSetting | null> {
+  return getStorage().settings.findByKey(key)
+}
+
+/**
+ * Gets an app-wide setting changed by admins
+ * @param key - The setting name
+ * @param defaultValue - Returned when the setting is not set or can't be read
+ * @returns The setting's value
+ */
+export async function getSetting<T>(key: string, defaultValue: T): Promise<T> {
+  const cached = cache.get(key)
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.value
+  }
+
+  try {
+    const setting = await findSetting(key)
+    const value = setting ? JSON.parse(setting.value) : defaultValue
+    cache.set(key, { value, fetchedAt: Date.now() })
+    return value
+  } catch (error) {
+    console.error(`Error fetching setting ${key}:`, error)
+    return cached ? cached.value : defaultValue
+  }
+}
+
+/**
+ * Stores an app-wide setting
+ * @param key - The setting name
+ * @param value - Any JSON-serialisable value
+ * @param updatedBy - Username of the admin making the change
+ * @returns True if the setting was stored
+ */
+export async function setSetting(key: string, value: any, updatedBy?: string): Promise<boolean> {
+  try {
+    await getStorage().settings.save({ key, value: JSON.stringify(value), updated_by: updatedBy })
+    cache.set(key, { value, fetchedAt: Date.now() })
+    return true
+  } catch (error) {
+    console.error(`Error storing setting ${key}:`, error)
+    return false
+  }
+}
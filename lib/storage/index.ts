@@ -0,0 +1,27 @@
+// Storage backend selection
+// STORAGE_BACKEND picks NocoDB (the default) or a local SQLite database. Tests and tools can plug
+// in their own backend with setStorage.
+
+import { getStorageConfig } from '../env-validation'
+import { createNocoDBStorage } from './nocodb'
+import { createSQLiteStorage } from './sqlite'
+import { Storage } from './types'
+
+let storage: Storage | null = null
+
+/**
+ * Gets the storage backend, creating it on first use
+ * @returns The configured storage
+ */
+export function getStorage(): Storage {
+  if (!storage) {
+    const { backend, sqlitePath } = getStorageConfig()
+    storage = backend === 'sqlite' ? createSQLiteStorage(sqlitePath) : createNocoDBStorage()
+  }
+  return storage
+}
+
+// Replace the storage backend, or pass null to go back to the configured one
+export function setStorage(custom: Storage | null): void {
+  storage = custom
+}
@@ -0,0 +1,55 @@
+// SQL migrations for the SQLite backend
+// The files in schema/migrations are applied in name order, each of them once. Applied files are
+// recorded in the schema_migrations table. This module is plain CommonJS so that scripts/migrate.js
+// can use it without a build step.
+
+const fs = require('fs')
+const path = require('path')
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'schema', 'migrations')
+
+/**
+ * Lists the migrations and whether each has been applied to a database
+ * @param {import('better-sqlite3').Database} db - The SQLite database
+ * @param {string} [directory] - Where the .sql files are, schema/migrations by default
+ * @returns {{ name: string, applied: boolean }[]} The migrations in the order they are applied
+ */
+function getMigrationStatus(db, directory = MIGRATIONS_DIR) {
+  db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (name VARCHAR(255) PRIMARY KEY, applied_at TIMESTAMP NOT NULL)')
+
+  const applied = new Set(db.prepare('SELECT name FROM schema_migrations').all().map(row => row.name))
+  return fs.readdirSync(directory)
+    .filter(name => name.endsWith('.sql'))
+    .sort()
+    .map(name => ({ name, applied: applied.has(name) }))
+}
+
+/**
+ * Applies the migrations that have not been applied to a database yet
+ * @param {import('better-sqlite3').Database} db - The SQLite database
+ * @param {string} [directory] - Where the .sql files are, schema/migrations by default
+ * @returns {string[]} Names of the migrations applied now
+ * @throws Error if a migration fails; it is rolled back and later ones are not applied
+ */
+function runMigrations(db, directory = MIGRATIONS_DIR) {
+  const pending = getMigrationStatus(db, directory)
+    .filter(migration => !migration.applied)
+    .map(migration => migration.name)
+
+  for (const name of pending) {
+    const sql = fs.readFileSync(path.join(directory, name), 'utf8')
+    try {
+      db.transaction(() => {
+        db.exec(sql)
+        db.prepare('INSERT INTO schema_migrations (name, applied_at) VALUES (?, ?)').run(name, new Date().toISOString())
+      })()
+    } catch (error) {
+      throw new Error(`Migration ${name} failed: ${error.message}`)
+    }
+    console.log(`Applied migration ${name}`)
+  }
+
+  return pending
+}
+
+module.exports = { MIGRATIONS_DIR, getMigrationStatus, runMigrations }
@@ -0,0 +1,29 @@
+// Shared clients for NocoDB's v1 data API
+// The connection is read from the environment when a request is made, so modules using NocoDB can
+// be imported - and the app run with another storage backend - without NocoDB being configured.
+
+import axios, { AxiosInstance } from 'axios'
+import { getNocoDBConfig } from '../env-validation'
+
+function createNocoDBClient(api: 'data' | 'data/bulk'): AxiosInstance {
+  const client = axios.create({
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  })
+
+  client.interceptors.request.use(config => {
+    const { apiUrl, apiToken, baseName } = getNocoDBConfig()
+    config.baseURL = `${apiUrl.replace(/\/$/, '')}/api/v1/db/${api}/v1/${baseName}`
+    config.headers.set('xc-token', apiToken)
+    return config
+  })
+
+  return client
+}
+
+// Single records: /{table}, /{table}/{id}, /{table}/count
+export const nocodb = createNocoDBClient('data')
+
+// Several records in one request: /{table} with an array body
+export const nocodbBulk = createNocoDBClient('data/bulk')
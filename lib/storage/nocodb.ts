@@ -0,0 +1,349 @@
+// NocoDB storage backend
+// Records are read and written through NocoDB's v1 data API; the tables are created in NocoDB
+// from the files in schema/migrations.
+
+import { nocodb, nocodbBulk } from './nocodb-client'
+import { Storage, Prompt } from './types'
+
+const USERS_TABLE = 'users'
+const CONVERSATIONS_TABLE = 'conversations'
+const MESSAGES_TABLE = 'messages'
+const PROMPTS_TABLE = 'prompts'
+const SESSIONS_TABLE = 'sessions'
+const DOCUMENTS_TABLE = 'documents'
+const CHUNKS_TABLE = 'document_chunks'
+const USAGE_TABLE = 'usage'
+const SETTINGS_TABLE = 'app_settings'
+const USED_TOKENS_TABLE = 'used_tokens'
+const THROTTLE_TABLE = 'login_throttle'
+const FAILURES_TABLE = 'login_failures'
+const ATTEMPTS_TABLE = 'login_attempts'
+const INVOCATIONS_TABLE = 'tool_invocations'
+
+// Number of rows written per bulk request
+const BULK_BATCH_SIZE = 100
+
+// Fetch every matching record, page by page
+async function listAll<T>(table: string, params: Record<string, any>): Promise<T[]> {
+  const records: T[] = []
+  let offset = 0
+  while (true) {
+    const response = await nocodb.get(`/${table}`, {
+      params: { ...params, limit: 100, offset }
+    })
+    const page: T[] = response.data.list || []
+    records.push(...page)
+    if (response.data.pageInfo?.isLastPage !== false || page.length === 0) break
+    offset += page.length
+  }
+  return records
+}
+
+async function findFirst<T>(table: string, where: string): Promise<T | null> {
+  const response = await nocodb.get(`/${table}`, {
+    params: { where, limit: 1 }
+  })
+  return response.data.list?.[0] || null
+}
+
+// A (column,eq,value) filter for a text value. NocoDB has no way to escape the characters of its
+// filter syntax, so a value containing them would change the filter and is refused instead
+function eq(column: string, value: string): string {
+  if (/[(),~]/.test(value)) {
+    throw new Error(`Can't filter ${column} by a value containing ( ) , or ~`)
+  }
+  return `(${column},eq,${value})`
+}
+
+// Reading a missing record is a 404 in NocoDB; repositories return null for it
+async function findById<T>(table: string, id: string | number): Promise<T | null> {
+  try {
+    const response = await nocodb.get(`/${table}/${id}`)
+    return response.data || null
+  } catch (error: any) {
+    if (error.response?.status === 404) return null
+    throw error
+  }
+}
+
+// Writes rows with bulk requests of at most BULK_BATCH_SIZE rows
+async function inBatches(rows: any[], write: (batch: any[]) => Promise<unknown>): Promise<void> {
+  for (let i = 0; i < rows.length; i += BULK_BATCH_SIZE) {
+    await write(rows.slice(i, i + BULK_BATCH_SIZE))
+  }
+}
+
+// NocoDB may return booleans as 0/1 depending on the database behind it
+function toPrompt(prompt: any): Prompt {
+  return { ...prompt, is_default: Boolean(prompt.is_default) }
+}
+
+/**
+ * Creates the NocoDB storage backend
+ * @returns Repositories backed by NocoDB tables
+ */
+export function createNocoDBStorage(): Storage {
+  return {
+    name: 'nocodb',
+
+    users: {
+      list: () => listAll(USERS_TABLE, { sort: 'username' }),
+      findById: (id) => findById(USERS_TABLE, id),
+      findByUsername: (username) => findFirst(USERS_TABLE, eq('username', username)),
+      findByEmail: (email) => findFirst(USERS_TABLE, eq('email', email)),
+      findByExternalId: (provider, externalId) =>
+        findFirst(USERS_TABLE, `${eq('auth_provider', provider)}~and${eq('external_id', externalId)}`),
+      create: async (user) => (await nocodb.post(`/${USERS_TABLE}`, user)).data,
+      update: async (id, updates) => (await nocodb.patch(`/${USERS_TABLE}/${id}`, updates)).data,
+      delete: async (id) => {
+        await nocodb.delete(`/${USERS_TABLE}/${id}`)
+      }
+    },
+
+    conversations: {
+      listByUser: async (userId, limit) => {
+        const response = await nocodb.get(`/${CONVERSATIONS_TABLE}`, {
+          params: {
+            where: `(user_id,eq,${userId})`,
+            sort: '-CreatedAt',
+            limit
+          }
+        })
+        return response.data.list || []
+      },
+      countByUser: async (userId) => {
+        const response = await nocodb.get(`/${CONVERSATIONS_TABLE}/count`, {
+          params: {
+            where: `(user_id,eq,${userId})`
+          }
+        })
+        return Number(response.data.count) || 0
+      },
+      findById: (id) => findById(CONVERSATIONS_TABLE, id),
+      create: async (conversation) => (await nocodb.post(`/${CONVERSATIONS_TABLE}`, conversation)).data,
+      update: async (id, updates) => (await nocodb.patch(`/${CONVERSATIONS_TABLE}/${id}`, updates)).data,
+      adjustMessageCount: async (id, delta) => {
+        // NocoDB has no increment, so the count is read and written back
+        const response = await nocodb.get(`/${CONVERSATIONS_TABLE}/${id}`)
+        const messageCount = Math.max((response.data.message_count || 0) + delta, 0)
+        await nocodb.patch(`/${CONVERSATIONS_TABLE}/${id}`, { message_count: messageCount })
+      },
+      delete: async (id) => {
+        await nocodb.delete(`/${CONVERSATIONS_TABLE}/${id}`)
+      }
+    },
+
+    messages: {
+      listByConversation: async (conversationId) => {
+        const response = await nocodb.get(`/${MESSAGES_TABLE}`, {
+          params: {
+            where: `(conversation_id,eq,${conversationId})`,
+            sort: 'timestamp',
+            limit: 1000
+          }
+        })
+        return response.data.list || []
+      },
+      findById: (id) => findById(MESSAGES_TABLE, id),
+      create: async (message) => (await nocodb.post(`/${MESSAGES_TABLE}`, message)).data,
+      update: async (id, updates) => (await nocodb.patch(`/${MESSAGES_TABLE}/${id}`, updates)).data,
+      delete: async (id) => {
+        await nocodb.delete(`/${MESSAGES_TABLE}/${id}`)
+      },
+      deleteByConversation: async (conversationId) => {
+        const messages = await listAll<any>(MESSAGES_TABLE, { where: `(conversation_id,eq,${conversationId})` })
+        const ids = messages.map(message => ({ Id: message.Id || message.id }))
+        if (ids.length > 0) {
+          await nocodbBulk.delete(`/${MESSAGES_TABLE}`, { data: ids })
+        }
+      }
+    },
+
+    prompts: {
+      listByUser: async (userId) => {
+        const response = await nocodb.get(`/${PROMPTS_TABLE}`, {
+          params: {
+            where: `(user_id,eq,${userId})`,
+            sort: '-is_default'
+          }
+        })
+        return (response.data.list || []).map(toPrompt)
+      },
+      findDefault: async (userId) => {
+        const prompt = await findFirst(PROMPTS_TABLE, `(user_id,eq,${userId})~and(is_default,eq,true)`)
+        return prompt ? toPrompt(prompt) : null
+      },
+      findById: async (id) => {
+        const prompt = await findById(PROMPTS_TABLE, id)
+        return prompt ? toPrompt(prompt) : null
+      },
+      create: async (prompt) => toPrompt((await nocodb.post(`/${PROMPTS_TABLE}`, prompt)).data),
+      update: async (id, updates) => toPrompt((await nocodb.patch(`/${PROMPTS_TABLE}/${id}`, updates)).data),
+      delete: async (id) => {
+        await nocodb.delete(`/${PROMPTS_TABLE}/${id}`)
+      }
+    },
+
+    sessions: {
+      create: async (session) => (await nocodb.post(`/${SESSIONS_TABLE}`, session)).data,
+      findById: (id) => findById(SESSIONS_TABLE, id),
+      update: async (id, updates) => {
+        await nocodb.patch(`/${SESSIONS_TABLE}/${id}`, updates)
+      },
+      listUnrevokedByUser: (userId) => listAll(SESSIONS_TABLE, { where: `(user_id,eq,${userId})~and(revoked_at,is,null)` }),
+      revokeMany: async (ids, revokedAt) => {
+        if (ids.length === 0) return
+        await nocodbBulk.patch(`/${SESSIONS_TABLE}`, ids.map(id => ({ Id: id, revoked_at: revokedAt })))
+      }
+    },
+
+    documents: {
+      listByUser: async (userId) => {
+        const response = await nocodb.get(`/${DOCUMENTS_TABLE}`, {
+          params: {
+            where: `(user_id,eq,${userId})`,
+            sort: '-CreatedAt',
+            limit: 1000
+          }
+        })
+        return response.data.list || []
+      },
+      findById: (id) => findById(DOCUMENTS_TABLE, id),
+      create: async (document) => (await nocodb.post(`/${DOCUMENTS_TABLE}`, document)).data,
+      update: async (id, updates) => (await nocodb.patch(`/${DOCUMENTS_TABLE}/${id}`, updates)).data,
+      delete: async (id) => {
+        await nocodb.delete(`/${DOCUMENTS_TABLE}/${id}`)
+      }
+    },
+
+    documentChunks: {
+      createMany: (chunks) => inBatches(chunks, batch => nocodbBulk.post(`/${CHUNKS_TABLE}`, batch)),
+      listByDocument: (documentId) =>
+        listAll(CHUNKS_TABLE, { where: `(document_id,eq,${documentId})`, sort: 'chunk_index' }),
+      listByUser: (userId, documentIds) => {
+        let where = `(user_id,eq,${userId})`
+        if (documentIds && documentIds.length > 0) {
+          where += `~and(document_id,in,${documentIds.join(',')})`
+        }
+        return listAll(CHUNKS_TABLE, { where, sort: 'document_id,chunk_index' })
+      },
+      updateMany: (updates) => inBatches(updates, batch => nocodbBulk.patch(`/${CHUNKS_TABLE}`, batch)),
+      deleteByDocument: async (documentId) => {
+        const chunks = await listAll<any>(CHUNKS_TABLE, { where: `(document_id,eq,${documentId})`, fields: 'Id' })
+        await inBatches(
+          chunks.map(chunk => ({ Id: chunk.Id || chunk.id })),
+          batch => nocodbBulk.delete(`/${CHUNKS_TABLE}`, { data: batch })
+        )
+      }
+    },
+
+    usage: {
+      create: async (record) => {
+        await nocodb.post(`/${USAGE_TABLE}`, record)
+      },
+      listByUser: async (userId, months) => {
+        if (months.length === 0) return []
+        const monthFilter = months.map(month => `(usage_month,eq,${month})`).join('~or')
+        return listAll(USAGE_TABLE, { where: `(user_id,eq,${userId})~and(${monthFilter})` })
+      }
+    },
+
+    settings: {
+      findByKey: (key) => findFirst(SETTINGS_TABLE, eq('key', key)),
+      save: async (setting) => {
+        const existing = await findFirst<any>(SETTINGS_TABLE, eq('key', setting.key))
+        if (existing) {
+          await nocodb.patch(`/${SETTINGS_TABLE}/${existing.Id || existing.id}`, setting)
+        } else {
+          await nocodb.post(`/${SETTINGS_TABLE}`, setting)
+        }
+      }
+    },
+
+    usedTokens: {
+      exists: async (jti) => (await findFirst(USED_TOKENS_TABLE, eq('jti', jti))) !== null,
+      create: async (token) => {
+        await nocodb.post(`/${USED_TOKENS_TABLE}`, token)
+      }
+    },
+
+    loginThrottle: {
+      findByKey: (key) => findFirst(THROTTLE_TABLE, eq('throttle_key', key)),
+      save: async (throttle) => {
+        const existing = await findFirst<any>(THROTTLE_TABLE, eq('throttle_key', throttle.throttle_key))
+        if (existing) {
+          await nocodb.patch(`/${THROTTLE_TABLE}/${existing.Id || existing.id}`, throttle)
+        } else {
+          await nocodb.post(`/${THROTTLE_TABLE}`, throttle)
+        }
+      },
+      // NocoDB has no increment, so each failure is a row of its own and the rows are counted
+      addFailure: async (key, failedAt, since) => {
+        await nocodb.post(`/${FAILURES_TABLE}`, { throttle_key: key, failed_at: failedAt })
+        const expired = await listAll<any>(FAILURES_TABLE, { where: `${eq('throttle_key', key)}~and(failed_at,le,${since})` })
+        if (expired.length > 0) {
+          await inBatches(expired.map(row => ({ Id: row.Id || row.id })), batch => nocodbBulk.delete(`/${FAILURES_TABLE}`, { data: batch }))
+        }
+        const response = await nocodb.get(`/${FAILURES_TABLE}/count`, {
+          params: { where: `${eq('throttle_key', key)}~and(failed_at,gt,${since})` }
+        })
+        return Number(response.data.count) || 0
+      },
+      countFailures: async (key, since) => {
+        const response = await nocodb.get(`/${FAILURES_TABLE}`, {
+          params: { where: `${eq('throttle_key', key)}~and(failed_at,gt,${since})`, sort: '-failed_at', limit: 1 }
+        })
+        return {
+          count: Number(response.data.pageInfo?.totalRows) || 0,
+          lastFailureAt: response.data.list?.[0] ? Number(response.data.list[0].failed_at) : null
+        }
+      },
+      deleteByKey: async (key) => {
+        const existing = await findFirst<any>(THROTTLE_TABLE, eq('throttle_key', key))
+        if (existing) {
+          await nocodb.delete(`/${THROTTLE_TABLE}/${existing.Id || existing.id}`)
+        }
+        const failures = await listAll<any>(FAILURES_TABLE, { where: eq('throttle_key', key) })
+        if (failures.length > 0) {
+          await inBatches(failures.map(row => ({ Id: row.Id || row.id })), batch => nocodbBulk.delete(`/${FAILURES_TABLE}`, { data: batch }))
+        }
+      }
+    },
+
+    loginAttempts: {
+      create: async (attempt) => {
+        await nocodb.post(`/${ATTEMPTS_TABLE}`, attempt)
+      },
+      list: async ({ username, limit }) => {
+        const response = await nocodb.get(`/${ATTEMPTS_TABLE}`, {
+          params: {
+            where: username ? eq('username', username) : undefined,
+            sort: '-created_at',
+            limit
+          }
+        })
+        return response.data.list || []
+      }
+    },
+
+    toolInvocations: {
+      create: async (invocation) => {
+        await nocodb.post(`/${INVOCATIONS_TABLE}`, invocation)
+      },
+      list: async ({ username, tool, limit }) => {
+        const conditions = [
+          username ? eq('username', username) : '',
+          tool ? eq('tool', tool) : ''
+        ].filter(Boolean)
+        const response = await nocodb.get(`/${INVOCATIONS_TABLE}`, {
+          params: {
+            where: conditions.length > 0 ? conditions.join('~and') : undefined,
+            sort: '-created_at',
+            limit
+          }
+        })
+        return response.data.list || []
+      }
+    }
+  }
+}
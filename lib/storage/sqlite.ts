@@ -0,0 +1,300 @@
+// SQLite storage backend
+// Keeps everything in a local database file so that development and tests run without NocoDB.
+// The database is created on first use and brought up to date with the files in schema/migrations.
+
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { runMigrations } from './migrations'
+import { Storage, RecordId } from './types'
+
+// Typed access to one table. Rows are returned the way NocoDB returns records: with Id, CreatedAt
+// and UpdatedAt next to the columns, and boolean columns as booleans rather than 0/1
+function createTable<T>(db: Database.Database, name: string, booleanColumns: string[] = []) {
+  const columns = new Set((db.prepare(`PRAGMA table_info(${name})`).all() as any[]).map(column => column.name))
+
+  const toRecord = (row: any): T | null => {
+    if (!row) return null
+    const record = { ...row, Id: row.id, CreatedAt: row.created_at, UpdatedAt: row.updated_at }
+    for (const column of booleanColumns) {
+      if (row[column] !== null && row[column] !== undefined) {
+        record[column] = Boolean(row[column])
+      }
+    }
+    return record
+  }
+
+  // Only the table's own columns are written, so NocoDB fields like Id and unknown keys are dropped
+  const toRow = (data: Record<string, any>) => {
+    const row: Record<string, any> = {}
+    for (const [key, value] of Object.entries(data)) {
+      if (!columns.has(key) || key === 'id' || value === undefined) continue
+      row[key] = typeof value === 'boolean' ? (value ? 1 : 0) : value instanceof Date ? value.toISOString() : value
+    }
+    return row
+  }
+
+  const get = (id: RecordId) => toRecord(db.prepare(`SELECT * FROM ${name} WHERE id = ?`).get(id))
+
+  return {
+    get,
+    first: (where: string, ...params: any[]) =>
+      toRecord(db.prepare(`SELECT * FROM ${name} WHERE ${where} LIMIT 1`).get(...params)),
+    all: (clause: string, ...params: any[]) =>
+      db.prepare(`SELECT * FROM ${name} ${clause}`).all(...params).map(row => toRecord(row) as T),
+    count: (where: string, ...params: any[]) =>
+      (db.prepare(`SELECT COUNT(*) AS count FROM ${name} WHERE ${where}`).get(...params) as any).count as number,
+    insert: (data: Record<string, any>): T => {
+      const now = new Date().toISOString()
+      const row = toRow({ created_at: now, updated_at: now, ...data })
+      const keys = Object.keys(row)
+      const result = db.prepare(
+        `INSERT INTO ${name} (${keys.join(', ')}) VALUES (${keys.map(key => `@${key}`).join(', ')})`
+      ).run(row)
+      return get(Number(result.lastInsertRowid))!
+    },
+    update: (id: RecordId, data: Record<string, any>): T => {
+      const row = toRow({ ...data, updated_at: new Date().toISOString() })
+      const keys = Object.keys(row)
+      if (keys.length > 0) {
+        db.prepare(`UPDATE ${name} SET ${keys.map(key => `${key} = @${key}`).join(', ')} WHERE id = @id`).run({ ...row, id })
+      }
+      const record = get(id)
+      if (!record) {
+        throw new Error(`No record ${id} in ${name}`)
+      }
+      return record
+    },
+    delete: (id: RecordId) => {
+      db.prepare(`DELETE FROM ${name} WHERE id = ?`).run(id)
+    }
+  }
+}
+
+/**
+ * Opens (and if needed creates and migrates) a SQLite database
+ * @param file - Path of the database file, or ':memory:'
+ * @returns The open database
+ */
+export function openSQLiteDatabase(file: string): Database.Database {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true })
+  }
+  const db = new Database(file)
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+  runMigrations(db)
+  return db
+}
+
+/**
+ * Creates the SQLite storage backend
+ * @param file - Path of the database file, or ':memory:' for a throwaway database
+ * @returns Repositories backed by SQLite tables
+ */
+export function createSQLiteStorage(file: string): Storage {
+  const db = openSQLiteDatabase(file)
+  console.log(`Using SQLite storage at ${file}`)
+
+  const users = createTable<any>(db, 'users', ['email_verified', 'is_admin', 'disabled'])
+  const conversations = createTable<any>(db, 'conversations', ['is_archived'])
+  const messages = createTable<any>(db, 'messages')
+  const prompts = createTable<any>(db, 'prompts', ['is_default'])
+  const sessions = createTable<any>(db, 'sessions')
+  const documents = createTable<any>(db, 'documents')
+  const documentChunks = createTable<any>(db, 'document_chunks')
+  const usage = createTable<any>(db, 'usage')
+  const settings = createTable<any>(db, 'app_settings')
+  const usedTokens = createTable<any>(db, 'used_tokens')
+  const loginThrottle = createTable<any>(db, 'login_throttle')
+  const loginFailures = createTable<any>(db, 'login_failures')
+  const loginAttempts = createTable<any>(db, 'login_attempts')
+  const toolInvocations = createTable<any>(db, 'tool_invocations')
+
+  // Placeholders for an IN (...) list
+  const placeholders = (values: any[]) => values.map(() => '?').join(', ')
+
+  return {
+    name: 'sqlite',
+
+    users: {
+      list: async () => users.all('ORDER BY username'),
+      findById: async (id) => users.get(id),
+      findByUsername: async (username) => users.first('username = ?', username),
+      findByEmail: async (email) => users.first('email = ?', email),
+      findByExternalId: async (provider, externalId) =>
+        users.first('auth_provider = ? AND external_id = ?', provider, externalId),
+      create: async (user) => users.insert(user),
+      update: async (id, updates) => users.update(id, updates),
+      delete: async (id) => users.delete(id)
+    },
+
+    conversations: {
+      listByUser: async (userId, limit) =>
+        conversations.all('WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?', userId, limit),
+      countByUser: async (userId) => conversations.count('user_id = ?', userId),
+      findById: async (id) => conversations.get(id),
+      create: async (conversation) => conversations.insert(conversation),
+      update: async (id, updates) => conversations.update(id, updates),
+      adjustMessageCount: async (id, delta) => {
+        db.prepare('UPDATE conversations SET message_count = MAX(COALESCE(message_count, 0) + ?, 0) WHERE id = ?').run(delta, id)
+      },
+      delete: async (id) => conversations.delete(id)
+    },
+
+    messages: {
+      listByConversation: async (conversationId) =>
+        messages.all('WHERE conversation_id = ? ORDER BY timestamp, id', conversationId),
+      findById: async (id) => messages.get(id),
+      create: async (message) => messages.insert(message),
+      update: async (id, updates) => messages.update(id, updates),
+      delete: async (id) => messages.delete(id),
+      deleteByConversation: async (conversationId) => {
+        db.prepare('DELETE FROM messages WHERE conversation_id = ?').run(conversationId)
+      }
+    },
+
+    prompts: {
+      listByUser: async (userId) => prompts.all('WHERE user_id = ? ORDER BY is_default DESC, id', userId),
+      findDefault: async (userId) => prompts.first('user_id = ? AND is_default = 1', userId),
+      findById: async (id) => prompts.get(id),
+      create: async (prompt) => prompts.insert(prompt),
+      update: async (id, updates) => prompts.update(id, updates),
+      delete: async (id) => prompts.delete(id)
+    },
+
+    sessions: {
+      create: async (session) => sessions.insert(session),
+      findById: async (id) => sessions.get(id),
+      update: async (id, updates) => {
+        sessions.update(id, updates)
+      },
+      listUnrevokedByUser: async (userId) => sessions.all('WHERE user_id = ? AND revoked_at IS NULL', userId),
+      revokeMany: async (ids, revokedAt) => {
+        const revoke = db.prepare('UPDATE sessions SET revoked_at = ? WHERE id = ?')
+        db.transaction(() => {
+          for (const id of ids) revoke.run(revokedAt, id)
+        })()
+      }
+    },
+
+    documents: {
+      listByUser: async (userId) => documents.all('WHERE user_id = ? ORDER BY created_at DESC, id DESC', userId),
+      findById: async (id) => documents.get(id),
+      create: async (document) => documents.insert(document),
+      update: async (id, updates) => documents.update(id, updates),
+      delete: async (id) => documents.delete(id)
+    },
+
+    documentChunks: {
+      createMany: async (chunks) => {
+        db.transaction(() => {
+          for (const chunk of chunks) documentChunks.insert(chunk)
+        })()
+      },
+      listByDocument: async (documentId) =>
+        documentChunks.all('WHERE document_id = ? ORDER BY chunk_index', documentId),
+      listByUser: async (userId, documentIds) => {
+        if (documentIds && documentIds.length > 0) {
+          return documentChunks.all(
+            `WHERE user_id = ? AND document_id IN (${placeholders(documentIds)}) ORDER BY document_id, chunk_index`,
+            userId, ...documentIds
+          )
+        }
+        return documentChunks.all('WHERE user_id = ? ORDER BY document_id, chunk_index', userId)
+      },
+      updateMany: async (updates) => {
+        db.transaction(() => {
+          for (const { Id, ...chunk } of updates) documentChunks.update(Id, chunk)
+        })()
+      },
+      deleteByDocument: async (documentId) => {
+        db.prepare('DELETE FROM document_chunks WHERE document_id = ?').run(documentId)
+      }
+    },
+
+    usage: {
+      create: async (record) => {
+        usage.insert(record)
+      },
+      listByUser: async (userId, months) => {
+        if (months.length === 0) return []
+        return usage.all(`WHERE user_id = ? AND usage_month IN (${placeholders(months)})`, userId, ...months)
+      }
+    },
+
+    settings: {
+      findByKey: async (key) => settings.first('key = ?', key),
+      save: async (setting) => {
+        const existing = settings.first('key = ?', setting.key)
+        if (existing) {
+          settings.update(existing.id, setting)
+        } else {
+          settings.insert(setting)
+        }
+      }
+    },
+
+    usedTokens: {
+      exists: async (jti) => usedTokens.count('jti = ?', jti) > 0,
+      create: async (token) => {
+        usedTokens.insert(token)
+      }
+    },
+
+    loginThrottle: {
+      findByKey: async (key) => loginThrottle.first('throttle_key = ?', key),
+      save: async (throttle) => {
+        const existing = loginThrottle.first('throttle_key = ?', throttle.throttle_key)
+        if (existing) {
+          loginThrottle.update(existing.id, throttle)
+        } else {
+          loginThrottle.insert(throttle)
+        }
+      },
+      addFailure: async (key, failedAt, since) => {
+        loginFailures.insert({ throttle_key: key, failed_at: failedAt })
+        db.prepare('DELETE FROM login_failures WHERE throttle_key = ? AND failed_at <= ?').run(key, since)
+        return loginFailures.count('throttle_key = ? AND failed_at > ?', key, since)
+      },
+      countFailures: async (key, since) => {
+        const row = db.prepare('SELECT COUNT(*) AS count, MAX(failed_at) AS last FROM login_failures WHERE throttle_key = ? AND failed_at > ?')
+          .get(key, since) as any
+        return { count: row.count, lastFailureAt: row.last }
+      },
+      deleteByKey: async (key) => {
+        db.prepare('DELETE FROM login_throttle WHERE throttle_key = ?').run(key)
+        db.prepare('DELETE FROM login_failures WHERE throttle_key = ?').run(key)
+      }
+    },
+
+    loginAttempts: {
+      create: async (attempt) => {
+        loginAttempts.insert(attempt)
+      },
+      list: async ({ username, limit }) => username
+        ? loginAttempts.all('WHERE username = ? ORDER BY created_at DESC, id DESC LIMIT ?', username, limit)
+        : loginAttempts.all('ORDER BY created_at DESC, id DESC LIMIT ?', limit)
+    },
+
+    toolInvocations: {
+      create: async (invocation) => {
+        toolInvocations.insert(invocation)
+      },
+      list: async ({ username, tool, limit }) => {
+        const conditions: string[] = []
+        const params: any[] = []
+        if (username) {
+          conditions.push('username = ?')
+          params.push(username)
+        }
+        if (tool) {
+          conditions.push('tool = ?')
+          params.push(tool)
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+        return toolInvocations.all(`${where} ORDER BY created_at DESC, id DESC LIMIT ?`, ...params, limit)
+      }
+    }
+  }
+}
@@ -0,0 +1,286 @@
+// Storage repositories
+// Records are shaped like NocoDB returns them - the primary key as Id and timestamps as
+// CreatedAt/UpdatedAt - whichever backend stores them. Repository methods throw on failure;
+// the modules using them (lib/nocodb.ts, lib/chat-history.ts, ...) decide how to recover.
+
+export interface User {
+  id?: string
+  username: string
+  password_hash?: string
+  email?: string
+  first_name?: string
+  last_name?: string
+  system_prompt?: string
+  theme?: string
+  language?: string
+  email_verified?: boolean // False until a self-registered user follows the verification link
+  roles?: string // Comma-separated, e.g. "user,admin"
+  auth_provider?: string // 'local' for password accounts, 'oidc' for single sign-on
+  external_id?: string | null // Subject of the user at the SSO provider
+  is_admin?: boolean // Grants the admin role and access to /admin
+  disabled?: boolean // Disabled users can't log in
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export interface Conversation {
+  Id?: number
+  id?: number
+  user_id: number
+  title: string
+  model_used?: string
+  prompt_used?: string
+  message_count: number
+  is_archived: boolean
+  document_ids?: string // JSON array of attached document library IDs
+  CreatedAt?: string
+  UpdatedAt?: string
+}
+
+export interface ChatMessage {
+  Id?: number
+  id?: number
+  conversation_id: number
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  model_used?: string
+  prompt_used?: string
+  metadata?: string // JSON string for function calls, files, etc.
+  timestamp: string
+  CreatedAt?: string
+  UpdatedAt?: string
+}
+
+export interface Prompt {
+  Id?: number
+  id?: number
+  user_id: number
+  name: string
+  content: string
+  is_default: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export interface StoredSession {
+  Id?: number
+  id?: number
+  user_id: number
+  refresh_token_hash: string
+  previous_token_hash?: string | null
+  rotated_at?: string | null
+  expires_at: string
+  revoked_at?: string | null
+  user_agent?: string
+  last_used_at?: string
+  CreatedAt?: string
+}
+
+export interface Document {
+  Id?: number
+  id?: number
+  user_id: number
+  filename: string
+  file_type: string
+  size: number
+  chunk_count: number
+  embedding_model?: string // Model used for the document's chunk embeddings
+  CreatedAt?: string
+  UpdatedAt?: string
+}
+
+export interface StoredDocumentChunk {
+  Id?: number
+  id?: number
+  document_id: number
+  user_id: number
+  chunk_index: number
+  content: string
+  embedding: string // JSON array of numbers
+  embedding_model?: string
+  embedding_dimensions?: number
+  metadata: string // JSON string of DocumentChunk metadata
+}
+
+export type UsageKind = 'chat' | 'title' | 'embedding' | 'transcription'
+
+export interface UsageRecord {
+  Id?: number
+  id?: number
+  user_id: number
+  kind: UsageKind
+  model: string
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+  audio_seconds: number
+  usage_day: string // YYYY-MM-DD
+  usage_month: string // YYYY-MM
+  CreatedAt?: string
+}
+
+export interface AppSetting {
+  Id?: number
+  id?: number
+  key: string
+  value: string // JSON
+  updated_by?: string
+  UpdatedAt?: string
+}
+
+// A single-use account token that has been consumed
+export interface UsedToken {
+  jti: string
+  purpose: string
+  expires_at: string
+  used_at: string
+}
+
+// Lock of one throttle key (a username or an IP address), with the failures that caused it
+export interface StoredLoginThrottle {
+  Id?: number
+  id?: number
+  throttle_key: string
+  failures: number
+  last_failure_at: string
+  locked_until: string | null
+  expires_at: string
+}
+
+export interface StoredLoginAttempt {
+  username: string
+  ip_address: string
+  user_agent?: string
+  reason: string
+  created_at: string
+}
+
+// A tool call made by the chat agent or through /api/mcp
+export interface StoredToolInvocation {
+  user_id: number
+  username: string
+  tool: string
+  arguments: string // JSON, cut off when long
+  decision: string
+  duration_ms: number | null
+  error: string | null
+  created_at: string
+}
+
+export type RecordId = number | string
+
+export interface UserRepository {
+  list: () => Promise<User[]> // Sorted by username
+  findById: (id: RecordId) => Promise<User | null>
+  findByUsername: (username: string) => Promise<User | null>
+  findByEmail: (email: string) => Promise<User | null>
+  findByExternalId: (provider: string, externalId: string) => Promise<User | null>
+  create: (user: Omit<User, 'id'>) => Promise<User>
+  update: (id: RecordId, updates: Partial<User>) => Promise<User>
+  delete: (id: RecordId) => Promise<void>
+}
+
+export interface ConversationRepository {
+  listByUser: (userId: number, limit: number) => Promise<Conversation[]> // Newest first
+  countByUser: (userId: number) => Promise<number>
+  findById: (id: RecordId) => Promise<Conversation | null>
+  create: (conversation: Omit<Conversation, 'Id' | 'id'>) => Promise<Conversation>
+  update: (id: RecordId, updates: Partial<Conversation>) => Promise<Conversation>
+  adjustMessageCount: (id: RecordId, delta: number) => Promise<void> // Never below zero
+  delete: (id: RecordId) => Promise<void>
+}
+
+export interface MessageRepository {
+  listByConversation: (conversationId: number) => Promise<ChatMessage[]> // Oldest first
+  findById: (id: RecordId) => Promise<ChatMessage | null>
+  create: (message: Omit<ChatMessage, 'Id' | 'id'>) => Promise<ChatMessage>
+  update: (id: RecordId, updates: Partial<ChatMessage>) => Promise<ChatMessage>
+  delete: (id: RecordId) => Promise<void>
+  deleteByConversation: (conversationId: number) => Promise<void>
+}
+
+export interface PromptRepository {
+  listByUser: (userId: number) => Promise<Prompt[]> // The default prompt first
+  findDefault: (userId: number) => Promise<Prompt | null>
+  findById: (id: RecordId) => Promise<Prompt | null>
+  create: (prompt: Omit<Prompt, 'Id' | 'id'>) => Promise<Prompt>
+  update: (id: RecordId, updates: Partial<Prompt>) => Promise<Prompt>
+  delete: (id: RecordId) => Promise<void>
+}
+
+export interface SessionRepository {
+  create: (session: Omit<StoredSession, 'Id' | 'id'>) => Promise<StoredSession>
+  findById: (id: RecordId) => Promise<StoredSession | null>
+  update: (id: RecordId, updates: Partial<StoredSession>) => Promise<void>
+  listUnrevokedByUser: (userId: number) => Promise<StoredSession[]>
+  revokeMany: (ids: number[], revokedAt: string) => Promise<void>
+}
+
+export interface DocumentRepository {
+  listByUser: (userId: number) => Promise<Document[]> // Newest first
+  findById: (id: RecordId) => Promise<Document | null>
+  create: (document: Omit<Document, 'Id' | 'id'>) => Promise<Document>
+  update: (id: RecordId, updates: Partial<Document>) => Promise<Document>
+  delete: (id: RecordId) => Promise<void>
+}
+
+export interface DocumentChunkRepository {
+  createMany: (chunks: Omit<StoredDocumentChunk, 'Id' | 'id'>[]) => Promise<void>
+  listByDocument: (documentId: number) => Promise<StoredDocumentChunk[]> // In chunk order
+  // Chunks of a user's documents, or of the given ones among them, by document and chunk order
+  listByUser: (userId: number, documentIds?: number[]) => Promise<StoredDocumentChunk[]>
+  updateMany: (updates: ({ Id: number } & Partial<StoredDocumentChunk>)[]) => Promise<void>
+  deleteByDocument: (documentId: number) => Promise<void>
+}
+
+export interface UsageRepository {
+  create: (record: Omit<UsageRecord, 'Id' | 'id'>) => Promise<void>
+  listByUser: (userId: number, months: string[]) => Promise<UsageRecord[]>
+}
+
+export interface SettingRepository {
+  findByKey: (key: string) => Promise<AppSetting | null>
+  save: (setting: Omit<AppSetting, 'Id' | 'id'>) => Promise<void> // Creates or replaces by key
+}
+
+export interface UsedTokenRepository {
+  exists: (jti: string) => Promise<boolean>
+  create: (token: UsedToken) => Promise<void>
+}
+
+export interface LoginThrottleRepository {
+  findByKey: (key: string) => Promise<StoredLoginThrottle | null>
+  save: (throttle: Omit<StoredLoginThrottle, 'Id' | 'id'>) => Promise<void> // Creates or replaces by key
+  // Records a failure and returns how many the key has had after `since`, this one included. Times are
+  // epoch milliseconds. Adding a row is atomic, so concurrent failures are all counted
+  addFailure: (key: string, failedAt: number, since: number) => Promise<number>
+  countFailures: (key: string, since: number) => Promise<{ count: number, lastFailureAt: number | null }>
+  deleteByKey: (key: string) => Promise<void> // The lock and the failures
+}
+
+export interface LoginAttemptRepository {
+  create: (attempt: StoredLoginAttempt) => Promise<void>
+  list: (filter: { username?: string, limit: number }) => Promise<StoredLoginAttempt[]> // Newest first
+}
+
+export interface ToolInvocationRepository {
+  create: (invocation: StoredToolInvocation) => Promise<void>
+  list: (filter: { username?: string, tool?: string, limit: number }) => Promise<StoredToolInvocation[]> // Newest first
+}
+
+export interface Storage {
+  name: string
+  users: UserRepository
+  conversations: ConversationRepository
+  messages: MessageRepository
+  prompts: PromptRepository
+  sessions: SessionRepository
+  documents: DocumentRepository
+  documentChunks: DocumentChunkRepository
+  usage: UsageRepository
+  settings: SettingRepository
+  usedTokens: UsedTokenRepository
+  loginThrottle: LoginThrottleRepository
+  loginAttempts: LoginAttemptRepository
+  toolInvocations: ToolInvocationRepository
+}
@@ -0,0 +1,73 @@
+// Approvals of tool calls
+// When a policy requires approval, the chat stream waits here until the user approves or rejects
+// the call from the chat (POST /api/chat/approvals/<id>), the wait times out or the chat is closed.
+// Pending approvals live in this process, so the decision has to reach the same server instance
+// that is streaming the answer.
+
+import crypto from 'crypto'
+
+export type ApprovalOutcome = 'approved' | 'rejected' | 'expired' | 'cancelled'
+
+interface PendingApproval {
+  userId: number
+  tool: string
+  settle: (outcome: ApprovalOutcome) => void
+}
+
+const pendingApprovals = new Map<string, PendingApproval>()
+
+/**
+ * Starts waiting for the user to approve a tool call
+ * @param userId - The user who has to decide
+ * @param tool - The tool to be called
+ * @param timeoutMs - How long to wait before giving up
+ * @param signal - Aborted when the chat stream is closed
+ * @returns The approval ID to send to the client, and the outcome once it's known
+ */
+export function requestToolApproval(
+  userId: number,
+  tool: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): { id: string, outcome: Promise<ApprovalOutcome> } {
+  const id = crypto.randomUUID()
+
+  const outcome = new Promise<ApprovalOutcome>(resolve => {
+    const onAbort = () => settle('cancelled')
+    const timer = setTimeout(() => settle('expired'), timeoutMs)
+
+    const settle = (result: ApprovalOutcome) => {
+      if (!pendingApprovals.has(id)) return
+      pendingApprovals.delete(id)
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+      resolve(result)
+    }
+
+    pendingApprovals.set(id, { userId, tool, settle })
+    if (signal?.aborted) {
+      settle('cancelled')
+    } else {
+      signal?.addEventListener('abort', onAbort)
+    }
+  })
+
+  return { id, outcome }
+}
+
+/**
+ * Records the user's decision on a pending tool call
+ * @param id - The approval ID
+ * @param userId - The user deciding; only the user the call was made for may decide
+ * @param approved - Whether the tool may run
+ * @returns False if there is no such pending approval for the user
+ */
+export function resolveToolApproval(id: string, userId: number, approved: boolean): boolean {
+  const pending = pendingApprovals.get(id)
+  if (!pending || pending.userId !== userId) {
+    return false
+  }
+  console.log(`User ${userId} ${approved ? 'approved' : 'rejected'} tool call ${pending.tool}`)
+  pending.settle(approved ? 'approved' : 'rejected')
+  return true
+}
@@ -0,0 +1,235 @@
+// MCP tool permissions and the tool invocation log
+// Admins decide per tool whether it is allowed, denied or needs the user's approval before it
+// runs, for everyone, for a role or for a single user. Policies are stored as an app setting.
+// A server's resources and prompts are kept from users the policies deny the whole server to.
+// Every tool call made by the chat agent - MCP tools and built-in functions - is written to the
+// tool_invocations table together with the decision and how the call went.
+
+import { getStorage } from './storage'
+import { getSetting, setSetting } from './settings'
+import { Session } from './auth'
+
+const TOOL_POLICIES_SETTING = 'mcp_tool_policies'
+
+// Arguments are cut to this many characters in the log
+const MAX_LOGGED_ARGUMENTS_LENGTH = 4000
+
+export type ToolAction = 'allow' | 'deny' | 'approve'
+
+export type ToolPolicySubject = 'everyone' | 'role' | 'user'
+
+// One rule. tool is a namespaced MCP tool name (mcp_<server>__<tool>), a prefix ending in *
+// such as mcp_<server>__* for every tool of a server, or * for all MCP tools
+export interface ToolPolicyRule {
+  tool: string
+  subjectType: ToolPolicySubject
+  subject?: string // Role name or username; not used for everyone
+  action: ToolAction
+}
+
+export interface ToolPolicies {
+  defaultAction: ToolAction // For tools no rule matches
+  rules: ToolPolicyRule[]
+}
+
+// How a tool call was decided: by policy (allowed, denied) or by the user (approved, rejected),
+// or it was never decided because nobody answered (expired) or the chat was closed (cancelled)
+export type ToolDecision = 'allowed' | 'denied' | 'approved' | 'rejected' | 'expired' | 'cancelled'
+
+export interface ToolInvocation {
+  userId: number
+  username: string
+  tool: string
+  arguments: any
+  decision: ToolDecision
+  durationMs?: number // Only for calls that ran
+  error?: string
+  createdAt: string
+}
+
+const DEFAULT_POLICIES: ToolPolicies = { defaultAction: 'allow', rules: [] }
+
+const ACTIONS: ToolAction[] = ['allow', 'deny', 'approve']
+const SUBJECTS: ToolPolicySubject[] = ['everyone', 'role', 'user']
+
+// When rules are equally specific, the most restrictive one wins
+const RESTRICTIVENESS: Record<ToolAction, number> = { allow: 0, approve: 1, deny: 2 }
+const SUBJECT_PRIORITY: Record<ToolPolicySubject, number> = { everyone: 0, role: 1, user: 2 }
+
+// Get the tool policies set by admins
+export async function getToolPolicies(): Promise<ToolPolicies> {
+  const policies = await getSetting<ToolPolicies>(TOOL_POLICIES_SETTING, DEFAULT_POLICIES)
+  return {
+    defaultAction: ACTIONS.includes(policies?.defaultAction) ? policies.defaultAction : 'allow',
+    rules: Array.isArray(policies?.rules) ? policies.rules : []
+  }
+}
+
+/**
+ * Checks tool policies sent from the admin console
+ * @param input - The policies as received
+ * @returns The cleaned up policies, or the first problem found
+ */
+export function validateToolPolicies(input: any): { policies: ToolPolicies } | { error: string } {
+  if (!input || !ACTIONS.includes(input.defaultAction) || !Array.isArray(input.rules)) {
+    return { error: 'defaultAction and rules are required' }
+  }
+
+  const rules: ToolPolicyRule[] = []
+  for (const [index, rule] of input.rules.entries()) {
+    const tool = typeof rule?.tool === 'string' ? rule.tool.trim() : ''
+    const subject = typeof rule?.subject === 'string' ? rule.subject.trim() : ''
+    if (!tool) {
+      return { error: `Rule ${index + 1}: tool is required` }
+    }
+    if (!SUBJECTS.includes(rule.subjectType)) {
+      return { error: `Rule ${index + 1}: subjectType must be everyone, role or user` }
+    }
+    if (rule.subjectType !== 'everyone' && !subject) {
+      return { error: `Rule ${index + 1}: a ${rule.subjectType} is required` }
+    }
+    if (!ACTIONS.includes(rule.action)) {
+      return { error: `Rule ${index + 1}: action must be allow, deny or approve` }
+    }
+    rules.push({
+      tool,
+      subjectType: rule.subjectType,
+      ...(rule.subjectType !== 'everyone' ? { subject } : {}),
+      action: rule.action
+    })
+  }
+
+  return { policies: { defaultAction: input.defaultAction, rules } }
+}
+
+/**
+ * Stores the tool policies
+ * @param policies - Validated policies
+ * @param updatedBy - Username of the admin making the change
+ * @returns True if the policies were stored
+ */
+export async function setToolPolicies(policies: ToolPolicies, updatedBy?: string): Promise<boolean> {
+  return setSetting(TOOL_POLICIES_SETTING, policies, updatedBy)
+}
+
+// How closely a rule's tool pattern matches a tool: exact names beat prefixes, longer prefixes
+// beat shorter ones. -1 if it doesn't match
+function toolSpecificity(pattern: string, toolName: string): number {
+  if (pattern === toolName) return Number.MAX_SAFE_INTEGER
+  if (pattern.endsWith('*') && toolName.startsWith(pattern.slice(0, -1))) return pattern.length
+  return -1
+}
+
+function appliesTo(rule: ToolPolicyRule, session: Pick<Session, 'username' | 'roles'>): boolean {
+  switch (rule.subjectType) {
+    case 'everyone':
+      return true
+    case 'role':
+      return Boolean(rule.subject) && session.roles.includes(rule.subject!)
+    case 'user':
+      return rule.subject === session.username
+    default:
+      return false
+  }
+}
+
+/**
+ * Decides what a user may do with a tool
+ * Rules for the user come before rules for their roles, which come before rules for everyone.
+ * Within the same level the rule naming the tool most precisely wins, and among those the most
+ * restrictive. Tools without a matching rule get the default action
+ * @param policies - The tool policies
+ * @param session - The user asking
+ * @param toolName - Namespaced MCP tool name
+ * @returns allow, deny or approve
+ */
+export function resolveToolAction(policies: ToolPolicies, session: Pick<Session, 'username' | 'roles'>, toolName: string): ToolAction {
+  let best: { rule: ToolPolicyRule, subject: number, specificity: number } | null = null
+
+  for (const rule of policies.rules) {
+    const specificity = toolSpecificity(rule.tool, toolName)
+    if (specificity < 0 || !appliesTo(rule, session)) continue
+
+    const subject = SUBJECT_PRIORITY[rule.subjectType]
+    const better = !best
+      || subject > best.subject
+      || (subject === best.subject && specificity > best.specificity)
+      || (subject === best.subject && specificity === best.specificity
+        && RESTRICTIVENESS[rule.action] > RESTRICTIVENESS[best.rule.action])
+    if (better) {
+      best = { rule, subject, specificity }
+    }
+  }
+
+  return best ? best.rule.action : policies.defaultAction
+}
+
+/**
+ * Decides whether a user may use the resources and prompts of an MCP server
+ * They are available unless the user's policies deny the whole server: a rule for mcp_<server>__*,
+ * a shorter prefix or *, or the default action. Rules for single tools don't affect them, and
+ * approve counts as allowed as the user picks resources and prompts themselves
+ * @param policies - The tool policies
+ * @param session - The user asking
+ * @param server - The MCP server's name
+ * @returns True if the user may read the server's resources and use its prompts
+ */
+export function isMCPServerAllowed(policies: ToolPolicies, session: Pick<Session, 'username' | 'roles'>, server: string): boolean {
+  return resolveToolAction(policies, session, `mcp_${server}__*`) !== 'deny'
+}
+
+/**
+ * Writes a tool call to the invocation log. Failures are logged, never thrown, so that
+ * logging problems don't break the chat
+ * @param invocation - Who called which tool with what, how it was decided and how it went
+ */
+export async function recordToolInvocation(invocation: Omit<ToolInvocation, 'createdAt'>): Promise<void> {
+  const args = JSON.stringify(invocation.arguments ?? {})
+  try {
+    await getStorage().toolInvocations.create({
+      user_id: invocation.userId,
+      username: invocation.username,
+      tool: invocation.tool,
+      arguments: args.length > MAX_LOGGED_ARGUMENTS_LENGTH ? args.substring(0, MAX_LOGGED_ARGUMENTS_LENGTH) + '…' : args,
+      decision: invocation.decision,
+      duration_ms: invocation.durationMs !== undefined ? Math.round(invocation.durationMs) : null,
+      error: invocation.error?.substring(0, 1000) || null,
+      created_at: new Date().toISOString()
+    })
+    console.log(`Tool ${invocation.tool} for ${invocation.username}: ${invocation.decision}${invocation.durationMs !== undefined ? ` in ${Math.round(invocation.durationMs)}ms` : ''}${invocation.error ? ` (${invocation.error})` : ''}`)
+  } catch (error) {
+    console.error('Error recording tool invocation:', error)
+  }
+}
+
+/**
+ * Lists the most recent tool calls, newest first
+ * @param filter - Optionally only calls by one username or of one tool, and how many
+ * @returns The invocations
+ */
+export async function listToolInvocations(filter: { username?: string, tool?: string, limit?: number } = {}): Promise<ToolInvocation[]> {
+  const rows = await getStorage().toolInvocations.list({
+    username: filter.username,
+    tool: filter.tool,
+    limit: filter.limit || 100
+  })
+
+  return rows.map(row => {
+    let args: any = row.arguments
+    try {
+      args = JSON.parse(row.arguments)
+    } catch {
+      // Cut off arguments are shown as text
+    }
+    return {
+      userId: Number(row.user_id),
+      username: row.username,
+      tool: row.tool,
+      arguments: args,
+      decision: row.decision as ToolDecision,
+      durationMs: row.duration_ms ?? undefined,
+      error: row.error || undefined,
+      createdAt: row.created_at
+    }
+  })
+}
@@ -4,11 +4,57 @@ export interface Message {
   role: 'user' | 'assistant' | 'system'
   content: string
   timestamp: Date
-  toolCalls?: {
-    name: string
-    args: any
-    status: 'calling' | 'completed'
-  }[]
+  toolCalls?: ToolCall[]
+  toolApprovals?: ToolApproval[]
+  sources?: Source[]
+  images?: MessageImage[]
+}
+
+// A tool call of the agent chain. Once it has run, the stream reports what the tool returned
+export interface ToolCall {
+  id?: string // The model's id for the call, which its result is matched on
+  name: string
+  args: any
+  status: 'calling' | 'completed'
+  result?: any // Raw result: text, or MCP content parts
+  durationMs?: number // Only for calls that ran
+  error?: string
+  decision?: 'allowed' | 'denied' | 'approved' | 'rejected' | 'expired' | 'cancelled'
+}
+
+// An image returned by a tool, shown inline in the answer
+export interface MessageImage {
+  mimeType: string
+  data?: string // base64. Left out when a large image is saved with the message
+}
+
+// An MCP resource attached to the chat as context
+export interface MCPResourceRef {
+  server: string
+  uri: string
+  name: string
+  mimeType?: string
+}
+
+// A tool call that needed the user's approval, and what became of it
+export interface ToolApproval {
+  id: string
+  name: string
+  args: any
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled'
+}
+
+// A document chunk or web result the answer can cite as [id]
+export interface Source {
+  id: number // Citation number, unique within one answer
+  type: 'document' | 'web'
+  title: string // Filename or page title
+  content: string // Chunk text or web snippet
+  url?: string
+  page?: number
+  sectionPath?: string[]
+  documentId?: number
+  chunkIndex?: number
 }
 
 // Legacy conversation interface (keeping for compatibility)
@@ -23,7 +69,12 @@ export interface Model {
   id: string
   name: string
   description?: string
+  descriptionKey?: string
   capabilities?: string[]
+  supportsTools?: boolean
+  supportsVision?: boolean
+  contextWindow?: number
+  maxOutputTokens?: number
 }
 
 export interface UploadedFile {
@@ -32,6 +83,7 @@ export interface UploadedFile {
   size: number
   type: string
   content: string
+  documentId?: number // Set once the document is stored in the user's library
   isImage?: boolean
   imageData?: {
     type: 'image'
@@ -49,5 +101,10 @@ export interface DocumentChunk {
     filename: string
     chunkIndex: number
     totalChunks: number
+    documentId?: number
+    sectionPath?: string[] // Headings leading to the chunk, outermost first
+    page?: number // Page the chunk starts on, for paged documents
+    embeddingModel?: string // Model that produced the embedding
+    embeddingDimensions?: number
   }
 }
\ No newline at end of file
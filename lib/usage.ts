@@ -0,0 +1,289 @@
+// Usage accounting and quotas
+// Every call to Berget AI made for a signed in user - chat completions, title generation, embeddings
+// and transcriptions - is recorded in the usage table with the model and the tokens or audio seconds
+// it spent. Daily and monthly quotas are checked against these records before a call is made.
+// Days and months are in UTC.
+
+import { NextResponse } from 'next/server'
+import { getStorage } from './storage'
+import type { UsageKind, UsageRecord } from './storage/types'
+import { getUsageQuotaConfig } from './env-validation'
+
+export type { UsageKind, UsageRecord } from './storage/types'
+
+// Quotas are checked on every request, so totals are cached briefly and kept up to date locally
+const TOTALS_CACHE_TTL_MS = 30 * 1000
+
+// Interfaces
+export interface UsageEntry {
+  userId: number
+  kind: UsageKind
+  model: string
+  promptTokens?: number
+  completionTokens?: number
+  audioSeconds?: number
+}
+
+export interface UsageTotals {
+  tokens: number
+  audioSeconds: number
+}
+
+// Quotas are kept separately for tokens and for transcribed audio
+export type QuotaResource = 'tokens' | 'audio'
+
+export type QuotaRefusal = {
+  allowed: false
+  resource: QuotaResource
+  period: 'day' | 'month'
+  limit: number
+  used: number
+  resetAt: string
+  retryAfterSeconds: number
+}
+
+export interface ModelUsage {
+  model: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  audioSeconds: number
+}
+
+export interface DailyUsage {
+  day: string
+  tokens: number
+  audioSeconds: number
+  models: Record<string, number> // Tokens per model
+}
+
+export interface UsageHistory {
+  days: DailyUsage[]
+  models: ModelUsage[]
+  today: UsageTotals
+  month: UsageTotals
+  limits: ReturnType<typeof getUsageQuotaConfig>
+}
+
+const totalsCache = new Map<number, { day: string, month: string, today: UsageTotals, thisMonth: UsageTotals, fetchedAt: number }>()
+
+function currentDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function currentMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7)
+}
+
+// Usage records of a user in the given months
+async function getUsageRecords(userId: number, months: string[]): Promise<UsageRecord[]> {
+  return getStorage().usage.listByUser(userId, months)
+}
+
+function sumTotals(records: UsageRecord[]): UsageTotals {
+  return records.reduce(
+    (totals, record) => ({
+      tokens: totals.tokens + (Number(record.total_tokens) || 0),
+      audioSeconds: totals.audioSeconds + (Number(record.audio_seconds) || 0)
+    }),
+    { tokens: 0, audioSeconds: 0 }
+  )
+}
+
+// Today's and this month's totals of a user, cached briefly
+async function getUsageTotals(userId: number): Promise<{ today: UsageTotals, thisMonth: UsageTotals }> {
+  const day = currentDay()
+  const month = currentMonth()
+  const cached = totalsCache.get(userId)
+  if (cached && cached.day === day && cached.month === month && Date.now() - cached.fetchedAt < TOTALS_CACHE_TTL_MS) {
+    return cached
+  }
+
+  const records = await getUsageRecords(userId, [month])
+  const totals = {
+    today: sumTotals(records.filter(record => record.usage_day === day)),
+    thisMonth: sumTotals(records)
+  }
+  totalsCache.set(userId, { day, month, ...totals, fetchedAt: Date.now() })
+  return totals
+}
+
+/**
+ * Records what a call to Berget AI spent. Failures are logged, never thrown, so that
+ * accounting problems don't break the request that was already served
+ * @param entry - The user, kind of call, model and tokens or audio seconds used
+ */
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  const promptTokens = Math.max(0, Math.round(entry.promptTokens || 0))
+  const completionTokens = Math.max(0, Math.round(entry.completionTokens || 0))
+  const audioSeconds = Math.max(0, Math.round((entry.audioSeconds || 0) * 10) / 10)
+  const day = currentDay()
+  const month = currentMonth()
+
+  try {
+    await getStorage().usage.create({
+      user_id: entry.userId,
+      kind: entry.kind,
+      model: entry.model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+      audio_seconds: audioSeconds,
+      usage_day: day,
+      usage_month: month
+    })
+
+    const cached = totalsCache.get(entry.userId)
+    if (cached && cached.day === day && cached.month === month) {
+      for (const totals of [cached.today, cached.thisMonth]) {
+        totals.tokens += promptTokens + completionTokens
+        totals.audioSeconds += audioSeconds
+      }
+    }
+
+    console.log(`Usage for user ${entry.userId}: ${entry.kind} with ${entry.model}, ${promptTokens}+${completionTokens} tokens, ${audioSeconds}s audio`)
+  } catch (error) {
+    console.error('Error recording usage:', error)
+  }
+}
+
+/**
+ * Checks whether a user is within their daily and monthly quota
+ * The check fails open: if usage can't be read, the request is allowed
+ * @param userId - The user
+ * @param resource - tokens for chat, titles and embeddings, audio for transcriptions
+ * @returns allowed, or which quota is used up and when it resets
+ */
+export async function checkUsageQuota(userId: number, resource: QuotaResource): Promise<{ allowed: true } | QuotaRefusal> {
+  const limits = getUsageQuotaConfig()
+  const dailyLimit = resource === 'tokens' ? limits.dailyTokens : limits.dailyAudioSeconds
+  const monthlyLimit = resource === 'tokens' ? limits.monthlyTokens : limits.monthlyAudioSeconds
+  if (!dailyLimit && !monthlyLimit) {
+    return { allowed: true }
+  }
+
+  let totals: { today: UsageTotals, thisMonth: UsageTotals }
+  try {
+    totals = await getUsageTotals(userId)
+  } catch (error) {
+    console.error('Error reading usage, allowing request:', error)
+    return { allowed: true }
+  }
+
+  const pick = (usage: UsageTotals) => resource === 'tokens' ? usage.tokens : usage.audioSeconds
+  const now = new Date()
+
+  // The monthly quota is reported first since it takes longer to reset
+  if (monthlyLimit && pick(totals.thisMonth) >= monthlyLimit) {
+    const resetAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+    return refusal(resource, 'month', monthlyLimit, pick(totals.thisMonth), resetAt)
+  }
+  if (dailyLimit && pick(totals.today) >= dailyLimit) {
+    const resetAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    return refusal(resource, 'day', dailyLimit, pick(totals.today), resetAt)
+  }
+  return { allowed: true }
+}
+
+function refusal(resource: QuotaResource, period: 'day' | 'month', limit: number, used: number, resetAt: Date): QuotaRefusal {
+  return {
+    allowed: false,
+    resource,
+    period,
+    limit,
+    used,
+    resetAt: resetAt.toISOString(),
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000))
+  }
+}
+
+/**
+ * Builds the 429 response returned when a quota is used up
+ * @param quota - The refusal from checkUsageQuota
+ * @returns Response with code quota_exceeded and a Retry-After header
+ */
+export function quotaExceededResponse(quota: QuotaRefusal): NextResponse {
+  const what = quota.resource === 'tokens' ? 'token' : 'transcription'
+  return NextResponse.json(
+    {
+      error: `Your ${quota.period === 'day' ? 'daily' : 'monthly'} ${what} quota is used up`,
+      code: 'quota_exceeded',
+      resource: quota.resource,
+      period: quota.period,
+      limit: quota.limit,
+      used: quota.used,
+      resetAt: quota.resetAt
+    },
+    { status: 429, headers: { 'Retry-After': String(quota.retryAfterSeconds) } }
+  )
+}
+
+/**
+ * Gets a user's usage per day and per model for a number of days, plus this month's totals
+ * @param userId - The user
+ * @param days - How many days back, including today
+ * @returns Daily usage (oldest first), usage per model over the period, totals and limits
+ */
+export async function getUsageHistory(userId: number, days: number): Promise<UsageHistory> {
+  const today = new Date()
+  const dayList: string[] = []
+  for (let offset = days - 1; offset >= 0; offset--) {
+    dayList.push(currentDay(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - offset))))
+  }
+  const months = Array.from(new Set([...dayList.map(day => day.slice(0, 7)), currentMonth(today)]))
+
+  const records = await getUsageRecords(userId, months)
+  const inPeriod = records.filter(record => record.usage_day >= dayList[0])
+
+  const daily = new Map<string, DailyUsage>(dayList.map(day => [day, { day, tokens: 0, audioSeconds: 0, models: {} }]))
+  const models = new Map<string, ModelUsage>()
+  for (const record of inPeriod) {
+    const tokens = Number(record.total_tokens) || 0
+    const audioSeconds = Number(record.audio_seconds) || 0
+
+    const dayUsage = daily.get(record.usage_day)
+    if (dayUsage) {
+      dayUsage.tokens += tokens
+      dayUsage.audioSeconds += audioSeconds
+      dayUsage.models[record.model] = (dayUsage.models[record.model] || 0) + tokens
+    }
+
+    const modelUsage = models.get(record.model) || {
+      model: record.model,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      audioSeconds: 0
+    }
+    modelUsage.requests++
+    modelUsage.promptTokens += Number(record.prompt_tokens) || 0
+    modelUsage.completionTokens += Number(record.completion_tokens) || 0
+    modelUsage.totalTokens += tokens
+    modelUsage.audioSeconds += audioSeconds
+    models.set(record.model, modelUsage)
+  }
+
+  return {
+    days: Array.from(daily.values()),
+    models: Array.from(models.values()).sort((a, b) => b.totalTokens - a.totalTokens || b.audioSeconds - a.audioSeconds),
+    today: sumTotals(records.filter(record => record.usage_day === currentDay(today))),
+    month: sumTotals(records.filter(record => record.usage_month === currentMonth(today))),
+    limits: getUsageQuotaConfig()
+  }
+}
+
+/**
+ * Gets a user's totals for this month, shown in the admin console
+ * @param userId - The user
+ * @returns Tokens and audio seconds used this month
+ */
+export async function getMonthlyUsageTotals(userId: number): Promise<UsageTotals> {
+  try {
+    return sumTotals(await getUsageRecords(userId, [currentMonth()]))
+  } catch (error) {
+    console.error('Error fetching usage totals:', error)
+    return { tokens: 0, audioSeconds: 0 }
+  }
+}
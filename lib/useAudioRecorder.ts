@@ -1,10 +1,12 @@
 import { useState, useRef, useCallback } from 'react'
+import { apiFetch, ApiError } from './api'
 
 export const useAudioRecorder = () => {
   const [isRecording, setIsRecording] = useState(false)
   const [isTranscribing, setIsTranscribing] = useState(false)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const audioChunksRef = useRef<Blob[]>([])
+  const startedAtRef = useRef(0)
 
   const startRecording = useCallback(async () => {
     try {
@@ -18,6 +20,7 @@ export const useAudioRecorder = () => {
       }
 
       mediaRecorder.start()
+      startedAtRef.current = Date.now()
       setIsRecording(true)
     } catch (error) {
       console.error('Error starting recording:', error)
@@ -43,14 +46,15 @@ export const useAudioRecorder = () => {
           // Send to transcription API
           const formData = new FormData()
           formData.append('audio', audioBlob, 'audio.wav')
+          formData.append('duration', String((Date.now() - startedAtRef.current) / 1000))
 
-          const response = await fetch('/api/transcribe', {
+          const response = await apiFetch('/api/transcribe', {
             method: 'POST',
             body: formData
           })
 
           if (!response.ok) {
-            throw new Error('Transcription failed')
+            throw await ApiError.fromResponse(response, 'Transcription failed')
           }
 
           const result = await response.json()
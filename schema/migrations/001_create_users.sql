@@ -1,5 +1,4 @@
--- Users table schema for NocoDB
--- You can create this table in NocoDB's UI or import this schema
+-- Users table
 
 CREATE TABLE users (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -10,13 +9,10 @@ CREATE TABLE users (
   last_name VARCHAR(100),
   system_prompt TEXT,
   theme VARCHAR(20) DEFAULT 'light',
+  language VARCHAR(10) DEFAULT 'sv',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Create index on username for faster lookups
 CREATE INDEX idx_username ON users(username);
-
--- Sample data (password is 'kring' for user 'micke')
--- Password hash: $2a$10$xQx5Y6Z8vKJH5N6Z8vKJH5N6Z8vKJH5N6Z8vKJH5N6Z8vKJH5N6Z8
--- Note: Generate a real password hash using bcrypt
\ No newline at end of file
@@ -0,0 +1,35 @@
+-- Chat history tables
+-- message_count is kept up to date as messages are added and deleted
+
+CREATE TABLE conversations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  model_used VARCHAR(255),
+  prompt_used TEXT,
+  message_count INTEGER DEFAULT 0,
+  is_archived BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create index on user_id for listing a user's conversations
+CREATE INDEX idx_conversations_user_id ON conversations(user_id);
+
+CREATE TABLE messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  conversation_id INTEGER NOT NULL,
+  role VARCHAR(20) NOT NULL, -- user, assistant or system
+  content TEXT NOT NULL,
+  model_used VARCHAR(255),
+  prompt_used TEXT,
+  metadata TEXT, -- JSON: attachments, sources, tool calls
+  timestamp TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+
+-- Create index on conversation_id for loading a conversation in order
+CREATE INDEX idx_messages_conversation_id ON messages(conversation_id, timestamp);
@@ -0,0 +1,38 @@
+-- Document library
+
+CREATE TABLE documents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  filename VARCHAR(255) NOT NULL,
+  file_type VARCHAR(255),
+  size INTEGER DEFAULT 0,
+  chunk_count INTEGER DEFAULT 0,
+  embedding_model VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create index on user_id for listing a user's documents
+CREATE INDEX idx_documents_user_id ON documents(user_id);
+
+-- One row per chunk; embedding is stored as a JSON array of numbers
+CREATE TABLE document_chunks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  document_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding TEXT,
+  embedding_model VARCHAR(255),
+  embedding_dimensions INTEGER,
+  metadata TEXT,
+  FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+);
+
+-- Create indexes for loading chunks by owner and document
+CREATE INDEX idx_document_chunks_user_id ON document_chunks(user_id);
+CREATE INDEX idx_document_chunks_document_id ON document_chunks(document_id, chunk_index);
+
+-- Documents attached to a conversation, stored as a JSON array of document IDs
+ALTER TABLE conversations ADD COLUMN document_ids TEXT;
@@ -0,0 +1,20 @@
+-- Login sessions
+-- One row per login. The refresh token is only stored as a SHA-256 hash and is rotated on every refresh.
+-- Setting revoked_at ends the session: its access tokens are rejected and its refresh token can't be used.
+
+CREATE TABLE sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  refresh_token_hash VARCHAR(64) NOT NULL,
+  previous_token_hash VARCHAR(64), -- Accepted for a short grace period after rotation, for concurrent refreshes
+  rotated_at TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  user_agent VARCHAR(255),
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Create index on user_id for revoking all sessions of a user
+CREATE INDEX idx_sessions_user_id ON sessions(user_id);
@@ -0,0 +1,18 @@
+-- Self-service registration
+-- Email verification, password reset and invite links carry signed single-use tokens.
+-- The unique ID (jti) of each token is recorded here when it is used, so it can't be used again.
+-- Rows can be deleted once expires_at has passed.
+
+CREATE TABLE used_tokens (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  jti VARCHAR(36) UNIQUE NOT NULL,
+  purpose VARCHAR(20) NOT NULL, -- verify_email, reset_password or invite
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index on jti for checking whether a token was used
+CREATE INDEX idx_used_tokens_jti ON used_tokens(jti);
+
+-- Email verification for self-registered users. Existing users count as verified
+ALTER TABLE users ADD COLUMN email_verified BOOLEAN DEFAULT TRUE;
@@ -0,0 +1,6 @@
+-- Roles and single sign-on. Roles are comma-separated; SSO users are linked by their subject at the provider
+
+ALTER TABLE users ADD COLUMN roles VARCHAR(255) DEFAULT 'user';
+ALTER TABLE users ADD COLUMN auth_provider VARCHAR(20) DEFAULT 'local';
+ALTER TABLE users ADD COLUMN external_id VARCHAR(255);
+CREATE INDEX idx_users_external_id ON users(auth_provider, external_id);
@@ -0,0 +1,29 @@
+-- Login brute-force protection
+-- Used when LOGIN_THROTTLE_STORE=database (the default in production)
+
+-- Failure counters per username ("user:<name>") and IP address ("ip:<address>")
+-- Rows past expires_at are ignored and overwritten by the next failure
+-- Since 012 the failures are counted in login_failures, and rows here only hold locks
+CREATE TABLE login_throttle (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  throttle_key VARCHAR(255) UNIQUE NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TIMESTAMP NOT NULL,
+  locked_until TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_login_throttle_key ON login_throttle(throttle_key);
+
+-- Audit log of failed and refused logins
+CREATE TABLE login_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  username VARCHAR(255) NOT NULL,
+  ip_address VARCHAR(64) NOT NULL,
+  user_agent VARCHAR(255),
+  reason VARCHAR(30) NOT NULL, -- unknown_user, wrong_password, email_not_verified or throttled
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_login_attempts_username ON login_attempts(username);
+CREATE INDEX idx_login_attempts_created_at ON login_attempts(created_at);
@@ -0,0 +1,17 @@
+-- Admin console. Admins manage users and models at /admin; disabled users can't log in
+-- Grant the first admin with: node scripts/make-admin.js <username>
+
+ALTER TABLE users ADD COLUMN is_admin BOOLEAN DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN disabled BOOLEAN DEFAULT FALSE;
+
+-- App-wide settings changed from the admin console
+-- Values are JSON, e.g. key 'disabled_models' with value '["mistralai/Devstral-Small-2505"]'
+
+CREATE TABLE app_settings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  key VARCHAR(100) UNIQUE NOT NULL,
+  value TEXT NOT NULL,
+  updated_by VARCHAR(50),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
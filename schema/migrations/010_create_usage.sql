@@ -0,0 +1,20 @@
+-- Usage accounting
+-- One row per call to Berget AI made for a signed in user: chat completions, title generation,
+-- embeddings and transcriptions. Daily and monthly quotas are checked against these rows
+
+CREATE TABLE usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  kind VARCHAR(20) NOT NULL, -- chat, title, embedding or transcription
+  model VARCHAR(255) NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  audio_seconds DECIMAL(10,1) NOT NULL DEFAULT 0,
+  usage_day VARCHAR(10) NOT NULL, -- YYYY-MM-DD in UTC
+  usage_month VARCHAR(7) NOT NULL, -- YYYY-MM in UTC
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_usage_user_month ON usage(user_id, usage_month);
@@ -0,0 +1,19 @@
+-- Tool invocation log
+-- One row per tool call made by the chat agent, MCP tools and built-in functions alike.
+-- Which MCP tools a user may call is stored in app_settings under 'mcp_tool_policies'
+
+CREATE TABLE tool_invocations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  username VARCHAR(255) NOT NULL,
+  tool VARCHAR(255) NOT NULL, -- Function name, mcp_<server>__<tool> for MCP tools
+  arguments TEXT, -- JSON, cut off after 4000 characters
+  decision VARCHAR(20) NOT NULL, -- allowed, denied, approved, rejected, expired or cancelled
+  duration_ms INTEGER, -- Only for calls that ran
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_tool_invocations_username ON tool_invocations(username);
+CREATE INDEX idx_tool_invocations_created_at ON tool_invocations(created_at);
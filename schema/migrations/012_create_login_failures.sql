@@ -0,0 +1,12 @@
+-- Failed logins, one row each, per throttle key ("user:<name>" or "ip:<address>")
+-- Failures are counted from these rows rather than in a counter, so that concurrent failures can't
+-- overwrite each other's counts. login_throttle now only holds the lock of a key
+-- Rows older than the failure window are removed as new failures are recorded
+
+CREATE TABLE login_failures (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  throttle_key VARCHAR(255) NOT NULL,
+  failed_at INTEGER NOT NULL -- Epoch milliseconds, which compare exactly in NocoDB filters
+);
+
+CREATE INDEX idx_login_failures_key ON login_failures(throttle_key, failed_at);
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+/**
+ * Creates an invitation link for REGISTRATION_MODE=invite
+ * The link can be used once and is valid for 7 days. When an email address is given,
+ * only that address can register with it.
+ * 
+ * Usage: node scripts/create-invite.js [email]
+ */
+
+const jwt = require('jsonwebtoken');
+const crypto = require('crypto');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const JWT_SECRET = process.env.JWT_SECRET;
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+// Check required environment variables
+if (!JWT_SECRET) {
+  console.error('Error: Missing required environment variables.');
+  console.error('Please ensure .env.local contains JWT_SECRET');
+  process.exit(1);
+}
+
+const email = process.argv[2];
+if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+  console.error(`Error: "${email}" is not a valid email address`);
+  process.exit(1);
+}
+
+// Same format as the tokens created by lib/account.ts
+const token = jwt.sign(
+  { purpose: 'invite', email: email || undefined },
+  JWT_SECRET,
+  { expiresIn: '7d', jwtid: crypto.randomUUID() }
+);
+
+console.log(email ? `Invitation for ${email}:` : 'Invitation:');
+console.log(`${APP_URL}/?invite=${encodeURIComponent(token)}`);
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Grants admin rights to an existing user, used to set up the first admin.
+ * Further admins can be managed from the admin console at /admin.
+ *
+ * Usage: node scripts/make-admin.js <username> [--revoke]
+ */
+
+const axios = require('axios');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+// Database configuration from environment variables
+const NOCODB_API_URL = process.env.NOCODB_API_URL;
+const NOCODB_API_TOKEN = process.env.NOCODB_API_TOKEN;
+const NOCODB_BASE_NAME = process.env.NOCODB_BASE_NAME;
+const USERS_TABLE_NAME = 'users';
+
+// Check required environment variables
+if (!NOCODB_API_URL || !NOCODB_API_TOKEN || !NOCODB_BASE_NAME) {
+  console.error('Error: Missing required environment variables.');
+  console.error('Please ensure .env.local contains NOCODB_API_URL, NOCODB_API_TOKEN, and NOCODB_BASE_NAME');
+  process.exit(1);
+}
+
+const username = process.argv[2];
+const revoke = process.argv.includes('--revoke');
+
+if (!username || username.startsWith('--')) {
+  console.error('Usage: node scripts/make-admin.js <username> [--revoke]');
+  process.exit(1);
+}
+
+// Create axios instance with default config
+const nocodb = axios.create({
+  baseURL: `${NOCODB_API_URL}/api/v1/db/data/v1/${NOCODB_BASE_NAME}`,
+  headers: {
+    'xc-token': NOCODB_API_TOKEN,
+    'Content-Type': 'application/json'
+  }
+});
+
+async function makeAdmin() {
+  try {
+    const response = await nocodb.get(`/${USERS_TABLE_NAME}`, {
+      params: {
+        where: `(username,eq,${username})`,
+        limit: 1
+      }
+    });
+
+    const user = response.data.list?.[0];
+    if (!user) {
+      console.error(`Error: User "${username}" not found`);
+      process.exit(1);
+    }
+
+    await nocodb.patch(`/${USERS_TABLE_NAME}/${user.Id || user.id}`, { is_admin: !revoke });
+
+    console.log(revoke
+      ? `✅ Admin rights removed from "${username}"`
+      : `✅ "${username}" is now an admin`);
+    console.log('The change applies from the next login or session refresh.');
+  } catch (error) {
+    console.error('❌ Error updating user:', error.response?.data || error.message);
+    process.exit(1);
+  }
+}
+
+makeAdmin();
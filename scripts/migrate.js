@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+/**
+ * Applies the SQL migrations in schema/migrations to the SQLite database
+ * (STORAGE_BACKEND=sqlite). The app also applies them when it opens the
+ * database, so this is mostly useful to prepare a database ahead of a deploy.
+ *
+ * Each migration is applied once, in name order, and recorded in the
+ * schema_migrations table. For NocoDB, create the tables from the same files.
+ *
+ * Usage: node scripts/migrate.js [--status]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+const { getMigrationStatus, runMigrations } = require('../lib/storage/migrations');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const SQLITE_PATH = process.env.SQLITE_PATH || '.data/chatswe.db';
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'schema', 'migrations');
+
+const statusOnly = process.argv.includes('--status');
+
+function main() {
+  if (SQLITE_PATH !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(SQLITE_PATH)), { recursive: true });
+  }
+
+  const db = new Database(SQLITE_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  console.log(`Database: ${SQLITE_PATH}`);
+
+  if (statusOnly) {
+    const migrations = getMigrationStatus(db, MIGRATIONS_DIR);
+    for (const migration of migrations) {
+      console.log(`${migration.applied ? '✅' : '⏳'} ${migration.name}`);
+    }
+    console.log(`\n${migrations.filter(migration => !migration.applied).length} pending migration(s)`);
+    db.close();
+    return;
+  }
+
+  let applied;
+  try {
+    applied = runMigrations(db, MIGRATIONS_DIR);
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    db.close();
+    process.exit(1);
+  }
+  db.close();
+
+  if (applied.length === 0) {
+    console.log('✅ Database is up to date');
+  } else {
+    console.log(`\n🎉 Applied ${applied.length} migration(s)`);
+  }
+}
+
+main();
@@ -0,0 +1,326 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal MCP server for testing the MCP client locally, without n8n or network access
+ * Speaks all three transports the app supports:
+ *   - Streamable HTTP on /mcp, with sessions (Mcp-Session-Id). tools/call is answered as an
+ *     SSE stream, everything else as JSON
+ *   - SSE (the older 2024-11-05 transport) on /sse, with messages POSTed to /messages
+ *   - stdio, when started with --stdio
+ *
+ * Tools: echo, add, fail (returns an error result), sleep (waits, to test timeouts),
+ * expire_session (ends the session after answering, to test reconnection) and image (returns a
+ * small PNG)
+ * Resources: mock://readme (text) and mock://pixel.png (image)
+ * Prompts: summarize (takes a topic)
+ *
+ * Usage: node scripts/mock-mcp-server.js [--stdio]
+ * Then list it in mcp-servers.yaml:
+ *   servers:
+ *     mock:
+ *       url: http://localhost:9500/mcp        # or http://localhost:9500/sse with transport: sse
+ *     mock-stdio:
+ *       transport: stdio
+ *       command: node
+ *       args: [scripts/mock-mcp-server.js, --stdio]
+ *
+ * Environment: MOCK_MCP_PORT (9500), MOCK_MCP_TOKEN (when set, required as a Bearer token)
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.MOCK_MCP_PORT || '9500', 10);
+const TOKEN = process.env.MOCK_MCP_TOKEN || '';
+const STDIO = process.argv.includes('--stdio');
+const PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+// In stdio mode stdout carries the protocol, so logs go to stderr
+const log = (...args) => (STDIO ? console.error : console.log)(...args);
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Returns the text it is given',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] }
+  },
+  {
+    name: 'add',
+    description: 'Adds two numbers',
+    inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] }
+  },
+  {
+    name: 'fail',
+    description: 'Always fails',
+    inputSchema: { type: 'object', properties: {} }
+  },
+  {
+    name: 'sleep',
+    description: 'Waits for the given number of milliseconds',
+    inputSchema: { type: 'object', properties: { ms: { type: 'number' } }, required: ['ms'] }
+  },
+  {
+    name: 'expire_session',
+    description: 'Ends the current session after answering',
+    inputSchema: { type: 'object', properties: {} }
+  },
+  {
+    name: 'image',
+    description: 'Returns a small red PNG image',
+    inputSchema: { type: 'object', properties: {} }
+  }
+];
+
+// A 1x1 red PNG
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+const RESOURCES = [
+  { uri: 'mock://readme', name: 'README', description: 'About the mock server', mimeType: 'text/plain' },
+  { uri: 'mock://pixel.png', name: 'Pixel', description: 'A 1x1 red PNG', mimeType: 'image/png' }
+];
+
+const PROMPTS = [
+  {
+    name: 'summarize',
+    description: 'Asks for a short summary of a topic',
+    arguments: [{ name: 'topic', description: 'What to summarize', required: true }]
+  }
+];
+
+// Streamable HTTP sessions by ID, and SSE connections by session ID
+const sessions = new Set();
+const sseConnections = new Map();
+
+function text(value, isError = false) {
+  return { content: [{ type: 'text', text: String(value) }], isError };
+}
+
+async function callTool(name, args, endSession) {
+  switch (name) {
+    case 'echo':
+      return text(args.text);
+    case 'add':
+      return text(Number(args.a) + Number(args.b));
+    case 'fail':
+      return text('This tool always fails', true);
+    case 'sleep':
+      await new Promise((resolve) => setTimeout(resolve, Number(args.ms) || 0));
+      return text(`Slept ${args.ms} ms`);
+    case 'expire_session':
+      endSession();
+      return text('Session ended');
+    case 'image':
+      return { content: [{ type: 'text', text: 'A red pixel' }, { type: 'image', data: PIXEL_PNG, mimeType: 'image/png' }], isError: false };
+    default:
+      return null;
+  }
+}
+
+// Handle one JSON-RPC message; returns the response, or null for notifications
+async function handleMessage(message, { protocolVersion, endSession = () => {} } = {}) {
+  if (message.id === undefined) {
+    log('Notification:', message.method);
+    return null;
+  }
+
+  const reply = (result) => ({ jsonrpc: '2.0', id: message.id, result });
+  const fail = (code, errorMessage) => ({ jsonrpc: '2.0', id: message.id, error: { code, message: errorMessage } });
+
+  log('Request:', message.method, JSON.stringify(message.params || {}));
+  switch (message.method) {
+    case 'initialize': {
+      const requested = message.params && message.params.protocolVersion;
+      return reply({
+        protocolVersion: protocolVersion || (PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0]),
+        capabilities: { tools: { listChanged: false }, resources: { listChanged: false }, prompts: { listChanged: false } },
+        serverInfo: { name: 'mock-mcp-server', version: '1.0.0' }
+      });
+    }
+    case 'ping':
+      return reply({});
+    case 'tools/list':
+      return reply({ tools: TOOLS });
+    case 'tools/call': {
+      const { name, arguments: args = {} } = message.params || {};
+      const result = await callTool(name, args, endSession);
+      return result ? reply(result) : fail(-32602, `Unknown tool: ${name}`);
+    }
+    case 'resources/list':
+      return reply({ resources: RESOURCES });
+    case 'resources/read': {
+      const uri = message.params && message.params.uri;
+      if (uri === 'mock://readme') {
+        return reply({ contents: [{ uri, mimeType: 'text/plain', text: 'The mock MCP server is used to test the MCP client locally.' }] });
+      }
+      if (uri === 'mock://pixel.png') {
+        return reply({ contents: [{ uri, mimeType: 'image/png', blob: PIXEL_PNG }] });
+      }
+      return fail(-32002, `Resource not found: ${uri}`);
+    }
+    case 'prompts/list':
+      return reply({ prompts: PROMPTS });
+    case 'prompts/get': {
+      const { name, arguments: args = {} } = message.params || {};
+      if (name !== 'summarize') {
+        return fail(-32602, `Unknown prompt: ${name}`);
+      }
+      return reply({
+        description: 'Summary prompt',
+        messages: [{ role: 'user', content: { type: 'text', text: `Summarize ${args.topic} in three sentences.` } }]
+      });
+    }
+    default:
+      return fail(-32601, `Method not found: ${message.method}`);
+  }
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Streamable HTTP: POST /mcp
+async function handleStreamableHttp(req, res) {
+  const message = await readJson(req);
+  let sessionId = req.headers['mcp-session-id'];
+
+  if (message.method === 'initialize') {
+    sessionId = crypto.randomUUID();
+    sessions.add(sessionId);
+  } else if (!sessionId) {
+    return sendJson(res, 400, { jsonrpc: '2.0', id: message.id ?? null, error: { code: -32000, message: 'Missing Mcp-Session-Id' } });
+  } else if (!sessions.has(sessionId)) {
+    return sendJson(res, 404, { jsonrpc: '2.0', id: message.id ?? null, error: { code: -32001, message: 'Session not found' } });
+  }
+
+  const response = await handleMessage(message, { endSession: () => sessions.delete(sessionId) });
+  if (!response) {
+    res.writeHead(202, { 'Mcp-Session-Id': sessionId });
+    return res.end();
+  }
+
+  if (message.method === 'tools/call') {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Mcp-Session-Id': sessionId });
+    res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+    return;
+  }
+  sendJson(res, 200, response, { 'Mcp-Session-Id': sessionId });
+}
+
+// SSE: GET /sse opens the stream and announces the endpoint for the session
+function handleSseStream(req, res) {
+  const sessionId = crypto.randomUUID();
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
+  res.write(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`);
+  sseConnections.set(sessionId, res);
+  log('SSE session opened:', sessionId);
+
+  req.on('close', () => {
+    sseConnections.delete(sessionId);
+    log('SSE session closed:', sessionId);
+  });
+}
+
+// SSE: POST /messages?sessionId=... - the response is sent on the session's stream
+async function handleSseMessage(req, res, url) {
+  const sessionId = url.searchParams.get('sessionId');
+  const stream = sseConnections.get(sessionId);
+  if (!stream) {
+    res.writeHead(404);
+    return res.end('Session not found');
+  }
+
+  const message = await readJson(req);
+  res.writeHead(202);
+  res.end('Accepted');
+
+  const response = await handleMessage(message, {
+    protocolVersion: '2024-11-05',
+    endSession: () => setTimeout(() => stream.end(), 100)
+  });
+  if (response) {
+    stream.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+  }
+}
+
+function startHttpServer() {
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    log(req.method, url.pathname);
+
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+      return sendJson(res, 401, { error: 'Unauthorized' });
+    }
+
+    try {
+      if (url.pathname === '/mcp' && req.method === 'POST') {
+        return await handleStreamableHttp(req, res);
+      }
+      if (url.pathname === '/mcp' && req.method === 'DELETE') {
+        sessions.delete(req.headers['mcp-session-id']);
+        res.writeHead(200);
+        return res.end();
+      }
+      if (url.pathname === '/sse' && req.method === 'GET') {
+        return handleSseStream(req, res);
+      }
+      if (url.pathname === '/messages' && req.method === 'POST') {
+        return await handleSseMessage(req, res, url);
+      }
+      res.writeHead(url.pathname === '/mcp' ? 405 : 404);
+      res.end();
+    } catch (error) {
+      sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: -32700, message: `Parse error: ${error.message}` } });
+    }
+  });
+
+  server.listen(PORT, () => {
+    log(`Mock MCP server running at http://localhost:${PORT}`);
+    log(`Streamable HTTP: http://localhost:${PORT}/mcp, SSE: http://localhost:${PORT}/sse`);
+  });
+}
+
+function startStdioServer() {
+  let buffer = '';
+  process.stdin.on('data', async (chunk) => {
+    buffer += chunk.toString();
+    let newline;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.substring(0, newline).trim();
+      buffer = buffer.substring(newline + 1);
+      if (!line) continue;
+
+      let response;
+      try {
+        response = await handleMessage(JSON.parse(line), { endSession: () => setTimeout(() => process.exit(0), 100) });
+      } catch (error) {
+        response = { jsonrpc: '2.0', id: null, error: { code: -32700, message: `Parse error: ${error.message}` } };
+      }
+      if (response) {
+        process.stdout.write(JSON.stringify(response) + '\n');
+      }
+    }
+  });
+  process.stdin.on('end', () => process.exit(0));
+  log('Mock MCP server running on stdio');
+}
+
+if (STDIO) {
+  startStdioServer();
+} else {
+  startHttpServer();
+}
@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+
+/**
+ * Minimal OpenID Connect provider for testing single sign-on locally
+ * Shows a form where you pick the user and groups to log in as, and issues signed ID tokens
+ * for them. Supports the authorization code flow with PKCE, as used by the app.
+ *
+ * Usage: node scripts/mock-oidc-provider.js
+ * Then set in .env.local:
+ *   OIDC_ISSUER=http://localhost:9400
+ *   OIDC_CLIENT_ID=chatswe
+ *   OIDC_CLIENT_SECRET=secret
+ *
+ * Environment: MOCK_OIDC_PORT (9400), MOCK_OIDC_CLIENT_ID (chatswe), MOCK_OIDC_CLIENT_SECRET (secret)
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '9400', 10);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'chatswe';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'secret';
+
+// Signing key, new on every start
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+// Issued codes waiting to be exchanged for tokens
+const codes = new Map();
+
+function escapeHtml(value) {
+  return String(value || '').replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(data)));
+  });
+}
+
+function loginForm(params) {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name))}">`)
+    .join('\n');
+
+  return `<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 420px; margin: 40px auto">
+<h2>Mock OIDC provider</h2>
+<form method="post" action="/authorize">
+${hidden}
+<p><label>Subject<br><input name="sub" value="user-1" required></label></p>
+<p><label>Username<br><input name="preferred_username" value="anna.andersson" required></label></p>
+<p><label>Email<br><input name="email" value="anna.andersson@example.se"></label></p>
+<p><label>First name<br><input name="given_name" value="Anna"></label></p>
+<p><label>Last name<br><input name="family_name" value="Andersson"></label></p>
+<p><label>Groups (comma-separated)<br><input name="groups" value=""></label></p>
+<p><button type="submit">Log in</button></p>
+</form>
+</body></html>`;
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+  console.log(req.method, url.pathname);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256']
+    });
+  }
+
+  if (url.pathname === '/jwks') {
+    return sendJson(res, 200, {
+      keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }]
+    });
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'GET') {
+    if (url.searchParams.get('client_id') !== CLIENT_ID) {
+      res.writeHead(400);
+      return res.end('Unknown client_id');
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end(loginForm(url.searchParams));
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'POST') {
+    const form = await readBody(req);
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      clientId: form.get('client_id'),
+      redirectUri: form.get('redirect_uri'),
+      nonce: form.get('nonce'),
+      codeChallenge: form.get('code_challenge'),
+      claims: {
+        sub: form.get('sub'),
+        preferred_username: form.get('preferred_username'),
+        email: form.get('email') || undefined,
+        given_name: form.get('given_name') || undefined,
+        family_name: form.get('family_name') || undefined,
+        groups: (form.get('groups') || '').split(',').map((group) => group.trim()).filter(Boolean)
+      }
+    });
+
+    const redirect = new URL(form.get('redirect_uri'));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', form.get('state'));
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readBody(req);
+    const grant = codes.get(form.get('code'));
+    codes.delete(form.get('code'));
+
+    if (!grant || form.get('grant_type') !== 'authorization_code') {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+    if (form.get('client_id') !== CLIENT_ID || form.get('client_secret') !== CLIENT_SECRET) {
+      return sendJson(res, 401, { error: 'invalid_client' });
+    }
+    if (form.get('redirect_uri') !== grant.redirectUri) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'redirect_uri does not match' });
+    }
+    const challenge = crypto.createHash('sha256').update(form.get('code_verifier') || '').digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const idToken = jwt.sign(
+      { ...grant.claims, nonce: grant.nonce },
+      privateKey,
+      { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+    );
+    return sendJson(res, 200, {
+      access_token: crypto.randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken
+    });
+  }
+
+  res.writeHead(404);
+  res.end('Not found');
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider running at ${ISSUER}`);
+  console.log(`Client ID: ${CLIENT_ID}, client secret: ${CLIENT_SECRET}`);
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/auth/forgot-password/route'
+import { sendPasswordResetEmail } from '@/lib/account'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { setLoginAttemptStore, createMemoryAttemptStore } from '@/lib/login-throttle'
+import { useTestStorage } from '@/tests/helpers'
+
+vi.mock('@/lib/account', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/account')>(),
+  sendPasswordResetEmail: vi.fn()
+}))
+
+let storage: Storage
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  setLoginAttemptStore(createMemoryAttemptStore())
+  await storage.users.create({ username: 'alice', email: 'alice@example.com', password_hash: 'hash', roles: 'user' })
+})
+
+afterEach(() => {
+  setStorage(null)
+  setLoginAttemptStore(null)
+  vi.mocked(sendPasswordResetEmail).mockReset()
+})
+
+const forgotPassword = (email: string, ip = '203.0.113.1') => POST(new NextRequest('http://localhost/api/auth/forgot-password', {
+  method: 'POST',
+  headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+  body: JSON.stringify({ email })
+}))
+
+describe('/api/auth/forgot-password', () => {
+  it('answers the same whether the address is unknown or the email could not be sent', async () => {
+    vi.mocked(sendPasswordResetEmail).mockRejectedValue(new Error('SMTP server unavailable'))
+
+    const known = await forgotPassword('alice@example.com')
+    const unknown = await forgotPassword('nobody@example.com')
+
+    expect(sendPasswordResetEmail).toHaveBeenCalledTimes(1)
+    expect(known.status).toBe(200)
+    expect(unknown.status).toBe(200)
+    expect(await known.json()).toEqual(await unknown.json())
+  })
+
+  it('refuses further requests for an address once its limit is used up', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await forgotPassword('alice@example.com', `203.0.113.${i}`)).status).toBe(200)
+    }
+
+    const response = await forgotPassword('Alice@Example.com', '203.0.113.99')
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('3600')
+    expect(sendPasswordResetEmail).toHaveBeenCalledTimes(3)
+  })
+
+  it('refuses further requests from an IP address once its limit is used up', async () => {
+    for (let i = 0; i < 20; i++) {
+      await forgotPassword(`user${i}@example.com`)
+    }
+
+    expect((await forgotPassword('alice@example.com')).status).toBe(429)
+    expect((await forgotPassword('alice@example.com', '198.51.100.1')).status).toBe(200)
+  })
+})
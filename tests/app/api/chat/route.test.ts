@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { POST } from '@/app/api/chat/route'
+import { executeFunction } from '@/lib/functions'
+import { recordUsage } from '@/lib/usage'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage, createTestUser, apiRequest } from '@/tests/helpers'
+
+const { createCompletion } = vi.hoisted(() => ({ createCompletion: vi.fn() }))
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: createCompletion } }
+  }
+}))
+
+vi.mock('@/lib/functions', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/functions')>(),
+  executeFunction: vi.fn(async () => ({ content: 'No results' }))
+}))
+
+vi.mock('@/lib/mcp-client', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/mcp-client')>(),
+  ensureMCPClients: vi.fn(async () => [])
+}))
+
+const MODEL = 'meta-llama/Llama-3.3-70B-Instruct'
+
+// A streamed completion: a tool call while tools are offered, otherwise a text answer
+async function* completionStream(params: any) {
+  if (params.tools) {
+    yield { choices: [{ delta: { tool_calls: [{ index: 0, id: `call_${createCompletion.mock.calls.length}`, function: { name: 'search_internet', arguments: '{"query":"news"}' } }] } }] }
+  } else {
+    yield { choices: [{ delta: { content: 'Final answer' } }] }
+  }
+  yield { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5 } }
+}
+
+let storage: Storage
+let user: { userId: number, token: string }
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  process.env.BERGET_API_KEY = 'test-key'
+  createCompletion.mockImplementation(async (params: any) => completionStream(params))
+  user = await createTestUser(storage, 'alice')
+})
+
+afterEach(() => {
+  setStorage(null)
+  createCompletion.mockReset()
+  vi.mocked(executeFunction).mockClear()
+  delete process.env.CHAT_MAX_TOOL_ITERATIONS
+  delete process.env.USAGE_DAILY_TOKEN_LIMIT
+})
+
+const chat = () => POST(apiRequest('/api/chat', user.token, {
+  method: 'POST',
+  body: { model: MODEL, messages: [{ role: 'user', content: "What's new?" }] }
+}), { params: Promise.resolve({}) })
+
+describe('/api/chat', () => {
+  it('asks for an answer without tools once the tool round limit is reached', async () => {
+    process.env.CHAT_MAX_TOOL_ITERATIONS = '2'
+
+    const response = await chat()
+    const body = await response.text()
+
+    expect(executeFunction).toHaveBeenCalledTimes(2)
+    expect(createCompletion).toHaveBeenCalledTimes(3)
+    expect(createCompletion.mock.calls[1][0].tools).toBeDefined()
+    expect(createCompletion.mock.calls[2][0].tools).toBeUndefined()
+    expect(body).toContain('Final answer')
+    expect(body).toContain('data: [DONE]')
+  })
+
+  it('refuses with 429 once the daily token quota is used up', async () => {
+    process.env.USAGE_DAILY_TOKEN_LIMIT = '100'
+    await recordUsage({ userId: user.userId, kind: 'chat', model: MODEL, promptTokens: 60, completionTokens: 40 })
+
+    const response = await chat()
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBeTruthy()
+    expect(await response.json()).toMatchObject({ code: 'quota_exceeded', period: 'day', limit: 100, used: 100 })
+    expect(createCompletion).not.toHaveBeenCalled()
+  })
+})
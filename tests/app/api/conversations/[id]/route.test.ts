@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { GET, PATCH, DELETE } from '@/app/api/conversations/[id]/route'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage, createTestUser, apiRequest, routeParams } from '@/tests/helpers'
+
+let storage: Storage
+let alice: { userId: number, token: string }
+let bob: { userId: number, token: string }
+let conversationId: number
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  alice = await createTestUser(storage, 'alice')
+  bob = await createTestUser(storage, 'bob')
+  const conversation = await storage.conversations.create({ user_id: alice.userId, title: 'Alice', message_count: 0, is_archived: false })
+  conversationId = conversation.Id!
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+const params = () => routeParams({ id: String(conversationId) })
+
+describe('/api/conversations/[id]', () => {
+  it('lets the owner read the conversation', async () => {
+    const response = await GET(apiRequest(`/api/conversations/${conversationId}`, alice.token), params())
+    expect(response.status).toBe(200)
+    expect((await response.json()).conversation.title).toBe('Alice')
+  })
+
+  it("refuses to show another user's conversation", async () => {
+    const response = await GET(apiRequest(`/api/conversations/${conversationId}`, bob.token), params())
+    expect(response.status).toBe(403)
+  })
+
+  it("refuses to update another user's conversation", async () => {
+    const response = await PATCH(apiRequest(`/api/conversations/${conversationId}`, bob.token, { method: 'PATCH', body: { title: 'Bob' } }), params())
+    expect(response.status).toBe(403)
+    expect((await storage.conversations.findById(conversationId))?.title).toBe('Alice')
+  })
+
+  it("refuses to delete another user's conversation", async () => {
+    const response = await DELETE(apiRequest(`/api/conversations/${conversationId}`, bob.token, { method: 'DELETE' }), params())
+    expect(response.status).toBe(403)
+    expect(await storage.conversations.findById(conversationId)).not.toBeNull()
+  })
+
+  it('answers 404 for a conversation that does not exist', async () => {
+    const response = await GET(apiRequest('/api/conversations/9999', bob.token), routeParams({ id: '9999' }))
+    expect(response.status).toBe(404)
+  })
+
+  it("attaches only the user's own documents", async () => {
+    const document = { file_type: 'text/plain', size: 1, chunk_count: 0 }
+    const own = await storage.documents.create({ ...document, user_id: alice.userId, filename: 'alice.txt' })
+    const other = await storage.documents.create({ ...document, user_id: bob.userId, filename: 'bob.txt' })
+
+    const response = await PATCH(apiRequest(`/api/conversations/${conversationId}`, alice.token, {
+      method: 'PATCH',
+      body: { documentIds: [own.Id, other.Id, '1)~or(user_id,gt,0'] }
+    }), params())
+
+    expect(response.status).toBe(200)
+    expect((await storage.conversations.findById(conversationId))?.document_ids).toBe(JSON.stringify([own.Id]))
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { GET, POST } from '@/app/api/mcp/prompts/route'
+import { getMCPPrompt } from '@/lib/mcp-client'
+import { setStorage } from '@/lib/storage'
+import { setToolPolicies } from '@/lib/tool-permissions'
+import { useTestStorage, createTestUser, apiRequest } from '@/tests/helpers'
+
+vi.mock('@/lib/mcp-client', () => ({
+  ensureMCPClients: vi.fn(async () => []),
+  getMCPPrompts: () => [
+    { server: 'docs', name: 'summarize', arguments: [] },
+    { server: 'hr', name: 'review', arguments: [] }
+  ],
+  getMCPPrompt: vi.fn(async () => ({ messages: [{ role: 'user', content: { type: 'text', text: 'Review' } }] })),
+  mcpContentToText: (content: any) => content.text
+}))
+
+let token: string
+let adminToken: string
+
+beforeEach(async () => {
+  const storage = useTestStorage()
+  token = (await createTestUser(storage, 'alice')).token
+  adminToken = (await createTestUser(storage, 'root', 'admin')).token
+  await setToolPolicies({
+    defaultAction: 'allow',
+    rules: [
+      { tool: 'mcp_hr__*', subjectType: 'everyone', action: 'deny' },
+      { tool: 'mcp_hr__*', subjectType: 'role', subject: 'admin', action: 'allow' }
+    ]
+  })
+  vi.mocked(getMCPPrompt).mockClear()
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+const noParams = { params: Promise.resolve({}) }
+const usePrompt = (accessToken: string) =>
+  POST(apiRequest('/api/mcp/prompts', accessToken, { method: 'POST', body: { server: 'hr', name: 'review' } }), noParams)
+
+describe('/api/mcp/prompts', () => {
+  it('lists only prompts of servers the user is not denied', async () => {
+    const response = await GET(apiRequest('/api/mcp/prompts', token), noParams)
+    expect((await response.json()).prompts.map((prompt: any) => prompt.server)).toEqual(['docs'])
+  })
+
+  it('refuses prompts of a denied server', async () => {
+    const response = await usePrompt(token)
+    expect(response.status).toBe(403)
+    expect(getMCPPrompt).not.toHaveBeenCalled()
+  })
+
+  it('fills in prompts for users the server is allowed to', async () => {
+    const response = await usePrompt(adminToken)
+    expect(response.status).toBe(200)
+    expect((await response.json()).content).toBe('Review')
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { GET } from '@/app/api/mcp/resources/route'
+import { readMCPResource } from '@/lib/mcp-client'
+import { setStorage } from '@/lib/storage'
+import { setToolPolicies } from '@/lib/tool-permissions'
+import { useTestStorage, createTestUser, apiRequest } from '@/tests/helpers'
+
+vi.mock('@/lib/mcp-client', () => ({
+  ensureMCPClients: vi.fn(async () => []),
+  getMCPResources: () => [
+    { server: 'docs', uri: 'docs://readme', name: 'Readme' },
+    { server: 'hr', uri: 'hr://salaries', name: 'Salaries' }
+  ],
+  readMCPResource: vi.fn(async () => [{ uri: 'hr://salaries', text: 'secret' }])
+}))
+
+let token: string
+
+beforeEach(async () => {
+  const storage = useTestStorage()
+  token = (await createTestUser(storage, 'alice')).token
+  await setToolPolicies({
+    defaultAction: 'allow',
+    rules: [
+      { tool: 'mcp_hr__*', subjectType: 'everyone', action: 'deny' },
+      // A single denied tool leaves the server's resources available
+      { tool: 'mcp_docs__delete', subjectType: 'everyone', action: 'deny' }
+    ]
+  })
+  vi.mocked(readMCPResource).mockClear()
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+const noParams = { params: Promise.resolve({}) }
+
+describe('GET /api/mcp/resources', () => {
+  it('lists only resources of servers the user is not denied', async () => {
+    const response = await GET(apiRequest('/api/mcp/resources', token), noParams)
+    expect(response.status).toBe(200)
+    expect((await response.json()).resources.map((resource: any) => resource.server)).toEqual(['docs'])
+  })
+
+  it('does not read resources of a denied server', async () => {
+    const response = await GET(apiRequest('/api/mcp/resources?server=hr&uri=hr://salaries', token), noParams)
+    expect(response.status).toBe(404)
+    expect(readMCPResource).not.toHaveBeenCalled()
+  })
+})
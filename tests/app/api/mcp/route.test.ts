@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { GET, POST, DELETE } from '@/app/api/mcp/route'
+import { executeMCPTool, initializeMCPClients, disconnectMCPClients } from '@/lib/mcp-client'
+import { setStorage } from '@/lib/storage'
+import { setToolPolicies, listToolInvocations } from '@/lib/tool-permissions'
+import { useTestStorage, createTestUser, apiRequest } from '@/tests/helpers'
+
+vi.mock('@/lib/mcp-client', () => {
+  const tools = [{ namespacedName: 'mcp_mock__echo' }, { namespacedName: 'mcp_mock__send' }]
+  return {
+    getMCPTools: () => tools,
+    getMCPServerStatuses: () => [],
+    ensureMCPClients: vi.fn(async () => tools),
+    initializeMCPClients: vi.fn(async () => tools),
+    disconnectMCPClients: vi.fn(),
+    executeMCPTool: vi.fn(async () => ({ content: [{ type: 'text', text: 'done' }], isError: false }))
+  }
+})
+
+let token: string
+let adminToken: string
+
+beforeEach(async () => {
+  const storage = useTestStorage()
+  token = (await createTestUser(storage, 'alice')).token
+  adminToken = (await createTestUser(storage, 'root', 'admin')).token
+  await setToolPolicies({
+    defaultAction: 'allow',
+    rules: [{ tool: 'mcp_mock__send', subjectType: 'everyone', action: 'approve' }]
+  })
+  vi.clearAllMocks()
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+const call = (toolName: string) =>
+  POST(apiRequest('/api/mcp', token, { method: 'POST', body: { toolName, arguments: {} } }), { params: Promise.resolve({}) })
+
+describe('POST /api/mcp', () => {
+  it('runs allowed tools and logs the call', async () => {
+    const response = await call('mcp_mock__echo')
+    expect(response.status).toBe(200)
+    expect(executeMCPTool).toHaveBeenCalledOnce()
+    expect((await listToolInvocations())[0]).toMatchObject({ tool: 'mcp_mock__echo', decision: 'allowed' })
+  })
+
+  it('refuses tools that need approval', async () => {
+    const response = await call('mcp_mock__send')
+    expect(response.status).toBe(403)
+    expect(executeMCPTool).not.toHaveBeenCalled()
+    expect((await listToolInvocations())[0]).toMatchObject({ tool: 'mcp_mock__send', decision: 'denied' })
+  })
+})
+
+describe('GET and DELETE /api/mcp', () => {
+  const noParams = { params: Promise.resolve({}) }
+
+  it('lists the tools for any user', async () => {
+    const response = await GET(apiRequest('/api/mcp', token), noParams)
+    expect(response.status).toBe(200)
+    expect(initializeMCPClients).not.toHaveBeenCalled()
+  })
+
+  it('lets only admins reconnect the servers', async () => {
+    const refused = await GET(apiRequest('/api/mcp?refresh=true', token), noParams)
+    expect(refused.status).toBe(403)
+    expect(initializeMCPClients).not.toHaveBeenCalled()
+
+    const refreshed = await GET(apiRequest('/api/mcp?refresh=true', adminToken), noParams)
+    expect(refreshed.status).toBe(200)
+    expect(initializeMCPClients).toHaveBeenCalledOnce()
+  })
+
+  it('lets only admins disconnect the servers', async () => {
+    const refused = await DELETE(apiRequest('/api/mcp', token, { method: 'DELETE' }), noParams)
+    expect(refused.status).toBe(403)
+    expect(disconnectMCPClients).not.toHaveBeenCalled()
+
+    const disconnected = await DELETE(apiRequest('/api/mcp', adminToken, { method: 'DELETE' }), noParams)
+    expect(disconnected.status).toBe(200)
+    expect(disconnectMCPClients).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { PATCH, DELETE } from '@/app/api/messages/[id]/route'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage, createTestUser, apiRequest, routeParams } from '@/tests/helpers'
+
+let storage: Storage
+let alice: { userId: number, token: string }
+let bob: { userId: number, token: string }
+let messageId: number
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  alice = await createTestUser(storage, 'alice')
+  bob = await createTestUser(storage, 'bob')
+  const conversation = await storage.conversations.create({ user_id: alice.userId, title: 'Alice', message_count: 1, is_archived: false })
+  const message = await storage.messages.create({ conversation_id: conversation.Id!, role: 'user', content: 'Hello', timestamp: new Date().toISOString() })
+  messageId = message.Id!
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+const params = () => routeParams({ id: String(messageId) })
+
+describe('/api/messages/[id]', () => {
+  it('lets the owner update the message', async () => {
+    const response = await PATCH(apiRequest(`/api/messages/${messageId}`, alice.token, { method: 'PATCH', body: { content: 'Edited' } }), params())
+    expect(response.status).toBe(200)
+    expect((await storage.messages.findById(messageId))?.content).toBe('Edited')
+  })
+
+  it("refuses to update a message in another user's conversation", async () => {
+    const response = await PATCH(apiRequest(`/api/messages/${messageId}`, bob.token, { method: 'PATCH', body: { content: 'Bob' } }), params())
+    expect(response.status).toBe(403)
+    expect((await storage.messages.findById(messageId))?.content).toBe('Hello')
+  })
+
+  it("refuses to delete a message in another user's conversation", async () => {
+    const response = await DELETE(apiRequest(`/api/messages/${messageId}`, bob.token, { method: 'DELETE' }), params())
+    expect(response.status).toBe(403)
+    expect(await storage.messages.findById(messageId)).not.toBeNull()
+  })
+
+  it('answers 404 for a message that does not exist', async () => {
+    const response = await DELETE(apiRequest('/api/messages/9999', bob.token, { method: 'DELETE' }), routeParams({ id: '9999' }))
+    expect(response.status).toBe(404)
+  })
+})
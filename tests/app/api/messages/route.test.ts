@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { POST } from '@/app/api/messages/route'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage, createTestUser, apiRequest } from '@/tests/helpers'
+
+let storage: Storage
+let alice: { userId: number, token: string }
+let bob: { userId: number, token: string }
+let conversationId: number
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  alice = await createTestUser(storage, 'alice')
+  bob = await createTestUser(storage, 'bob')
+  const conversation = await storage.conversations.create({ user_id: alice.userId, title: 'Alice', message_count: 0, is_archived: false })
+  conversationId = conversation.Id!
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+const message = () => ({ conversationId, role: 'user', content: 'Hello' })
+
+describe('POST /api/messages', () => {
+  it("adds a message to the user's own conversation", async () => {
+    const response = await POST(apiRequest('/api/messages', alice.token, { method: 'POST', body: message() }), { params: Promise.resolve({}) })
+    expect(response.status).toBe(200)
+    expect(await storage.messages.listByConversation(conversationId)).toHaveLength(1)
+  })
+
+  it("refuses to add a message to another user's conversation", async () => {
+    const response = await POST(apiRequest('/api/messages', bob.token, { method: 'POST', body: message() }), { params: Promise.resolve({}) })
+    expect(response.status).toBe(403)
+    expect(await storage.messages.listByConversation(conversationId)).toHaveLength(0)
+  })
+})
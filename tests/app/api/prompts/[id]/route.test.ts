@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { PATCH, DELETE } from '@/app/api/prompts/[id]/route'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage, createTestUser, apiRequest, routeParams } from '@/tests/helpers'
+
+let storage: Storage
+let alice: { userId: number, token: string }
+let bob: { userId: number, token: string }
+let promptId: number
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  alice = await createTestUser(storage, 'alice')
+  bob = await createTestUser(storage, 'bob')
+  const prompt = await storage.prompts.create({ user_id: alice.userId, name: 'Alice', content: 'Be brief', is_default: false })
+  promptId = prompt.Id!
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+const params = () => routeParams({ id: String(promptId) })
+
+describe('/api/prompts/[id]', () => {
+  it('lets the owner update the prompt', async () => {
+    const response = await PATCH(apiRequest(`/api/prompts/${promptId}`, alice.token, { method: 'PATCH', body: { name: 'Renamed' } }), params())
+    expect(response.status).toBe(200)
+    expect((await storage.prompts.findById(promptId))?.name).toBe('Renamed')
+  })
+
+  it("refuses to update another user's prompt or make it their default", async () => {
+    const response = await PATCH(apiRequest(`/api/prompts/${promptId}`, bob.token, {
+      method: 'PATCH',
+      body: { name: 'Bob', isDefault: true }
+    }), params())
+
+    expect(response.status).toBe(403)
+    const prompt = await storage.prompts.findById(promptId)
+    expect(prompt?.name).toBe('Alice')
+    expect(prompt?.is_default).toBeFalsy()
+  })
+
+  it("refuses to delete another user's prompt", async () => {
+    const response = await DELETE(apiRequest(`/api/prompts/${promptId}`, bob.token, { method: 'DELETE' }), params())
+    expect(response.status).toBe(403)
+    expect(await storage.prompts.findById(promptId)).not.toBeNull()
+  })
+
+  it('answers 404 for a prompt that does not exist', async () => {
+    const response = await DELETE(apiRequest('/api/prompts/9999', bob.token, { method: 'DELETE' }), routeParams({ id: '9999' }))
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,49 @@
+import { vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { setStorage } from '@/lib/storage'
+import { createSQLiteStorage } from '@/lib/storage/sqlite'
+import { startSession } from '@/lib/auth'
+import { Storage } from '@/lib/storage/types'
+
+/**
+ * Switches to a fresh in-memory SQLite storage for a test
+ * @returns The storage, to create test records with
+ */
+export function useTestStorage(): Storage {
+  process.env.JWT_SECRET = 'test-secret'
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  const storage = createSQLiteStorage(':memory:')
+  setStorage(storage)
+  return storage
+}
+
+/**
+ * Creates a user and logs them in
+ * @param storage - The test storage
+ * @param username - The new user's username
+ * @param roles - The user's comma-separated roles, 'admin' for an admin
+ * @returns The user's ID and an access token for them
+ */
+export async function createTestUser(storage: Storage, username: string, roles = 'user'): Promise<{ userId: number, token: string }> {
+  const user = await storage.users.create({ username, password_hash: 'hash', roles })
+  const started = await startSession(user)
+  if (!started) {
+    throw new Error(`Could not start a session for ${username}`)
+  }
+  return { userId: started.session.userId, token: started.tokens.accessToken }
+}
+
+// A request to an API route, authenticated with the given access token
+export function apiRequest(path: string, token: string, init: { method?: string, body?: unknown } = {}): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method || 'GET',
+    headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  })
+}
+
+// The context Next.js passes to route handlers with dynamic segments
+export function routeParams<P>(params: P): { params: Promise<P> } {
+  return { params: Promise.resolve(params) }
+}
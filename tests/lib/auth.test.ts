@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { startSession, refreshSession, getSession, SessionTokens } from '@/lib/auth'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage } from '@/tests/helpers'
+
+let storage: Storage
+let tokens: SessionTokens
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  vi.useFakeTimers({ toFake: ['Date'] })
+  const user = await storage.users.create({ username: 'alice', password_hash: 'hash', roles: 'user' })
+  tokens = (await startSession(user))!.tokens
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  setStorage(null)
+})
+
+const authenticate = (accessToken: string) => getSession(new NextRequest('http://localhost/api/user', {
+  headers: { authorization: `Bearer ${accessToken}` }
+}))
+
+describe('refreshSession', () => {
+  it('replaces the refresh token with a new one', async () => {
+    const refreshed = await refreshSession(tokens.refreshToken!)
+
+    expect(refreshed?.tokens.refreshToken).toBeDefined()
+    expect(refreshed?.tokens.refreshToken).not.toBe(tokens.refreshToken)
+    expect('session' in await authenticate(refreshed!.tokens.accessToken)).toBe(true)
+  })
+
+  it('accepts the previous refresh token from a parallel request within the grace period', async () => {
+    const refreshed = await refreshSession(tokens.refreshToken!)
+    vi.advanceTimersByTime(10 * 1000)
+
+    const parallel = await refreshSession(tokens.refreshToken!)
+
+    expect(parallel?.tokens.accessToken).toBeDefined()
+    expect(parallel?.tokens.refreshToken).toBeUndefined()
+    expect(await refreshSession(refreshed!.tokens.refreshToken!)).not.toBeNull()
+  })
+
+  it('ends the session when a rotated refresh token is reused after the grace period', async () => {
+    const refreshed = await refreshSession(tokens.refreshToken!)
+    vi.advanceTimersByTime(31 * 1000)
+
+    expect(await refreshSession(tokens.refreshToken!)).toBeNull()
+    expect(await refreshSession(refreshed!.tokens.refreshToken!)).toBeNull()
+    expect(await authenticate(refreshed!.tokens.accessToken)).toEqual({ error: 'session_revoked' })
+  })
+})
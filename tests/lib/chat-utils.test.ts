@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { getAnswerMetadata } from '@/lib/chat-utils'
+import { Message } from '@/lib/types'
+
+const answer = (overrides: Partial<Message> = {}): Message => ({
+  id: '1',
+  role: 'assistant',
+  content: 'Answer',
+  timestamp: new Date(),
+  ...overrides
+})
+
+describe('getAnswerMetadata', () => {
+  it('returns nothing for an answer without sources, images or tool calls', () => {
+    expect(getAnswerMetadata(answer())).toBeUndefined()
+  })
+
+  it('keeps small images and leaves out the data of large ones', () => {
+    const small = { mimeType: 'image/png', data: 'a'.repeat(100) }
+    const large = { mimeType: 'image/jpeg', data: 'a'.repeat(200000) }
+
+    const metadata = getAnswerMetadata(answer({ images: [small, large] }))
+    expect(metadata?.images).toEqual([small, { mimeType: 'image/jpeg' }])
+  })
+
+  it('cuts long tool results short and marks the calls completed', () => {
+    const metadata = getAnswerMetadata(answer({
+      toolCalls: [
+        { name: 'short', args: {}, status: 'calling', result: 'done' },
+        { name: 'long', args: {}, status: 'completed', result: 'x'.repeat(20000) },
+        { name: 'parts', args: {}, status: 'completed', result: [{ type: 'text', text: 'y'.repeat(5000) }] }
+      ]
+    }))
+
+    const [short, long, parts] = metadata?.toolCalls
+    expect(short).toMatchObject({ status: 'completed', result: 'done' })
+    expect(long.result).toBe('x'.repeat(2000) + '\n[...]')
+    expect(typeof parts.result).toBe('string')
+    expect(parts.result.length).toBeLessThan(2100)
+  })
+
+  it('does not change the message it is given', () => {
+    const image = { mimeType: 'image/png', data: 'a'.repeat(200000) }
+    const message = answer({ images: [image] })
+    getAnswerMetadata(message)
+    expect(message.images?.[0]).toBe(image)
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { chunkDocument, estimateTokens } from '@/lib/chunking'
+
+const sentence = (n: number) => `Sentence number ${n} says something about the topic.`
+const paragraph = (from: number, count: number) => Array.from({ length: count }, (_, i) => sentence(from + i)).join(' ')
+
+describe('chunkDocument', () => {
+  it('starts a chunk at every heading and records the heading path', () => {
+    const text = [
+      '# Guide',
+      'Introduction to the guide.',
+      '## Install',
+      'Run the installer.',
+      '## Configure',
+      'Edit the settings file.'
+    ].join('\n\n')
+
+    const chunks = chunkDocument(text, 'guide.md', 'markdown', { maxTokens: 200, overlapTokens: 0 })
+
+    expect(chunks.map(chunk => chunk.metadata.sectionPath)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Configure']
+    ])
+    expect(chunks[1].content).toContain('Run the installer.')
+    expect(chunks.every(chunk => chunk.metadata.totalChunks === 3)).toBe(true)
+  })
+
+  it('keeps chunks within the token limit', () => {
+    const text = [paragraph(1, 10), paragraph(11, 10), paragraph(21, 10)].join('\n\n')
+
+    const chunks = chunkDocument(text, 'notes.txt', 'text', { maxTokens: 100, overlapTokens: 0 })
+
+    expect(chunks.length).toBeGreaterThan(3)
+    expect(chunks.every(chunk => estimateTokens(chunk.content) <= 100)).toBe(true)
+    expect(chunks.map(chunk => chunk.content).join(' ')).toContain(sentence(30))
+  })
+
+  it('repeats the end of a chunk at the start of the next one', () => {
+    const text = [paragraph(1, 6), paragraph(7, 6)].join('\n\n')
+
+    const chunks = chunkDocument(text, 'notes.txt', 'text', { maxTokens: 100, overlapTokens: 20 })
+
+    expect(chunks).toHaveLength(2)
+    expect(chunks[1].content).toContain(sentence(6))
+    expect(chunks[1].content).not.toContain(sentence(1))
+  })
+
+  it('never mixes pages in a chunk of a paged document', () => {
+    const text = '--- Page 1 ---\nFirst page text.\n\n--- Page 2 ---\nSecond page text.'
+
+    const chunks = chunkDocument(text, 'report.pdf', 'pdf', { maxTokens: 200, overlapTokens: 0 })
+
+    expect(chunks.map(chunk => [chunk.metadata.page, chunk.content])).toEqual([
+      [1, 'First page text.'],
+      [2, 'Second page text.']
+    ])
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { searchDocuments } from '@/lib/functions'
+import { getMonthlyUsageTotals } from '@/lib/usage'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage, createTestUser } from '@/tests/helpers'
+
+vi.mock('@/lib/embeddings', () => ({
+  getEmbeddingModel: () => 'test-embedding',
+  createQueryEmbedding: vi.fn(async () => ({ embedding: [1, 0], model: 'test-embedding', tokens: 7 }))
+}))
+
+let storage: Storage
+let userId: number
+
+beforeEach(async () => {
+  storage = useTestStorage()
+  userId = (await createTestUser(storage, 'alice')).userId
+  const document = await storage.documents.create({ user_id: userId, filename: 'notes.txt', file_type: 'text/plain', size: 20, chunk_count: 1 })
+  await storage.documentChunks.createMany([{
+    document_id: document.Id!,
+    user_id: userId,
+    chunk_index: 0,
+    content: 'The apple harvest starts in September',
+    embedding: JSON.stringify([1, 0]),
+    metadata: JSON.stringify({ filename: 'notes.txt', chunkIndex: 0, totalChunks: 1, embeddingModel: 'test-embedding' })
+  }])
+})
+
+afterEach(() => {
+  setStorage(null)
+})
+
+describe('searchDocuments', () => {
+  it('finds matching chunks and records the tokens spent embedding the query', async () => {
+    const result = await searchDocuments('apple harvest', { userId })
+
+    expect(result.sources?.[0]).toMatchObject({ title: 'notes.txt' })
+    expect((await getMonthlyUsageTotals(userId)).tokens).toBe(7)
+  })
+})
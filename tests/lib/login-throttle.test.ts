@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+  setLoginAttemptStore,
+  createMemoryAttemptStore,
+  createDatabaseAttemptStore,
+  getClientIp,
+  getUsernameThrottle,
+  LoginAttemptStore,
+  UNKNOWN_IP
+} from '@/lib/login-throttle'
+import { setStorage } from '@/lib/storage'
+import { useTestStorage } from '@/tests/helpers'
+
+let store: LoginAttemptStore
+
+beforeEach(() => {
+  process.env.LOGIN_IP_MAX_FAILURES = '2'
+  process.env.LOGIN_BACKOFF_BASE_SECONDS = '0'
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  store = createMemoryAttemptStore()
+  setLoginAttemptStore(store)
+})
+
+afterEach(() => {
+  delete process.env.TRUSTED_PROXY_HOPS
+  delete process.env.LOGIN_FAILURE_WINDOW_MINUTES
+  vi.useRealTimers()
+  setStorage(null)
+})
+
+const fail = (username: string, ipAddress: string) =>
+  recordLoginFailure({ username, ipAddress, reason: 'wrong_password' })
+
+describe('login throttling', () => {
+  it('blocks an IP address after too many failures across usernames', async () => {
+    await fail('anna', '10.0.0.1')
+    await fail('bert', '10.0.0.1')
+
+    expect(await checkLoginAllowed('carl', '10.0.0.1')).toMatchObject({ allowed: false, code: 'too_many_attempts' })
+    expect(await checkLoginAllowed('carl', '10.0.0.2')).toEqual({ allowed: true })
+  })
+
+  it('throttles clients whose address is unknown together', async () => {
+    await fail('anna', UNKNOWN_IP)
+    await fail('bert', UNKNOWN_IP)
+
+    expect(await checkLoginAllowed('carl', UNKNOWN_IP)).toMatchObject({ allowed: false, code: 'too_many_attempts' })
+  })
+
+  it('encodes filter characters of usernames in throttle keys', async () => {
+    const addFailure = vi.spyOn(store, 'addFailure')
+    await fail('x)~or(failures,gt,0', '10.0.0.1')
+
+    expect(addFailure.mock.calls.map(call => call[0])).toContain('user:x%29%7Eor%28failures%2Cgt%2C0')
+  })
+
+  it('starts counting over once a lock has run out', async () => {
+    // Failures stay in the window after the lock has run out
+    process.env.LOGIN_FAILURE_WINDOW_MINUTES = '60'
+    vi.useFakeTimers()
+    for (let i = 0; i < 5; i++) await fail('anna', `10.0.1.${i}`)
+    expect(await checkLoginAllowed('anna', '10.0.2.1')).toMatchObject({ allowed: false, code: 'account_locked' })
+
+    vi.advanceTimersByTime(15 * 60 * 1000 + 1000)
+    await fail('anna', '10.0.2.1')
+    expect(await checkLoginAllowed('anna', '10.0.2.1')).toEqual({ allowed: true })
+    expect((await getUsernameThrottle('anna'))?.failures).toBe(1)
+  })
+
+  it('counts every one of concurrent failures in the database store', async () => {
+    useTestStorage()
+    setLoginAttemptStore(createDatabaseAttemptStore())
+
+    await Promise.all(Array.from({ length: 5 }, (_, i) => fail('anna', `10.0.3.${i}`)))
+
+    expect(await getUsernameThrottle('anna')).toMatchObject({ failures: 5 })
+    expect(await checkLoginAllowed('anna', '10.0.4.1')).toMatchObject({ allowed: false, code: 'account_locked' })
+  })
+})
+
+describe('getClientIp', () => {
+  const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/auth/login', { headers })
+
+  it('takes the address the trusted proxy saw, not the one the client sent', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4, 10.0.0.7' }))).toBe('10.0.0.7')
+    expect(getClientIp(request({ 'x-forwarded-for': '10.0.0.7' }))).toBe('10.0.0.7')
+  })
+
+  it('counts the configured number of proxies from the right', () => {
+    process.env.TRUSTED_PROXY_HOPS = '2'
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4, 10.0.0.7, 192.168.0.2' }))).toBe('10.0.0.7')
+  })
+
+  it('uses X-Real-IP without X-Forwarded-For', () => {
+    expect(getClientIp(request({ 'x-real-ip': '10.0.0.8' }))).toBe('10.0.0.8')
+    expect(getClientIp(request({}))).toBe(UNKNOWN_IP)
+  })
+
+  it('trusts no headers without proxies', () => {
+    process.env.TRUSTED_PROXY_HOPS = '0'
+    expect(getClientIp(request({ 'x-forwarded-for': '10.0.0.7', 'x-real-ip': '10.0.0.8' }))).toBe(UNKNOWN_IP)
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest'
+import { spawn, ChildProcess } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { initializeMCPClients, ensureMCPClients, executeMCPTool, getMCPClient, getMCPServerStatuses, disconnectMCPClients } from '@/lib/mcp-client'
+
+// Runs against scripts/mock-mcp-server.js, started on its own port for each test that needs it
+
+const MOCK_SERVER = path.join(process.cwd(), 'scripts', 'mock-mcp-server.js')
+let nextPort = 19500 + Math.floor(Math.random() * 400)
+let configFile: string
+const servers: ChildProcess[] = []
+
+// Starts the mock HTTP server and waits until it listens
+function startMockServer(port: number): Promise<void> {
+  const child = spawn(process.execPath, [MOCK_SERVER], {
+    env: { ...process.env, MOCK_MCP_PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'inherit']
+  })
+  servers.push(child)
+  return new Promise((resolve, reject) => {
+    child.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('running at')) resolve()
+    })
+    child.on('exit', code => reject(new Error(`Mock MCP server exited with code ${code}`)))
+  })
+}
+
+// Points MCP_CONFIG_FILE at a config with one server named mock
+function useServer(settings: Record<string, unknown>): void {
+  fs.writeFileSync(configFile, JSON.stringify({ servers: { mock: { timeoutMs: 5000, ...settings } } }))
+}
+
+const callTool = (tool: string, args: Record<string, unknown> = {}) =>
+  executeMCPTool({ name: `mcp_mock__${tool}`, arguments: args })
+
+const resultText = (result: { content: { text?: string }[] }) => result.content.map(part => part.text).join('')
+
+beforeAll(() => {
+  configFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-test-')), 'mcp-servers.json')
+  process.env.MCP_CONFIG_FILE = configFile
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  disconnectMCPClients()
+  for (const server of servers.splice(0)) server.kill()
+})
+
+afterAll(() => {
+  fs.rmSync(path.dirname(configFile), { recursive: true, force: true })
+})
+
+describe('MCP client', () => {
+  it('calls tools over Streamable HTTP', async () => {
+    const port = nextPort++
+    await startMockServer(port)
+    useServer({ url: `http://localhost:${port}/mcp` })
+
+    const tools = await initializeMCPClients()
+    expect(tools.map(tool => tool.namespacedName)).toContain('mcp_mock__echo')
+    expect(resultText(await callTool('add', { a: 2, b: 3 }))).toBe('5')
+    expect(getMCPServerStatuses()[0]).toMatchObject({ status: 'connected', transport: 'streamable-http', protocolVersion: '2025-03-26' })
+  })
+
+  it('falls back to SSE when the server rejects Streamable HTTP', async () => {
+    const port = nextPort++
+    await startMockServer(port)
+    // POST /sse is a 404, so only the SSE transport works on this URL
+    useServer({ url: `http://localhost:${port}/sse` })
+
+    await initializeMCPClients()
+    expect(getMCPServerStatuses()[0]).toMatchObject({ status: 'connected', transport: 'sse', protocolVersion: '2024-11-05' })
+    expect(resultText(await callTool('echo', { text: 'over sse' }))).toBe('over sse')
+  })
+
+  it('retries connecting to a server that is not up yet', async () => {
+    const port = nextPort++
+    useServer({ url: `http://localhost:${port}/mcp` })
+
+    // The first attempt is refused; the server is up before the retry half a second later
+    const initializing = initializeMCPClients()
+    await startMockServer(port)
+    const tools = await initializing
+
+    expect(tools.length).toBeGreaterThan(0)
+    expect(getMCPServerStatuses()[0].status).toBe('connected')
+  }, 15000)
+
+  it('starts a new session when the server has ended the old one', async () => {
+    const port = nextPort++
+    await startMockServer(port)
+    useServer({ url: `http://localhost:${port}/mcp` })
+    await initializeMCPClients()
+
+    await callTool('expire_session')
+    expect(resultText(await callTool('echo', { text: 'again' }))).toBe('again')
+    expect(getMCPServerStatuses()[0].status).toBe('connected')
+  })
+
+  it('sends again only the request that never reached the server', async () => {
+    const port = nextPort++
+    await startMockServer(port)
+    useServer({ url: `http://localhost:${port}/mcp` })
+    await initializeMCPClients()
+
+    // The server is running the sleep call when the session ends and the echo call is refused
+    const sleeping = callTool('sleep', { ms: 500 })
+    await new Promise(resolve => setTimeout(resolve, 100))
+    await callTool('expire_session')
+    const echo = await callTool('echo', { text: 'resent' })
+
+    expect(resultText(echo)).toBe('resent')
+    const slept = await sleeping
+    expect(slept.isError).toBe(true)
+    expect(resultText(slept)).toContain('MCP connection lost')
+  })
+
+  it('keeps the connected clients when asked to connect again', async () => {
+    const port = nextPort++
+    await startMockServer(port)
+    useServer({ url: `http://localhost:${port}/mcp` })
+
+    const [tools] = await Promise.all([ensureMCPClients(), ensureMCPClients()])
+    const client = getMCPClient('mock')
+    expect(tools.length).toBeGreaterThan(0)
+
+    await ensureMCPClients()
+    expect(getMCPClient('mock')).toBe(client)
+    expect(getMCPServerStatuses()[0].status).toBe('connected')
+  })
+
+  it('restarts a stdio server that has exited', async () => {
+    useServer({ transport: 'stdio', command: process.execPath, args: [MOCK_SERVER, '--stdio'] })
+    await initializeMCPClients()
+
+    // The server exits shortly after answering
+    await callTool('expire_session')
+    await new Promise(resolve => setTimeout(resolve, 500))
+
+    expect(resultText(await callTool('echo', { text: 'restarted' }))).toBe('restarted')
+  }, 15000)
+})
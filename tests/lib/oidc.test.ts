@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest'
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import { createAuthorizationRequest, handleCallback, provisionUser, OidcError } from '@/lib/oidc'
+import { setStorage } from '@/lib/storage'
+import { Storage } from '@/lib/storage/types'
+import { useTestStorage } from '@/tests/helpers'
+
+// A provider served from a stubbed fetch, like scripts/mock-oidc-provider.js but issuing whatever
+// ID token a test asks for
+
+const ISSUER = 'http://oidc.test'
+const CLIENT_ID = 'chatswe'
+const KEY_ID = 'test-key'
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+// Claims of the next ID token, on top of valid ones; the nonce is that of the started login
+let idTokenOverrides: Record<string, unknown> = {}
+let signingKey: crypto.KeyObject = privateKey
+
+function stubProvider(nonce: string): void {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 })
+    switch (url) {
+      case `${ISSUER}/.well-known/openid-configuration`:
+        return json({
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          jwks_uri: `${ISSUER}/jwks`
+        })
+      case `${ISSUER}/jwks`:
+        return json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] })
+      case `${ISSUER}/token`: {
+        const claims = { iss: ISSUER, aud: CLIENT_ID, sub: 'user-1', nonce, preferred_username: 'sso-user', ...idTokenOverrides }
+        return json({ id_token: jwt.sign(claims, signingKey, { algorithm: 'RS256', keyid: KEY_ID, expiresIn: 300 }) })
+      }
+      default:
+        return new Response('Not found', { status: 404 })
+    }
+  }))
+}
+
+// Starts a login and completes it with the ID token the provider issues
+async function logIn() {
+  const { url, flowCookie } = await createAuthorizationRequest('/')
+  const params = new URL(url).searchParams
+  stubProvider(params.get('nonce')!)
+  return handleCallback(new URLSearchParams({ code: 'code', state: params.get('state')! }), flowCookie)
+}
+
+async function expectRejected(promise: Promise<unknown>, code: string) {
+  const error = await promise.catch(error => error)
+  expect(error).toBeInstanceOf(OidcError)
+  expect((error as OidcError).code).toBe(code)
+}
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-secret'
+  process.env.OIDC_ISSUER = ISSUER
+  process.env.OIDC_CLIENT_ID = CLIENT_ID
+})
+
+beforeEach(() => {
+  idTokenOverrides = {}
+  signingKey = privateKey
+  // Discovery happens before the login's nonce is known; the nonce doesn't matter for it
+  stubProvider('')
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('OIDC callback', () => {
+  it('accepts a valid ID token', async () => {
+    const { claims, returnTo } = await logIn()
+    expect(claims.sub).toBe('user-1')
+    expect(returnTo).toBe('/')
+  })
+
+  it('rejects an ID token with another nonce', async () => {
+    idTokenOverrides = { nonce: 'replayed' }
+    await expectRejected(logIn(), 'invalid_id_token')
+  })
+
+  it('rejects an ID token from another issuer', async () => {
+    idTokenOverrides = { iss: 'http://evil.test' }
+    await expectRejected(logIn(), 'invalid_id_token')
+  })
+
+  it('rejects an ID token issued to another client', async () => {
+    idTokenOverrides = { aud: 'another-app' }
+    await expectRejected(logIn(), 'invalid_id_token')
+  })
+
+  it('rejects an ID token signed with another key', async () => {
+    signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey
+    await expectRejected(logIn(), 'invalid_id_token')
+  })
+
+  it('rejects a callback with another state', async () => {
+    const { flowCookie } = await createAuthorizationRequest('/')
+    await expectRejected(handleCallback(new URLSearchParams({ code: 'code', state: 'forged' }), flowCookie), 'invalid_state')
+  })
+})
+
+describe('OIDC user provisioning', () => {
+  let storage: Storage
+
+  beforeEach(() => {
+    storage = useTestStorage()
+  })
+
+  afterEach(() => {
+    setStorage(null)
+  })
+
+  it('creates the user on their first login', async () => {
+    const user = await provisionUser({ sub: 'user-1', preferred_username: 'sso-user' })
+    expect(user).toMatchObject({ username: 'sso-user', auth_provider: 'oidc', external_id: 'user-1' })
+  })
+
+  it('refuses a disabled user', async () => {
+    await storage.users.create({ username: 'sso-user', password_hash: 'hash', auth_provider: 'oidc', external_id: 'user-1', disabled: true })
+    await expectRejected(provisionUser({ sub: 'user-1', preferred_username: 'sso-user' }), 'account_disabled')
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest'
+import { bm25Scores, hybridSearch, RetrievalOptions } from '@/lib/retrieval'
+import { DocumentChunk } from '@/lib/document-utils'
+
+const MODEL = 'test-embedding'
+
+function chunk(id: string, content: string, embedding?: number[], embeddingModel = MODEL): DocumentChunk {
+  return {
+    id,
+    content,
+    embedding,
+    metadata: { filename: `${id}.txt`, chunkIndex: 0, totalChunks: 1, embeddingModel }
+  }
+}
+
+const options = (overrides: Partial<RetrievalOptions> = {}): RetrievalOptions => ({
+  topK: 10,
+  candidatePool: 10,
+  minSimilarity: 0,
+  minRerankScore: 0,
+  embeddingModel: MODEL,
+  ...overrides
+})
+
+const ids = (results: { chunk: DocumentChunk }[]) => results.map(result => result.chunk.id)
+
+describe('bm25Scores', () => {
+  it('scores chunks with more occurrences of the query terms higher', () => {
+    const scores = bm25Scores('apple', [
+      chunk('a', 'apple apple banana'),
+      chunk('b', 'apple banana cherry'),
+      chunk('c', 'banana cherry plum')
+    ])
+    expect(scores[0]).toBeGreaterThan(scores[1])
+    expect(scores[1]).toBeGreaterThan(0)
+    expect(scores[2]).toBe(0)
+  })
+
+  it('gives partial credit to compound words', () => {
+    const scores = bm25Scores('förening', [
+      chunk('a', 'bostadsrättsförening i staden'),
+      chunk('b', 'ett hus i staden')
+    ])
+    expect(scores[0]).toBeGreaterThan(0)
+    expect(scores[1]).toBe(0)
+  })
+})
+
+describe('hybridSearch', () => {
+  it('ranks lexically when there is no query embedding', async () => {
+    const chunks = [
+      chunk('b', 'apple banana cherry', [1, 0]),
+      chunk('a', 'apple apple banana', [1, 0]),
+      chunk('c', 'banana cherry plum', [1, 0])
+    ]
+    const results = await hybridSearch('apple', null, chunks, options())
+    expect(ids(results)).toEqual(['a', 'b'])
+    expect(results.every(result => result.similarity === null)).toBe(true)
+  })
+
+  it('fuses the lexical and vector rankings with reciprocal rank fusion', async () => {
+    const chunks = [
+      chunk('both', 'apple pie recipe', [1, 0]),
+      chunk('vector', 'fruit dessert ideas', [0.8, 0.6]),
+      chunk('lexical', 'apple orchard history', [0, 1])
+    ]
+    const results = await hybridSearch('apple', [1, 0], chunks, options())
+
+    // Second lexically and second by vector tie, so they keep their input order
+    expect(ids(results)).toEqual(['both', 'vector', 'lexical'])
+    // First in both rankings, with the default k of 60
+    expect(results[0].score).toBeCloseTo(2 / 61)
+    expect(results[0].similarity).toBeCloseTo(1)
+    expect(results[1].score).toBeCloseTo(1 / 62)
+    expect(results[2].score).toBeCloseTo(1 / 62)
+  })
+
+  it('uses the given RRF constant', async () => {
+    const results = await hybridSearch('apple', [1, 0], [chunk('a', 'apple', [1, 0])], options({ rrfK: 10 }))
+    expect(results[0].score).toBeCloseTo(2 / 11)
+  })
+
+  it('keeps the input order of chunks with equal fused scores', async () => {
+    // a is first lexically and second by vector, b the other way round
+    const a = chunk('a', 'apple apple banana', [0.6, 0.8])
+    const b = chunk('b', 'apple banana cherry', [1, 0])
+
+    const results = await hybridSearch('apple', [1, 0], [a, b], options())
+    expect(results[0].score).toBeCloseTo(results[1].score)
+    expect(ids(results)).toEqual(['a', 'b'])
+
+    const reversed = await hybridSearch('apple', [1, 0], [b, a], options())
+    expect(ids(reversed)).toEqual(['b', 'a'])
+  })
+
+  it('drops chunks below the minimum similarity, even when they contain a query term', async () => {
+    const chunks = [
+      chunk('close', 'fruit dessert ideas', [0.8, 0.6]),
+      chunk('far', 'car repair manual', [0.3, 0.95]),
+      chunk('lexical', 'the apple of my eye', [0, 1])
+    ]
+    const results = await hybridSearch('apple', [1, 0], chunks, options({ minSimilarity: 0.5 }))
+    expect(ids(results)).toEqual(['close'])
+  })
+
+  it('keeps term matches that have no comparable embedding', async () => {
+    const chunks = [
+      chunk('close', 'fruit dessert ideas', [0.8, 0.6]),
+      chunk('unembedded', 'apple orchard'),
+      chunk('other', 'apple pie', [0, 1], 'another-model')
+    ]
+    const results = await hybridSearch('apple', [1, 0], chunks, options({ minSimilarity: 0.5 }))
+    expect(ids(results).sort()).toEqual(['close', 'other', 'unembedded'])
+  })
+
+  it('compares vectors only for chunks embedded with the query model', async () => {
+    const chunks = [
+      chunk('same', 'fruit', [1, 0]),
+      chunk('other', 'fruit', [1, 0], 'another-model'),
+      chunk('short', 'fruit', [1, 0, 0])
+    ]
+    const results = await hybridSearch('vegetables', [1, 0], chunks, options())
+    expect(ids(results)).toEqual(['same'])
+  })
+
+  it('returns at most topK results', async () => {
+    const chunks = ['a', 'b', 'c', 'd'].map(id => chunk(id, `apple ${id}`))
+    const results = await hybridSearch('apple', null, chunks, options({ topK: 2 }))
+    expect(results).toHaveLength(2)
+  })
+
+  it('orders by reranker relevance and drops results below the minimum', async () => {
+    const chunks = [
+      chunk('a', 'apple apple apple'),
+      chunk('b', 'apple banana'),
+      chunk('c', 'apple cherry plum')
+    ]
+    const rerank = vi.fn(async (_query: string, documents: string[]) =>
+      documents.map(document => document.includes('cherry') ? 0.9 : document.includes('banana') ? 0.6 : 0.1))
+
+    const results = await hybridSearch('apple', null, chunks, options({ rerank, minSimilarity: 0.95, minRerankScore: 0.5 }))
+    expect(rerank).toHaveBeenCalledOnce()
+    expect(ids(results)).toEqual(['c', 'b'])
+    expect(results[0].rerankScore).toBe(0.9)
+  })
+
+  it('falls back to the fused ranking when the reranker fails', async () => {
+    const chunks = [chunk('b', 'apple banana cherry'), chunk('a', 'apple apple banana')]
+    const rerank = vi.fn(async () => { throw new Error('unavailable') })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const results = await hybridSearch('apple', null, chunks, options({ rerank }))
+    expect(ids(results)).toEqual(['a', 'b'])
+    expect(results[0].rerankScore).toBeUndefined()
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createSQLiteStorage } from '@/lib/storage/sqlite'
+import { Storage } from '@/lib/storage/types'
+
+let storage: Storage
+let userId: number
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  storage = createSQLiteStorage(':memory:')
+  const user = await storage.users.create({ username: 'anna', password_hash: 'hash' })
+  userId = Number(user.id)
+})
+
+const chunk = (documentId: number, chunkIndex: number) => ({
+  document_id: documentId,
+  user_id: userId,
+  chunk_index: chunkIndex,
+  content: `chunk ${chunkIndex}`,
+  embedding: '[]',
+  metadata: '{}'
+})
+
+describe('SQLite storage', () => {
+  it('lists document chunks by user, limited to the given documents', async () => {
+    const first = await storage.documents.create({ user_id: userId, filename: 'a.txt', file_type: 'text/plain', size: 1, chunk_count: 0 })
+    const second = await storage.documents.create({ user_id: userId, filename: 'b.txt', file_type: 'text/plain', size: 1, chunk_count: 0 })
+    await storage.documentChunks.createMany([chunk(second.Id!, 1), chunk(first.Id!, 0), chunk(second.Id!, 0)])
+
+    const all = await storage.documentChunks.listByUser(userId)
+    expect(all.map(c => [c.document_id, c.chunk_index])).toEqual([[first.Id, 0], [second.Id, 0], [second.Id, 1]])
+
+    const selected = await storage.documentChunks.listByUser(userId, [second.Id!])
+    expect(selected.map(c => c.chunk_index)).toEqual([0, 1])
+    expect(await storage.documentChunks.listByUser(userId + 1)).toEqual([])
+
+    await storage.documentChunks.deleteByDocument(second.Id!)
+    expect(await storage.documentChunks.listByDocument(second.Id!)).toEqual([])
+  })
+
+  it('replaces a setting with the same key', async () => {
+    await storage.settings.save({ key: 'models', value: '["a"]' })
+    await storage.settings.save({ key: 'models', value: '["b"]', updated_by: 'admin' })
+
+    const setting = await storage.settings.findByKey('models')
+    expect(setting).toMatchObject({ value: '["b"]', updated_by: 'admin' })
+  })
+
+  it('lists usage of the given months', async () => {
+    const record = { user_id: userId, kind: 'chat' as const, model: 'm', prompt_tokens: 1, completion_tokens: 1, total_tokens: 2, audio_seconds: 0 }
+    await storage.usage.create({ ...record, usage_day: '2026-09-30', usage_month: '2026-09' })
+    await storage.usage.create({ ...record, usage_day: '2026-10-01', usage_month: '2026-10' })
+
+    expect(await storage.usage.listByUser(userId, ['2026-10'])).toHaveLength(1)
+    expect(await storage.usage.listByUser(userId, ['2026-09', '2026-10'])).toHaveLength(2)
+    expect(await storage.usage.listByUser(userId, [])).toEqual([])
+  })
+
+  it('keeps one login throttle row per key', async () => {
+    const throttle = { throttle_key: 'user:anna', failures: 1, last_failure_at: '2026-10-01T00:00:00.000Z', locked_until: null, expires_at: '2026-10-01T00:15:00.000Z' }
+    await storage.loginThrottle.save(throttle)
+    await storage.loginThrottle.save({ ...throttle, failures: 2 })
+
+    expect(await storage.loginThrottle.findByKey('user:anna')).toMatchObject({ failures: 2, locked_until: null })
+    await storage.loginThrottle.deleteByKey('user:anna')
+    expect(await storage.loginThrottle.findByKey('user:anna')).toBeNull()
+  })
+
+  it('records used tokens', async () => {
+    await storage.usedTokens.create({ jti: 'token-1', purpose: 'invite', expires_at: '2026-10-08T00:00:00.000Z', used_at: '2026-10-01T00:00:00.000Z' })
+    expect(await storage.usedTokens.exists('token-1')).toBe(true)
+    expect(await storage.usedTokens.exists('token-2')).toBe(false)
+  })
+})